@@ -6,12 +6,15 @@ import { signerToEcdsaValidator } from '@zerodev/ecdsa-validator';
 import { KERNEL_V3_1, getEntryPoint } from '@zerodev/sdk/constants';
 import { CONFIG, getConfig } from './config';
 import { extractAttestationUid } from './attest-permission';
+import { normalizeDomain } from './platform';
 
 /*
  * Identity attestation helper (Base Sepolia)
  * Usage (env only):
  *   PRIVATE_KEY=0x... GITHUB_USERNAME=alice WALLET_ADDRESS=0x... SIGNATURE=0x... GIST_URL=https://gist... \
  *   pnpm run attest:identity
+ * Non-GitHub platforms: set IDENTITY_DOMAIN (e.g. gitlab.com); the signed message is `<domain>:<username>`
+ * and GIST_URL points at the platform's proof (a public GitLab snippet, or a Codeberg/Gitea repo holding didgit-proof.json).
  */
 
 const ACTIVE = getConfig();
@@ -24,13 +27,15 @@ async function main() {
   const WALLET_ADDRESS = (process.env.WALLET_ADDRESS || '').trim();
   const SIGNATURE = (process.env.SIGNATURE || '').trim();
   const GIST_URL = (process.env.GIST_URL || '').trim();
+  const IDENTITY_DOMAIN = (process.env.IDENTITY_DOMAIN || '').trim();
 
   await attestIdentity({
     privateKey: PRIVATE_KEY,
     githubUsername: GITHUB_USERNAME,
     walletAddress: WALLET_ADDRESS,
     signature: SIGNATURE,
-    gistUrl: GIST_URL
+    gistUrl: GIST_URL,
+    domain: IDENTITY_DOMAIN || undefined
   });
 }
 
@@ -48,12 +53,14 @@ export async function attestIdentity(input: {
   walletAddress: string;
   signature: string;
   gistUrl: string;
+  domain?: string;
 }) {
   const PRIVATE_KEY = input.privateKey.trim();
   const GITHUB_USERNAME = input.githubUsername.trim();
   const WALLET_ADDRESS = input.walletAddress.trim();
   const SIGNATURE = input.signature.trim();
   const GIST_URL = input.gistUrl.trim();
+  const DOMAIN = normalizeDomain(input.domain);
 
   if (!PRIVATE_KEY.startsWith('0x')) throw new Error('PRIVATE_KEY required (0x-prefixed)');
   if (!GITHUB_USERNAME) throw new Error('GITHUB_USERNAME required');
@@ -95,10 +102,10 @@ export async function attestIdentity(input: {
   const data = encodeAbiParameters(
     parseAbiParameters('string domain,string username,address wallet,string message,bytes signature,string proof_url'),
     [
-      'github.com',
+      DOMAIN,
       GITHUB_USERNAME,
       WALLET_ADDRESS as `0x${string}`,
-      `github.com:${GITHUB_USERNAME}`,
+      `${DOMAIN}:${GITHUB_USERNAME}`,
       SIGNATURE as `0x${string}`,
       GIST_URL
     ]
@@ -0,0 +1,94 @@
+#!/usr/bin/env npx tsx
+/**
+ * Attest an org policy (ORG_POLICY schema) as an owner of the org.
+ *
+ * Required env:
+ * - PRIVATE_KEY: the wallet of your identity attestation (0x-prefixed)
+ * - IDENTITY_UID: your identity attestation UID; its user must be an owner of ORG
+ * - ORG: the org (GitHub org, GitLab group, ...)
+ * - ORG_REPO_GLOBS: repos that may be attested, e.g. `acme/{api,web},!acme/secret-*`
+ *
+ * Optional:
+ * - MIN_REVIEWS: approving reviews required on the merged pull request (GitHub only, default 0)
+ */
+import { createWalletClient, createPublicClient, http, encodeAbiParameters, parseAbiParameters } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CHAIN_PROFILES, getConfig } from './config';
+import { extractAttestationUid } from './attest-permission';
+import { parseMinReviews, parseOrgPolicyGlobs } from './org-policy';
+
+export function buildOrgPolicyData(org: string, globs: string[], minReviews: number) {
+  return encodeAbiParameters(parseAbiParameters('string, string, uint16'), [org, globs.join(','), minReviews]);
+}
+
+async function main() {
+  const active = getConfig();
+  const PRIVATE_KEY = (process.env.PRIVATE_KEY || '').trim();
+  const IDENTITY_UID = (process.env.IDENTITY_UID || '').trim();
+  const ORG = (process.env.ORG || '').trim();
+  const ORG_REPO_GLOBS = (process.env.ORG_REPO_GLOBS || '').trim();
+
+  if (!PRIVATE_KEY.startsWith('0x')) throw new Error('PRIVATE_KEY required (0x-prefixed)');
+  if (!IDENTITY_UID.startsWith('0x')) throw new Error('IDENTITY_UID required (0x-prefixed)');
+  if (!ORG) throw new Error('ORG required');
+  if (!ORG_REPO_GLOBS) throw new Error('ORG_REPO_GLOBS required (comma-separated)');
+  if (!active.orgPolicySchemaUid) throw new Error(`${CHAIN_PROFILES[active.name].envPrefix}_ORG_POLICY_SCHEMA_UID required`);
+
+  const globs = parseOrgPolicyGlobs(ORG, ORG_REPO_GLOBS);
+  const minReviews = parseMinReviews(process.env.MIN_REVIEWS || 0);
+
+  const account = privateKeyToAccount(PRIVATE_KEY as `0x${string}`);
+  const walletClient = createWalletClient({ account, chain: active.chain, transport: http(active.rpcUrl) });
+  const publicClient = createPublicClient({ chain: active.chain, transport: http(active.rpcUrl) });
+
+  const easAbi = [{
+    name: 'attest',
+    type: 'function',
+    inputs: [{ name: 'request', type: 'tuple', components: [
+      { name: 'schema', type: 'bytes32' },
+      { name: 'data', type: 'tuple', components: [
+        { name: 'recipient', type: 'address' },
+        { name: 'expirationTime', type: 'uint64' },
+        { name: 'revocable', type: 'bool' },
+        { name: 'refUID', type: 'bytes32' },
+        { name: 'data', type: 'bytes' },
+        { name: 'value', type: 'uint256' }
+      ]}
+    ]}],
+    outputs: [{ name: '', type: 'bytes32' }]
+  }] as const;
+
+  const req = {
+    schema: active.orgPolicySchemaUid as `0x${string}`,
+    data: {
+      recipient: account.address,
+      expirationTime: 0n,
+      revocable: true,
+      refUID: IDENTITY_UID as `0x${string}`,
+      data: buildOrgPolicyData(ORG, globs, minReviews),
+      value: 0n
+    }
+  };
+
+  console.log(`Org policy for ${ORG}:`, globs.join(', '));
+  if (minReviews > 0) console.log('Minimum approving reviews:', minReviews);
+  console.log('Identity UID:', IDENTITY_UID);
+  const tx = await walletClient.writeContract({ address: active.easAddress as `0x${string}`, abi: easAbi, functionName: 'attest', args: [req] });
+  console.log('TX', tx);
+  const rc = await publicClient.waitForTransactionReceipt({ hash: tx });
+  const uid = extractAttestationUid(rc.logs as any, active.easAddress);
+  console.log('UID', uid);
+  console.log('Explorer URL:', `${active.explorers.tx}/${tx}`);
+  if (uid) {
+    console.log('EASscan URL:', `${active.explorers.easAttestation}/${uid}`);
+  }
+  console.log('The attester only applies the policy while your identity user is an owner of the org.');
+}
+
+const isMain = process.argv[1] && /attest-org-policy\.(ts|js)$/.test(process.argv[1]);
+if (isMain) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -16,6 +16,8 @@ import { getConfig } from './config';
  *   --private-key 0x...
  *   --kernel 0x...
  *   --permission 0x...
+ *   --replaces 0x...   (UID of the permission this one rotates; recorded as refUID)
+ *   --expires <unix seconds>  (the permission's validUntil; recorded as the EAS expirationTime)
  */
 
 const ACTIVE = getConfig();
@@ -149,6 +151,40 @@ export function extractAttestationUid(
   return undefined;
 }
 
+// An indexed address topic is the address left-padded to 32 bytes
+function sameAddressTopic(topic: string | undefined, address: string): boolean {
+  return !!topic && topic.slice(-40).toLowerCase() === address.slice(2).toLowerCase();
+}
+
+/**
+ * Extract every Attested UID emitted by EAS in a receipt, in log order.
+ * Used for batched UserOps where one receipt carries several attestations; with `attester`
+ * set, only attestations made by that address count.
+ */
+export function extractAttestationUids(
+  logs: Array<{ address?: string; topics?: readonly string[]; data?: string }>,
+  easAddress: string,
+  attester?: string
+): string[] {
+  const attestedIndexedUidTopic0 = getEventSelector('Attested(bytes32,address,address,bytes32)').toLowerCase();
+  const attestedDataUidTopic0 = getEventSelector('Attested(address,address,bytes32,bytes32)').toLowerCase();
+  const uids: string[] = [];
+
+  for (const log of logs) {
+    if (log.address?.toLowerCase() !== easAddress.toLowerCase()) continue;
+    const topic0 = log.topics?.[0]?.toLowerCase();
+    if (topic0 === attestedIndexedUidTopic0 && log.topics?.[1]) {
+      if (attester && !sameAddressTopic(log.topics[3], attester)) continue;
+      uids.push(log.topics[1]);
+    } else if (topic0 === attestedDataUidTopic0 && log.data && log.data.length >= 66) {
+      if (attester && !sameAddressTopic(log.topics?.[2], attester)) continue;
+      uids.push(`0x${log.data.slice(2, 66)}`);
+    }
+  }
+
+  return uids;
+}
+
 function parseArgs() {
   const args = process.argv.slice(2);
   const out: Record<string, string> = {};
@@ -169,15 +205,21 @@ export async function attestPermission(input: {
   privateKey: string;
   kernelAddress: string;
   permissionData: string;
+  refUid?: string;
+  expirationTime?: number;
 }): Promise<{ tx: Hex; uid?: Hex }> {
   const PRIVATE_KEY = input.privateKey.trim();
   const USER_KERNEL = input.kernelAddress.trim();
   const PERMISSION_DATA = input.permissionData.trim();
+  const REF_UID = (input.refUid || ZERO_UID).trim();
 
   if (!PRIVATE_KEY.startsWith('0x')) throw new Error('PRIVATE_KEY required (0x-prefixed)');
   if (!USER_KERNEL.startsWith('0x')) throw new Error('USER_KERNEL required (0x-prefixed)');
   if (!PERMISSION_DATA.startsWith('0x')) throw new Error('PERMISSION_DATA required (0x-prefixed)');
   if (!/^0x[0-9a-fA-F]{64}$/.test(SCHEMA_UID)) throw new Error('permission schema UID must be 32-byte hex');
+  if (!/^0x[0-9a-fA-F]{64}$/.test(REF_UID)) throw new Error('replaced permission UID must be 32-byte hex');
+  const EXPIRATION_TIME = input.expirationTime ?? 0;
+  if (!Number.isInteger(EXPIRATION_TIME) || EXPIRATION_TIME < 0) throw new Error('expirationTime must be a unix timestamp in seconds');
 
   const account = privateKeyToAccount(PRIVATE_KEY as Hex);
   const walletClient = createWalletClient({ account, chain: ACTIVE.chain, transport: http(ACTIVE.rpcUrl) });
@@ -193,9 +235,9 @@ export async function attestPermission(input: {
     schema: SCHEMA_UID,
     data: {
       recipient: USER_KERNEL as Address,
-      expirationTime: 0n,
+      expirationTime: BigInt(EXPIRATION_TIME),
       revocable: true,
-      refUID: ZERO_UID as Hex,
+      refUID: REF_UID as Hex,
       data: PERMISSION_DATA as Hex,
       value: 0n,
     },
@@ -232,11 +274,15 @@ async function main() {
   const PRIVATE_KEY = (flags['private-key'] || process.env.PRIVATE_KEY || '').trim();
   const USER_KERNEL = (flags['kernel'] || process.env.KERNEL_ADDRESS || process.env.USER_KERNEL || '').trim();
   const PERMISSION_DATA = (flags['permission'] || process.env.PERMISSION_DATA || '').trim();
+  const REPLACES = (flags['replaces'] || '').trim();
+  const EXPIRES = (flags['expires'] || '').trim();
 
   await attestPermission({
     privateKey: PRIVATE_KEY,
     kernelAddress: USER_KERNEL,
-    permissionData: PERMISSION_DATA
+    permissionData: PERMISSION_DATA,
+    refUid: REPLACES || undefined,
+    expirationTime: EXPIRES ? Number(EXPIRES) : undefined
   });
 }
 
@@ -3,6 +3,7 @@ import { createWalletClient, createPublicClient, http, encodeAbiParameters, pars
 import { privateKeyToAccount } from 'viem/accounts';
 import { getConfig } from './config';
 import { extractAttestationUid } from './attest-permission';
+import { parseRepoGlobs, splitRepoGlobs } from './repo-globs';
 
 const ACTIVE = getConfig();
 const EAS = ACTIVE.easAddress;
@@ -14,16 +15,18 @@ export function buildRepoGlobsData(globs: string[]) {
   return encodeAbiParameters(parseAbiParameters('string'), [joined]);
 }
 
-function parseGlobs(input: string): string[] {
-  const globs = input
-    .split(',')
-    .map((g) => g.trim())
-    .filter(Boolean);
-  const invalid = globs.filter((g) => g.startsWith('*/'));
-  if (invalid.length > 0) {
-    throw new Error(`Invalid repo globs (no */ prefix allowed): ${invalid.join(', ')}`);
+/**
+ * Split and validate REPO_GLOBS, failing with every invalid glob and why.
+ */
+export function parseGlobs(input: string): string[] {
+  const { globs, errors } = parseRepoGlobs(splitRepoGlobs(input));
+  if (errors.length > 0) {
+    throw new Error(`Invalid repo globs:\n${errors.map((e) => `  - ${e.message}`).join('\n')}`);
   }
-  return globs;
+  if (globs.length > 0 && globs.every((g) => g.exclude)) {
+    throw new Error('Invalid repo globs: only exclusions (!owner/...) given; add at least one glob to include');
+  }
+  return globs.map((g) => g.source);
 }
 
 async function main() {
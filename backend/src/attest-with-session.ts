@@ -5,23 +5,26 @@
  * Requires only ATTESTER_PRIVKEY at runtime - no user private key.
  * 
  * User's Kernel pays gas, attestation comes FROM user's Kernel address.
+ * With `paymasterRpc` set, an ERC-4337 paymaster sponsors the UserOp instead (see sponsorship.ts).
  */
 
 import 'dotenv/config';
-import { createPublicClient, http, type Address, type Hex, parseAbi, encodeAbiParameters, parseAbiParameters } from 'viem';
+import { createPublicClient, http, type Address, type Hex, type Log, parseAbi, encodeAbiParameters, encodeFunctionData, parseAbiParameters } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { 
-  createKernelAccountClient
+  createKernelAccountClient,
+  createZeroDevPaymasterClient
 } from '@zerodev/sdk';
 import { deserializePermissionAccount } from '@zerodev/permissions';
 import { KERNEL_V3_1, getEntryPoint } from '@zerodev/sdk/constants';
 import { http as viemHttp } from 'viem';
-import { getConfig } from './config';
-import { extractAttestationUid } from './attest-permission';
+import { getConfig, type ActiveChainConfig } from './config';
+import { extractAttestationUids } from './attest-permission';
+import { qualifiedRepoName } from './platform';
+import { createLogger } from './logger';
+import { kernelBalance, userOpDuration } from './metrics';
 
-const ACTIVE = getConfig();
-const EAS_ADDRESS = ACTIVE.easAddress as Address;
-const CONTRIBUTION_SCHEMA_UID = ACTIVE.contributionSchemaUid as Hex;
+const log = createLogger('attest-session');
 
 const easAbi = parseAbi([
   'function attest((bytes32 schema,(address recipient,uint64 expirationTime,bool revocable,bytes32 refUID,bytes data,uint256 value) data)) returns (bytes32)'
@@ -33,127 +36,384 @@ export interface AttestCommitRequest {
   commitHash: string;
   repoOwner: string;
   repoName: string;
+  domain?: string;              // platform domain; absent means github.com
   author: string;
   message: string;
 }
 
+export interface AttestPullRequestRequest {
+  userWalletAddress: Address;
+  identityAttestationUid: Hex;
+  repoOwner: string;
+  repoName: string;
+  prNumber: number;
+  mergeCommitSha: string;
+  baseBranch: string;
+  title: string;
+  additions: number;
+  deletions: number;
+  mergedBy: string;
+}
+
+export interface AttestReviewRequest {
+  userWalletAddress: Address;
+  identityAttestationUid: Hex;
+  repoOwner: string;
+  repoName: string;
+  prNumber: number;
+  reviewId: number;
+  state: 'approved' | 'changes_requested';
+  reviewer: string;
+}
+
 export interface SessionConfig {
   serializedAccount: string;
   attesterPrivKey: Hex;
   bundlerRpc: string;
+  paymasterRpc?: string;        // sponsor gas through this paymaster instead of the Kernel balance
+  chain?: ActiveChainConfig;    // chain to attest on; defaults to CHAIN
 }
 
-export async function attestCommitWithSession(
-  req: AttestCommitRequest,
-  config: SessionConfig
-): Promise<{ success: boolean; attestationUid?: Hex; txHash?: Hex; error?: string }> {
-  try {
-    console.log('[attest-session] Commit:', req.commitHash.slice(0, 12));
-    console.log('[attest-session] User wallet:', req.userWalletAddress);
+export interface AttestResult {
+  success: boolean;
+  attestationUid?: Hex;
+  txHash?: Hex;
+  userOpHash?: Hex;
+  gasCostWei?: bigint;          // actual gas cost of the UserOp (paid by the paymaster when sponsored)
+  sponsored?: boolean;
+  error?: string;
+}
 
-    const publicClient = createPublicClient({
-      chain: ACTIVE.chain,
-      transport: http(ACTIVE.rpcUrl)
-    });
+export interface BatchAttestResult {
+  success: boolean;
+  results: Array<{ commitHash: string; attestationUid?: Hex }>;
+  txHash?: Hex;
+  userOpHash?: Hex;
+  gasCostWei?: bigint;
+  sponsored?: boolean;
+  error?: string;
+}
+
+export function getBatchSize(): number {
+  const size = Number(process.env.ATTEST_BATCH_SIZE || '20');
+  return Number.isFinite(size) && size >= 1 ? Math.floor(size) : 1;
+}
+
+export function buildContributionAttestationData(req: AttestCommitRequest) {
+  // Encode contribution data according to schema
+  const contributionData = encodeAbiParameters(
+    parseAbiParameters('string, string, string, string, uint64, bytes32'),
+    [
+      qualifiedRepoName(req.domain, req.repoOwner, req.repoName),
+      req.commitHash,
+      req.author,
+      req.message,
+      BigInt(Math.floor(Date.now() / 1000)),
+      req.identityAttestationUid
+    ]
+  );
+
+  return {
+    recipient: req.userWalletAddress,
+    expirationTime: 0n,
+    revocable: true,
+    refUID: req.identityAttestationUid,
+    data: contributionData,
+    value: 0n
+  };
+}
+
+/**
+ * Build the Kernel calls for a batch of commits: one EAS `attest` call per commit, sent as a single
+ * `executeBatch` (the session key call policy only allows `attest`). All requests must belong to the same user.
+ */
+export function buildBatchCalls(reqs: AttestCommitRequest[], chain: ActiveChainConfig = getConfig()): Array<{ to: Address; value: bigint; data: Hex }> {
+  const easAddress = chain.easAddress as Address;
+  const schema = chain.contributionSchemaUid as Hex;
+  return reqs.map((req) => ({
+    to: easAddress,
+    value: BigInt(0),
+    data: encodeFunctionData({
+      abi: easAbi,
+      functionName: 'attest',
+      args: [{ schema, data: buildContributionAttestationData(req) }]
+    })
+  }));
+}
 
-    const entryPoint = getEntryPoint('0.7');
+/**
+ * Send the calls as one UserOp from the user's Kernel. Every call is an EAS `attest`, so the UserOp must emit
+ * exactly one Attested event per call from the Kernel; UIDs come back in call order. Throws when the UserOp
+ * reverts or the count does not match.
+ */
+async function sendSessionUserOp(
+  calls: Array<{ to: Address; value: bigint; data: Hex }>,
+  config: SessionConfig
+) {
+  const chain = config.chain ?? getConfig();
+  const publicClient = createPublicClient({
+    chain: chain.chain,
+    transport: http(chain.rpcUrl)
+  });
 
-    // Deserialize the permission account
-    const kernelAccount = await deserializePermissionAccount(
-      publicClient,
-      entryPoint,
-      KERNEL_V3_1,
-      config.serializedAccount
-    );
+  const entryPoint = getEntryPoint('0.7');
 
-    console.log('[attest-session] Kernel address:', kernelAccount.address);
+  // Deserialize the permission account
+  const kernelAccount = await deserializePermissionAccount(
+    publicClient,
+    entryPoint,
+    KERNEL_V3_1,
+    config.serializedAccount
+  );
 
-    // Check balance
+  // Check balance (a sponsored UserOp does not spend it)
+  if (!config.paymasterRpc) {
     const balance = await publicClient.getBalance({ address: kernelAccount.address });
-    console.log('[attest-session] Kernel balance:', Number(balance) / 1e18, 'ETH');
+    const balanceEth = Number(balance) / 1e18;
+    kernelBalance.set({ chain: chain.name, kernel: kernelAccount.address.toLowerCase() }, balanceEth);
+    log.info(`Kernel balance: ${balanceEth} ETH`, { kernel: kernelAccount.address, balanceEth });
 
     if (balance < BigInt(1e14)) { // Less than 0.0001 ETH
       throw new Error('Insufficient Kernel balance for gas');
     }
+  }
 
-    // Create kernel client
-    // Note: entryPoint is inferred from the account in SDK v5.5+
-    const kernelClient = createKernelAccountClient({
-      account: kernelAccount,
-      chain: ACTIVE.chain,
-      bundlerTransport: viemHttp(config.bundlerRpc)
-    });
+  const paymasterClient = config.paymasterRpc
+    ? createZeroDevPaymasterClient({ chain: chain.chain, transport: viemHttp(config.paymasterRpc) })
+    : undefined;
 
-    // Encode contribution data according to schema
-    const contributionData = encodeAbiParameters(
-      parseAbiParameters('string, string, string, string, uint64, bytes32'),
-      [
-        `${req.repoOwner}/${req.repoName}`,
-        req.commitHash,
-        req.author,
-        req.message,
-        BigInt(Math.floor(Date.now() / 1000)),
-        req.identityAttestationUid
-      ]
-    );
-
-    // Create attestation request
-    const attestationRequest = {
-      schema: CONTRIBUTION_SCHEMA_UID,
-      data: {
-        recipient: req.userWalletAddress,
-        expirationTime: 0n,
-        revocable: true,
-        refUID: req.identityAttestationUid,
-        data: contributionData,
-        value: 0n
+  // Create kernel client
+  // Note: entryPoint is inferred from the account in SDK v5.5+
+  const kernelClient = createKernelAccountClient({
+    account: kernelAccount,
+    chain: chain.chain,
+    bundlerTransport: viemHttp(config.bundlerRpc),
+    ...(paymasterClient && {
+      paymaster: {
+        getPaymasterData: (userOperation) => paymasterClient.sponsorUserOperation({ userOperation })
       }
-    };
-
-    console.log('[attest-session] Sending attestation UserOp...');
-
-    // Encode the attest function call properly
-    const { encodeFunctionData } = await import('viem');
-    const attestCallData = encodeFunctionData({
-      abi: easAbi,
-      functionName: 'attest',
-      args: [attestationRequest]
-    });
+    })
+  });
 
-    // Send UserOp
+  // Send UserOp
+  const endTimer = userOpDuration.startTimer({ chain: chain.name });
+  try {
     const userOpHash = await kernelClient.sendUserOperation({
-      callData: await kernelAccount.encodeCalls([
-        {
-          to: EAS_ADDRESS,
-          value: BigInt(0),
-          data: attestCallData
-        }
-      ])
+      callData: await kernelAccount.encodeCalls(calls)
     });
 
-    console.log('[attest-session] UserOp hash:', userOpHash);
+    log.info(`UserOp hash: ${userOpHash}`, { kernel: kernelAccount.address, userOpHash, sponsored: !!paymasterClient });
 
     // Wait for receipt
     const receipt = await kernelClient.waitForUserOperationReceipt({
       hash: userOpHash
     });
 
-    console.log('[attest-session] TX hash:', receipt.receipt.transactionHash);
+    endTimer({ outcome: receipt.success ? 'success' : 'reverted' });
+    const txHash = receipt.receipt.transactionHash;
+    log.info(`TX hash: ${txHash}`, { kernel: kernelAccount.address, txHash });
+    if (!receipt.success) {
+      throw new Error(`UserOp ${userOpHash} reverted${receipt.reason ? `: ${receipt.reason}` : ''} (tx ${txHash})`);
+    }
+
+    // The UserOp's own logs, not the bundle's: other UserOps in the same bundle may attest too
+    const logs: Log[] = receipt.logs;
+    const attestationUids = extractAttestationUids(logs, chain.easAddress, kernelAccount.address) as Hex[];
+    if (attestationUids.length !== calls.length) {
+      throw new Error(`Expected ${calls.length} attestation UID(s) from UserOp ${userOpHash}, found ${attestationUids.length} (tx ${txHash})`);
+    }
+    return { txHash, attestationUids, userOpHash, gasCostWei: receipt.actualGasCost, sponsored: !!paymasterClient };
+  } catch (e) {
+    endTimer({ outcome: 'error' });
+    throw e;
+  }
+}
+
+export async function attestCommitWithSession(
+  req: AttestCommitRequest,
+  config: SessionConfig
+): Promise<AttestResult> {
+  try {
+    log.info('Sending attestation UserOp...', { sha: req.commitHash, wallet: req.userWalletAddress });
+
+    const chain = config.chain ?? getConfig();
+    const { attestationUids: [attestationUid], ...op } = await sendSessionUserOp(buildBatchCalls([req], chain), config);
 
-    // Parse logs to get attestation UID
-    const attestationUid = extractAttestationUid(receipt.receipt.logs as any, EAS_ADDRESS) as Hex | undefined;
+    log.info(`Attestation UID: ${attestationUid}`, { sha: req.commitHash, attestationUid });
 
-    console.log('[attest-session] ✓ Attestation UID:', attestationUid);
+    return {
+      success: true,
+      attestationUid,
+      ...op
+    };
+  } catch (e) {
+    log.error('Attestation UserOp failed', e, { sha: req.commitHash });
+    return {
+      success: false,
+      error: (e as Error).message ?? 'Unknown error'
+    };
+  }
+}
+
+export function buildPullRequestAttestationData(req: AttestPullRequestRequest) {
+  // Schema: string repo, uint64 prNumber, string mergeCommitSha, string baseBranch, string title,
+  //         uint64 additions, uint64 deletions, string mergedBy, bytes32 identityUid
+  const prData = encodeAbiParameters(
+    parseAbiParameters('string, uint64, string, string, string, uint64, uint64, string, bytes32'),
+    [
+      `${req.repoOwner}/${req.repoName}`,
+      BigInt(req.prNumber),
+      req.mergeCommitSha,
+      req.baseBranch,
+      req.title,
+      BigInt(req.additions),
+      BigInt(req.deletions),
+      req.mergedBy,
+      req.identityAttestationUid
+    ]
+  );
+
+  return {
+    recipient: req.userWalletAddress,
+    expirationTime: 0n,
+    revocable: true,
+    refUID: req.identityAttestationUid,
+    data: prData,
+    value: 0n
+  };
+}
+
+export async function attestPullRequestWithSession(
+  req: AttestPullRequestRequest,
+  config: SessionConfig
+): Promise<AttestResult> {
+  log.info(`PR: ${req.repoOwner}/${req.repoName}#${req.prNumber}`, { repo: `${req.repoOwner}/${req.repoName}`, pr: req.prNumber });
+  const chain = config.chain ?? getConfig();
+  return attestSingleWithSession(
+    chain.pullRequestSchemaUid as Hex | undefined,
+    `Pull request schema UID not configured (${chain.name.toUpperCase()}_PULL_REQUEST_SCHEMA_UID)`,
+    () => buildPullRequestAttestationData(req),
+    req.userWalletAddress,
+    config
+  );
+}
+
+export function buildReviewAttestationData(req: AttestReviewRequest) {
+  // Schema: string repo, uint64 prNumber, uint64 reviewId, string state, string reviewer, bytes32 identityUid
+  const reviewData = encodeAbiParameters(
+    parseAbiParameters('string, uint64, uint64, string, string, bytes32'),
+    [
+      `${req.repoOwner}/${req.repoName}`,
+      BigInt(req.prNumber),
+      BigInt(req.reviewId),
+      req.state,
+      req.reviewer,
+      req.identityAttestationUid
+    ]
+  );
+
+  return {
+    recipient: req.userWalletAddress,
+    expirationTime: 0n,
+    revocable: true,
+    refUID: req.identityAttestationUid,
+    data: reviewData,
+    value: 0n
+  };
+}
+
+export async function attestReviewWithSession(
+  req: AttestReviewRequest,
+  config: SessionConfig
+): Promise<AttestResult> {
+  log.info(`Review: ${req.repoOwner}/${req.repoName}#${req.prNumber} (${req.state})`, { repo: `${req.repoOwner}/${req.repoName}`, pr: req.prNumber, reviewId: req.reviewId });
+  const chain = config.chain ?? getConfig();
+  return attestSingleWithSession(
+    chain.reviewSchemaUid as Hex | undefined,
+    `Review schema UID not configured (${chain.name.toUpperCase()}_REVIEW_SCHEMA_UID)`,
+    () => buildReviewAttestationData(req),
+    req.userWalletAddress,
+    config
+  );
+}
+
+/**
+ * One `attest` call against a non-commit schema (pull requests, reviews), sent from the user's Kernel.
+ */
+async function attestSingleWithSession(
+  schemaUid: Hex | undefined,
+  missingSchemaError: string,
+  buildData: () => ReturnType<typeof buildContributionAttestationData>,
+  userWalletAddress: Address,
+  config: SessionConfig
+): Promise<AttestResult> {
+  try {
+    if (!schemaUid) {
+      throw new Error(missingSchemaError);
+    }
+    log.info('Sending attestation UserOp...', { wallet: userWalletAddress });
+
+    const easAddress = (config.chain ?? getConfig()).easAddress as Address;
+    const { attestationUids: [attestationUid], ...op } = await sendSessionUserOp([{
+      to: easAddress,
+      value: BigInt(0),
+      data: encodeFunctionData({
+        abi: easAbi,
+        functionName: 'attest',
+        args: [{ schema: schemaUid, data: buildData() }]
+      })
+    }], config);
+
+    log.info(`Attestation UID: ${attestationUid}`, { attestationUid });
 
     return {
       success: true,
       attestationUid,
-      txHash: receipt.receipt.transactionHash
+      ...op
+    };
+  } catch (e) {
+    log.error('Attestation UserOp failed', e);
+    return {
+      success: false,
+      error: (e as Error).message ?? 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Attest several commits for one user in a single UserOp (one gas payment).
+ * UIDs are matched to commits by the order of the Kernel's Attested logs, which follows call order.
+ */
+export async function attestCommitsWithSession(
+  reqs: AttestCommitRequest[],
+  config: SessionConfig
+): Promise<BatchAttestResult> {
+  if (reqs.length === 0) return { success: true, results: [] };
+
+  try {
+    const wallets = new Set(reqs.map((r) => r.userWalletAddress.toLowerCase()));
+    if (wallets.size > 1) {
+      throw new Error('Batch contains commits for more than one user');
+    }
+
+    log.info(`Batch of ${reqs.length} commit(s)`, { wallet: reqs[0].userWalletAddress, commits: reqs.length });
+
+    const chain = config.chain ?? getConfig();
+    const { attestationUids, ...op } = await sendSessionUserOp(buildBatchCalls(reqs, chain), config);
+
+    const results = reqs.map((req, i) => ({ commitHash: req.commitHash, attestationUid: attestationUids[i] }));
+    log.info(`Batch attested ${attestationUids.length} commit(s)`, { txHash: op.txHash });
+
+    return {
+      success: true,
+      results,
+      ...op
     };
   } catch (e) {
-    console.error('[attest-session] Error:', e);
+    log.error('Batch UserOp failed', e, { commits: reqs.length });
     return {
       success: false,
+      results: reqs.map((req) => ({ commitHash: req.commitHash })),
       error: (e as Error).message ?? 'Unknown error'
     };
   }
@@ -162,7 +422,7 @@ export async function attestCommitWithSession(
 // Test if run directly
 async function main() {
   const ATTESTER_PRIVKEY = (process.env.ATTESTER_PRIVKEY || process.env.VERIFIER_PRIVKEY) as Hex;
-  const BUNDLER_RPC = process.env.BUNDLER_RPC;
+  const BUNDLER_RPC = getConfig().bundlerRpc;
   
   if (!ATTESTER_PRIVKEY) throw new Error('ATTESTER_PRIVKEY required');
   if (!BUNDLER_RPC) throw new Error('BUNDLER_RPC required');
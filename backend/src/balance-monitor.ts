@@ -0,0 +1,221 @@
+/**
+ * Kernel gas balance checks before each run, with low-balance notifications.
+ *
+ * A registered user's Kernel pays the gas for their attestations. When its balance is
+ * below `CONFIG.minBalanceEth.kernelForAttestations`, the service records that user's
+ * contributions as `blocked` (reason `unfunded: <kernel>`) and re-queues them on every run
+ * until the Kernel is topped up, instead of letting the UserOp fail.
+ *
+ * Notifications go out when a Kernel first drops below the threshold and when it is funded
+ * again, to every sink configured by env:
+ * - BALANCE_NOTIFY_WEBHOOK: URL that receives each alert as a JSON POST
+ * - BALANCE_NOTIFY_FILE: file that each alert is appended to as a JSON line
+ * - BALANCE_NOTIFY_EMAIL: recipient for the email stub (logs the message; no mail transport yet)
+ */
+import fs from 'fs';
+import path from 'path';
+import type { Address } from 'viem';
+import { CONFIG } from './config';
+import { createLogger } from './logger';
+import { kernelBalance } from './metrics';
+
+const log = createLogger('balance');
+
+export interface KernelOwner {
+  domain: string;
+  username: string;
+  kernelAddress: Address;
+}
+
+export interface KernelBalanceStatus {
+  kernelAddress: Address;
+  balanceEth: number;
+  thresholdEth: number;
+  funded: boolean;
+  checkedAt: string;
+}
+
+export type BalanceAlertKind = 'unfunded' | 'funded';
+
+export interface BalanceAlert {
+  kind: BalanceAlertKind;
+  domain: string;
+  username: string;
+  kernelAddress: Address;
+  balanceEth: number;
+  thresholdEth: number;
+  at: string;
+}
+
+export interface NotificationSink {
+  readonly name: string;
+  notify(alert: BalanceAlert): Promise<void>;
+}
+
+export function unfundedReason(kernelAddress: string) {
+  return `unfunded: ${kernelAddress.toLowerCase()}`;
+}
+
+export function formatBalanceAlert(alert: BalanceAlert): { subject: string; text: string } {
+  const who = `${alert.domain}:${alert.username}`;
+  if (alert.kind === 'funded') {
+    return {
+      subject: `didgit: Kernel for ${who} is funded again`,
+      text: `Kernel ${alert.kernelAddress} holds ${alert.balanceEth} ETH. Blocked contributions will be attested on the next run.`
+    };
+  }
+  return {
+    subject: `didgit: Kernel for ${who} needs gas`,
+    text: `Kernel ${alert.kernelAddress} holds ${alert.balanceEth} ETH, below the ${alert.thresholdEth} ETH needed for attestations. ` +
+      'New contributions are queued as blocked until it is topped up.'
+  };
+}
+
+export class WebhookSink implements NotificationSink {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private fetchFn: typeof fetch = fetch) {}
+
+  async notify(alert: BalanceAlert): Promise<void> {
+    const res = await this.fetchFn(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...alert, ...formatBalanceAlert(alert) })
+    });
+    if (!res.ok) throw new Error(`Notification webhook returned ${res.status}`);
+  }
+}
+
+export class FileSink implements NotificationSink {
+  readonly name = 'file';
+
+  constructor(private filename: string) {}
+
+  async notify(alert: BalanceAlert): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(this.filename)), { recursive: true });
+    await fs.promises.appendFile(this.filename, `${JSON.stringify(alert)}\n`);
+  }
+}
+
+/**
+ * Placeholder until a mail transport is chosen: logs the message it would send.
+ */
+export class EmailSink implements NotificationSink {
+  readonly name = 'email';
+
+  constructor(private to: string) {}
+
+  async notify(alert: BalanceAlert): Promise<void> {
+    const { subject, text } = formatBalanceAlert(alert);
+    log.info(`Email to ${this.to}: ${subject}`, { to: this.to, subject, text, kernel: alert.kernelAddress });
+  }
+}
+
+export function createNotificationSinks(env: NodeJS.ProcessEnv = process.env): NotificationSink[] {
+  const sinks: NotificationSink[] = [];
+  if (env.BALANCE_NOTIFY_WEBHOOK) sinks.push(new WebhookSink(env.BALANCE_NOTIFY_WEBHOOK));
+  if (env.BALANCE_NOTIFY_FILE) sinks.push(new FileSink(env.BALANCE_NOTIFY_FILE));
+  if (env.BALANCE_NOTIFY_EMAIL) sinks.push(new EmailSink(env.BALANCE_NOTIFY_EMAIL));
+  return sinks;
+}
+
+interface BalanceMonitorOptions {
+  getBalance: (address: Address) => Promise<bigint>;
+  chain: string;                   // `chain` label of the balance metric
+  thresholdEth?: number;
+  sinks?: NotificationSink[];
+}
+
+export class BalanceMonitor {
+  private getBalance: (address: Address) => Promise<bigint>;
+  private chain: string;
+  private thresholdEth: number;
+  private sinks: NotificationSink[];
+  private statuses: Map<string, KernelBalanceStatus>; // lowercased kernel -> last check
+
+  constructor(options: BalanceMonitorOptions) {
+    this.getBalance = options.getBalance;
+    this.chain = options.chain;
+    this.thresholdEth = options.thresholdEth ?? CONFIG.minBalanceEth.kernelForAttestations;
+    this.sinks = options.sinks ?? createNotificationSinks();
+    this.statuses = new Map();
+  }
+
+  /**
+   * Check every Kernel once and notify on funded/unfunded transitions. Returns the
+   * lowercased addresses of unfunded Kernels. A Kernel whose balance cannot be read keeps
+   * its previous status (funded if it was never checked) so RPC hiccups do not block users.
+   */
+  async check(owners: KernelOwner[]): Promise<Set<string>> {
+    const unfunded = new Set<string>();
+    const checked = new Set<string>();
+
+    for (const owner of owners) {
+      const key = owner.kernelAddress.toLowerCase();
+      if (checked.has(key)) {
+        if (this.statuses.get(key)?.funded === false) unfunded.add(key);
+        continue;
+      }
+      checked.add(key);
+
+      const previous = this.statuses.get(key);
+      let balanceEth: number;
+      try {
+        balanceEth = Number(await this.getBalance(owner.kernelAddress)) / 1e18;
+      } catch (e) {
+        log.warn(`Could not read balance of ${owner.kernelAddress}: ${(e as Error)?.message ?? e}`, { user: owner.username, kernel: owner.kernelAddress });
+        if (previous && !previous.funded) unfunded.add(key);
+        continue;
+      }
+
+      kernelBalance.set({ chain: this.chain, kernel: key }, balanceEth);
+      const status: KernelBalanceStatus = {
+        kernelAddress: owner.kernelAddress,
+        balanceEth,
+        thresholdEth: this.thresholdEth,
+        funded: balanceEth >= this.thresholdEth,
+        checkedAt: new Date().toISOString()
+      };
+      this.statuses.set(key, status);
+      if (!status.funded) unfunded.add(key);
+
+      // Alert on the first low reading and on recovery, not on every run
+      const becameUnfunded = !status.funded && previous?.funded !== false;
+      const becameFunded = status.funded && previous?.funded === false;
+      if (becameUnfunded || becameFunded) {
+        await this.notify({
+          kind: status.funded ? 'funded' : 'unfunded',
+          domain: owner.domain,
+          username: owner.username,
+          kernelAddress: owner.kernelAddress,
+          balanceEth,
+          thresholdEth: this.thresholdEth,
+          at: status.checkedAt
+        });
+      }
+    }
+
+    return unfunded;
+  }
+
+  getStatus(kernelAddress: string): KernelBalanceStatus | null {
+    const status = this.statuses.get(kernelAddress.toLowerCase());
+    return status ? { ...status } : null;
+  }
+
+  private async notify(alert: BalanceAlert): Promise<void> {
+    const fields = { user: alert.username, kernel: alert.kernelAddress, balanceEth: alert.balanceEth };
+    if (alert.kind === 'unfunded') {
+      log.warn(`Kernel ${alert.kernelAddress} for ${alert.domain}:${alert.username} is below ${alert.thresholdEth} ETH`, fields);
+    } else {
+      log.info(`Kernel ${alert.kernelAddress} for ${alert.domain}:${alert.username} is funded again`, fields);
+    }
+    for (const sink of this.sinks) {
+      try {
+        await sink.notify(alert);
+      } catch (e) {
+        log.error(`Balance notification via ${sink.name} failed`, e, fields);
+      }
+    }
+  }
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env npx tsx
+/**
+ * Bootstrap a local devnet (Anvil) for offline integration tests.
+ *
+ * Deploys the EAS SchemaRegistry and EAS contracts (bytecode from
+ * @ethereum-attestation-service/eas-contracts) and registers every didgit schema, then
+ * prints the `LOCAL_*` env vars for CHAIN=local (and writes them with `--out <file>`).
+ *
+ * Usage:
+ *   anvil &
+ *   pnpm run local:bootstrap -- --out .env.local
+ *
+ * Optional env:
+ * - LOCAL_RPC_URL (default http://127.0.0.1:8545)
+ * - LOCAL_DEPLOYER_PRIVKEY (default: Anvil's first dev account)
+ * - LOCAL_EAS_ADDRESS / LOCAL_SCHEMA_REGISTRY_ADDRESS (reused when code is deployed there)
+ * - LOCAL_*_SCHEMA_UID (reused instead of registering again)
+ */
+import 'dotenv/config';
+import fs from 'fs';
+import { createPublicClient, createWalletClient, http, zeroAddress, type Abi, type Address, type Hex, type PublicClient, type WalletClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CHAIN_PROFILES } from './config';
+import { registerSchemas } from './create-schemas';
+
+// Anvil's first default dev account; only ever funded on local devnets
+const ANVIL_DEV_PRIVKEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+type Artifact = { abi: Abi; bytecode: Hex };
+
+function loadArtifact(name: 'EAS' | 'SchemaRegistry'): Artifact {
+  return require(`@ethereum-attestation-service/eas-contracts/artifacts/contracts/${name}.sol/${name}.json`);
+}
+
+function readOutPath(argv: string[]): string | undefined {
+  const i = argv.indexOf('--out');
+  return i >= 0 ? argv[i + 1] : undefined;
+}
+
+async function hasCode(publicClient: PublicClient, address: string | undefined): Promise<boolean> {
+  if (!address || !/^0x[0-9a-fA-F]{40}$/.test(address)) return false;
+  const code = await publicClient.getCode({ address: address as Address });
+  return !!code && code !== '0x';
+}
+
+async function deploy(publicClient: PublicClient, walletClient: WalletClient, name: 'EAS' | 'SchemaRegistry', args: unknown[]) {
+  const { abi, bytecode } = loadArtifact(name);
+  const hash = await walletClient.deployContract({
+    abi,
+    bytecode,
+    args,
+    account: walletClient.account!,
+    chain: walletClient.chain
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (!receipt.contractAddress) throw new Error(`${name} deployment failed (tx ${hash})`);
+  console.log(`[bootstrap] ${name}: ${receipt.contractAddress}`);
+  return receipt.contractAddress;
+}
+
+export async function bootstrapLocal(env: NodeJS.ProcessEnv = process.env): Promise<Record<string, string>> {
+  const profile = CHAIN_PROFILES.local;
+  const rpcUrl = env.LOCAL_RPC_URL || profile.defaultRpcUrl;
+  const account = privateKeyToAccount((env.LOCAL_DEPLOYER_PRIVKEY || ANVIL_DEV_PRIVKEY) as Hex);
+
+  const publicClient = createPublicClient({ chain: profile.chain, transport: http(rpcUrl) });
+  const walletClient = createWalletClient({ account, chain: profile.chain, transport: http(rpcUrl) });
+
+  const chainId = await publicClient.getChainId();
+  if (chainId !== profile.chain.id) {
+    throw new Error(`Refusing to bootstrap chain ${chainId} at ${rpcUrl}: expected a local devnet (${profile.chain.id})`);
+  }
+
+  console.log('[bootstrap] RPC:', rpcUrl);
+  console.log('[bootstrap] Deployer:', account.address);
+
+  const schemaRegistry = await hasCode(publicClient, env.LOCAL_SCHEMA_REGISTRY_ADDRESS)
+    ? env.LOCAL_SCHEMA_REGISTRY_ADDRESS as Address
+    : await deploy(publicClient, walletClient, 'SchemaRegistry', []);
+  const eas = await hasCode(publicClient, env.LOCAL_EAS_ADDRESS) && schemaRegistry === env.LOCAL_SCHEMA_REGISTRY_ADDRESS
+    ? env.LOCAL_EAS_ADDRESS as Address
+    : await deploy(publicClient, walletClient, 'EAS', [schemaRegistry]);
+
+  // Schemas registered on another registry are meaningless here
+  const schemaEnv = schemaRegistry === env.LOCAL_SCHEMA_REGISTRY_ADDRESS ? env : {};
+  const uids = await registerSchemas({ publicClient, walletClient, schemaRegistry, envPrefix: profile.envPrefix, env: schemaEnv });
+
+  return {
+    CHAIN: 'local',
+    LOCAL_RPC_URL: rpcUrl,
+    LOCAL_EAS_ADDRESS: eas,
+    LOCAL_SCHEMA_REGISTRY_ADDRESS: schemaRegistry,
+    LOCAL_RESOLVER_ADDRESS: env.LOCAL_RESOLVER_ADDRESS || zeroAddress,
+    ...uids
+  };
+}
+
+async function main() {
+  const vars = await bootstrapLocal();
+  const lines = Object.entries(vars).map(([key, value]) => `${key}=${value}`);
+  console.log();
+  console.log(lines.join('\n'));
+
+  const out = readOutPath(process.argv);
+  if (out) {
+    fs.writeFileSync(out, `${lines.join('\n')}\n`);
+    console.log(`[bootstrap] Wrote ${out}`);
+  }
+}
+
+const isMain = process.argv[1] && /bootstrap-local\.(ts|js)$/.test(process.argv[1]);
+if (isMain) {
+  main().catch((err) => {
+    console.error('[bootstrap] Failed. Is anvil running at LOCAL_RPC_URL?');
+    console.error(err);
+    process.exit(1);
+  });
+}
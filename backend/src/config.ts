@@ -1,10 +1,11 @@
-import { base, arbitrum } from 'viem/chains';
+import type { Chain } from 'viem';
+import { base, arbitrum, baseSepolia, arbitrumSepolia, anvil } from 'viem/chains';
 
-export type ChainKey = 'base' | 'arbitrum';
+export type ChainKey = 'base' | 'arbitrum' | 'base-sepolia' | 'arbitrum-sepolia' | 'local';
 
 type ChainConfig = {
   name: ChainKey;
-  chain: typeof base | typeof arbitrum;
+  chain: Chain;
   chainId: number;
   rpcUrl: string;
   easAddress: string;
@@ -14,7 +15,12 @@ type ChainConfig = {
   contributionSchemaUid: string;
   repoGlobsSchemaUid: string;
   permissionSchemaUid: string;
+  pullRequestSchemaUid?: string;
+  reviewSchemaUid?: string;
+  orgPolicySchemaUid?: string;
   faucetUrl?: string;
+  bundlerRpc?: string;
+  paymasterRpc?: string;
   easGraphql: string;
   explorers: {
     tx: string;
@@ -23,6 +29,74 @@ type ChainConfig = {
   };
 };
 
+/**
+ * Static facts about a chain. Everything deployment-specific (contract addresses, schema UIDs)
+ * comes from env vars named `<envPrefix>_...`, e.g. `BASE_SEPOLIA_EAS_ADDRESS`.
+ */
+type ChainProfile = {
+  chain: Chain;
+  envPrefix: string;
+  defaultRpcUrl: string;
+  easGraphql: string;
+  explorerUrl: string;
+  easscanUrl: string;
+  faucetUrl?: string;
+};
+
+const LOCAL_RPC_URL = 'http://127.0.0.1:8545';
+
+export const CHAIN_PROFILES: Record<ChainKey, ChainProfile> = {
+  base: {
+    chain: base,
+    envPrefix: 'BASE',
+    defaultRpcUrl: 'https://mainnet.base.org',
+    easGraphql: 'https://base.easscan.org/graphql',
+    explorerUrl: 'https://basescan.org',
+    easscanUrl: 'https://base.easscan.org'
+  },
+  arbitrum: {
+    chain: arbitrum,
+    envPrefix: 'ARBITRUM',
+    defaultRpcUrl: 'https://arb1.arbitrum.io/rpc',
+    easGraphql: 'https://arbitrum.easscan.org/graphql',
+    explorerUrl: 'https://arbiscan.io',
+    easscanUrl: 'https://arbitrum.easscan.org'
+  },
+  'base-sepolia': {
+    chain: baseSepolia,
+    envPrefix: 'BASE_SEPOLIA',
+    defaultRpcUrl: 'https://sepolia.base.org',
+    easGraphql: 'https://base-sepolia.easscan.org/graphql',
+    explorerUrl: 'https://sepolia.basescan.org',
+    easscanUrl: 'https://base-sepolia.easscan.org',
+    faucetUrl: 'https://docs.base.org/base-chain/tools/network-faucets'
+  },
+  'arbitrum-sepolia': {
+    chain: arbitrumSepolia,
+    envPrefix: 'ARBITRUM_SEPOLIA',
+    defaultRpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc',
+    easGraphql: 'https://arbitrum-sepolia.easscan.org/graphql',
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    easscanUrl: 'https://arbitrum-sepolia.easscan.org',
+    faucetUrl: 'https://faucet.quicknode.com/arbitrum/sepolia'
+  },
+  // Anvil with EAS deployed by `pnpm run local:bootstrap`; GraphQL from a local eas-indexing-service
+  local: {
+    chain: anvil,
+    envPrefix: 'LOCAL',
+    defaultRpcUrl: LOCAL_RPC_URL,
+    easGraphql: 'http://127.0.0.1:4000/graphql',
+    explorerUrl: 'http://127.0.0.1:5100',
+    easscanUrl: 'http://127.0.0.1:4000'
+  }
+};
+
+export const CHAIN_KEYS = Object.keys(CHAIN_PROFILES) as ChainKey[];
+
+export function isChainKey(value: string): value is ChainKey {
+  return (CHAIN_KEYS as string[]).includes(value);
+}
+
 function envOrThrow(name: string, value: string | undefined): string {
   if (!value) {
     throw new Error(`Missing required env var: ${name}`);
@@ -30,46 +104,41 @@ function envOrThrow(name: string, value: string | undefined): string {
   return value;
 }
 
-function getBaseConfig(): ChainConfig {
-  return {
-    name: 'base',
-    chain: base,
-    chainId: 8453,
-    rpcUrl: process.env.BASE_RPC_URL ?? 'https://mainnet.base.org',
-    easAddress: envOrThrow('BASE_EAS_ADDRESS', process.env.BASE_EAS_ADDRESS),
-    schemaRegistryAddress: envOrThrow('BASE_SCHEMA_REGISTRY_ADDRESS', process.env.BASE_SCHEMA_REGISTRY_ADDRESS),
-    resolverAddress: envOrThrow('BASE_RESOLVER_ADDRESS', process.env.BASE_RESOLVER_ADDRESS),
-    identitySchemaUid: envOrThrow('BASE_IDENTITY_SCHEMA_UID', process.env.BASE_IDENTITY_SCHEMA_UID),
-    contributionSchemaUid: envOrThrow('BASE_CONTRIBUTION_SCHEMA_UID', process.env.BASE_CONTRIBUTION_SCHEMA_UID),
-    repoGlobsSchemaUid: envOrThrow('BASE_REPO_GLOBS_SCHEMA_UID', process.env.BASE_REPO_GLOBS_SCHEMA_UID),
-    permissionSchemaUid: envOrThrow('BASE_PERMISSION_SCHEMA_UID', process.env.BASE_PERMISSION_SCHEMA_UID),
-    easGraphql: 'https://base.easscan.org/graphql',
-    explorers: {
-      tx: 'https://basescan.org/tx',
-      easAttestation: 'https://base.easscan.org/attestation/view',
-      easAddress: 'https://base.easscan.org/address'
-    }
-  };
-}
+function getProfileConfig(name: ChainKey): ChainConfig {
+  const profile = CHAIN_PROFILES[name];
+  const env = (key: string) => process.env[`${profile.envPrefix}_${key}`];
+  const required = (key: string) => envOrThrow(`${profile.envPrefix}_${key}`, env(key));
+  // The shared BUNDLER_RPC / PAYMASTER_RPC would send every chain's UserOps to one chain's
+  // endpoints, so with several ATTEST_CHAINS each chain must set its own
+  const multiChain = parseChainList(process.env.ATTEST_CHAINS).length > 1;
+  const explorerUrl = env('EXPLORER_URL') || profile.explorerUrl;
+  const easscanUrl = env('EASSCAN_URL') || profile.easscanUrl;
 
-function getArbitrumConfig(): ChainConfig {
   return {
-    name: 'arbitrum',
-    chain: arbitrum,
-    chainId: 42161,
-    rpcUrl: process.env.ARBITRUM_RPC_URL ?? 'https://arb1.arbitrum.io/rpc',
-    easAddress: envOrThrow('ARBITRUM_EAS_ADDRESS', process.env.ARBITRUM_EAS_ADDRESS),
-    schemaRegistryAddress: envOrThrow('ARBITRUM_SCHEMA_REGISTRY_ADDRESS', process.env.ARBITRUM_SCHEMA_REGISTRY_ADDRESS),
-    resolverAddress: envOrThrow('ARBITRUM_RESOLVER_ADDRESS', process.env.ARBITRUM_RESOLVER_ADDRESS),
-    identitySchemaUid: envOrThrow('ARBITRUM_IDENTITY_SCHEMA_UID', process.env.ARBITRUM_IDENTITY_SCHEMA_UID),
-    contributionSchemaUid: envOrThrow('ARBITRUM_CONTRIBUTION_SCHEMA_UID', process.env.ARBITRUM_CONTRIBUTION_SCHEMA_UID),
-    repoGlobsSchemaUid: envOrThrow('ARBITRUM_REPO_GLOBS_SCHEMA_UID', process.env.ARBITRUM_REPO_GLOBS_SCHEMA_UID),
-    permissionSchemaUid: envOrThrow('ARBITRUM_PERMISSION_SCHEMA_UID', process.env.ARBITRUM_PERMISSION_SCHEMA_UID),
-    easGraphql: 'https://arbitrum.easscan.org/graphql',
+    name,
+    chain: profile.chain,
+    chainId: profile.chain.id,
+    rpcUrl: env('RPC_URL') ?? profile.defaultRpcUrl,
+    easAddress: required('EAS_ADDRESS'),
+    schemaRegistryAddress: required('SCHEMA_REGISTRY_ADDRESS'),
+    resolverAddress: required('RESOLVER_ADDRESS'),
+    identitySchemaUid: required('IDENTITY_SCHEMA_UID'),
+    contributionSchemaUid: required('CONTRIBUTION_SCHEMA_UID'),
+    repoGlobsSchemaUid: required('REPO_GLOBS_SCHEMA_UID'),
+    permissionSchemaUid: required('PERMISSION_SCHEMA_UID'),
+    pullRequestSchemaUid: env('PULL_REQUEST_SCHEMA_UID'),
+    reviewSchemaUid: env('REVIEW_SCHEMA_UID'),
+    orgPolicySchemaUid: env('ORG_POLICY_SCHEMA_UID'),
+    faucetUrl: profile.faucetUrl,
+    bundlerRpc: multiChain ? required('BUNDLER_RPC') : env('BUNDLER_RPC') || process.env.BUNDLER_RPC,
+    paymasterRpc: multiChain
+      ? (process.env.SPONSORSHIP_POLICY ? required('PAYMASTER_RPC') : env('PAYMASTER_RPC'))
+      : env('PAYMASTER_RPC') || process.env.PAYMASTER_RPC,
+    easGraphql: env('EAS_GRAPHQL') || profile.easGraphql,
     explorers: {
-      tx: 'https://arbiscan.io/tx',
-      easAttestation: 'https://arbitrum.easscan.org/attestation/view',
-      easAddress: 'https://arbitrum.easscan.org/address'
+      tx: `${explorerUrl}/tx`,
+      easAttestation: `${easscanUrl}/attestation/view`,
+      easAddress: `${easscanUrl}/address`
     }
   };
 }
@@ -83,18 +152,33 @@ export const CONFIG = {
 } as const;
 
 export function getChainConfig(chainKey?: string) {
-  const key = (chainKey || process.env.CHAIN || process.env.DIDGIT_CHAIN || 'base') as ChainKey;
-  if (key === 'base') {
-    const chain = getBaseConfig();
-    return { ...chain, minBalanceEth: CONFIG.minBalanceEth, maxKernelTopUpEth: CONFIG.maxKernelTopUpEth };
-  }
-  if (key === 'arbitrum') {
-    const chain = getArbitrumConfig();
-    return { ...chain, minBalanceEth: CONFIG.minBalanceEth, maxKernelTopUpEth: CONFIG.maxKernelTopUpEth };
+  const key = chainKey || process.env.CHAIN || process.env.DIDGIT_CHAIN || 'base';
+  if (!isChainKey(key)) {
+    throw new Error(`Unknown CHAIN: ${key}`);
   }
-  throw new Error(`Unknown CHAIN: ${key}`);
+  const chain = getProfileConfig(key);
+  return { ...chain, minBalanceEth: CONFIG.minBalanceEth, maxKernelTopUpEth: CONFIG.maxKernelTopUpEth };
 }
 
 export function getConfig(chainKey?: string) {
   return getChainConfig(chainKey);
 }
+
+export type ActiveChainConfig = ReturnType<typeof getChainConfig>;
+
+/**
+ * Chains the attestation service runs on: ATTEST_CHAINS (comma-separated, e.g. `base,arbitrum`),
+ * or just the CHAIN default. Each one gets its own pipeline with its own schemas and bundler.
+ */
+export function getChainKeys(value = process.env.ATTEST_CHAINS): ChainKey[] {
+  const keys = parseChainList(value);
+  if (keys.length === 0) return [getChainConfig().name];
+  for (const key of keys) {
+    if (!isChainKey(key)) throw new Error(`Unknown chain in ATTEST_CHAINS: ${key}`);
+  }
+  return keys as ChainKey[];
+}
+
+function parseChainList(value: string | undefined): string[] {
+  return [...new Set((value || '').split(',').map((k) => k.trim().toLowerCase()).filter(Boolean))];
+}
@@ -11,6 +11,53 @@ export function parseContributionDecodedJson(decodedJson: string): string | null
   }
 }
 
+/**
+ * Key for a pull request contribution: `owner/repo#number` (lowercased repo).
+ */
+export function pullRequestKey(repo: string, prNumber: number | string): string {
+  return `${repo.toLowerCase()}#${prNumber}`;
+}
+
+export function parsePullRequestDecodedJson(decodedJson: string): string | null {
+  try {
+    const decoded = JSON.parse(decodedJson);
+    if (!Array.isArray(decoded)) return null;
+    const repo = decoded.find((d: any) => d.name === 'repo')?.value?.value;
+    const prNumber = parseUint(decoded.find((d: any) => d.name === 'prNumber')?.value?.value);
+    if (typeof repo !== 'string' || !repo || prNumber === null) return null;
+    return pullRequestKey(repo, prNumber);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key for a review contribution: `owner/repo#number/reviewId` (lowercased repo).
+ */
+export function reviewKey(repo: string, prNumber: number | string, reviewId: number | string): string {
+  return `${pullRequestKey(repo, prNumber)}/${reviewId}`;
+}
+
+export function parseReviewDecodedJson(decodedJson: string): string | null {
+  try {
+    const decoded = JSON.parse(decodedJson);
+    if (!Array.isArray(decoded)) return null;
+    const repo = decoded.find((d: any) => d.name === 'repo')?.value?.value;
+    const prNumber = parseUint(decoded.find((d: any) => d.name === 'prNumber')?.value?.value);
+    const reviewId = parseUint(decoded.find((d: any) => d.name === 'reviewId')?.value?.value);
+    if (typeof repo !== 'string' || !repo || prNumber === null || reviewId === null) return null;
+    return reviewKey(repo, prNumber, reviewId);
+  } catch {
+    return null;
+  }
+}
+
+// uint64 values come back as { type: 'BigNumber', hex } or plain numbers/strings
+function parseUint(value: any): number | null {
+  const num = typeof value === 'object' && value?.hex ? Number(BigInt(value.hex)) : Number(value);
+  return Number.isInteger(num) && num > 0 ? num : null;
+}
+
 type FetchRecentAttestedCommitsArgs = {
   fetchFn: (url: string, init?: RequestInit) => Promise<Response>;
   graphqlUrl: string;
@@ -19,6 +66,21 @@ type FetchRecentAttestedCommitsArgs = {
 };
 
 export async function fetchRecentAttestedCommits(args: FetchRecentAttestedCommitsArgs): Promise<Set<string>> {
+  return fetchRecentAttestedKeys(args, parseContributionDecodedJson);
+}
+
+export async function fetchRecentAttestedPullRequests(args: FetchRecentAttestedCommitsArgs): Promise<Set<string>> {
+  return fetchRecentAttestedKeys(args, parsePullRequestDecodedJson);
+}
+
+export async function fetchRecentAttestedReviews(args: FetchRecentAttestedCommitsArgs): Promise<Set<string>> {
+  return fetchRecentAttestedKeys(args, parseReviewDecodedJson);
+}
+
+async function fetchRecentAttestedKeys(
+  args: FetchRecentAttestedCommitsArgs,
+  parse: (decodedJson: string) => string | null
+): Promise<Set<string>> {
   const sinceSeconds = Math.floor(args.since.getTime() / 1000);
   const query = `
     query {
@@ -49,8 +111,8 @@ export async function fetchRecentAttestedCommits(args: FetchRecentAttestedCommit
   const set = new Set<string>();
 
   for (const att of attestations) {
-    const hash = parseContributionDecodedJson(att.decodedDataJson || '');
-    if (hash) set.add(hash);
+    const key = parse(att.decodedDataJson || '');
+    if (key) set.add(key);
   }
 
   return set;
@@ -4,33 +4,34 @@
  *
  * Required env:
  * - OWNER_PRIVKEY (0x-prefixed)
- * - CHAIN (defaults to base)
+ * - CHAIN (defaults to base; any profile in config.ts)
  *
  * Optional:
- * - BASE_SCHEMA_REGISTRY_ADDRESS / ARBITRUM_SCHEMA_REGISTRY_ADDRESS (from config)
- * - BASE_*_SCHEMA_UID (if set, will skip registering that schema)
+ * - <PREFIX>_SCHEMA_REGISTRY_ADDRESS (defaults to the OP Stack predeploy on Base chains)
+ * - <PREFIX>_*_SCHEMA_UID (if set, will skip registering that schema)
  */
 import 'dotenv/config';
-import { createPublicClient, createWalletClient, http, parseAbi, type Address, type Hex } from 'viem';
+import { createPublicClient, createWalletClient, http, parseAbi, type Address, type Hex, type PublicClient, type WalletClient } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { base, arbitrum } from 'viem/chains';
-
-type ChainKey = 'base' | 'arbitrum';
+import { CHAIN_PROFILES, isChainKey, type ChainKey } from './config';
 
 function getChainKey(): ChainKey {
-  return (process.env.CHAIN || 'base') as ChainKey;
+  const key = process.env.CHAIN || 'base';
+  if (!isChainKey(key)) throw new Error(`Unknown CHAIN: ${key}`);
+  return key;
 }
 
 function getRpcUrl(chain: ChainKey) {
-  if (chain === 'arbitrum') return process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc';
-  return process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+  const profile = CHAIN_PROFILES[chain];
+  return process.env[`${profile.envPrefix}_RPC_URL`] || profile.defaultRpcUrl;
 }
 
 function getSchemaRegistry(chain: ChainKey): Address {
-  if (chain === 'arbitrum') {
-    return (process.env.ARBITRUM_SCHEMA_REGISTRY_ADDRESS || '0x0000000000000000000000000000000000000000') as Address;
-  }
-  return (process.env.BASE_SCHEMA_REGISTRY_ADDRESS || '0x4200000000000000000000000000000000000020') as Address;
+  const profile = CHAIN_PROFILES[chain];
+  const fallback = chain === 'base' || chain === 'base-sepolia'
+    ? '0x4200000000000000000000000000000000000020'
+    : '0x0000000000000000000000000000000000000000';
+  return (process.env[`${profile.envPrefix}_SCHEMA_REGISTRY_ADDRESS`] || fallback) as Address;
 }
 
 const schemaRegistryAbi = parseAbi([
@@ -38,35 +39,51 @@ const schemaRegistryAbi = parseAbi([
   'event Registered(bytes32 indexed uid, address indexed registrar, string schema, address resolver, bool revocable)'
 ]);
 
+export type SchemaName = 'IDENTITY' | 'CONTRIBUTION' | 'REPO_GLOBS' | 'PERMISSION' | 'PULL_REQUEST' | 'REVIEW' | 'ORG_POLICY';
+
 type SchemaItem = {
-  name: 'IDENTITY' | 'CONTRIBUTION' | 'REPO_GLOBS' | 'PERMISSION';
-  envKey: string;
+  name: SchemaName;
   schema: string;
 };
 
-const SCHEMAS: SchemaItem[] = [
+export const SCHEMAS: SchemaItem[] = [
   {
     name: 'IDENTITY',
-    envKey: 'BASE_IDENTITY_SCHEMA_UID',
     schema: 'string domain,string username,address wallet,string message,bytes signature,string proof_url'
   },
   {
     name: 'CONTRIBUTION',
-    envKey: 'BASE_CONTRIBUTION_SCHEMA_UID',
     schema: 'string repo,string commitHash,string author,string message,uint64 timestamp,bytes32 identityUid'
   },
   {
     name: 'REPO_GLOBS',
-    envKey: 'BASE_REPO_GLOBS_SCHEMA_UID',
     schema: 'string repoGlobs'
   },
   {
     name: 'PERMISSION',
-    envKey: 'BASE_PERMISSION_SCHEMA_UID',
     schema: 'address userKernel,address verifier,address target,bytes4 selector,bytes serializedPermission'
+  },
+  {
+    name: 'PULL_REQUEST',
+    schema: 'string repo,uint64 prNumber,string mergeCommitSha,string baseBranch,string title,uint64 additions,uint64 deletions,string mergedBy,bytes32 identityUid'
+  },
+  {
+    name: 'REVIEW',
+    schema: 'string repo,uint64 prNumber,uint64 reviewId,string state,string reviewer,bytes32 identityUid'
+  },
+  {
+    name: 'ORG_POLICY',
+    schema: 'string org,string repoGlobs,uint16 minReviews'
   }
 ];
 
+/**
+ * Env var holding a schema's UID for a chain, e.g. `BASE_SEPOLIA_IDENTITY_SCHEMA_UID`.
+ */
+export function schemaEnvKey(envPrefix: string, name: SchemaName) {
+  return `${envPrefix}_${name}_SCHEMA_UID`;
+}
+
 function requireEnv(name: string, value: string | undefined): string {
   if (!value) throw new Error(`${name} required (0x-prefixed)`);
   return value;
@@ -76,34 +93,25 @@ function isUid(value: string | undefined): value is `0x${string}` {
   return typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value);
 }
 
-async function main() {
-  const OWNER_PRIVKEY = requireEnv('OWNER_PRIVKEY', process.env.OWNER_PRIVKEY);
-  const account = privateKeyToAccount(OWNER_PRIVKEY as Hex);
-  const chainKey = getChainKey();
-  const chain = chainKey === 'arbitrum' ? arbitrum : base;
-  const rpcUrl = getRpcUrl(chainKey);
-  const schemaRegistry = getSchemaRegistry(chainKey);
-
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(rpcUrl)
-  });
-
-  const walletClient = createWalletClient({
-    account,
-    chain,
-    transport: http(rpcUrl)
-  });
-
-  console.log('[schemas] Chain:', chainKey, chain.id);
-  console.log('[schemas] Registrar:', account.address);
-  console.log('[schemas] Registry:', schemaRegistry);
-  console.log();
+/**
+ * Register every schema not already set in env. Returns the UID per env key.
+ */
+export async function registerSchemas(args: {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  schemaRegistry: Address;
+  envPrefix: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<Record<string, Hex>> {
+  const { publicClient, walletClient, schemaRegistry, envPrefix, env = process.env } = args;
+  const uids: Record<string, Hex> = {};
 
   for (const item of SCHEMAS) {
-    const existing = process.env[item.envKey];
+    const envKey = schemaEnvKey(envPrefix, item.name);
+    const existing = env[envKey];
     if (isUid(existing)) {
       console.log(`[schemas] ${item.name} already set: ${existing}`);
+      uids[envKey] = existing;
       continue;
     }
 
@@ -114,7 +122,9 @@ async function main() {
       address: schemaRegistry,
       abi: schemaRegistryAbi,
       functionName: 'register',
-      args: [item.schema, '0x0000000000000000000000000000000000000000', true]
+      args: [item.schema, '0x0000000000000000000000000000000000000000', true],
+      account: walletClient.account!,
+      chain: walletClient.chain
     });
 
     console.log(`[schemas] TX: ${hash}`);
@@ -128,14 +138,47 @@ async function main() {
     }
 
     console.log(`[schemas] ${item.name} UID: ${uid}`);
-    console.log(`[schemas] Export: ${item.envKey}=${uid}`);
+    console.log(`[schemas] Export: ${envKey}=${uid}`);
     console.log();
+    uids[envKey] = uid;
   }
 
+  return uids;
+}
+
+async function main() {
+  const OWNER_PRIVKEY = requireEnv('OWNER_PRIVKEY', process.env.OWNER_PRIVKEY);
+  const account = privateKeyToAccount(OWNER_PRIVKEY as Hex);
+  const chainKey = getChainKey();
+  const chain = CHAIN_PROFILES[chainKey].chain;
+  const rpcUrl = getRpcUrl(chainKey);
+  const schemaRegistry = getSchemaRegistry(chainKey);
+
+  const publicClient = createPublicClient({
+    chain,
+    transport: http(rpcUrl)
+  });
+
+  const walletClient = createWalletClient({
+    account,
+    chain,
+    transport: http(rpcUrl)
+  });
+
+  console.log('[schemas] Chain:', chainKey, chain.id);
+  console.log('[schemas] Registrar:', account.address);
+  console.log('[schemas] Registry:', schemaRegistry);
+  console.log();
+
+  await registerSchemas({ publicClient, walletClient, schemaRegistry, envPrefix: CHAIN_PROFILES[chainKey].envPrefix });
+
   console.log('[schemas] Done.');
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+const isMain = process.argv[1] && /create-schemas\.(ts|js)$/.test(process.argv[1]);
+if (isMain) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
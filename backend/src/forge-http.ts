@@ -0,0 +1,80 @@
+import { getRetryDelayMs, shouldRetryGitHubError } from './github';
+import { createLogger } from './logger';
+import { apiRetries } from './metrics';
+
+const log = createLogger('forge');
+
+/**
+ * HTTP error from a non-GitHub forge API. Carries `status` like Octokit errors so
+ * callers can keep treating 404/403 as "skip this repo".
+ */
+export class ForgeHttpError extends Error {
+  constructor(public status: number, message: string, public response?: { headers: Record<string, string> }) {
+    super(message);
+    this.name = 'ForgeHttpError';
+  }
+}
+
+export type ForgeFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface ForgeResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+/**
+ * GET a JSON (or text) resource with the same retry policy as the GitHub client
+ * (429/5xx and rate-limit 403s, honouring Retry-After).
+ */
+export async function forgeRequest<T = any>(
+  url: string,
+  options: { headers?: Record<string, string>; label: string; text?: boolean; fetchFn?: ForgeFetch }
+): Promise<ForgeResponse<T>> {
+  const fetchFn = options.fetchFn ?? fetch;
+  const maxAttempts = Number(process.env.GITHUB_RETRY_ATTEMPTS || '3');
+  const baseDelayMs = Number(process.env.GITHUB_RETRY_DELAY_MS || '500');
+  const abuseMinMs = Number(process.env.GITHUB_ABUSE_RETRY_MS || '30000');
+
+  for (let attempt = 1; ; attempt++) {
+    const res = await fetchFn(url, { headers: { Accept: 'application/json', ...options.headers } });
+    if (res.ok) {
+      const data = (options.text ? await res.text() : await res.json()) as T;
+      return { data, headers: res.headers };
+    }
+
+    const err = new ForgeHttpError(res.status, `${options.label} failed: ${res.status} ${res.statusText}`, {
+      headers: Object.fromEntries(res.headers.entries())
+    });
+    if (!shouldRetryGitHubError(err) || attempt >= maxAttempts) throw err;
+    const wait = getRetryDelayMs(err, attempt, baseDelayMs, abuseMinMs);
+    log.warn(`${options.label} failed (${res.status}); retrying in ${wait}ms...`, { status: res.status, attempt });
+    apiRetries.inc({ platform: hostOf(url), status: String(res.status) });
+    await new Promise((r) => setTimeout(r, wait));
+  }
+}
+
+function hostOf(domain: string): string {
+  return new URL(domain.includes('://') ? domain : `https://${domain}`).host.toLowerCase();
+}
+
+/**
+ * Token for a self-hosted instance: `<PREFIX>_TOKEN_<HOST>` (host upper-cased, non-alphanumerics
+ * as `_`), falling back to `<PREFIX>_TOKEN` only for the platform's public instance.
+ */
+export function instanceToken(prefix: string, domain: string, publicDomain: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const hostKey = hostOf(domain).toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  const specific = env[`${prefix}_TOKEN_${hostKey}`];
+  if (specific) return specific;
+  return hostOf(domain) === publicDomain ? env[`${prefix}_TOKEN`] : undefined;
+}
+
+/**
+ * Parse a comma-separated instance list (`gitlab.com,https://git.example.org`) to base URLs.
+ */
+export function parseInstanceList(value: string | undefined, fallback: string): string[] {
+  const entries = (value ?? fallback).split(',').map((s) => s.trim()).filter(Boolean);
+  return entries.map((entry) => {
+    const url = new URL(entry.includes('://') ? entry : `https://${entry}`);
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+  });
+}
@@ -0,0 +1,245 @@
+/**
+ * Gitea API v1 adapter, used for Codeberg and self-hosted Gitea/Forgejo instances.
+ *
+ * Gitea has no gists, so identity proofs are `didgit-proof.json` in a public repo:
+ * either a file URL (`/<owner>/<repo>/src/branch/<ref>/<path>`) or the repo URL itself,
+ * which reads `didgit-proof.json` from the default branch.
+ * Auth: GITEA_TOKEN for codeberg.org, GITEA_TOKEN_<HOST> for self-hosted instances.
+ */
+import { branchFromRef, type CommitInfo } from './github';
+import { forgeRequest, instanceToken, type ForgeFetch } from './forge-http';
+import type { IdentityProof, PlatformAdapter, RepoMetadata, RepoRef } from './platform';
+
+export interface RepoFileRef {
+  owner: string;
+  repo: string;
+  path: string;
+  ref?: string;                 // absent means the default branch
+}
+
+/**
+ * Parse a proof URL on `domain` into the repo file it points at. Accepts
+ * `/<owner>/<repo>` and `/<owner>/<repo>/(src|raw|media)/(branch|tag|commit)/<ref>/<path>`.
+ * Ref names containing `/` are not supported.
+ */
+export function parseRepoFileUrl(proofUrl: string, domain: string): RepoFileRef | null {
+  try {
+    const url = new URL(proofUrl);
+    if (url.host.toLowerCase() !== domain.toLowerCase()) return null;
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const [owner, repo, view, kind, ref, ...path] = parts;
+    if (!owner || !repo) return null;
+    if (parts.length === 2) return { owner, repo, path: 'didgit-proof.json' };
+    if (!['src', 'raw', 'media'].includes(view) || !['branch', 'tag', 'commit'].includes(kind)) return null;
+    if (!ref || path.length === 0) return null;
+    return { owner, repo, path: path.join('/'), ref };
+  } catch {
+    return null;
+  }
+}
+
+export function parseGiteaCommit(c: any, repo: RepoRef, domain: string): CommitInfo {
+  return {
+    sha: c.sha,
+    author: {
+      email: c.commit?.author?.email || '',
+      name: c.commit?.author?.name || '',
+      username: c.author?.login
+    },
+    message: c.commit?.message || '',
+    timestamp: c.commit?.author?.date || c.created || new Date().toISOString(),
+    repo: { owner: repo.owner, name: repo.name },
+    domain
+  };
+}
+
+/** Older Gitea releases return neither `topics` nor `language`. */
+export function parseGiteaRepoMetadata(repo: any): RepoMetadata {
+  return {
+    topics: Array.isArray(repo?.topics) ? repo.topics : [],
+    fork: !!repo?.fork,
+    archived: !!repo?.archived,
+    language: repo?.language || null
+  };
+}
+
+/**
+ * Commits from `commit_repo` activities. The activity `content` is a JSON string with
+ * the pushed commits (truncated by the instance, like GitHub's push events).
+ */
+export function parseGiteaPushActivities(activities: any[], domain: string): CommitInfo[] {
+  const commits: CommitInfo[] = [];
+  for (const activity of activities || []) {
+    if (activity?.op_type !== 'commit_repo') continue;
+    const owner = activity.repo?.owner?.login;
+    const name = activity.repo?.name;
+    if (!owner || !name) continue;
+    const ref = branchFromRef(activity.ref_name);
+    if (activity.ref_name && !ref) continue;
+
+    let content: any;
+    try {
+      content = JSON.parse(activity.content || '{}');
+    } catch {
+      continue;
+    }
+    for (const c of content?.Commits || []) {
+      if (!c?.Sha1) continue;
+      commits.push({
+        sha: c.Sha1,
+        author: {
+          email: c.AuthorEmail || '',
+          name: c.AuthorName || '',
+          username: activity.act_user?.login
+        },
+        message: c.Message || '',
+        timestamp: activity.created || c.Timestamp || new Date().toISOString(),
+        repo: { owner, name },
+        domain,
+        ...(ref ? { ref } : {})
+      });
+    }
+  }
+  return commits;
+}
+
+export class GiteaAdapter implements PlatformAdapter {
+  readonly domain: string;
+  private apiBase: string;
+
+  constructor(baseUrl: string, private token?: string, private fetchFn?: ForgeFetch) {
+    const url = new URL(baseUrl);
+    this.domain = url.host.toLowerCase();
+    this.apiBase = `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}/api/v1`;
+  }
+
+  private async get<T = any>(path: string, label: string, text = false) {
+    return forgeRequest<T>(`${this.apiBase}${path}`, {
+      headers: this.token ? { Authorization: `token ${this.token}` } : {},
+      label: `[${this.domain}] ${label}`,
+      text,
+      fetchFn: this.fetchFn
+    });
+  }
+
+  /** Gitea caps page size at the instance's MAX_RESPONSE_ITEMS (50 by default). */
+  private async getPaged(path: string, label: string): Promise<any[]> {
+    return (await this.getPages(path, label)).items;
+  }
+
+  /** `complete` is false when GITEA_MAX_PAGES ran out before the last page. */
+  private async getPages(path: string, label: string): Promise<{ items: any[]; complete: boolean }> {
+    const maxPages = Number(process.env.GITEA_MAX_PAGES || '5');
+    const sep = path.includes('?') ? '&' : '?';
+    const items: any[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const { data } = await this.get<any[]>(`${path}${sep}limit=50&page=${page}`, `${label} page ${page}`);
+      items.push(...data);
+      if (data.length < 50) return { items, complete: true };
+    }
+    return { items, complete: false };
+  }
+
+  private async listRepos(path: string, label: string): Promise<RepoRef[]> {
+    try {
+      const repos = await this.getPaged(path, label);
+      return repos
+        .filter((r) => !r.private && r.owner?.login && r.name)
+        .map((r) => ({ owner: r.owner.login, name: r.name, meta: parseGiteaRepoMetadata(r) }));
+    } catch (e: any) {
+      if (e.status === 404) return [];
+      throw e;
+    }
+  }
+
+  async listOrgRepos(org: string): Promise<RepoRef[]> {
+    return this.listRepos(`/orgs/${encodeURIComponent(org)}/repos`, `listOrgRepos ${org}`);
+  }
+
+  async listUserRepos(username: string): Promise<RepoRef[]> {
+    return this.listRepos(`/users/${encodeURIComponent(username)}/repos`, `listUserRepos ${username}`);
+  }
+
+  async getRepoMetadata(owner: string, repo: string): Promise<RepoMetadata | null> {
+    try {
+      const { data } = await this.get<any>(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, `getRepo ${owner}/${repo}`);
+      return data?.private ? null : parseGiteaRepoMetadata(data);
+    } catch (e: any) {
+      if (e.status === 404 || e.status === 403) return null;
+      throw e;
+    }
+  }
+
+  async getRecentCommits(owner: string, repo: string, since?: Date, ref?: string): Promise<{ commits: CommitInfo[]; complete: boolean }> {
+    const query = `?stat=false&verification=false&files=false${since ? `&since=${encodeURIComponent(since.toISOString())}` : ''}${ref ? `&sha=${encodeURIComponent(ref)}` : ''}`;
+    const { items, complete } = await this.getPages(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits${query}`,
+      `listCommits ${owner}/${repo}${ref ? `@${ref}` : ''}`
+    );
+    return { commits: items.map((c) => ({ ...parseGiteaCommit(c, { owner, name: repo }, this.domain), ...(ref ? { ref } : {}) })), complete };
+  }
+
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const branches = await this.getPaged(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/branches`,
+      `listBranches ${owner}/${repo}`
+    );
+    return branches.map((b) => b.name).filter(Boolean);
+  }
+
+  /**
+   * Push activity for a user, falling back to the org feed when the owner is an organization.
+   */
+  async getRecentOwnerPushCommits(owner: string, since?: Date): Promise<CommitInfo[]> {
+    const { data: userFeed } = await this.get<any[]>(
+      `/users/${encodeURIComponent(owner)}/activities/feeds?limit=50`,
+      `listUserActivities ${owner}`
+    );
+
+    let commits = parseGiteaPushActivities(userFeed, this.domain);
+    if (commits.length === 0) {
+      try {
+        const { data: orgFeed } = await this.get<any[]>(
+          `/orgs/${encodeURIComponent(owner)}/activities/feeds?limit=50`,
+          `listOrgActivities ${owner}`
+        );
+        commits = parseGiteaPushActivities(orgFeed, this.domain);
+      } catch {
+        // ignore org fallback errors
+      }
+    }
+
+    if (!since) return commits;
+    const sinceMs = since.getTime();
+    return commits.filter((c) => new Date(c.timestamp).getTime() >= sinceMs);
+  }
+
+  async fetchIdentityProof(proofUrl: string): Promise<IdentityProof | null> {
+    const file = parseRepoFileUrl(proofUrl, this.domain);
+    if (!file) return null;
+
+    const repoPath = `/repos/${encodeURIComponent(file.owner)}/${encodeURIComponent(file.repo)}`;
+    try {
+      const { data: repo } = await this.get<any>(repoPath, `getRepo ${file.owner}/${file.repo}`);
+      if (repo?.private) return null;
+
+      const filePath = file.path.split('/').map(encodeURIComponent).join('/');
+      const ref = file.ref ? `?ref=${encodeURIComponent(file.ref)}` : '';
+      const { data: raw } = await this.get<string>(
+        `${repoPath}/raw/${filePath}${ref}`,
+        `getRawFile ${file.owner}/${file.repo}/${file.path}`,
+        true
+      );
+      return { owner: repo?.owner?.login || '', payload: JSON.parse(raw) };
+    } catch (e: any) {
+      if (e.status === 404) return null;
+      if (e instanceof SyntaxError) return null;
+      throw e;
+    }
+  }
+}
+
+export function createGiteaAdapter(baseUrl: string, env: NodeJS.ProcessEnv = process.env): GiteaAdapter {
+  const domain = new URL(baseUrl).host.toLowerCase();
+  return new GiteaAdapter(baseUrl, instanceToken('GITEA', domain, 'codeberg.org', env));
+}
@@ -1,3 +1,9 @@
+import { createLogger } from './logger';
+import { apiRetries } from './metrics';
+import type { RepoMetadata, RepoRef } from './platform';
+
+const log = createLogger('github');
+
 let OctokitCtor: any;
 
 async function getOctokit() {
@@ -64,7 +70,8 @@ async function requestWithRetry<T = any>(fn: () => Promise<T>, label: string): P
         throw err;
       }
       const wait = getRetryDelayMs(err, attempt, baseDelayMs, abuseMinMs);
-      console.log(`[github] ${label} failed (${err?.status}); retrying in ${wait}ms...`);
+      log.warn(`${label} failed (${err?.status}); retrying in ${wait}ms...`, { status: err?.status, attempt });
+      apiRetries.inc({ platform: 'github.com', status: String(err?.status ?? 'unknown') });
       await sleep(wait);
     }
   }
@@ -88,27 +95,56 @@ export interface CommitInfo {
     owner: string;
     name: string;
   };
+  domain?: string;              // platform domain; absent means github.com
+  ref?: string;                 // branch it was pushed to or listed from; absent for default-branch listings
 }
 
+/**
+ * Branch name of a pushed git ref (`refs/heads/main` -> `main`), or null for tags and other refs.
+ * Bare names (GitLab push data) are returned as they are.
+ */
+export function branchFromRef(ref: string | undefined): string | null {
+  if (!ref) return null;
+  if (ref.startsWith('refs/heads/')) return ref.slice('refs/heads/'.length);
+  return ref.startsWith('refs/') ? null : ref;
+}
+
+/**
+ * Commits since `since` on `ref`, or on the default branch when `ref` is omitted.
+ * `complete` is false when GITHUB_MAX_PAGES ran out first.
+ */
 export async function getRecentCommits(
   owner: string,
   repo: string,
-  since?: Date
-): Promise<CommitInfo[]> {
+  since?: Date,
+  ref?: string
+): Promise<{ commits: CommitInfo[]; complete: boolean }> {
   const octokit = await getOctokit();
+  const maxPages = Number(process.env.GITHUB_MAX_PAGES || '5');
+  const commits: any[] = [];
+  let complete = false;
 
-  const { data: commits } = await requestWithRetry<any>(
-    () =>
-      octokit.repos.listCommits({
-        owner,
-        repo,
-        since: since?.toISOString(),
-        per_page: 100
-      }),
-    `listCommits ${owner}/${repo}`
-  );
+  for (let page = 1; page <= maxPages; page++) {
+    const { data } = await requestWithRetry<any>(
+      () =>
+        octokit.repos.listCommits({
+          owner,
+          repo,
+          sha: ref,
+          since: since?.toISOString(),
+          per_page: 100,
+          page
+        }),
+      `listCommits ${owner}/${repo}${ref ? `@${ref}` : ''} page ${page}`
+    );
+    commits.push(...data);
+    if (data.length < 100) {
+      complete = true;
+      break;
+    }
+  }
 
-  return commits.map((commit: any) => ({
+  return { commits: commits.map((commit: any) => ({
     sha: commit.sha,
     author: {
       email: commit.commit.author?.email || '',
@@ -120,8 +156,256 @@ export async function getRecentCommits(
     repo: {
       owner,
       name: repo
+    },
+    ...(ref ? { ref } : {})
+  })), complete };
+}
+
+export async function listBranches(owner: string, repo: string): Promise<string[]> {
+  const octokit = await getOctokit();
+  const branches: string[] = [];
+  const maxPages = Number(process.env.GITHUB_MAX_PAGES || '5');
+  for (let page = 1; page <= maxPages; page++) {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.repos.listBranches({ owner, repo, per_page: 100, page }),
+      `listBranches ${owner}/${repo} page ${page}`
+    );
+    branches.push(...data.map((b: any) => b.name));
+    if (data.length < 100) break;
+  }
+  return branches;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  author: string;               // PR author login (credited contributor)
+  mergedBy: string;
+  mergeCommitSha: string;
+  baseBranch: string;
+  additions: number;
+  deletions: number;
+  mergedAt: string;
+  repo: {
+    owner: string;
+    name: string;
+  };
+}
+
+/**
+ * Merged pull requests whose merge happened at or after `since`.
+ * Walks closed PRs newest-updated first and stops once updates fall before `since`;
+ * `complete` is false when GITHUB_MAX_PAGES ran out first.
+ */
+export async function getRecentMergedPullRequests(
+  owner: string,
+  repo: string,
+  since: Date
+): Promise<{ pulls: PullRequestInfo[]; complete: boolean }> {
+  const octokit = await getOctokit();
+  const sinceMs = since.getTime();
+  const maxPages = Number(process.env.GITHUB_MAX_PAGES || '5');
+  const merged: any[] = [];
+  let complete = false;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const { data } = await requestWithRetry<any>(
+      () =>
+        octokit.pulls.list({
+          owner,
+          repo,
+          state: 'closed',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: 100,
+          page
+        }),
+      `listPulls ${owner}/${repo} page ${page}`
+    );
+
+    for (const pr of data) {
+      if (pr.merged_at && new Date(pr.merged_at).getTime() >= sinceMs) merged.push(pr);
+    }
+
+    const oldest = data[data.length - 1];
+    if (data.length < 100 || !oldest || new Date(oldest.updated_at).getTime() < sinceMs) {
+      complete = true;
+      break;
     }
-  }));
+  }
+
+  const pulls: PullRequestInfo[] = [];
+  for (const pr of merged) {
+    // The list endpoint omits additions/deletions/merged_by
+    const { data: full } = await requestWithRetry<any>(
+      () => octokit.pulls.get({ owner, repo, pull_number: pr.number }),
+      `getPull ${owner}/${repo}#${pr.number}`
+    );
+    pulls.push({
+      number: full.number,
+      title: full.title || '',
+      author: full.user?.login || '',
+      mergedBy: full.merged_by?.login || '',
+      mergeCommitSha: full.merge_commit_sha || '',
+      baseBranch: full.base?.ref || '',
+      additions: full.additions ?? 0,
+      deletions: full.deletions ?? 0,
+      mergedAt: full.merged_at,
+      repo: { owner, name: repo }
+    });
+  }
+
+  return { pulls, complete };
+}
+
+export type ReviewState = 'approved' | 'changes_requested';
+
+export interface ReviewInfo {
+  id: number;                   // GitHub review id
+  prNumber: number;
+  state: ReviewState;
+  reviewer: string;             // reviewer login (credited contributor)
+  submittedAt: string;
+  repo: {
+    owner: string;
+    name: string;
+  };
+}
+
+/**
+ * Map GitHub review states to the attested ones. Comments, pending and dismissed
+ * reviews are not attested.
+ */
+export function normalizeReviewState(state: string | undefined): ReviewState | null {
+  switch ((state || '').toUpperCase()) {
+    case 'APPROVED':
+      return 'approved';
+    case 'CHANGES_REQUESTED':
+      return 'changes_requested';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Approving / changes-requested reviews submitted at or after `since`.
+ * Only PRs updated since `since` are inspected (submitting a review bumps `updated_at`);
+ * `complete` is false when GITHUB_MAX_PAGES ran out first.
+ */
+export async function getRecentReviews(
+  owner: string,
+  repo: string,
+  since: Date
+): Promise<{ reviews: ReviewInfo[]; complete: boolean }> {
+  const octokit = await getOctokit();
+  const sinceMs = since.getTime();
+  const maxPages = Number(process.env.GITHUB_MAX_PAGES || '5');
+  const prNumbers: number[] = [];
+  let complete = false;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const { data } = await requestWithRetry<any>(
+      () =>
+        octokit.pulls.list({
+          owner,
+          repo,
+          state: 'all',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: 100,
+          page
+        }),
+      `listPulls ${owner}/${repo} page ${page}`
+    );
+
+    for (const pr of data) {
+      if (new Date(pr.updated_at).getTime() >= sinceMs) prNumbers.push(pr.number);
+    }
+
+    const oldest = data[data.length - 1];
+    if (data.length < 100 || !oldest || new Date(oldest.updated_at).getTime() < sinceMs) {
+      complete = true;
+      break;
+    }
+  }
+
+  const reviews: ReviewInfo[] = [];
+  for (const prNumber of prNumbers) {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.pulls.listReviews({ owner, repo, pull_number: prNumber, per_page: 100 }),
+      `listReviews ${owner}/${repo}#${prNumber}`
+    );
+    reviews.push(...parseReviews(data, owner, repo, prNumber, since));
+  }
+
+  return { reviews, complete };
+}
+
+export function parseReviews(
+  data: any[],
+  owner: string,
+  repo: string,
+  prNumber: number,
+  since: Date
+): ReviewInfo[] {
+  const reviews: ReviewInfo[] = [];
+  for (const review of data || []) {
+    const state = normalizeReviewState(review?.state);
+    if (!state || !review.submitted_at || !review.user?.login) continue;
+    if (new Date(review.submitted_at).getTime() < since.getTime()) continue;
+    reviews.push({
+      id: review.id,
+      prNumber,
+      state,
+      reviewer: review.user.login,
+      submittedAt: review.submitted_at,
+      repo: { owner, name: repo }
+    });
+  }
+  return reviews;
+}
+
+/**
+ * Reviewers whose latest approving / changes-requested review is an approval. The PR
+ * author's own reviews do not count.
+ */
+export function countApprovals(data: any[], author?: string): number {
+  const latest = new Map<string, ReviewState>();
+  for (const review of data || []) {
+    const state = normalizeReviewState(review?.state);
+    const login = review?.user?.login?.toLowerCase();
+    if (!state || !login || login === author?.toLowerCase()) continue;
+    latest.set(login, state);
+  }
+  return [...latest.values()].filter((state) => state === 'approved').length;
+}
+
+/**
+ * Approvals on one pull request (see countApprovals).
+ */
+export async function getPullRequestApprovals(owner: string, repo: string, prNumber: number, author?: string): Promise<number> {
+  const octokit = await getOctokit();
+  const { data } = await requestWithRetry<any>(
+    () => octokit.pulls.listReviews({ owner, repo, pull_number: prNumber, per_page: 100 }),
+    `listReviews ${owner}/${repo}#${prNumber}`
+  );
+  return countApprovals(data, author);
+}
+
+/**
+ * Most approvals on a merged pull request containing the commit; 0 when it was not merged through one.
+ */
+export async function getCommitApprovals(owner: string, repo: string, sha: string): Promise<number> {
+  const octokit = await getOctokit();
+  const { data } = await requestWithRetry<any>(
+    () => octokit.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: sha, per_page: 100 }),
+    `listCommitPulls ${owner}/${repo}@${sha.slice(0, 8)}`
+  );
+  let approvals = 0;
+  for (const pr of (data as any[]).filter((p) => p?.merged_at)) {
+    approvals = Math.max(approvals, await getPullRequestApprovals(owner, repo, pr.number, pr.user?.login));
+  }
+  return approvals;
 }
 
 export function parsePushEventsToCommits(events: any[]): CommitInfo[] {
@@ -131,6 +415,8 @@ export function parsePushEventsToCommits(events: any[]): CommitInfo[] {
     const repoName = event?.repo?.name || '';
     const [owner, name] = repoName.split('/');
     if (!owner || !name) continue;
+    const ref = branchFromRef(event?.payload?.ref);
+    if (event?.payload?.ref && !ref) continue;
     const authorUsername = event?.actor?.login;
     const timestamp = event?.created_at || new Date().toISOString();
     const payloadCommits = event?.payload?.commits || [];
@@ -145,7 +431,8 @@ export function parsePushEventsToCommits(events: any[]): CommitInfo[] {
         },
         message: c.message || '',
         timestamp,
-        repo: { owner, name }
+        repo: { owner, name },
+        ...(ref ? { ref } : {})
       });
     }
   }
@@ -236,30 +523,161 @@ export async function getCommit(
       }
     };
   } catch (e) {
-    console.error(`[github] Failed to fetch commit ${sha}:`, e);
+    log.error(`Failed to fetch commit ${sha}`, e, { sha });
     return null;
   }
 }
 
-export function matchCommitToGitHubUser(commit: CommitInfo): string | null {
-  // First try username from commit author
+/**
+ * Email -> GitHub login lookups used when a commit carries no linked login.
+ * Keys are lowercased emails.
+ */
+export interface CommitAuthorContext {
+  verifiedEmails?: Map<string, string>;   // public (GitHub-verified) profile emails of registered users
+  proofEmails?: Map<string, string>;      // emails claimed in identity proof gists (by one identity only)
+  accountIds?: Map<string, number>;       // lowercased login -> GitHub account ID of registered users
+}
+
+export type CommitAuthorMatch =
+  | { username: string; source: 'login' | 'verified-email' | 'noreply-email' | 'proof-email' }
+  | { username: null; reason: string };
+
+/**
+ * Extract the login from GitHub's noreply addresses:
+ * `123+login@users.noreply.github.com` (current) or `login@users.noreply.github.com` (legacy).
+ */
+export function parseNoreplyEmail(email: string): string | null {
+  return parseNoreplyAddress(email)?.login ?? null;
+}
+
+/** Login and, for current noreply addresses, the account ID in front of it. */
+export function parseNoreplyAddress(email: string): { login: string; id?: number } | null {
+  const match = /^(?:(\d+)\+)?([a-z0-9](?:[a-z0-9-]*[a-z0-9])?)@users\.noreply\.github\.com$/i.exec(email.trim());
+  if (!match) return null;
+  return match[1] ? { login: match[2], id: Number(match[1]) } : { login: match[2] };
+}
+
+/**
+ * Resolve a commit to a GitHub login: linked login, then verified-email mapping,
+ * then noreply email pattern, then an email claimed in an identity proof.
+ */
+export function resolveCommitAuthor(commit: CommitInfo, ctx: CommitAuthorContext = {}): CommitAuthorMatch {
   if (commit.author.username) {
-    return commit.author.username;
+    return { username: commit.author.username, source: 'login' };
+  }
+
+  const email = commit.author.email.trim().toLowerCase();
+  if (!email) {
+    return { username: null, reason: 'no GitHub login and no author email' };
+  }
+
+  const verified = ctx.verifiedEmails?.get(email);
+  if (verified) {
+    return { username: verified, source: 'verified-email' };
+  }
+
+  // GitHub noreply addresses only identify GitHub logins. The ID must be the login's current
+  // account: a renamed login can be taken by someone else, who would get the old commits
+  const noreply = !commit.domain || commit.domain === 'github.com' ? parseNoreplyAddress(email) : null;
+  if (noreply) {
+    if (noreply.id !== undefined && ctx.accountIds?.get(noreply.login.toLowerCase()) !== noreply.id) {
+      return { username: null, reason: `noreply email ${email}: account ID ${noreply.id} is not confirmed as ${noreply.login}'s` };
+    }
+    return { username: noreply.login, source: 'noreply-email' };
+  }
+
+  const claimed = ctx.proofEmails?.get(email);
+  if (claimed) {
+    return { username: claimed, source: 'proof-email' };
   }
 
-  // Could also match by email if we have a mapping
-  // For now, just return null if no username
-  return null;
+  return { username: null, reason: `no GitHub login; email ${email} not verified, not noreply, not claimed in any identity proof` };
+}
+
+export function matchCommitToGitHubUser(commit: CommitInfo, ctx: CommitAuthorContext = {}): string | null {
+  const match = resolveCommitAuthor(commit, ctx);
+  return match.username;
+}
+
+/**
+ * Numeric account ID of a login, or null when there is no such user.
+ */
+export async function getUserId(username: string): Promise<number | null> {
+  const octokit = await getOctokit();
+  try {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.users.getByUsername({ username }),
+      `getByUsername ${username}`
+    );
+    return typeof data?.id === 'number' ? data.id : null;
+  } catch (e: any) {
+    if (e.status === 404) return null;
+    throw e;
+  }
+}
+
+/**
+ * Public profile email for a user. GitHub only allows verified addresses as the public email.
+ */
+export async function getUserPublicEmail(username: string): Promise<string | null> {
+  const octokit = await getOctokit();
+  try {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.users.getByUsername({ username }),
+      `getByUsername ${username}`
+    );
+    return data?.email ? String(data.email).toLowerCase() : null;
+  } catch (e: any) {
+    if (e.status === 404) return null;
+    throw e;
+  }
+}
+
+export function parseGistId(proofUrl: string): string | null {
+  try {
+    const url = new URL(proofUrl);
+    if (url.hostname !== 'gist.github.com' && url.hostname !== 'gist.githubusercontent.com') return null;
+    const parts = url.pathname.split('/').filter(Boolean);
+    const id = url.hostname === 'gist.github.com' ? parts[parts.length - 1] : parts[1];
+    return id && /^[0-9a-f]+$/i.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the identity proof JSON (`didgit-proof.json`) from a gist. Returns the parsed
+ * payload and the gist owner's login, or null when the gist is missing or unreadable.
+ */
+export async function fetchIdentityProof(proofUrl: string): Promise<{ owner: string; payload: Record<string, any> } | null> {
+  const gistId = parseGistId(proofUrl);
+  if (!gistId) return null;
+
+  const octokit = await getOctokit();
+  try {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.gists.get({ gist_id: gistId }),
+      `getGist ${gistId}`
+    );
+    const files = Object.values(data?.files || {}) as Array<{ filename?: string; content?: string }>;
+    const file = files.find((f) => f.filename === 'didgit-proof.json') || files.find((f) => f.filename?.endsWith('.json'));
+    if (!file?.content) return null;
+    return { owner: data?.owner?.login || '', payload: JSON.parse(file.content) };
+  } catch (e: any) {
+    if (e.status === 404) return null;
+    if (e instanceof SyntaxError) return null;
+    throw e;
+  }
 }
 
 /**
  * List all public repos in an organization
  */
-export async function listOrgRepos(org: string): Promise<{ owner: string; name: string }[]> {
+export async function listOrgRepos(org: string): Promise<RepoRef[]> {
   const octokit = await getOctokit();
 
   try {
-    const repos: { owner: string; name: string }[] = [];
+    const repos: RepoRef[] = [];
     let page = 1;
     
     while (true) {
@@ -276,7 +694,7 @@ export async function listOrgRepos(org: string): Promise<{ owner: string; name:
       
       if (data.length === 0) break;
       
-      repos.push(...data.map((r: any) => ({ owner: org, name: r.name })));
+      repos.push(...data.map((r: any) => ({ owner: org, name: r.name, meta: parseGitHubRepoMetadata(r) })));
       page++;
       
       if (data.length < 100) break;
@@ -287,7 +705,7 @@ export async function listOrgRepos(org: string): Promise<{ owner: string; name:
     return repos;
   } catch (e: any) {
     if (e.status === 404) {
-      console.log(`[github] Org ${org} not found or not accessible`);
+      log.info(`Org ${org} not found or not accessible`);
       return [];
     }
     throw e;
@@ -297,11 +715,11 @@ export async function listOrgRepos(org: string): Promise<{ owner: string; name:
 /**
  * List repos for a user
  */
-export async function listUserRepos(username: string): Promise<{ owner: string; name: string }[]> {
+export async function listUserRepos(username: string): Promise<RepoRef[]> {
   const octokit = await getOctokit();
 
   try {
-    const repos: { owner: string; name: string }[] = [];
+    const repos: RepoRef[] = [];
     let page = 1;
     
     while (true) {
@@ -318,7 +736,7 @@ export async function listUserRepos(username: string): Promise<{ owner: string;
       
       if (data.length === 0) break;
       
-      repos.push(...data.map((r: any) => ({ owner: username, name: r.name })));
+      repos.push(...data.map((r: any) => ({ owner: username, name: r.name, meta: parseGitHubRepoMetadata(r) })));
       page++;
       
       if (data.length < 100) break;
@@ -329,9 +747,50 @@ export async function listUserRepos(username: string): Promise<{ owner: string;
     return repos;
   } catch (e: any) {
     if (e.status === 404) {
-      console.log(`[github] User ${username} not found`);
+      log.info(`User ${username} not found`);
       return [];
     }
     throw e;
   }
 }
+
+export function parseGitHubRepoMetadata(repo: any): RepoMetadata {
+  return {
+    topics: Array.isArray(repo?.topics) ? repo.topics : [],
+    fork: !!repo?.fork,
+    archived: !!repo?.archived,
+    language: repo?.language || null
+  };
+}
+
+/**
+ * Metadata of one repo, for filtered globs naming repos directly; null when it is not visible.
+ */
+export async function getRepoMetadata(owner: string, repo: string): Promise<RepoMetadata | null> {
+  const octokit = await getOctokit();
+  try {
+    const { data } = await requestWithRetry<any>(() => octokit.repos.get({ owner, repo }), `getRepo ${owner}/${repo}`);
+    return parseGitHubRepoMetadata(data);
+  } catch (e: any) {
+    if (e.status === 404 || e.status === 403) return null;
+    throw e;
+  }
+}
+
+/**
+ * True when `username` is an active owner (admin) of the GitHub org. Roles are only visible
+ * to org members, so the attester's token must belong to one (or carry org Members: read).
+ */
+export async function isOrgAdmin(org: string, username: string): Promise<boolean> {
+  const octokit = await getOctokit();
+  try {
+    const { data } = await requestWithRetry<any>(
+      () => octokit.orgs.getMembershipForUser({ org, username }),
+      `getOrgMembership ${org}/${username}`
+    );
+    return data?.state === 'active' && data?.role === 'admin';
+  } catch (e: any) {
+    if (e.status === 404 || e.status === 403) return false;
+    throw e;
+  }
+}
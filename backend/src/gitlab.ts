@@ -0,0 +1,268 @@
+/**
+ * GitLab platform adapter (gitlab.com or a self-hosted instance), REST API v4.
+ *
+ * Identity proofs are public personal snippets containing `didgit-proof.json`.
+ * Auth: GITLAB_TOKEN for gitlab.com, GITLAB_TOKEN_<HOST> for self-hosted instances.
+ */
+import type { CommitInfo } from './github';
+import { forgeRequest, instanceToken, type ForgeFetch } from './forge-http';
+import type { IdentityProof, PlatformAdapter, RepoMetadata, RepoRef } from './platform';
+
+// GitLab access level of group Owners
+const GITLAB_OWNER_ACCESS = 50;
+
+/** GitLab lists no language; `topics` replaced `tag_list` in GitLab 14.5. */
+export function parseGitLabProjectMetadata(project: any): RepoMetadata {
+  return {
+    topics: project?.topics ?? project?.tag_list ?? [],
+    fork: !!project?.forked_from_project,
+    archived: !!project?.archived,
+    language: null
+  };
+}
+
+/**
+ * Split `group/subgroup/project` into the namespace (owner) and project path (name).
+ */
+export function splitProjectPath(pathWithNamespace: string): RepoRef | null {
+  const idx = pathWithNamespace.lastIndexOf('/');
+  if (idx <= 0 || idx === pathWithNamespace.length - 1) return null;
+  return { owner: pathWithNamespace.slice(0, idx), name: pathWithNamespace.slice(idx + 1) };
+}
+
+/**
+ * Personal snippet id from `https://<domain>/-/snippets/<id>` (or the legacy `/snippets/<id>`).
+ * Returns null for other hosts and for project snippets.
+ */
+export function parseSnippetId(proofUrl: string, domain: string): string | null {
+  try {
+    const url = new URL(proofUrl);
+    if (url.host.toLowerCase() !== domain.toLowerCase()) return null;
+    const match = /^\/(?:-\/)?snippets\/(\d+)(?:\/|$)/.exec(url.pathname);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseGitLabCommit(c: any, repo: RepoRef, domain: string, username?: string, timestamp?: string, ref?: string): CommitInfo {
+  return {
+    sha: c.id,
+    author: {
+      email: c.author_email || '',
+      name: c.author_name || '',
+      username
+    },
+    message: c.message || c.title || '',
+    timestamp: timestamp || c.authored_date || c.created_at || new Date().toISOString(),
+    repo: { owner: repo.owner, name: repo.name },
+    domain,
+    ...(ref ? { ref } : {})
+  };
+}
+
+export class GitLabAdapter implements PlatformAdapter {
+  readonly domain: string;
+  private apiBase: string;
+  private projectPaths = new Map<number, RepoRef | null>();
+
+  constructor(baseUrl: string, private token?: string, private fetchFn?: ForgeFetch) {
+    const url = new URL(baseUrl);
+    this.domain = url.host.toLowerCase();
+    this.apiBase = `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}/api/v4`;
+  }
+
+  private async get<T = any>(path: string, label: string, text = false) {
+    return this.request<T>(`${this.apiBase}${path}`, label, text);
+  }
+
+  private async request<T = any>(url: string, label: string, text = false) {
+    return forgeRequest<T>(url, {
+      headers: this.token ? { 'PRIVATE-TOKEN': this.token } : {},
+      label: `[${this.domain}] ${label}`,
+      text,
+      fetchFn: this.fetchFn
+    });
+  }
+
+  private async getPaged(path: string, label: string): Promise<any[]> {
+    return (await this.getPages(path, label)).items;
+  }
+
+  /** `complete` is false when GITLAB_MAX_PAGES ran out before the last page. */
+  private async getPages(path: string, label: string): Promise<{ items: any[]; complete: boolean }> {
+    const maxPages = Number(process.env.GITLAB_MAX_PAGES || '5');
+    const sep = path.includes('?') ? '&' : '?';
+    const items: any[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const { data } = await this.get<any[]>(`${path}${sep}per_page=100&page=${page}`, `${label} page ${page}`);
+      items.push(...data);
+      if (data.length < 100) return { items, complete: true };
+    }
+    return { items, complete: false };
+  }
+
+  private async listProjects(path: string, label: string): Promise<RepoRef[]> {
+    try {
+      const projects = await this.getPaged(path, label);
+      return projects.flatMap((p) => {
+        const repo = splitProjectPath(p.path_with_namespace || '');
+        return repo ? [{ ...repo, meta: parseGitLabProjectMetadata(p) }] : [];
+      });
+    } catch (e: any) {
+      if (e.status === 404) return [];
+      throw e;
+    }
+  }
+
+  async listOrgRepos(group: string): Promise<RepoRef[]> {
+    return this.listProjects(
+      `/groups/${encodeURIComponent(group)}/projects?include_subgroups=true&visibility=public`,
+      `listGroupProjects ${group}`
+    );
+  }
+
+  async listUserRepos(username: string): Promise<RepoRef[]> {
+    return this.listProjects(
+      `/users/${encodeURIComponent(username)}/projects?visibility=public`,
+      `listUserProjects ${username}`
+    );
+  }
+
+  async getRepoMetadata(owner: string, repo: string): Promise<RepoMetadata | null> {
+    try {
+      const { data } = await this.get<any>(`/projects/${encodeURIComponent(`${owner}/${repo}`)}`, `getProject ${owner}/${repo}`);
+      return parseGitLabProjectMetadata(data);
+    } catch (e: any) {
+      if (e.status === 404 || e.status === 403) return null;
+      throw e;
+    }
+  }
+
+  async isOrgAdmin(group: string, username: string): Promise<boolean> {
+    try {
+      const members = await this.getPaged(
+        `/groups/${encodeURIComponent(group)}/members/all?query=${encodeURIComponent(username)}`,
+        `listGroupMembers ${group}`
+      );
+      const member = members.find((m) => m?.username?.toLowerCase() === username.toLowerCase());
+      return !!member && member.state !== 'blocked' && Number(member.access_level) >= GITLAB_OWNER_ACCESS;
+    } catch (e: any) {
+      if (e.status === 404 || e.status === 403) return false;
+      throw e;
+    }
+  }
+
+  async getRecentCommits(owner: string, repo: string, since?: Date, ref?: string): Promise<{ commits: CommitInfo[]; complete: boolean }> {
+    const project = encodeURIComponent(`${owner}/${repo}`);
+    const params = [
+      ...(since ? [`since=${encodeURIComponent(since.toISOString())}`] : []),
+      ...(ref ? [`ref_name=${encodeURIComponent(ref)}`] : [])
+    ];
+    const { items, complete } = await this.getPages(
+      `/projects/${project}/repository/commits${params.length > 0 ? `?${params.join('&')}` : ''}`,
+      `listCommits ${owner}/${repo}${ref ? `@${ref}` : ''}`
+    );
+    return { commits: items.map((c) => parseGitLabCommit(c, { owner, name: repo }, this.domain, undefined, undefined, ref)), complete };
+  }
+
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const project = encodeURIComponent(`${owner}/${repo}`);
+    const branches = await this.getPaged(`/projects/${project}/repository/branches`, `listBranches ${owner}/${repo}`);
+    return branches.map((b) => b.name).filter(Boolean);
+  }
+
+  /**
+   * Push events carry only the first/last commit of each push, so the pushed range is
+   * expanded through the compare API. The pusher is credited as the commit login,
+   * matching GitHub's events feed.
+   */
+  async getRecentOwnerPushCommits(owner: string, since?: Date): Promise<CommitInfo[]> {
+    // `after` is an exclusive date; step back a day and filter precisely below
+    const after = since ? `&after=${new Date(since.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10)}` : '';
+    const { data: events } = await this.get<any[]>(
+      `/users/${encodeURIComponent(owner)}/events?action=pushed&per_page=100${after}`,
+      `listUserEvents ${owner}`
+    );
+
+    const sinceMs = since?.getTime() ?? 0;
+    const commits: CommitInfo[] = [];
+    for (const event of events) {
+      const push = event?.push_data;
+      if (!push || push.ref_type === 'tag' || push.action === 'removed' || !push.commit_to) continue;
+      if (new Date(event.created_at).getTime() < sinceMs) continue;
+
+      const repo = await this.getProjectPath(event.project_id);
+      if (!repo) continue;
+      const pushed = push.commit_from
+        ? (await this.get<any>(
+            `/projects/${event.project_id}/repository/compare?from=${push.commit_from}&to=${push.commit_to}`,
+            `compare ${repo.owner}/${repo.name}`
+          )).data?.commits ?? []
+        : [(await this.get<any>(
+            `/projects/${event.project_id}/repository/commits/${push.commit_to}`,
+            `getCommit ${repo.owner}/${repo.name}@${String(push.commit_to).slice(0, 7)}`
+          )).data];
+
+      for (const c of pushed) {
+        if (c?.id) commits.push(parseGitLabCommit(c, repo, this.domain, event.author?.username, event.created_at, push.ref));
+      }
+    }
+    return commits;
+  }
+
+  private async getProjectPath(projectId: number): Promise<RepoRef | null> {
+    if (!this.projectPaths.has(projectId)) {
+      try {
+        const { data } = await this.get<any>(`/projects/${projectId}`, `getProject ${projectId}`);
+        this.projectPaths.set(projectId, splitProjectPath(data?.path_with_namespace || ''));
+      } catch (e: any) {
+        if (e.status !== 404 && e.status !== 403) throw e;
+        this.projectPaths.set(projectId, null);
+      }
+    }
+    return this.projectPaths.get(projectId) ?? null;
+  }
+
+  async fetchIdentityProof(proofUrl: string): Promise<IdentityProof | null> {
+    const snippetId = parseSnippetId(proofUrl, this.domain);
+    if (!snippetId) return null;
+
+    try {
+      const { data: snippet } = await this.get<any>(`/snippets/${snippetId}`, `getSnippet ${snippetId}`);
+      if (snippet?.visibility && snippet.visibility !== 'public') return null;
+
+      // Multi-file snippets list their files; older instances only expose the single-file raw endpoint
+      const files: Array<{ path?: string; raw_url?: string }> = Array.isArray(snippet?.files) ? snippet.files : [];
+      const file = files.find((f) => f.path === 'didgit-proof.json') || files.find((f) => f.path?.endsWith('.json'));
+      const raw = file?.raw_url
+        ? await this.request<string>(file.raw_url, `getSnippetFile ${snippetId}`, true)
+        : await this.get<string>(`/snippets/${snippetId}/raw`, `getSnippetRaw ${snippetId}`, true);
+
+      return { owner: snippet?.author?.username || '', payload: JSON.parse(raw.data) };
+    } catch (e: any) {
+      if (e.status === 404) return null;
+      if (e instanceof SyntaxError) return null;
+      throw e;
+    }
+  }
+
+  /**
+   * GitLab only allows a verified address as the public email.
+   */
+  async getUserPublicEmail(username: string): Promise<string | null> {
+    const { data: users } = await this.get<any[]>(
+      `/users?username=${encodeURIComponent(username)}`,
+      `findUser ${username}`
+    );
+    const id = users?.[0]?.id;
+    if (!id) return null;
+    const { data } = await this.get<any>(`/users/${id}`, `getUser ${username}`);
+    return data?.public_email ? String(data.public_email).toLowerCase() : null;
+  }
+}
+
+export function createGitLabAdapter(baseUrl: string, env: NodeJS.ProcessEnv = process.env): GitLabAdapter {
+  const domain = new URL(baseUrl).host.toLowerCase();
+  return new GitLabAdapter(baseUrl, instanceToken('GITLAB', domain, 'gitlab.com', env));
+}
@@ -0,0 +1,190 @@
+/**
+ * Off-chain check of identity attestations against their published proofs.
+ *
+ * An identity is verified when its `proof_url` still resolves on the platform, the proof
+ * was published by the claimed account, its payload (as built by `buildGistPayload` in
+ * onboard.ts) matches the attestation, and the signature over `<domain>:<username>`
+ * recovers to the attestation recipient.
+ *
+ * Usage:
+ *   pnpm run identity:verify                       # all identities on the active chain
+ *   pnpm run identity:verify alice gitlab.com:bob  # selected identities
+ */
+import 'dotenv/config';
+import { recoverMessageAddress, type Address, type Hex } from 'viem';
+import { getConfig } from './config';
+import { createPlatformRegistry, normalizeDomain, type PlatformAdapter, type PlatformRegistry } from './platform';
+
+export interface IdentityRecord {
+  uid: Hex;
+  domain: string;
+  username: string;
+  recipient: Address;
+  proofUrl?: string;
+  signature?: Hex;              // signature stored in the attestation itself
+}
+
+export interface IdentityVerification {
+  ok: boolean;
+  reason?: string;              // why verification failed
+}
+
+/**
+ * Read an identity attestation from the EAS GraphQL shape (`id`, `recipient`, `decodedDataJson`).
+ */
+export function parseIdentityAttestation(att: { id: string; recipient: string; decodedDataJson: string }): IdentityRecord | null {
+  try {
+    const decoded = JSON.parse(att.decodedDataJson);
+    if (!Array.isArray(decoded)) return null;
+    const field = (name: string) => decoded.find((d: any) => d.name === name)?.value?.value;
+    const username = field('username');
+    if (!username || typeof username !== 'string') return null;
+    return {
+      uid: att.id as Hex,
+      domain: normalizeDomain(field('domain')),
+      username,
+      recipient: att.recipient as Address,
+      proofUrl: field('proof_url') || undefined,
+      signature: field('signature') || undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function recovers(message: string, signature: unknown, expected: Address): Promise<boolean> {
+  if (typeof signature !== 'string' || !signature.startsWith('0x')) return false;
+  try {
+    const signer = await recoverMessageAddress({ message, signature: signature as Hex });
+    return signer.toLowerCase() === expected.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify one identity against its proof. Definitive failures resolve to `{ ok: false }`;
+ * platform errors (rate limits, outages) are thrown so callers can tell them apart.
+ */
+export async function verifyIdentity(identity: IdentityRecord, adapter: PlatformAdapter): Promise<IdentityVerification> {
+  if (!identity.proofUrl) return { ok: false, reason: 'no proof_url' };
+
+  const proof = await adapter.fetchIdentityProof(identity.proofUrl);
+  if (!proof) return { ok: false, reason: `proof not found at ${identity.proofUrl}` };
+
+  const username = identity.username.toLowerCase();
+  if (proof.owner.toLowerCase() !== username) {
+    return { ok: false, reason: `proof published by ${proof.owner || 'unknown'}, not ${identity.username}` };
+  }
+
+  const payload = proof.payload;
+  if (String(payload.username || '').toLowerCase() !== username) {
+    return { ok: false, reason: `proof is for username ${payload.username}` };
+  }
+  if (payload.domain && normalizeDomain(payload.domain) !== identity.domain) {
+    return { ok: false, reason: `proof is for domain ${payload.domain}` };
+  }
+  if (String(payload.wallet || '').toLowerCase() !== identity.recipient.toLowerCase()) {
+    return { ok: false, reason: `proof wallet ${payload.wallet} does not match recipient ${identity.recipient}` };
+  }
+
+  const message = `${identity.domain}:${identity.username}`;
+  if (!(await recovers(message, payload.signature, identity.recipient))) {
+    return { ok: false, reason: `proof signature does not recover to ${identity.recipient}` };
+  }
+  if (identity.signature && !(await recovers(message, identity.signature, identity.recipient))) {
+    return { ok: false, reason: `attestation signature does not recover to ${identity.recipient}` };
+  }
+  return { ok: true };
+}
+
+/**
+ * What the service does with identities that fail verification (IDENTITY_PROOF_CHECK):
+ * `skip` (default) drops them, `flag` logs and keeps them, `off` disables the check.
+ */
+export function getIdentityProofCheckMode(env: NodeJS.ProcessEnv = process.env): 'skip' | 'flag' | 'off' {
+  const mode = (env.IDENTITY_PROOF_CHECK || 'skip').trim().toLowerCase();
+  if (mode === 'skip' || mode === 'flag' || mode === 'off') return mode;
+  throw new Error(`Invalid IDENTITY_PROOF_CHECK: ${mode} (expected skip, flag or off)`);
+}
+
+async function fetchIdentityRecords(easGraphql: string, schemaUid: string): Promise<IdentityRecord[]> {
+  const query = `
+    query {
+      attestations(where: { schemaId: { equals: "${schemaUid}" }, revoked: { equals: false } }) {
+        id
+        recipient
+        decodedDataJson
+      }
+    }
+  `;
+  const res = await fetch(easGraphql, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query })
+  });
+  if (!res.ok) throw new Error(`EAS GraphQL error: ${res.status} ${res.statusText}`);
+  const json = await res.json() as { data?: { attestations?: any[] } };
+  return (json?.data?.attestations ?? [])
+    .map(parseIdentityAttestation)
+    .filter((r): r is IdentityRecord => r !== null);
+}
+
+/**
+ * `alice` means github.com:alice; `gitlab.com:bob` selects another platform.
+ */
+function matchesSelector(identity: IdentityRecord, selectors: string[]): boolean {
+  if (selectors.length === 0) return true;
+  return selectors.some((s) => {
+    const idx = s.lastIndexOf(':');
+    const domain = normalizeDomain(idx > 0 ? s.slice(0, idx) : undefined);
+    const username = idx > 0 ? s.slice(idx + 1) : s;
+    return domain === identity.domain && username.toLowerCase() === identity.username.toLowerCase();
+  });
+}
+
+async function main() {
+  const active = getConfig();
+  const registry: PlatformRegistry = createPlatformRegistry();
+  const selectors = process.argv.slice(2).filter(Boolean);
+
+  const identities = (await fetchIdentityRecords(active.easGraphql, active.identitySchemaUid))
+    .filter((identity) => matchesSelector(identity, selectors));
+  if (identities.length === 0) {
+    console.log('No matching identity attestations found');
+    return;
+  }
+
+  let failed = 0;
+  for (const identity of identities) {
+    const label = `${identity.domain}:${identity.username}`;
+    const adapter = registry.get(identity.domain);
+    if (!adapter) {
+      console.log(`SKIP  ${label} - no adapter for ${identity.domain}`);
+      continue;
+    }
+    try {
+      const result = await verifyIdentity(identity, adapter);
+      if (result.ok) {
+        console.log(`OK    ${label} → ${identity.recipient}`);
+      } else {
+        failed++;
+        console.log(`FAIL  ${label} (${identity.uid}): ${result.reason}`);
+      }
+    } catch (e: any) {
+      failed++;
+      console.log(`ERROR ${label}: ${e?.message ?? e}`);
+    }
+  }
+
+  console.log(`${identities.length - failed}/${identities.length} identities verified`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+const isMain = process.argv[1] && /identity-verifier\.(ts|js)$/.test(process.argv[1]);
+if (isMain) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -1,9 +1,13 @@
 import dotenv from 'dotenv';
-import { AttestationService } from './service';
+import { createAttestationService } from './multi-chain';
+import { createServer } from './server';
+import { createLogger } from './logger';
 
 // Load environment variables
 dotenv.config();
 
+const log = createLogger('main');
+
 // Validate required env vars
 const required = ['GITHUB_TOKEN'];
 const missing = required.filter(key => !process.env[key]);
@@ -12,28 +16,42 @@ if (!process.env.ATTESTER_PRIVKEY && !process.env.VERIFIER_PRIVKEY) {
 }
 
 if (missing.length > 0) {
-  console.error('Missing required environment variables:', missing.join(', '));
+  log.error(`Missing required environment variables: ${missing.join(', ')}`);
   process.exit(1);
 }
 
-// Start the service
-const service = new AttestationService();
+// Start the service (one pipeline per chain in ATTEST_CHAINS)
+const service = createAttestationService();
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
-  console.log('\n[main] Shutting down...');
+  log.info('Shutting down...');
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
-  console.log('\n[main] Shutting down...');
+  log.info('Shutting down...');
   process.exit(0);
 });
 
 // Start
-console.log('[main] didgit attestation service starting...');
+log.info('didgit attestation service starting...');
+
+// Status API, plus push webhooks (near-real-time attestations; polling stays on as reconciliation)
+const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+const port = Number(process.env.HTTP_PORT || '8080');
+createServer({
+  webhookSecret,
+  handlePushCommits: (commits) => service.handlePushCommits(commits),
+  status: service,
+  apiToken: process.env.ATTEST_API_TOKEN || undefined
+}).listen(port, () => {
+  log.info(`HTTP API listening on :${port}${webhookSecret ? ' (webhooks at /webhooks/github)' : ''}`, { port });
+});
+
+const pollMinutes = Number(process.env.ATTEST_POLL_MINUTES || '30');
 
-service.start(30).catch(err => {
-  console.error('[main] Fatal error:', err);
+service.start(pollMinutes).catch(err => {
+  log.error('Fatal error', err);
   process.exit(1);
 });
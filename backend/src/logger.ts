@@ -0,0 +1,93 @@
+/**
+ * Structured logging for the attester.
+ *
+ * Each line is one JSON object: `time`, `level`, `component`, `msg`, plus fields such as
+ * `runId`, `user`, `repo`, `sha` and `outcome`. Fields set with `withLogContext` (the
+ * current run) are added to every line logged inside that async call, including from
+ * the GitHub and session-key modules.
+ *
+ * - LOG_FORMAT: `json` (default) or `text` (`[component] msg key=value`, for local runs)
+ * - LOG_LEVEL: `debug`, `info` (default), `warn` or `error`
+ */
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogFields {
+  runId?: number;
+  user?: string;
+  repo?: string;
+  sha?: string;
+  outcome?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  /** `err` may be an Error; its message and class are logged as `error` / `errorClass`. */
+  error(msg: string, err?: unknown, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` attached to every log line it (transitively) emits.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+function minLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return LEVELS[level] ?? LEVELS.info;
+}
+
+function errorFields(err: unknown): LogFields {
+  if (err === undefined) return {};
+  if (err instanceof Error) {
+    return { error: err.message, errorClass: err.name, ...(err.stack && minLevel() <= LEVELS.debug ? { stack: err.stack } : {}) };
+  }
+  return { error: String(err) };
+}
+
+function serialize(value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export function formatLogLine(level: LogLevel, component: string, msg: string, fields: LogFields, format = process.env.LOG_FORMAT): string {
+  const clean: LogFields = {};
+  for (const [k, v] of Object.entries(fields)) {
+    if (v !== undefined) clean[k] = serialize(v);
+  }
+
+  if ((format || 'json').toLowerCase() === 'text') {
+    const extra = Object.entries(clean).map(([k, v]) => `${k}=${typeof v === 'string' ? v : JSON.stringify(v)}`);
+    return [`[${component}]`, msg, ...extra].join(' ');
+  }
+  return JSON.stringify({ time: new Date().toISOString(), level, component, msg, ...clean });
+}
+
+export function createLogger(component: string, base: LogFields = {}): Logger {
+  const emit = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < minLevel()) return;
+    const line = formatLogLine(level, component, msg, { ...context.getStore(), ...base, ...fields });
+    if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (msg, fields) => emit('debug', msg, fields),
+    info: (msg, fields) => emit('info', msg, fields),
+    warn: (msg, fields) => emit('warn', msg, fields),
+    error: (msg, err, fields) => emit('error', msg, { ...errorFields(err), ...fields }),
+    child: (fields) => createLogger(component, { ...base, ...fields })
+  };
+}
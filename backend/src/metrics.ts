@@ -0,0 +1,130 @@
+/**
+ * Prometheus metrics for the attester, served at GET /metrics (server.ts).
+ *
+ * Labels stay low-cardinality: skip reasons and failure messages are reduced to a
+ * fixed set of classes; Kernel balances are labelled by Kernel address (one series per user).
+ * Everything a chain's pipeline records carries a `chain` label, so ATTEST_CHAINS pipelines
+ * sharing the registry do not add into or overwrite each other's series.
+ */
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export type ContributionKind = 'commit' | 'pull' | 'review';
+export type SkipReason = 'unmatched_author' | 'not_registered' | 'no_session_key';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'didgit_' });
+
+export const contributionsSeen = new Counter({
+  name: 'didgit_contributions_seen_total',
+  help: 'Contributions (commits, PRs, reviews) found in watched repos',
+  labelNames: ['chain', 'kind'] as const,
+  registers: [metricsRegistry]
+});
+
+export const contributionsAttested = new Counter({
+  name: 'didgit_contributions_attested_total',
+  help: 'Contributions attested on-chain',
+  labelNames: ['chain', 'kind'] as const,
+  registers: [metricsRegistry]
+});
+
+export const contributionsSkipped = new Counter({
+  name: 'didgit_contributions_skipped_total',
+  help: 'Contributions skipped, by reason',
+  labelNames: ['chain', 'kind', 'reason'] as const,
+  registers: [metricsRegistry]
+});
+
+export const contributionsFailed = new Counter({
+  name: 'didgit_contributions_failed_total',
+  help: 'Failed attestation attempts, by error class',
+  labelNames: ['chain', 'kind', 'error_class'] as const,
+  registers: [metricsRegistry]
+});
+
+export const contributionsBlocked = new Counter({
+  name: 'didgit_contributions_blocked_total',
+  help: 'Contributions queued as blocked because the user\'s Kernel is below the gas threshold',
+  labelNames: ['chain', 'kind'] as const,
+  registers: [metricsRegistry]
+});
+
+export const sponsoredUserOps = new Counter({
+  name: 'didgit_sponsored_userops_total',
+  help: 'UserOps paid by an org paymaster, by sponsoring org',
+  labelNames: ['chain', 'org'] as const,
+  registers: [metricsRegistry]
+});
+
+export const sponsoredGas = new Counter({
+  name: 'didgit_sponsored_gas_eth_total',
+  help: 'Gas paid by org paymasters, in ETH',
+  labelNames: ['chain', 'org'] as const,
+  registers: [metricsRegistry]
+});
+
+export const sponsorshipFallbacks = new Counter({
+  name: 'didgit_sponsorship_fallbacks_total',
+  help: 'Contributions in a sponsored org that fell back to user-paid gas, by reason',
+  labelNames: ['chain', 'reason'] as const,
+  registers: [metricsRegistry]
+});
+
+export const apiRetries = new Counter({
+  name: 'didgit_api_retries_total',
+  help: 'Retried platform API requests (GitHub requestWithRetry and other forges)',
+  labelNames: ['platform', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const userOpDuration = new Histogram({
+  name: 'didgit_userop_duration_seconds',
+  help: 'Time from sending an attestation UserOp to its receipt',
+  labelNames: ['chain', 'outcome'] as const,
+  buckets: [1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [metricsRegistry]
+});
+
+export const kernelBalance = new Gauge({
+  name: 'didgit_kernel_balance_eth',
+  help: 'Kernel balance observed by the pre-run check or before the last UserOp',
+  labelNames: ['chain', 'kernel'] as const,
+  registers: [metricsRegistry]
+});
+
+export const runsTotal = new Counter({
+  name: 'didgit_runs_total',
+  help: 'Polling runs and webhook deliveries, by outcome',
+  labelNames: ['chain', 'trigger', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const runDuration = new Histogram({
+  name: 'didgit_run_duration_seconds',
+  help: 'Duration of polling runs and webhook deliveries',
+  labelNames: ['chain', 'trigger'] as const,
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1800],
+  registers: [metricsRegistry]
+});
+
+export const lastRunCompleted = new Gauge({
+  name: 'didgit_last_run_completed_timestamp_seconds',
+  help: 'Unix time of the last run that completed without error',
+  labelNames: ['chain', 'trigger'] as const,
+  registers: [metricsRegistry]
+});
+
+/**
+ * Reduce an attestation error message to a fixed class for the `error_class` label.
+ */
+export function classifyAttestError(message: string | undefined): string {
+  const msg = (message || '').toLowerCase();
+  if (msg.includes('insufficient') && msg.includes('balance')) return 'insufficient_balance';
+  if (msg.includes('schema_uid') || msg.includes('not set')) return 'config';
+  if (msg.includes('paymaster')) return 'paymaster';
+  if (/\baa\d\d\b/.test(msg)) return 'userop_rejected';
+  if (msg.includes('timeout') || msg.includes('timed out')) return 'timeout';
+  if (msg.includes('fetch failed') || msg.includes('econn') || msg.includes('network') || /\b50[234]\b/.test(msg)) return 'network';
+  if (msg.includes('permission') || msg.includes('signature') || msg.includes('validator')) return 'permission';
+  return 'other';
+}
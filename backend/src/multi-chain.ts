@@ -0,0 +1,169 @@
+/**
+ * Run the attestation service on several chains at once (ATTEST_CHAINS).
+ *
+ * Each chain gets an independent AttestationService: its own identity, contribution and
+ * permission schemas, bundler, paymaster and state store. The sponsorship ledger is shared, so an
+ * org's budget and per-user caps cover all chains together. A user is attested on
+ * every chain where their identity attestation lives, because each pipeline only loads
+ * the identities registered on its own chain.
+ *
+ * The status API sees one combined view; records that only make sense per chain carry a
+ * `chain` field, and `getRunDetail` takes the chain since run IDs are per store.
+ */
+import type { CommitInfo } from './github';
+import { getChainConfig, getChainKeys, type ChainKey } from './config';
+import { AttestationService, type ContributionDetail, type KernelFunding, type RunDetail, type ServiceHealth, type WatchedRepos, type WatchedUser } from './service';
+import { createStateStore, type RunRecord } from './state-store';
+import { createSponsorshipManager, type OrgSponsorshipSummary } from './sponsorship';
+import { createLogger, withLogContext } from './logger';
+
+const log = createLogger('multi-chain');
+
+type Chained<T> = T & { chain: ChainKey };
+
+export interface MultiChainHealth extends ServiceHealth {
+  chains: Record<string, ServiceHealth>;
+}
+
+export class MultiChainAttestationService {
+  private services: Map<ChainKey, AttestationService>;
+
+  constructor(services: Map<ChainKey, AttestationService>) {
+    if (services.size === 0) throw new Error('At least one chain is required');
+    this.services = services;
+  }
+
+  get chains(): ChainKey[] {
+    return [...this.services.keys()];
+  }
+
+  private each<T>(fn: (service: AttestationService, chain: ChainKey) => T): Array<{ chain: ChainKey; value: T }> {
+    return [...this.services].map(([chain, service]) => ({ chain, value: fn(service, chain) }));
+  }
+
+  /**
+   * Run every chain's pipeline once. Chains run one after another so they do not compete
+   * for the forge API rate limits; a failing chain does not stop the others.
+   */
+  async run(): Promise<void> {
+    for (const [chain, service] of this.services) {
+      try {
+        await withLogContext({ chain }, () => service.run());
+      } catch (e) {
+        log.error(`Run failed on ${chain}`, e, { chain });
+      }
+    }
+  }
+
+  /**
+   * Webhook commits go to every chain; each attests only the authors registered on it.
+   */
+  async handlePushCommits(commits: CommitInfo[]): Promise<number> {
+    let attested = 0;
+    for (const [chain, service] of this.services) {
+      attested += await withLogContext({ chain }, () => service.handlePushCommits(commits));
+    }
+    return attested;
+  }
+
+  async start(intervalMinutes: number = 30): Promise<void> {
+    log.info(`Starting service on ${this.chains.join(', ')} (interval: ${intervalMinutes}min)`);
+    await this.run();
+    setInterval(() => {
+      this.run().catch((e) => log.error('Run failed', e));
+    }, intervalMinutes * 60 * 1000);
+  }
+
+  getHealth(): MultiChainHealth {
+    const healths = this.each((s) => s.getHealth());
+    const lastRuns = healths
+      .map((h) => h.value.lastRun && { ...h.value.lastRun, chain: h.chain })
+      .filter((r): r is Chained<RunRecord> => !!r)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return {
+      ok: healths.every((h) => h.value.ok),
+      startedAt: healths.map((h) => h.value.startedAt).sort()[0],
+      running: healths.some((h) => h.value.running),
+      lastRun: lastRuns[0] ?? null,
+      users: healths.reduce((sum, h) => sum + h.value.users, 0),
+      retryQueue: healths.reduce((sum, h) => sum + h.value.retryQueue, 0),
+      blocked: healths.reduce((sum, h) => sum + h.value.blocked, 0),
+      chains: Object.fromEntries(healths.map((h) => [h.chain, h.value]))
+    };
+  }
+
+  getWatchedUsers(): Array<Chained<WatchedUser>> {
+    return this.each((s) => s.getWatchedUsers()).flatMap(({ chain, value }) => value.map((u) => ({ ...u, chain })));
+  }
+
+  getWatchedRepos(): { repos: Array<Chained<WatchedRepos['repos'][number]>>; wildcardOwners: Array<Chained<WatchedRepos['wildcardOwners'][number]>> } {
+    const all = this.each((s) => s.getWatchedRepos());
+    return {
+      repos: all.flatMap(({ chain, value }) => value.repos.map((r) => ({ ...r, chain }))),
+      wildcardOwners: all.flatMap(({ chain, value }) => value.wildcardOwners.map((o) => ({ ...o, chain })))
+    };
+  }
+
+  listRuns(limit: number): Array<Chained<RunRecord>> {
+    return this.each((s) => s.listRuns(limit))
+      .flatMap(({ chain, value }) => value.map((r) => ({ ...r, chain })))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * One run of `chain` (the first configured chain when omitted).
+   */
+  getRunDetail(id: number, chain?: string): Chained<RunDetail> | null {
+    const key = (chain || this.chains[0]) as ChainKey;
+    const run = this.services.get(key)?.getRunDetail(id);
+    return run ? { ...run, chain: key } : null;
+  }
+
+  getContributionDetail(id: string): Chained<ContributionDetail> | null {
+    for (const { chain, value } of this.each((s) => s.getContributionDetail(id))) {
+      if (value) return { ...value, chain };
+    }
+    return null;
+  }
+
+  /**
+   * Kernel addresses are the same on every chain; the first chain that knows the Kernel answers.
+   */
+  getKernelFunding(kernelAddress: string): Chained<KernelFunding> | null {
+    for (const { chain, value } of this.each((s) => s.getKernelFunding(kernelAddress))) {
+      if (value) return { ...value, chain };
+    }
+    return null;
+  }
+
+  /**
+   * Sponsored spend over all chains (they share one ledger), or null when sponsorship is off.
+   */
+  getSponsorshipSummary(): OrgSponsorshipSummary[] | null {
+    for (const { value } of this.each((s) => s.getSponsorshipSummary())) {
+      if (value) return value;
+    }
+    return null;
+  }
+}
+
+/**
+ * The service for ATTEST_CHAINS: a plain AttestationService for one chain (state file
+ * unchanged), or one pipeline per chain with per-chain state (`.attest-state.base.sqlite`, ...).
+ * The sponsorship ledger stays in the unnamespaced state file, shared by every chain, so spend
+ * recorded while running a single chain keeps counting against the budgets.
+ */
+export function createAttestationService(chains: ChainKey[] = getChainKeys()): AttestationService | MultiChainAttestationService {
+  if (chains.length === 1) {
+    return new AttestationService({ chain: getChainConfig(chains[0]) });
+  }
+  const ledger = process.env.SPONSORSHIP_POLICY ? createStateStore() : null;
+  const services = new Map<ChainKey, AttestationService>();
+  for (const chain of chains) {
+    const config = getChainConfig(chain);
+    const sponsorship = ledger && createSponsorshipManager(ledger, { ...process.env, PAYMASTER_RPC: config.paymasterRpc });
+    services.set(chain, new AttestationService({ chain: config, store: createStateStore(chain), sponsorship }));
+  }
+  return new MultiChainAttestationService(services);
+}
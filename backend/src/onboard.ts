@@ -16,6 +16,7 @@ export type Inputs = {
   signature: string;
   gistUrl: string;
   githubToken: string;
+  email?: string;
 };
 
 function readInputs(): Inputs {
@@ -26,15 +27,16 @@ function readInputs(): Inputs {
   const signature = (process.env.SIGNATURE || '').trim();
   const gistUrl = (process.env.GIST_URL || '').trim();
   const githubToken = (process.env.GITHUB_TOKEN || process.env.YOUR_GITHUB_TOKEN || '').trim();
-  return { githubUsername, privateKey, walletAddress, message, signature, gistUrl, githubToken };
+  const email = (process.env.GITHUB_EMAIL || '').trim();
+  return { githubUsername, privateKey, walletAddress, message, signature, gistUrl, githubToken, email };
 }
 
 function assertEnv(cond: boolean, msg: string) {
   if (!cond) throw new Error(msg);
 }
 
-function buildGistPayload(input: { githubUsername: string; walletAddress: string; signature: string }) {
-  return {
+function buildGistPayload(input: { githubUsername: string; walletAddress: string; signature: string; email?: string }) {
+  const payload: Record<string, string | number> = {
     domain: 'github.com',
     username: input.githubUsername,
     wallet: input.walletAddress,
@@ -43,6 +45,11 @@ function buildGistPayload(input: { githubUsername: string; walletAddress: string
     chain_id: ACTIVE.chainId,
     schema_uid: IDENTITY_SCHEMA
   };
+  // Optional commit email claim, used to match commits that carry no linked GitHub login
+  if (input.email) {
+    payload.email = input.email;
+  }
+  return payload;
 }
 
 async function createGist(token: string, payload: Record<string, string | number>) {
@@ -90,7 +97,8 @@ export async function runOnboard(options: RunOnboardOptions = {}) {
       const payload = buildGistPayload({
         githubUsername: inputs.githubUsername,
         walletAddress,
-        signature
+        signature,
+        email: inputs.email
       });
       gistUrl = await createGistFn(inputs.githubToken, payload);
       console.log('Gist:', gistUrl);
@@ -98,7 +106,8 @@ export async function runOnboard(options: RunOnboardOptions = {}) {
       const payload = buildGistPayload({
         githubUsername: inputs.githubUsername,
         walletAddress,
-        signature
+        signature,
+        email: inputs.email
       });
       console.log('No GITHUB_TOKEN found. Create a public gist named didgit-proof.json with:');
       console.log(JSON.stringify(payload, null, 2));
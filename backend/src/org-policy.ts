@@ -0,0 +1,183 @@
+/**
+ * Org policies: which of an org's repos may be attested, set by the org's owners.
+ *
+ * An ORG_POLICY attestation (`string org, string repoGlobs, uint16 minReviews`) references
+ * the attesting admin's identity attestation (refUID). It counts only when the attester is
+ * that identity's wallet and the platform reports the identity's user as an org owner
+ * (`PlatformAdapter.isOrgAdmin`). Per org, the newest policy that passes the check wins.
+ *
+ * `repoGlobs` uses the repo glob grammar, limited to the org's own repos and without `@ref`:
+ *   - `acme/{api,web}, acme/lib-*`     only these repos may be attested
+ *   - `!acme/secret-*`                 every repo except these (only exclusions given)
+ *   - `acme/*?archived=false, !acme/internal`
+ *
+ * With a policy in place, users' globs on the org are intersected with it. `minReviews`
+ * additionally requires that many approving reviews: on the merged pull request for PR
+ * attestations, and on a merged pull request containing the commit for commit attestations
+ * (only where the platform adapter can count them, `PlatformAdapter.getCommitApprovals`).
+ * Review attestations are not gated by it.
+ */
+import { normalizeDomain, type RepoMetadata } from './platform';
+import { matchesRepoGlob, parseRepoGlobs, splitRepoGlobs, type RepoGlob } from './repo-globs';
+
+export interface OrgPolicyAttestation {
+  id: string;
+  attester: string;
+  refUID?: string;
+  decodedDataJson: string;
+  timeCreated?: number;
+}
+
+export interface OrgPolicyEntry {
+  uid: string;
+  identityUid: string;       // refUID: the admin's identity attestation
+  attester: string;          // lowercased
+  org: string;
+  globs: string[];
+  minReviews: number;
+}
+
+export interface OrgPolicy extends OrgPolicyEntry {
+  domain: string;
+  admin: string;             // username of the org owner who attested it
+}
+
+/** The identity an ORG_POLICY attestation references, from the registered users. */
+export interface OrgPolicyIdentity {
+  domain: string;
+  username: string;
+  walletAddress: string;
+}
+
+interface SelectOptions {
+  identityFor: (identityUid: string) => OrgPolicyIdentity | undefined;
+  isOrgAdmin: (domain: string, org: string, username: string) => Promise<boolean>;
+  countsReviews: (domain: string) => boolean;   // whether minReviews can be enforced on the platform
+  onRejected?: (att: OrgPolicyAttestation, reason: string) => void;
+}
+
+const MAX_MIN_REVIEWS = 10;
+
+/**
+ * Validate a policy's globs for `org`, failing with every problem found.
+ */
+export function parseOrgPolicyGlobs(org: string, value: string): string[] {
+  const { globs, errors } = parseRepoGlobs(splitRepoGlobs(value));
+  const problems = errors.map((e) => e.message);
+  for (const glob of globs) {
+    if (glob.owner.toLowerCase() !== org.toLowerCase()) problems.push(`"${glob.source}" is not a repo of ${org}`);
+    if (glob.ref) problems.push(`"${glob.source}": org policies cannot limit refs`);
+  }
+  if (problems.length > 0) throw new Error(`Invalid org policy globs:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  if (globs.length === 0) throw new Error('Invalid org policy globs: none given');
+  return globs.map((g) => g.source);
+}
+
+export function parseMinReviews(value: unknown): number {
+  const n = Number(value ?? 0);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_MIN_REVIEWS) {
+    throw new Error(`minReviews must be a whole number from 0 to ${MAX_MIN_REVIEWS}`);
+  }
+  return n;
+}
+
+// The indexer renders uints as numbers, decimal strings or `{ type: 'BigNumber', hex }`
+function uintValue(value: unknown): unknown {
+  const hex = (value as { hex?: unknown } | null)?.hex;
+  return typeof hex === 'string' ? Number(BigInt(hex)) : value;
+}
+
+/**
+ * Decode one ORG_POLICY attestation. Throws when a field is missing or invalid.
+ */
+export function parseOrgPolicyAttestation(att: OrgPolicyAttestation): OrgPolicyEntry {
+  const fields = new Map<string, unknown>();
+  for (const field of JSON.parse(att.decodedDataJson) as any[]) fields.set(field?.name, field?.value?.value);
+  const org = String(fields.get('org') ?? '').trim();
+  if (!org) throw new Error('missing org');
+  if (!att.refUID || /^0x0*$/.test(att.refUID)) throw new Error('missing identity refUID');
+  return {
+    uid: att.id.toLowerCase(),
+    identityUid: att.refUID.toLowerCase(),
+    attester: att.attester.toLowerCase(),
+    org,
+    globs: parseOrgPolicyGlobs(org, String(fields.get('repoGlobs') ?? '')),
+    minReviews: parseMinReviews(uintValue(fields.get('minReviews')))
+  };
+}
+
+/**
+ * Policy key for a repo owner on a platform: `domain:owner`, lowercased.
+ */
+export function orgPolicyKey(domain: string | undefined, owner: string): string {
+  return `${normalizeDomain(domain)}:${owner}`.toLowerCase();
+}
+
+/**
+ * The policy in effect per org (keyed by orgPolicyKey): the newest attestation whose
+ * attester owns the referenced identity and is an owner of the org. Rejected ones go to
+ * `onRejected` and do not hide older valid policies.
+ */
+export async function selectOrgPolicies(
+  attestations: OrgPolicyAttestation[],
+  { identityFor, isOrgAdmin, countsReviews, onRejected = () => {} }: SelectOptions
+): Promise<Map<string, OrgPolicy>> {
+  const newestFirst = [...attestations].sort((a, b) =>
+    (b.timeCreated ?? 0) - (a.timeCreated ?? 0) || (b.id.toLowerCase() > a.id.toLowerCase() ? 1 : -1)
+  );
+  const policies = new Map<string, OrgPolicy>();
+
+  for (const att of newestFirst) {
+    let entry: OrgPolicyEntry;
+    try {
+      entry = parseOrgPolicyAttestation(att);
+    } catch (e) {
+      onRejected(att, (e as Error).message);
+      continue;
+    }
+    const identity = identityFor(entry.identityUid);
+    if (!identity) {
+      onRejected(att, `identity ${entry.identityUid} is not registered`);
+      continue;
+    }
+    const key = orgPolicyKey(identity.domain, entry.org);
+    if (policies.has(key)) continue;
+    if (identity.walletAddress.toLowerCase() !== entry.attester) {
+      onRejected(att, `attester ${entry.attester} does not own ${identity.domain}:${identity.username}`);
+      continue;
+    }
+    if (entry.minReviews > 0 && !countsReviews(identity.domain)) {
+      onRejected(att, `minReviews is not supported on ${normalizeDomain(identity.domain)}`);
+      continue;
+    }
+    if (!(await isOrgAdmin(identity.domain, entry.org, identity.username))) {
+      onRejected(att, `${identity.username} is not an owner of ${identity.domain}:${entry.org}`);
+      continue;
+    }
+    policies.set(key, { ...entry, domain: normalizeDomain(identity.domain), admin: identity.username });
+  }
+
+  return policies;
+}
+
+function parsedGlobs(policy: OrgPolicy): RepoGlob[] {
+  return parseRepoGlobs(policy.globs).globs;
+}
+
+/**
+ * True when the policy's globs carry `?` filters, so allowing a repo needs its metadata.
+ */
+export function orgPolicyNeedsMetadata(policy: OrgPolicy): boolean {
+  return parsedGlobs(policy).some((g) => !!g.filters);
+}
+
+/**
+ * True when the policy lets owner/name be attested: it matches an allowed glob (or the
+ * policy only lists exclusions) and no excluded one.
+ */
+export function orgPolicyAllows(policy: OrgPolicy, owner: string, name: string, meta?: RepoMetadata | null): boolean {
+  const globs = parsedGlobs(policy);
+  const allowed = globs.filter((g) => !g.exclude);
+  return (allowed.length === 0 || allowed.some((g) => matchesRepoGlob(g, owner, name, undefined, meta))) &&
+    !globs.some((g) => g.exclude && matchesRepoGlob(g, owner, name, undefined, meta));
+}
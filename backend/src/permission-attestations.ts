@@ -0,0 +1,129 @@
+/**
+ * Pick the session key permissions the attester may use from PERMISSION attestations.
+ *
+ * A user's Kernel can carry several PERMISSION attestations over time. Only the newest
+ * non-revoked one counts: when it names another attester (the permission was rotated away
+ * from us), the Kernel has no usable permission even if an older attestation names ours.
+ * An attestation whose UID is the refUID of another one was replaced by rotation and is
+ * ignored as well, in case the replacement was attested before it was revoked.
+ *
+ * Only attestations signed by the Kernel owner's EOA count, for both rules: anyone can attest
+ * a PERMISSION for any Kernel, and must not be able to retire or replace a user's permission.
+ *
+ * Permissions can be time-bound: the worker's `validUntil` becomes a ZeroDev timestamp policy
+ * in the serialized permission and the attestation's EAS expirationTime. Once either has
+ * passed, the Kernel has no usable permission until the user grants a new one.
+ */
+import type { Address } from 'viem';
+
+export interface PermissionAttestation {
+  id: string;
+  attester: string;          // EAS attester: the EOA that signed the attestation
+  refUID?: string;
+  decodedDataJson: string;
+  timeCreated?: number;
+  expirationTime?: number;   // unix seconds, 0 = never
+}
+
+export interface PermissionEntry {
+  uid: string;
+  kernelAddress: Address;
+  attester: string;
+  serialized: string;
+  validUntil?: number;       // unix seconds; earliest of expirationTime and the timestamp policy
+}
+
+interface SelectOptions {
+  now?: Date;
+  onError?: (att: PermissionAttestation, err: unknown) => void;
+}
+
+const ZERO_UID = `0x${'0'.repeat(64)}`;
+
+/**
+ * validUntil of the timestamp policy in a serialized ZeroDev permission (base64 JSON), if any.
+ */
+export function permissionValidUntil(serialized: string): number | undefined {
+  let params: any;
+  try {
+    params = JSON.parse(Buffer.from(serialized, 'base64').toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+  const policies: any[] = params?.permissionParams?.policies ?? [];
+  const limits = policies
+    .map((p) => p?.policyParams)
+    .filter((p) => p?.type === 'timestamp' && Number(p.validUntil) > 0)
+    .map((p) => Number(p.validUntil));
+  return limits.length ? Math.min(...limits) : undefined;
+}
+
+/**
+ * Decode one PERMISSION attestation, or null when it lacks the kernel or the serialized blob.
+ */
+export function parsePermissionAttestation(att: PermissionAttestation): PermissionEntry | null {
+  const data = JSON.parse(att.decodedDataJson);
+  // Schema (legacy field name): address userKernel, address verifier, address target, bytes4 selector, bytes serializedPermission
+  const kernelAddress = data[0]?.value?.value?.toLowerCase() as Address | undefined;
+  const attester = data[1]?.value?.value?.toLowerCase() as string | undefined;
+  const serializedHex = data[4]?.value?.value as string | undefined; // hex-encoded UTF-8
+  if (!kernelAddress || !attester || !serializedHex) return null;
+  const serialized = Buffer.from(serializedHex.slice(2), 'hex').toString('utf-8');
+  const deadlines = [Number(att.expirationTime ?? 0), permissionValidUntil(serialized) ?? 0].filter((t) => t > 0);
+  return {
+    uid: att.id.toLowerCase(),
+    kernelAddress,
+    attester,
+    serialized,
+    ...(deadlines.length ? { validUntil: Math.min(...deadlines) } : {})
+  };
+}
+
+/**
+ * Serialized permissions per lowercased Kernel for `attester`, from non-revoked attestations.
+ * `kernelOwner` gives the EOA owning a Kernel (undefined when unknown); attestations signed by
+ * anyone else are ignored. Attestations that fail to decode are passed to `onError` and skipped.
+ */
+export function selectPermissionConfigs(
+  attestations: PermissionAttestation[],
+  attester: string,
+  kernelOwner: (kernel: Address) => string | undefined,
+  { now = new Date(), onError = () => {} }: SelectOptions = {}
+): Map<Address, string> {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const owned: Array<{ att: PermissionAttestation; entry: PermissionEntry }> = [];
+  for (const att of attestations) {
+    let entry: PermissionEntry | null;
+    try {
+      entry = parsePermissionAttestation(att);
+    } catch (e) {
+      onError(att, e);
+      continue;
+    }
+    if (entry && kernelOwner(entry.kernelAddress)?.toLowerCase() === att.attester.toLowerCase()) {
+      owned.push({ att, entry });
+    }
+  }
+
+  // A refUID only retires a permission of the same Kernel
+  const replaced = new Set(
+    owned
+      .filter(({ att }) => !!att.refUID && att.refUID.toLowerCase() !== ZERO_UID)
+      .map(({ att, entry }) => `${entry.kernelAddress}:${att.refUID!.toLowerCase()}`)
+  );
+  const newestFirst = owned.sort((a, b) => (b.att.timeCreated ?? 0) - (a.att.timeCreated ?? 0));
+  const decided = new Set<Address>();
+  const configs = new Map<Address, string>();
+
+  for (const { entry } of newestFirst) {
+    if (replaced.has(`${entry.kernelAddress}:${entry.uid}`)) continue;
+    if (decided.has(entry.kernelAddress)) continue;
+    decided.add(entry.kernelAddress);
+    if (entry.validUntil !== undefined && entry.validUntil <= nowSeconds) continue;
+    if (entry.attester === attester.toLowerCase()) {
+      configs.set(entry.kernelAddress, entry.serialized);
+    }
+  }
+
+  return configs;
+}
@@ -1,7 +1,9 @@
 #!/usr/bin/env npx tsx
-import { privateKeyToAccount } from 'viem/accounts';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import type { Hex } from 'viem';
+import { createSiweMessage, generateSiweNonce } from 'viem/siwe';
 import { attestPermission } from './attest-permission';
+import { getConfig } from './config';
 
 type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
 
@@ -9,9 +11,13 @@ type RunOptions = {
   privateKey?: string;
   apiUrl?: string;
   apiKey?: string;
+  chainId?: number;
   kernelAddress?: string;
+  validUntil?: number;
+  maxAttestationsPerDay?: number;
+  gasLimitWei?: string;
   fetchFn?: FetchFn;
-  attestFn?: (args: { privateKey: string; kernelAddress: string; permissionData: string }) => Promise<{ tx: string; uid?: string }>;
+  attestFn?: (args: { privateKey: string; kernelAddress: string; permissionData: string; expirationTime?: number }) => Promise<{ tx: string; uid?: string }>;
   maxRetries?: number;
   retryDelayMs?: number;
 };
@@ -36,6 +42,32 @@ export function resolvePermissionApiUrl(explicitUrl?: string) {
   return url;
 }
 
+function optionalNumber(val: string | undefined) {
+  return val ? Number(val) : undefined;
+}
+
+// The worker rejects sign-in messages valid for more than 10 minutes
+const SIWE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Sign-in message for the permission worker, signed by the user's EOA. The worker accepts each
+ * nonce once per route, so one signature covers /prepare and /complete of this run.
+ */
+export async function signPermissionRequest(account: PrivateKeyAccount, apiUrl: string, chainId: number, now = new Date()) {
+  const message = createSiweMessage({
+    address: account.address,
+    chainId,
+    domain: new URL(apiUrl).host,
+    nonce: generateSiweNonce(),
+    uri: apiUrl,
+    version: '1',
+    statement: 'Set up a didgit session key permission for my Kernel.',
+    issuedAt: now,
+    expirationTime: new Date(now.getTime() + SIWE_TTL_MS)
+  });
+  return { message, signature: await account.signMessage({ message }) };
+}
+
 function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -74,26 +106,35 @@ export async function runPermissionSetup(opts: RunOptions = {}) {
   const apiUrl = normalizeBaseUrl(
     resolvePermissionApiUrl(opts.apiUrl || process.env.PERMISSION_API_URL)
   );
-  const apiKey = (opts.apiKey || process.env.PERMISSION_API_KEY || process.env.DIDGIT_API_KEY || 'ab95ab7e1850').trim();
+  // Server-to-server callers may use an API key; otherwise requests are signed by PRIVATE_KEY
+  const apiKey = (opts.apiKey || process.env.PERMISSION_API_KEY || process.env.DIDGIT_API_KEY || '').trim();
   const kernelAddress = (opts.kernelAddress || process.env.KERNEL_ADDRESS || '').trim();
+  // Optional session key limits; the worker needs the same values on /prepare and /complete
+  const limits = {
+    validUntil: opts.validUntil ?? optionalNumber(process.env.PERMISSION_VALID_UNTIL),
+    maxAttestationsPerDay: opts.maxAttestationsPerDay ?? optionalNumber(process.env.PERMISSION_MAX_ATTESTATIONS_PER_DAY),
+    gasLimitWei: opts.gasLimitWei || process.env.PERMISSION_GAS_LIMIT_WEI || undefined
+  };
   const fetchFn: FetchFn = opts.fetchFn || fetch;
   const attestFn = opts.attestFn || attestPermission;
   const maxRetries = opts.maxRetries ?? Number(process.env.PERMISSION_SETUP_RETRIES || 3);
   const retryDelayMs = opts.retryDelayMs ?? Number(process.env.PERMISSION_SETUP_RETRY_DELAY_MS || 750);
 
   requireEnv(privateKey, 'PRIVATE_KEY');
-  requireEnv(apiKey, 'PERMISSION_API_KEY');
 
   const account = privateKeyToAccount(privateKey as Hex);
   const userEOA = account.address;
+  const headers: Record<string, string> = apiKey
+    ? { 'content-type': 'application/json', 'x-api-key': apiKey }
+    : { 'content-type': 'application/json' };
+  const siwe = apiKey
+    ? undefined
+    : await signPermissionRequest(account, apiUrl, opts.chainId ?? getConfig().chain.id);
 
   const prepareRes = await fetchWithRetry(fetchFn, `${apiUrl}/prepare`, {
     method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      'x-api-key': apiKey
-    },
-    body: JSON.stringify({ userEOA, kernelAddress: kernelAddress || undefined })
+    headers,
+    body: JSON.stringify({ userEOA, kernelAddress: kernelAddress || undefined, ...limits, siwe })
   }, { maxRetries, retryDelayMs });
   const prepareJson = await prepareRes.json() as { typedData: any; kernelAddress: string };
   const typedData = prepareJson.typedData;
@@ -103,18 +144,16 @@ export async function runPermissionSetup(opts: RunOptions = {}) {
 
   const completeRes = await fetchWithRetry(fetchFn, `${apiUrl}/complete`, {
     method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      'x-api-key': apiKey
-    },
-    body: JSON.stringify({ userEOA, kernelAddress: resolvedKernel, enableSignature })
+    headers,
+    body: JSON.stringify({ userEOA, kernelAddress: resolvedKernel, enableSignature, ...limits, siwe })
   }, { maxRetries, retryDelayMs });
-  const completeJson = await completeRes.json() as { permissionData: string; kernelAddress: string };
+  const completeJson = await completeRes.json() as { permissionData: string; kernelAddress: string; expirationTime?: number };
 
   const permissionAttestation = await attestFn({
     privateKey,
     kernelAddress: completeJson.kernelAddress,
-    permissionData: completeJson.permissionData
+    permissionData: completeJson.permissionData,
+    expirationTime: completeJson.expirationTime || undefined
   });
 
   return {
@@ -0,0 +1,141 @@
+/**
+ * Platform adapters: the per-forge surface the attestation service needs
+ * (repo listing, commits since a date, push activity, identity proofs).
+ *
+ * The adapter is chosen from the identity attestation's `domain` field
+ * (`github.com`, `gitlab.com`, `codeberg.org`, `git.example.org`, ...).
+ * See docs/protocol/EXTENDING.md.
+ */
+import {
+  fetchIdentityProof,
+  getCommitApprovals,
+  getRecentCommits,
+  getRecentOwnerPushCommits,
+  getRepoMetadata,
+  getUserId,
+  getUserPublicEmail,
+  isOrgAdmin,
+  listBranches,
+  listOrgRepos,
+  listUserRepos,
+  type CommitInfo
+} from './github';
+import { parseInstanceList } from './forge-http';
+import { createGiteaAdapter } from './gitea';
+import { createGitLabAdapter } from './gitlab';
+
+export const DEFAULT_DOMAIN = 'github.com';
+
+/** Repo facts `?topic=` / `?fork=` / `?archived=` / `?language=` glob filters match on. */
+export type RepoMetadata = {
+  topics: string[];
+  fork: boolean;
+  archived: boolean;
+  language: string | null;        // null where the platform does not report it
+};
+
+/** `meta` is filled in when the listing already returns it. */
+export type RepoRef = { owner: string; name: string; meta?: RepoMetadata };
+
+export interface IdentityProof {
+  owner: string;                    // login of the account that published the proof
+  payload: Record<string, any>;     // parsed didgit-proof.json
+}
+
+export interface PlatformAdapter {
+  readonly domain: string;
+  listOrgRepos(org: string): Promise<RepoRef[]>;
+  listUserRepos(username: string): Promise<RepoRef[]>;
+  /** Topics, fork/archived flags and language of one repo; null when it is not visible. */
+  getRepoMetadata(owner: string, repo: string): Promise<RepoMetadata | null>;
+  /** Commits on `ref`, or on the default branch when it is omitted; `complete` is false when paging stopped early. */
+  getRecentCommits(owner: string, repo: string, since?: Date, ref?: string): Promise<{ commits: CommitInfo[]; complete: boolean }>;
+  /** Branch names, for globs limited to a ref pattern (`owner/repo@release/*`). */
+  listBranches(owner: string, repo: string): Promise<string[]>;
+  /** Commits pushed to any of the owner's repos (used for `owner/*` globs), with the branch in `ref`. */
+  getRecentOwnerPushCommits(owner: string, since?: Date): Promise<CommitInfo[]>;
+  /** Fetch the identity proof published at `proofUrl`, or null if it is not on this platform. */
+  fetchIdentityProof(proofUrl: string): Promise<IdentityProof | null>;
+  /** Public profile email, only where the platform guarantees it is verified. */
+  getUserPublicEmail?(username: string): Promise<string | null>;
+  /** Numeric account ID, to check the ID in `<id>+login` noreply commit emails (GitHub only). */
+  getUserId?(username: string): Promise<number | null>;
+  /** True when `username` owns the org / group; org policies are ignored where this is missing. */
+  isOrgAdmin?(org: string, username: string): Promise<boolean>;
+  /**
+   * Approving reviews on a merged pull request containing the commit, for org policies with
+   * `minReviews`; such policies are ignored where this is missing.
+   */
+  getCommitApprovals?(owner: string, repo: string, sha: string): Promise<number>;
+}
+
+/**
+ * Canonical domain: lowercased host (with port), no scheme or path. Empty means GitHub.
+ */
+export function normalizeDomain(domain: string | undefined): string {
+  const raw = (domain || '').trim().toLowerCase();
+  if (!raw) return DEFAULT_DOMAIN;
+  try {
+    return new URL(raw.includes('://') ? raw : `https://${raw}`).host;
+  } catch {
+    return raw;
+  }
+}
+
+export function isDefaultDomain(domain: string | undefined): boolean {
+  return normalizeDomain(domain) === DEFAULT_DOMAIN;
+}
+
+/**
+ * Repo name as recorded in attestations. GitHub repos keep the historical `owner/name`;
+ * other platforms are prefixed with their domain so identical paths stay distinct.
+ */
+export function qualifiedRepoName(domain: string | undefined, owner: string, name: string): string {
+  return isDefaultDomain(domain) ? `${owner}/${name}` : `${normalizeDomain(domain)}/${owner}/${name}`;
+}
+
+export const githubAdapter: PlatformAdapter = {
+  domain: DEFAULT_DOMAIN,
+  listOrgRepos,
+  listUserRepos,
+  getRepoMetadata,
+  getRecentCommits,
+  listBranches,
+  getRecentOwnerPushCommits,
+  fetchIdentityProof,
+  getUserPublicEmail,
+  getUserId,
+  isOrgAdmin,
+  getCommitApprovals
+};
+
+export type PlatformRegistry = Map<string, PlatformAdapter>;
+
+/**
+ * Adapters configured by env:
+ * - GitHub is always registered.
+ * - GITLAB_INSTANCES: comma-separated GitLab base URLs (default `https://gitlab.com`)
+ * - GITEA_INSTANCES: comma-separated Gitea/Forgejo base URLs (default `https://codeberg.org`)
+ */
+export function createPlatformRegistry(env: NodeJS.ProcessEnv = process.env): PlatformRegistry {
+  const registry: PlatformRegistry = new Map();
+  registry.set(githubAdapter.domain, githubAdapter);
+
+  for (const baseUrl of parseInstanceList(env.GITLAB_INSTANCES, 'https://gitlab.com')) {
+    const adapter = createGitLabAdapter(baseUrl, env);
+    registry.set(adapter.domain, adapter);
+  }
+
+  for (const baseUrl of parseInstanceList(env.GITEA_INSTANCES, 'https://codeberg.org')) {
+    const adapter = createGiteaAdapter(baseUrl, env);
+    registry.set(adapter.domain, adapter);
+  }
+
+  return registry;
+}
+
+export function getPlatformAdapter(registry: PlatformRegistry, domain: string | undefined): PlatformAdapter {
+  const adapter = registry.get(normalizeDomain(domain));
+  if (!adapter) throw new Error(`Unsupported platform: ${normalizeDomain(domain)}`);
+  return adapter;
+}
@@ -0,0 +1,209 @@
+#!/usr/bin/env npx tsx
+/**
+ * Repo glob versions from REPO_GLOBS attestations.
+ *
+ * Every `repo:register` adds a REPO_GLOBS attestation that references the identity
+ * attestation (refUID) and replaces the user's globs as a whole. The newest non-revoked
+ * attestation is in effect; revoking it brings back the one before. Ties on timeCreated
+ * (same block) go to the higher UID so every reader resolves the same globs.
+ *
+ * The history replays attestations and revocations in time order and records which globs
+ * each one added or removed, with the attestation UID.
+ *
+ * Usage:
+ *   IDENTITY_UID=0x... pnpm run repo:history
+ *   pnpm run repo:history -- 0x<identity uid> [--json]
+ */
+import 'dotenv/config';
+import { getConfig } from './config';
+import { parseRepoGlobsDecodedJson } from './repo-globs';
+
+export interface RepoGlobsAttestation {
+  id: string;
+  refUID?: string;
+  attester?: string;
+  decodedDataJson: string;
+  timeCreated?: number;      // unix seconds
+  revoked?: boolean;
+  revocationTime?: number;   // unix seconds, 0 = not revoked
+}
+
+export interface RepoGlobsVersion {
+  uid: string;
+  globs: string[];
+  timeCreated: number;
+}
+
+export interface RepoGlobChange {
+  kind: 'attested' | 'revoked';
+  uid: string;
+  time: number;              // unix seconds
+  globs: string[];           // in effect after this change
+  added: string[];
+  removed: string[];
+}
+
+export interface RepoGlobHistory {
+  identityUid: string;
+  current: RepoGlobsVersion | null;
+  changes: RepoGlobChange[];
+}
+
+const ZERO_UID = `0x${'0'.repeat(64)}`;
+
+function toVersion(att: RepoGlobsAttestation): RepoGlobsVersion | null {
+  const globs = parseRepoGlobsDecodedJson(att.decodedDataJson || '');
+  if (globs.length === 0) return null;
+  return { uid: att.id.toLowerCase(), globs, timeCreated: Number(att.timeCreated ?? 0) };
+}
+
+function newerFirst(a: RepoGlobsVersion, b: RepoGlobsVersion): number {
+  return b.timeCreated - a.timeCreated || (b.uid > a.uid ? 1 : b.uid < a.uid ? -1 : 0);
+}
+
+function revokedAt(att: RepoGlobsAttestation): number | undefined {
+  if (Number(att.revocationTime ?? 0) > 0) return Number(att.revocationTime);
+  // Revoked without a time: treat it as revoked from the start
+  return att.revoked ? Number(att.timeCreated ?? 0) : undefined;
+}
+
+/**
+ * The globs in effect per lowercased identity UID: the newest attestation that is not revoked.
+ * Attestations without a valid glob are skipped, so an older one stays in effect.
+ */
+export function selectRepoGlobs(attestations: RepoGlobsAttestation[]): Map<string, RepoGlobsVersion> {
+  const selected = new Map<string, RepoGlobsVersion>();
+  for (const att of attestations) {
+    const identityUid = att.refUID?.toLowerCase();
+    if (!identityUid || identityUid === ZERO_UID || revokedAt(att) !== undefined) continue;
+    const version = toVersion(att);
+    if (!version) continue;
+    const existing = selected.get(identityUid);
+    if (!existing || newerFirst(version, existing) < 0) selected.set(identityUid, version);
+  }
+  return selected;
+}
+
+function diff(before: string[], after: string[]) {
+  return {
+    added: after.filter((g) => !before.includes(g)),
+    removed: before.filter((g) => !after.includes(g))
+  };
+}
+
+/**
+ * Replay one identity's REPO_GLOBS attestations (revoked ones included) into a timeline.
+ * Changes that leave the effective globs as they were (revoking an attestation that was
+ * already superseded) are kept with empty `added`/`removed`.
+ */
+export function buildRepoGlobHistory(identityUid: string, attestations: RepoGlobsAttestation[]): RepoGlobHistory {
+  const uid = identityUid.toLowerCase();
+  const versions: Array<RepoGlobsVersion & { revokedAt?: number }> = [];
+  for (const att of attestations) {
+    if (att.refUID?.toLowerCase() !== uid) continue;
+    const version = toVersion(att);
+    if (version) versions.push({ ...version, revokedAt: revokedAt(att) });
+  }
+
+  const events = versions.flatMap((v) => [
+    { kind: 'attested' as const, time: v.timeCreated, version: v },
+    ...(v.revokedAt !== undefined ? [{ kind: 'revoked' as const, time: v.revokedAt, version: v }] : [])
+  ]);
+  // Attestations before revocations at the same second, so an attestation revoked in its own block still shows up
+  events.sort((a, b) => a.time - b.time || (a.kind === b.kind ? -newerFirst(a.version, b.version) : a.kind === 'attested' ? -1 : 1));
+
+  const live = new Set<RepoGlobsVersion>();
+  const effective = () => [...live].sort(newerFirst)[0] ?? null;
+  const changes: RepoGlobChange[] = [];
+  for (const event of events) {
+    const before = effective()?.globs ?? [];
+    if (event.kind === 'attested') live.add(event.version);
+    else live.delete(event.version);
+    const globs = effective()?.globs ?? [];
+    changes.push({ kind: event.kind, uid: event.version.uid, time: event.time, globs, ...diff(before, globs) });
+  }
+
+  const current = effective();
+  return { identityUid: uid, current: current && { uid: current.uid, globs: current.globs, timeCreated: current.timeCreated }, changes };
+}
+
+/**
+ * All REPO_GLOBS attestations referencing `identityUid`, revoked ones included.
+ */
+export async function fetchRepoGlobsAttestations(
+  easGraphql: string,
+  schemaUid: string,
+  identityUid: string,
+  fetchFn: typeof fetch = fetch
+): Promise<RepoGlobsAttestation[]> {
+  const query = `
+    query RepoGlobHistory($schemaId: String!, $refUID: String!) {
+      attestations(
+        where: { schemaId: { equals: $schemaId }, refUID: { equals: $refUID } }
+        orderBy: { timeCreated: asc }
+      ) {
+        id
+        refUID
+        attester
+        decodedDataJson
+        timeCreated
+        revoked
+        revocationTime
+      }
+    }
+  `;
+  const response = await fetchFn(easGraphql, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables: { schemaId: schemaUid, refUID: identityUid.toLowerCase() } })
+  });
+  if (!response.ok) throw new Error(`EAS GraphQL error: ${response.status}`);
+  const result = await response.json() as { data?: { attestations?: RepoGlobsAttestation[] }; errors?: Array<{ message: string }> };
+  if (!result.data) throw new Error(`EAS GraphQL error: ${result.errors?.map((e) => e.message).join('; ') || 'no data'}`);
+  return result.data.attestations ?? [];
+}
+
+/**
+ * One line per change: time, UID, what changed.
+ */
+export function formatRepoGlobHistory(history: RepoGlobHistory): string[] {
+  const lines = history.changes.map((change) => {
+    const when = new Date(change.time * 1000).toISOString();
+    const delta = [...change.added.map((g) => `+${g}`), ...change.removed.map((g) => `-${g}`)].join(' ') || '(no change)';
+    const current = history.current?.uid === change.uid && change.kind === 'attested' ? '  [current]' : '';
+    return `${when}  ${change.kind.padEnd(8)}  ${change.uid}  ${delta}${current}`;
+  });
+  lines.push(history.current
+    ? `In effect: ${history.current.globs.join(', ')} (${history.current.uid})`
+    : 'In effect: none (the attester defaults to <username>/*)');
+  return lines;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const identityUid = (args.find((a) => a.startsWith('0x')) || process.env.IDENTITY_UID || '').trim();
+  if (!/^0x[0-9a-fA-F]{64}$/.test(identityUid)) throw new Error('IDENTITY_UID required (0x-prefixed attestation UID)');
+
+  const active = getConfig();
+  const attestations = await fetchRepoGlobsAttestations(active.easGraphql, active.repoGlobsSchemaUid, identityUid);
+  const history = buildRepoGlobHistory(identityUid, attestations);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(history, null, 2));
+    return;
+  }
+  if (history.changes.length === 0) {
+    console.log(`No repo globs registered for ${identityUid} on ${active.name}`);
+    return;
+  }
+  for (const line of formatRepoGlobHistory(history)) console.log(line);
+  if (history.current) console.log('EASscan URL:', `${active.explorers.easAttestation}/${history.current.uid}`);
+}
+
+const isMain = process.argv[1] && /repo-glob-history\.(ts|js)$/.test(process.argv[1]);
+if (isMain) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -1,3 +1,369 @@
+/**
+ * Repo glob grammar, shared by the attestor (`resolveRepoGlobs`, `repoMatchesGlobs`) and
+ * the `repo:register` CLI so a glob that registers is a glob that resolves.
+ *
+ *   glob    := ['!'] owner '/' pattern ['@' ref] ['?' filter ('&' filter)*]
+ *   owner   := literal name (no wildcards: there is no way to list every owner)
+ *   pattern := ( name-char | '*' | '?' | class | '{' alt (',' alt)* '}' )+
+ *   class   := '[' ['!' | '^'] ( char | char '-' char )+ ']'
+ *   ref     := pattern, where '/' is also allowed (`release/*`)
+ *   filter  := 'topic=' name | 'language=' name | ('fork' | 'archived') '=' ('true' | 'false')
+ *
+ * e.g. `org/*`, `org/didgit-*`, `org/{api,web}`, `org/[a-c]*`, `!org/archived-*`,
+ * `org/repo@main`, `org/*@release/*`, `org/*?topic=didgit&fork=false&archived=false`.
+ * Repo matching is case-insensitive, ref matching is not (git branch names are case-sensitive).
+ * `!` globs exclude whole repos the other globs include. Without `@ref` a glob watches the
+ * default branch when listing commits and every branch in push events, as before refs existed.
+ * A `?` followed by `key=` starts the filters (`=` cannot appear in a repo pattern); every
+ * filter must hold, and a repo whose metadata is unknown matches no filtered glob.
+ */
+import { createLogger } from './logger';
+import type { RepoMetadata } from './platform';
+
+const log = createLogger('repo-globs');
+
+const NAME_CHAR = /[A-Za-z0-9_.-]/;
+const OWNER = /^[A-Za-z0-9_.-]+$/;
+
+export class RepoGlobError extends Error {
+  constructor(public glob: string, public reason: string, public column?: number) {
+    super(`Invalid repo glob "${glob}": ${reason}${column ? ` (column ${column})` : ''}`);
+    this.name = 'RepoGlobError';
+  }
+}
+
+/** Branches a glob is limited to (`@main`, `@release/*`). */
+export type RefGlob = {
+  source: string;
+  /** Branch names when the ref has no wildcards; empty otherwise. */
+  names: string[];
+  regex: RegExp;
+};
+
+/** `?` filters on repo metadata; every one must hold. */
+export type RepoFilters = {
+  topics: string[];
+  fork?: boolean;
+  archived?: boolean;
+  language?: string;
+};
+
+export type RepoGlob = {
+  /** The glob as written. */
+  source: string;
+  exclude: boolean;
+  owner: string;
+  /**
+   * `owner` for `owner/*`; `exact` when the pattern only names repos (`owner/{a,b}`);
+   * `pattern` when resolving it needs the owner's repo list.
+   */
+  kind: 'owner' | 'exact' | 'pattern';
+  /** Repo names for `exact` globs. */
+  names: string[];
+  /** Matches the repo name. */
+  regex: RegExp;
+  /** Absent when the glob is not limited to branches. */
+  ref?: RefGlob;
+  /** Absent when the glob does not filter on repo metadata. */
+  filters?: RepoFilters;
+};
+
+type Token =
+  | { type: 'literal'; value: string }
+  | { type: 'star' }
+  | { type: 'any' }
+  | { type: 'class'; source: string }
+  | { type: 'alt'; options: Token[][] };
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+}
+
+/**
+ * Tokens of `glob` from `start` to `end`; `/` is only allowed in refs.
+ */
+function tokenize(glob: string, start: number, end: number, allowSlash: boolean): Token[] {
+  const fail = (reason: string, index: number): never => {
+    throw new RepoGlobError(glob, reason, index + 1);
+  };
+
+  let i = start;
+  const parseClass = (): Token => {
+    const open = i++;
+    let negate = false;
+    if (glob[i] === '!' || glob[i] === '^') {
+      negate = true;
+      i++;
+    }
+    let body = '';
+    while (i < end && glob[i] !== ']') {
+      const from = glob[i];
+      if (!NAME_CHAR.test(from)) fail(`unexpected "${from}" in character class`, i);
+      if (glob[i + 1] === '-' && i + 2 < end && glob[i + 2] !== ']') {
+        const to = glob[i + 2];
+        if (!NAME_CHAR.test(to)) fail(`unexpected "${to}" in character class`, i + 2);
+        if (from > to) fail(`invalid range ${from}-${to}`, i);
+        body += `${escapeRegex(from)}-${escapeRegex(to)}`;
+        i += 3;
+      } else {
+        body += escapeRegex(from);
+        i++;
+      }
+    }
+    if (i >= end) fail('unterminated character class', open);
+    if (!body) fail('empty character class', open);
+    i++; // ]
+    return { type: 'class', source: `[${negate ? '^' : ''}${body}]` };
+  };
+
+  const parseSequence = (inBraces: boolean): Token[] => {
+    const tokens: Token[] = [];
+    while (i < end) {
+      const c = glob[i];
+      if (inBraces && (c === ',' || c === '}')) break;
+      if (c === '*') {
+        tokens.push({ type: 'star' });
+        i++;
+      } else if (c === '?') {
+        tokens.push({ type: 'any' });
+        i++;
+      } else if (c === '[') {
+        tokens.push(parseClass());
+      } else if (c === '{') {
+        if (inBraces) fail('nested braces are not supported', i);
+        const open = i++;
+        const options: Token[][] = [];
+        for (;;) {
+          options.push(parseSequence(true));
+          if (i >= end) fail('unterminated brace', open);
+          if (glob[i++] === '}') break;
+        }
+        tokens.push({ type: 'alt', options });
+      } else if (c === '}' || c === ',') {
+        fail(`unexpected "${c}" outside braces`, i);
+      } else if (c === ']') {
+        fail('unexpected "]" without "["', i);
+      } else if (c === '/' && !allowSlash) {
+        fail('repo names cannot contain "/"', i);
+      } else if (NAME_CHAR.test(c) || c === '/') {
+        tokens.push({ type: 'literal', value: c });
+        i++;
+      } else {
+        fail(`unexpected "${c}"`, i);
+      }
+    }
+    return tokens;
+  };
+
+  return parseSequence(false);
+}
+
+function toRegexSource(tokens: Token[]): string {
+  return tokens.map((t) => {
+    switch (t.type) {
+      case 'literal': return escapeRegex(t.value);
+      case 'star': return '.*';
+      case 'any': return '.';
+      case 'class': return t.source;
+      case 'alt': return `(?:${t.options.map(toRegexSource).join('|')})`;
+    }
+  }).join('');
+}
+
+/** Repo names a wildcard-free pattern stands for, or null when it has wildcards. */
+function literalNames(tokens: Token[]): string[] | null {
+  let names = [''];
+  for (const t of tokens) {
+    if (t.type === 'literal') {
+      names = names.map((n) => n + t.value);
+    } else if (t.type === 'alt') {
+      const options: string[] = [];
+      for (const option of t.options) {
+        const expanded = literalNames(option);
+        if (!expanded) return null;
+        options.push(...expanded);
+      }
+      names = names.flatMap((n) => options.map((o) => n + o));
+    } else {
+      return null;
+    }
+  }
+  return [...new Set(names.filter(Boolean))];
+}
+
+/**
+ * Parse one glob; throws RepoGlobError with the reason and column when it is not valid.
+ */
+export function parseRepoGlob(input: string): RepoGlob {
+  const source = input.trim();
+  const exclude = source.startsWith('!');
+  const body = exclude ? 1 : 0;
+  const slash = source.indexOf('/');
+  if (slash < 0) throw new RepoGlobError(source, 'expected owner/repo');
+
+  const owner = source.slice(body, slash);
+  if (!owner) throw new RepoGlobError(source, 'missing owner', body + 1);
+  if (!OWNER.test(owner)) {
+    const bad = owner.search(/[^A-Za-z0-9_.-]/);
+    const reason = /[*?[{]/.test(owner)
+      ? 'owner must be a name, not a pattern (wildcard owners like */repo cannot be resolved)'
+      : `unexpected "${owner[bad]}" in owner`;
+    throw new RepoGlobError(source, reason, body + bad + 1);
+  }
+  const query = source.slice(slash).search(/\?[A-Za-z_]+=/);
+  const queryStart = query < 0 ? source.length : slash + query;
+  const at = source.slice(0, queryStart).indexOf('@', slash);
+  const repoEnd = at < 0 ? queryStart : at;
+  if (repoEnd === slash + 1) throw new RepoGlobError(source, 'missing repo pattern', slash + 2);
+
+  const tokens = tokenize(source, slash + 1, repoEnd, false);
+  const names = literalNames(tokens);
+  if (names && names.length === 0) throw new RepoGlobError(source, 'pattern matches no repo name', slash + 2);
+  const kind = tokens.every((t) => t.type === 'star') ? 'owner' : names ? 'exact' : 'pattern';
+
+  let ref: RefGlob | undefined;
+  if (at >= 0) {
+    if (exclude) throw new RepoGlobError(source, 'exclusions apply to whole repos and cannot have an @ref', at + 1);
+    ref = parseRef(source, at + 1, queryStart);
+  }
+  const filters = queryStart < source.length ? parseFilters(source, queryStart + 1) : undefined;
+
+  return {
+    source,
+    exclude,
+    owner,
+    kind,
+    names: names ?? [],
+    regex: new RegExp(`^${toRegexSource(tokens)}$`, 'i'),
+    ref,
+    filters
+  };
+}
+
+function parseRef(glob: string, start: number, end: number): RefGlob {
+  if (start === end) throw new RepoGlobError(glob, 'missing ref after "@"', start + 1);
+  const nested = glob.slice(0, end).indexOf('@', start);
+  if (nested >= 0) throw new RepoGlobError(glob, 'unexpected "@" in ref', nested + 1);
+  const source = glob.slice(start, end);
+  if (source.startsWith('/') || source.endsWith('/') || source.includes('//')) {
+    throw new RepoGlobError(glob, `invalid ref "${source}"`, start + 1);
+  }
+  const tokens = tokenize(glob, start, end, true);
+  const names = literalNames(tokens);
+  if (names && names.length === 0) throw new RepoGlobError(glob, 'ref matches no branch name', start + 1);
+  return { source, names: names ?? [], regex: new RegExp(`^${toRegexSource(tokens)}$`) };
+}
+
+/**
+ * Parse the ref part of a glob on its own (`main`, `release/*`).
+ */
+export function parseRefGlob(ref: string): RefGlob {
+  const source = ref.trim();
+  return parseRef(source, 0, source.length);
+}
+
+const FILTER_VALUE = /^[A-Za-z0-9_.+#-]+$/;
+
+function parseFilters(glob: string, start: number): RepoFilters {
+  const filters: RepoFilters = { topics: [] };
+  let pos = start;
+  for (const part of glob.slice(start).split('&')) {
+    const column = pos + 1;
+    pos += part.length + 1;
+    const eq = part.indexOf('=');
+    const key = eq < 0 ? part : part.slice(0, eq);
+    const value = eq < 0 ? '' : part.slice(eq + 1);
+    if (!value) throw new RepoGlobError(glob, `filter "${key}" needs a value (${key}=...)`, column);
+    if (!FILTER_VALUE.test(value)) {
+      const hint = value.includes('@') ? ' (put @ref before the ? filters)' : '';
+      throw new RepoGlobError(glob, `invalid value "${value}" for ${key}${hint}`, column + eq + 1);
+    }
+    switch (key) {
+      case 'topic':
+        filters.topics.push(value.toLowerCase());
+        break;
+      case 'language':
+        if (filters.language !== undefined) throw new RepoGlobError(glob, 'language is given twice', column);
+        filters.language = value;
+        break;
+      case 'fork':
+      case 'archived':
+        if (value !== 'true' && value !== 'false') throw new RepoGlobError(glob, `${key} must be true or false`, column + eq + 1);
+        if (filters[key] !== undefined) throw new RepoGlobError(glob, `${key} is given twice`, column);
+        filters[key] = value === 'true';
+        break;
+      default:
+        throw new RepoGlobError(glob, `unknown filter "${key}" (expected topic, fork, archived or language)`, column);
+    }
+  }
+  return filters;
+}
+
+/**
+ * True when the repo's metadata passes every filter; unknown metadata passes none.
+ */
+export function matchesRepoFilters(filters: RepoFilters, meta: RepoMetadata | null | undefined): boolean {
+  if (!meta) return false;
+  const topics = new Set(meta.topics.map((t) => t.toLowerCase()));
+  if (filters.topics.some((t) => !topics.has(t))) return false;
+  if (filters.fork !== undefined && meta.fork !== filters.fork) return false;
+  if (filters.archived !== undefined && meta.archived !== filters.archived) return false;
+  if (filters.language !== undefined && meta.language?.toLowerCase() !== filters.language.toLowerCase()) return false;
+  return true;
+}
+
+/**
+ * Parse a list of globs, collecting the invalid ones instead of throwing.
+ */
+export function parseRepoGlobs(globs: string[]): { globs: RepoGlob[]; errors: RepoGlobError[] } {
+  const parsed: RepoGlob[] = [];
+  const errors: RepoGlobError[] = [];
+  for (const glob of globs) {
+    try {
+      parsed.push(parseRepoGlob(glob));
+    } catch (e) {
+      if (!(e instanceof RepoGlobError)) throw e;
+      errors.push(e);
+    }
+  }
+  return { globs: parsed, errors };
+}
+
+/**
+ * True when the glob covers owner/name and, for `@ref` globs, the branch `ref`.
+ * Leave `ref` out to ask about the repo alone (or when the branch is unknown).
+ * Filtered globs need the repo's `meta`.
+ */
+export function matchesRepoGlob(glob: RepoGlob, owner: string, name: string, ref?: string, meta?: RepoMetadata | null): boolean {
+  if (glob.owner.toLowerCase() !== owner.toLowerCase() || !glob.regex.test(name)) return false;
+  if (glob.filters && !matchesRepoFilters(glob.filters, meta)) return false;
+  return !glob.ref || ref === undefined || glob.ref.regex.test(ref);
+}
+
+/**
+ * Split the comma-separated schema value into globs, keeping commas inside `{a,b}`.
+ */
+export function splitRepoGlobs(value: string): string[] {
+  const globs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const c of value) {
+    if (c === '{') depth++;
+    if (c === '}') depth = Math.max(0, depth - 1);
+    if (c === ',' && depth === 0) {
+      globs.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  globs.push(current);
+  return globs.map((g) => g.trim()).filter(Boolean);
+}
+
+/**
+ * Valid globs of a repo globs attestation; invalid ones are logged and dropped.
+ */
 export function parseRepoGlobsDecodedJson(decodedJson: string): string[] {
   try {
     const decoded = JSON.parse(decodedJson);
@@ -7,10 +373,9 @@ export function parseRepoGlobsDecodedJson(decodedJson: string): string[] {
       decoded.find((d: any) => d.name === 'pattern');
     const value = field?.value?.value;
     if (!value || typeof value !== 'string') return [];
-    return value
-      .split(',')
-      .map((g: string) => g.trim())
-      .filter(Boolean);
+    const { globs, errors } = parseRepoGlobs(splitRepoGlobs(value));
+    for (const error of errors) log.warn(`Ignoring ${error.message}`);
+    return globs.map((g) => g.source);
   } catch {
     return [];
   }
@@ -1,53 +1,152 @@
-type RepoToWatch = { owner: string; name: string };
+import { createLogger } from './logger';
+import { orgPolicyAllows, orgPolicyNeedsMetadata, type OrgPolicy } from './org-policy';
+import type { RepoMetadata, RepoRef } from './platform';
+import { matchesRepoFilters, matchesRepoGlob, parseRepoGlobs, type RepoGlob } from './repo-globs';
+
+const log = createLogger('repo-watch');
+
+type RepoToWatch = RepoRef;
+
+/** A resolved repo; `ref` is the glob's ref pattern (`main`, `release/*`), absent for the default branch. */
+type WatchedRepo = RepoToWatch & { ref?: string };
 
 type ResolveRepoGlobsArgs = {
   globs: string[];
   skipWildcardOwners: Set<string>;
   listOrgRepos: (org: string) => Promise<RepoToWatch[]>;
   listUserRepos: (user: string) => Promise<RepoToWatch[]>;
+  /** Owner listings by lower-cased owner; pass the same map to share them across calls. */
+  ownerRepos?: Map<string, Promise<RepoToWatch[]>>;
+  /** Metadata for `?` filtered globs when the listing carried none (exact repo names). */
+  getRepoMetadata?: (owner: string, name: string) => Promise<RepoMetadata | null>;
+  /** The org policy covering an owner's repos, if its admins attested one. */
+  orgPolicy?: (owner: string) => OrgPolicy | undefined;
 };
 
-export async function resolveRepoGlobs(args: ResolveRepoGlobsArgs): Promise<RepoToWatch[]> {
-  const repos: RepoToWatch[] = [];
-  const seenRepos = new Set<string>();
-  const seenOwners = new Set<string>();
+/**
+ * Repo metadata for one run: seeded from repo listings, otherwise fetched at most once per repo.
+ */
+export class RepoMetadataCache {
+  private entries = new Map<string, Promise<RepoMetadata | null>>();
 
-  for (const glob of args.globs) {
-    if (glob.startsWith('*/')) {
-      console.log(`[repo-watch] Skipping unsupported glob: ${glob} (no */ prefix allowed)`);
-      continue;
+  constructor(private fetchMetadata: (domain: string, owner: string, name: string) => Promise<RepoMetadata | null>) {}
+
+  private key(domain: string, owner: string, name: string) {
+    return `${domain}:${owner}/${name}`.toLowerCase();
+  }
+
+  remember(domain: string, repos: RepoRef[]): void {
+    for (const repo of repos) {
+      if (repo.meta) this.entries.set(this.key(domain, repo.owner, repo.name), Promise.resolve(repo.meta));
     }
-    const [owner, repoPattern] = glob.split('/');
-    if (!owner || !repoPattern) continue;
+  }
 
-    if (repoPattern === '*') {
-      if (args.skipWildcardOwners.has(owner)) {
-        continue;
-      }
-      if (seenOwners.has(owner)) {
-        continue;
-      }
-      seenOwners.add(owner);
+  get(domain: string, owner: string, name: string): Promise<RepoMetadata | null> {
+    const key = this.key(domain, owner, name);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = this.fetchMetadata(domain, owner, name);
+      // A failed lookup is retried by the next caller instead of being cached
+      entry.catch(() => this.entries.delete(key));
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+}
 
-      let orgRepos = await args.listOrgRepos(owner);
-      if (orgRepos.length === 0) {
-        orgRepos = await args.listUserRepos(owner);
-      }
-      for (const repo of orgRepos) {
-        const key = `${repo.owner}/${repo.name}`;
-        if (!seenRepos.has(key)) {
-          seenRepos.add(key);
-          repos.push(repo);
-        }
+/**
+ * Repos covered by `globs`: exact names as written, `owner/*` and patterns from the owner's
+ * repo list (org first, then user), minus anything an `!` glob excludes or an org policy
+ * does not allow. Owners in
+ * `skipWildcardOwners` are followed through push events, so their wildcards are not listed.
+ * A repo appears once per ref pattern it is watched on (`org/api` and `org/api@release/*`).
+ */
+export async function resolveRepoGlobs(args: ResolveRepoGlobsArgs): Promise<WatchedRepo[]> {
+  const { globs, errors } = parseRepoGlobs(args.globs);
+  for (const error of errors) log.warn(`Skipping ${error.message}`);
+
+  const ownerRepos = args.ownerRepos ?? new Map<string, Promise<RepoToWatch[]>>();
+  const listOwner = (owner: string) => {
+    const key = owner.toLowerCase();
+    let listing = ownerRepos.get(key);
+    if (!listing) {
+      listing = args.listOrgRepos(owner).then(async (repos) => repos.length > 0 ? repos : args.listUserRepos(owner));
+      ownerRepos.set(key, listing);
+    }
+    return listing;
+  };
+
+  const fetched = new Map<string, Promise<RepoMetadata | null>>();
+  const metaOf = (repo: RepoToWatch) => {
+    if (repo.meta || !args.getRepoMetadata) return Promise.resolve(repo.meta ?? null);
+    const key = `${repo.owner}/${repo.name}`.toLowerCase();
+    if (!fetched.has(key)) fetched.set(key, args.getRepoMetadata(repo.owner, repo.name));
+    return fetched.get(key)!;
+  };
+  // Metadata is only looked up once the name matches
+  const matches = async (glob: RepoGlob, repo: RepoToWatch) =>
+    matchesRepoGlob({ ...glob, filters: undefined }, repo.owner, repo.name) &&
+    (!glob.filters || matchesRepoFilters(glob.filters, await metaOf(repo)));
+
+  const excludes = globs.filter((g) => g.exclude);
+  const repos: WatchedRepo[] = [];
+  const seenRepos = new Set<string>();
+  const add = async (repo: RepoToWatch, ref?: string) => {
+    const key = `${repo.owner}/${repo.name}`.toLowerCase() + (ref ? `@${ref}` : '');
+    if (seenRepos.has(key)) return;
+    for (const glob of excludes) {
+      if (await matches(glob, repo)) return;
+    }
+    const policy = args.orgPolicy?.(repo.owner);
+    if (policy) {
+      const meta = orgPolicyNeedsMetadata(policy) ? await metaOf(repo) : repo.meta;
+      if (!orgPolicyAllows(policy, repo.owner, repo.name, meta)) {
+        log.debug(`Skipping ${repo.owner}/${repo.name}: not allowed by the ${policy.org} org policy`);
+        return;
       }
-    } else {
-      const key = `${owner}/${repoPattern}`;
-      if (!seenRepos.has(key)) {
-        seenRepos.add(key);
-        repos.push({ owner, name: repoPattern });
+    }
+    seenRepos.add(key);
+    repos.push(ref ? { owner: repo.owner, name: repo.name, ref } : { owner: repo.owner, name: repo.name });
+  };
+
+  for (const glob of globs) {
+    if (glob.exclude) continue;
+    if (glob.kind === 'exact') {
+      for (const name of glob.names) {
+        if (await matches(glob, { owner: glob.owner, name })) await add({ owner: glob.owner, name }, glob.ref?.source);
       }
+      continue;
+    }
+    if (args.skipWildcardOwners.has(glob.owner)) continue;
+    for (const repo of await listOwner(glob.owner)) {
+      if (await matches(glob, repo)) await add(repo, glob.ref?.source);
     }
   }
 
   return repos;
 }
+
+/**
+ * Owners with an `owner/*` glob (followed through push events rather than repo listings).
+ */
+export function wildcardGlobOwners(globs: string[]): string[] {
+  return parseRepoGlobs(globs).globs.filter((g) => !g.exclude && g.kind === 'owner').map((g) => g.owner);
+}
+
+/**
+ * True when any glob filters on repo metadata (`?topic=`, `?fork=`, ...).
+ */
+export function globsNeedMetadata(globs: string[]): boolean {
+  return parseRepoGlobs(globs).globs.some((g) => !!g.filters);
+}
+
+/**
+ * True when owner/name matches one of the globs and none of the `!` exclusions. Pass the
+ * branch as `ref` to also honour `@ref` qualifiers (push events and webhooks), and the
+ * repo's `meta` for `?` filters.
+ */
+export function repoMatchesGlobs(owner: string, name: string, globs: string[], ref?: string, meta?: RepoMetadata | null): boolean {
+  const parsed = parseRepoGlobs(globs).globs;
+  return parsed.some((g) => !g.exclude && matchesRepoGlob(g, owner, name, ref, meta)) &&
+    !parsed.some((g) => g.exclude && matchesRepoGlob(g, owner, name, undefined, meta));
+}
@@ -12,11 +12,14 @@
  * - GITHUB_TOKEN: For GitHub API access
  */
 import dotenv from 'dotenv';
-import { AttestationService } from './service';
+import { createAttestationService } from './multi-chain';
+import { createLogger } from './logger';
 
 // Load environment variables
 dotenv.config();
 
+const log = createLogger('attestor');
+
 // Validate required env vars
 const required = ['GITHUB_TOKEN'];
 const missing = required.filter(key => !process.env[key]);
@@ -25,21 +28,21 @@ if (!process.env.ATTESTER_PRIVKEY && !process.env.VERIFIER_PRIVKEY) {
 }
 
 if (missing.length > 0) {
-  console.error('Missing required environment variables:', missing.join(', '));
+  log.error(`Missing required environment variables: ${missing.join(', ')}`);
   process.exit(1);
 }
 
 async function main() {
-  console.log('[attestor] Single run starting...');
+  log.info('Single run starting...');
   
-  const service = new AttestationService();
+  const service = createAttestationService();
   await service.run();
   
-  console.log('[attestor] Done.');
+  log.info('Done.');
   process.exit(0);
 }
 
 main().catch(err => {
-  console.error('[attestor] Fatal error:', err);
+  log.error('Fatal error', err);
   process.exit(1);
 });
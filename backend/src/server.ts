@@ -0,0 +1,163 @@
+import express from 'express';
+import type { CommitInfo } from './github';
+import type { AttestationService } from './service';
+import { createLogger } from './logger';
+import { metricsRegistry } from './metrics';
+import { parsePushWebhookToCommits, verifyWebhookSignature } from './webhook';
+
+const log = createLogger('server');
+
+type StatusSource = Pick<
+  AttestationService,
+  'getHealth' | 'getWatchedUsers' | 'getWatchedRepos' | 'listRuns' | 'getContributionDetail' | 'getKernelFunding' | 'getSponsorshipSummary'
+> & {
+  getRunDetail(id: number, chain?: string): ReturnType<AttestationService['getRunDetail']>;
+};
+
+type ServerDeps = {
+  handlePushCommits: (commits: CommitInfo[]) => Promise<number>;
+  webhookSecret?: string;
+  status?: StatusSource;
+  apiToken?: string;              // when set, every read endpoint but /health and /kernels needs `Authorization: Bearer <token>`
+};
+
+/**
+ * HTTP entry point for the attestation service.
+ *
+ * POST /webhooks/github accepts GitHub `push` webhooks. The request is acknowledged
+ * immediately (GitHub times out after 10s) and commits are attested in the background.
+ *
+ * Read-only status API (when `status` is provided):
+ *   GET /health         liveness, last run, retry queue size
+ *   GET /users          registered users from the last run
+ *   GET /repos          watched repos and owners with their cursors
+ *   GET /runs           recent runs (?limit=, default 20)
+ *   GET /runs/:id       one run with the contributions it processed and their skip/failure reasons
+ *                       (?chain= picks the chain when several run; run IDs are per chain)
+ *   GET /commits/:sha   stored state for one commit (full SHA)
+ *   GET /kernels/:address  gas funding state of one user's Kernel (open, CORS-enabled for the web app)
+ *   GET /sponsorship    paymaster spend per sponsoring org and per user (404 when sponsorship is off)
+ *
+ * GET /metrics serves Prometheus metrics (metrics.ts).
+ */
+export function createServer(deps: ServerDeps) {
+  const app = express();
+
+  const requireToken: express.RequestHandler = (req, res, next) => {
+    if (deps.apiToken && req.get('authorization') !== `Bearer ${deps.apiToken}`) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  app.get('/metrics', requireToken, async (_req, res) => {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  });
+
+  const status = deps.status;
+  if (status) {
+    app.get('/health', (_req, res) => {
+      res.json(status.getHealth());
+    });
+
+    app.get('/users', requireToken, (_req, res) => {
+      res.json(status.getWatchedUsers());
+    });
+
+    app.get('/repos', requireToken, (_req, res) => {
+      res.json(status.getWatchedRepos());
+    });
+
+    app.get('/runs', requireToken, (req, res) => {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 200);
+      res.json(status.listRuns(limit));
+    });
+
+    app.get('/runs/:id', requireToken, (req, res) => {
+      const id = Number(req.params.id);
+      const chain = typeof req.query.chain === 'string' ? req.query.chain : undefined;
+      const run = Number.isInteger(id) ? status.getRunDetail(id, chain) : null;
+      if (!run) {
+        res.status(404).json({ error: 'Run not found' });
+        return;
+      }
+      res.json(run);
+    });
+
+    app.get('/commits/:sha', requireToken, (req, res) => {
+      const sha = String(req.params.sha).toLowerCase();
+      const commit = /^([0-9a-f]{40}|[0-9a-f]{64})$/.test(sha) ? status.getContributionDetail(sha) : null;
+      if (!commit) {
+        res.status(404).json({ error: 'Commit not found' });
+        return;
+      }
+      res.json(commit);
+    });
+
+    app.get('/sponsorship', requireToken, (_req, res) => {
+      const summary = status.getSponsorshipSummary();
+      if (!summary) {
+        res.status(404).json({ error: 'Sponsorship not configured' });
+        return;
+      }
+      res.json(summary);
+    });
+
+    app.get('/kernels/:address', (req, res) => {
+      res.set('Access-Control-Allow-Origin', '*');
+      const address = String(req.params.address);
+      const funding = /^0x[0-9a-fA-F]{40}$/.test(address) ? status.getKernelFunding(address) : null;
+      if (!funding) {
+        res.status(404).json({ error: 'Kernel not found' });
+        return;
+      }
+      res.json(funding);
+    });
+  }
+
+  app.post('/webhooks/github', express.raw({ type: '*/*', limit: '5mb' }), (req, res) => {
+    if (!deps.webhookSecret) {
+      res.status(404).json({ error: 'Webhooks not configured' });
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+    if (!verifyWebhookSignature(deps.webhookSecret, rawBody, req.get('x-hub-signature-256'))) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const event = req.get('x-github-event');
+    if (event === 'ping') {
+      res.status(200).json({ ok: true });
+      return;
+    }
+    if (event !== 'push') {
+      res.status(202).json({ ignored: event || 'unknown' });
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString('utf-8'));
+    } catch {
+      res.status(400).json({ error: 'Invalid JSON' });
+      return;
+    }
+
+    const commits = parsePushWebhookToCommits(payload);
+    const delivery = req.get('x-github-delivery') || 'unknown';
+    log.info(`push ${payload?.repository?.full_name} (${commits.length} commits, delivery ${delivery})`, { repo: payload?.repository?.full_name, delivery });
+    res.status(202).json({ accepted: commits.length });
+
+    if (commits.length > 0) {
+      deps.handlePushCommits(commits).catch((e) => {
+        log.error(`Failed to process delivery ${delivery}`, e, { delivery });
+      });
+    }
+  });
+
+  return app;
+}
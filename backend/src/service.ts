@@ -3,22 +3,25 @@ import { toAccount } from 'viem/accounts';
 import { createKernelAccount } from '@zerodev/sdk';
 import { signerToEcdsaValidator } from '@zerodev/ecdsa-validator';
 import { KERNEL_V3_1, getEntryPoint } from '@zerodev/sdk/constants';
-import { getRecentCommits, getRecentOwnerPushCommits, matchCommitToGitHubUser, listOrgRepos, listUserRepos, type CommitInfo } from './github';
-import { attestCommitWithSession, type SessionConfig } from './attest-with-session';
-import { getConfig } from './config';
+import { getPullRequestApprovals, getRecentMergedPullRequests, getRecentReviews, resolveCommitAuthor, type CommitAuthorContext, type CommitInfo, type PullRequestInfo, type ReviewInfo } from './github';
+import { attestCommitWithSession, attestCommitsWithSession, attestPullRequestWithSession, attestReviewWithSession, getBatchSize, type AttestCommitRequest, type AttestResult, type BatchAttestResult, type SessionConfig } from './attest-with-session';
+import { getConfig, type ActiveChainConfig } from './config';
 import { getAttesterPrivKey } from './env';
-import { parseRepoGlobsDecodedJson } from './repo-globs';
-import { fetchRecentAttestedCommits } from './contributions';
-import { resolveRepoGlobs } from './repo-watch';
-
-const ACTIVE = getConfig();
-const RESOLVER_ADDRESS = ACTIVE.resolverAddress as Address;
-const EAS_ADDRESS = ACTIVE.easAddress as Address;
-const IDENTITY_SCHEMA_UID = ACTIVE.identitySchemaUid as Hex;
-const CONTRIBUTION_SCHEMA_UID = ACTIVE.contributionSchemaUid as Hex;
-const REPO_GLOBS_SCHEMA_UID = ACTIVE.repoGlobsSchemaUid as Hex;
-const PERMISSION_SCHEMA_UID = ACTIVE.permissionSchemaUid as Hex;
-const EAS_GRAPHQL = ACTIVE.easGraphql;
+import { parseRefGlob, parseRepoGlobs } from './repo-globs';
+import { selectRepoGlobs } from './repo-glob-history';
+import { orgPolicyAllows, orgPolicyKey, orgPolicyNeedsMetadata, selectOrgPolicies, type OrgPolicy, type OrgPolicyAttestation } from './org-policy';
+import { selectPermissionConfigs, type PermissionAttestation } from './permission-attestations';
+import { fetchRecentAttestedCommits, fetchRecentAttestedPullRequests, fetchRecentAttestedReviews, pullRequestKey, reviewKey } from './contributions';
+import { RepoMetadataCache, globsNeedMetadata, repoMatchesGlobs, resolveRepoGlobs, wildcardGlobOwners } from './repo-watch';
+import { createStateStore, ownerCursorKey, pullsCursorKey, repoCursorKey, reviewsCursorKey, scanSince, type ContributionRecord, type RunRecord, type RunTrigger, type StateStore } from './state-store';
+import { createLogger, withLogContext, type LogFields } from './logger';
+import { classifyAttestError, contributionsAttested, contributionsBlocked, contributionsFailed, contributionsSeen, contributionsSkipped, lastRunCompleted, runDuration, runsTotal, sponsoredGas, sponsoredUserOps, sponsorshipFallbacks, type ContributionKind } from './metrics';
+import { BalanceMonitor, unfundedReason, type KernelBalanceStatus } from './balance-monitor';
+import { createSponsorshipManager, type OrgSponsorshipSummary, type SponsorshipManager, type SponsorshipRequest } from './sponsorship';
+import { DEFAULT_DOMAIN, createPlatformRegistry, getPlatformAdapter, isDefaultDomain, normalizeDomain, qualifiedRepoName, type PlatformAdapter, type PlatformRegistry, type RepoMetadata, type RepoRef } from './platform';
+import { getIdentityProofCheckMode, parseIdentityAttestation, verifyIdentity, type IdentityRecord, type IdentityVerification } from './identity-verifier';
+
+const log = createLogger('service');
 
 const resolverAbi = parseAbi([
   'function ownerOf(bytes32 identityHash) view returns (address)',
@@ -54,103 +57,365 @@ async function computeKernelAddress(publicClient: any, userEOA: Address) {
 }
 
 interface RegisteredUser {
-  githubUsername: string;
+  domain: string;                 // platform from the identity attestation (e.g. github.com, gitlab.com)
+  username: string;
   walletAddress: Address;         // User's EOA
   kernelAddress: Address;         // User's Kernel smart account
   identityAttestationUid: Hex;
   repoGlobs: string[];            // e.g., ["cyberstorm-dev/*", "cyberstorm-nisto/*"]
+  repoGlobsAttestationUid?: Hex;  // REPO_GLOBS attestation in effect (absent when defaulted to <username>/*)
+  proofUrl?: string;              // identity proof gist
+  proofVerified?: boolean;        // result of the off-chain proof check (absent when unchecked)
 }
 
 interface RepoToWatch {
+  domain: string;
   owner: string;
   name: string;
+  ref?: string;                   // ref pattern from an `@ref` glob (`main`, `release/*`); absent means the default branch
+}
+
+export interface ServiceHealth {
+  ok: boolean;
+  startedAt: string;
+  running: boolean;               // a run or webhook delivery is in progress
+  lastRun: RunRecord | null;
+  users: number;
+  retryQueue: number;             // failed contributions still eligible for retry
+  blocked: number;                // contributions waiting for a Kernel top-up
+}
+
+export interface WatchedUser {
+  domain: string;
+  username: string;
+  walletAddress: Address;
+  kernelAddress: Address;
+  identityAttestationUid: Hex;
+  repoGlobs: string[];
+  repoGlobsAttestationUid?: Hex;
+  proofVerified?: boolean;
+  hasSessionKey: boolean;
+  balanceEth?: number;            // from the last pre-run balance check
+  funded?: boolean;
+}
+
+export interface WatchedRepos {
+  repos: Array<RepoToWatch & { cursor: string | null }>;
+  wildcardOwners: Array<{ domain: string; owner: string; cursor: string | null }>;  // followed through push events
+}
+
+export interface KernelFunding extends KernelBalanceStatus {
+  blocked: number;                // contributions queued until this Kernel is funded
+}
+
+export type ContributionDetail = Omit<ContributionRecord, 'payload'> & { payload?: unknown };
+
+export interface RunDetail extends RunRecord {
+  counts: Record<ContributionRecord['status'], number>;
+  contributions: ContributionDetail[];
+}
+
+interface PendingAttestation {
+  commit: CommitInfo;
+  user: RegisteredUser;
+  username: string;
+  serializedPermission: string;
+  sponsorOrg?: string;            // sponsorship policy covering the repo owner (sponsorship.ts)
+}
+
+/**
+ * Who pays for a UserOp: an org's paymaster (`sponsorOrg`) or, when absent, the user's Kernel.
+ */
+interface GasPayer {
+  sponsorOrg?: string;
+}
+
+/**
+ * What the service attests (ATTEST_MODE): raw commits, merged pull requests, PR reviews,
+ * or everything. A comma-separated list (e.g. `commits,reviews`) selects several.
+ */
+type AttestKind = 'commits' | 'pulls' | 'reviews';
+
+const ATTEST_KINDS: AttestKind[] = ['commits', 'pulls', 'reviews'];
+
+function getAttestKinds(value = process.env.ATTEST_MODE || 'commits'): Set<AttestKind> {
+  const kinds = new Set<AttestKind>();
+  for (const part of value.toLowerCase().split(',').map((p) => p.trim()).filter(Boolean)) {
+    if (part === 'all') {
+      ATTEST_KINDS.forEach((k) => kinds.add(k));
+    } else if ((ATTEST_KINDS as string[]).includes(part)) {
+      kinds.add(part as AttestKind);
+    } else {
+      throw new Error(`Unknown ATTEST_MODE: ${part}`);
+    }
+  }
+  if (kinds.size === 0) throw new Error(`Unknown ATTEST_MODE: ${value}`);
+  return kinds;
+}
+
+function pullRequestContributionId(pr: { repo: { owner: string; name: string }; number: number }) {
+  return `pr:${pullRequestKey(`${pr.repo.owner}/${pr.repo.name}`, pr.number)}`;
+}
+
+function reviewContributionId(review: ReviewInfo) {
+  return `review:${reviewKey(`${review.repo.owner}/${review.repo.name}`, review.prNumber, review.id)}`;
+}
+
+/** One entry per repo, for scans that are not per branch (pull requests, reviews). */
+function distinctRepos(repos: RepoToWatch[]): RepoToWatch[] {
+  const byName = new Map<string, RepoToWatch>();
+  for (const repo of repos) {
+    const key = `${repo.domain}:${repo.owner}/${repo.name}`.toLowerCase();
+    if (!byName.has(key)) byName.set(key, repo);
+  }
+  return [...byName.values()];
+}
+
+function commitFields(commit: CommitInfo, fields: LogFields = {}): LogFields {
+  return { repo: qualifiedRepoName(commit.domain, commit.repo.owner, commit.repo.name), sha: commit.sha, ...fields };
+}
+
+function toContributionDetail(record: ContributionRecord, withPayload: boolean): ContributionDetail {
+  const { payload, ...rest } = record;
+  if (!withPayload || !payload) return rest;
+  try {
+    return { ...rest, payload: JSON.parse(payload) };
+  } catch {
+    return rest;
+  }
+}
+
+interface AttestationServiceOptions {
+  chain?: ActiveChainConfig;      // chain this pipeline attests on; defaults to CHAIN
+  store?: StateStore;
+  platforms?: PlatformRegistry;
+  balanceMonitor?: BalanceMonitor;
+  sponsorship?: SponsorshipManager | null;
 }
 
 export class AttestationService {
+  readonly chain: ActiveChainConfig;
   private publicClient;
   private lastCheckTime: Date;
-  private attestedCommits: Set<string>;
+  private store: StateStore;
+  private platforms: PlatformRegistry;
   private permissionConfigs: Map<Address, string>; // kernelAddress -> serialized permission
   private recentAttestedCache: { since: number; fetchedAt: number; commits: Set<string> } | null;
+  private maxRetries: number;
+  private users: RegisteredUser[] | null;
+  private authorContexts: Map<string, CommitAuthorContext>; // per platform domain
+  private identityChecks: Map<string, { checkedAt: number; result: IdentityVerification }>; // identity UID -> proof check
+  private balances: BalanceMonitor | null;            // null when ATTEST_BALANCE_CHECK=0
+  private unfundedKernels: Set<string>;               // lowercased Kernels below the gas threshold at the last check
+  private sponsorship: SponsorshipManager | null;     // null unless SPONSORSHIP_POLICY is set
+  private watchedRepos: Map<string, RepoToWatch>;     // `domain:owner/name[@ref]` from the last run
+  private watchedOwners: Map<string, { domain: string; owner: string }>;
+  private repoMetadata: RepoMetadataCache;            // topics/fork/archived/language for `?` glob filters, per run
+  private orgPolicies: Map<string, OrgPolicy>;        // `domain:org` -> policy attested by the org's owners
+  private currentRunId: number | undefined;
+  private busy: number;
+  private startedAt: Date;
+  private queue: Promise<unknown>;
 
-  constructor() {
+  constructor(options: AttestationServiceOptions = {}) {
+    this.chain = options.chain ?? getConfig();
     this.publicClient = createPublicClient({
-      chain: ACTIVE.chain,
-      transport: http(ACTIVE.rpcUrl)
+      chain: this.chain.chain,
+      transport: http(this.chain.rpcUrl)
     });
     this.lastCheckTime = new Date(Date.now() - 24 * 60 * 60 * 1000); // Start 24h ago
-    this.attestedCommits = new Set();
+    this.store = options.store ?? createStateStore();
+    this.platforms = options.platforms ?? createPlatformRegistry();
     this.permissionConfigs = new Map();
     this.recentAttestedCache = null;
+    this.maxRetries = Number(process.env.ATTEST_MAX_RETRIES || '5');
+    this.users = null;
+    this.authorContexts = new Map();
+    this.identityChecks = new Map();
+    this.balances = options.balanceMonitor ?? (process.env.ATTEST_BALANCE_CHECK === '0'
+      ? null
+      : new BalanceMonitor({ chain: this.chain.name, getBalance: (address) => this.publicClient.getBalance({ address }) }));
+    this.unfundedKernels = new Set();
+    this.sponsorship = options.sponsorship !== undefined
+      ? options.sponsorship
+      : createSponsorshipManager(this.store, { ...process.env, PAYMASTER_RPC: this.chain.paymasterRpc });
+    this.watchedRepos = new Map();
+    this.watchedOwners = new Map();
+    this.repoMetadata = this.newRepoMetadataCache();
+    this.orgPolicies = new Map();
+    this.currentRunId = undefined;
+    this.busy = 0;
+    this.startedAt = new Date();
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Serialize polling runs and webhook deliveries so the same commit is never attested twice concurrently.
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const tracked = async () => {
+      this.busy++;
+      try {
+        return await fn();
+      } finally {
+        this.busy--;
+      }
+    };
+    const next = this.queue.then(tracked, tracked);
+    this.queue = next.catch(() => undefined);
+    return next;
   }
 
   /**
-   * Load permission accounts from EAS attestations (on-chain storage)
+   * Load permission accounts from EAS attestations (on-chain storage). Only attestations
+   * signed by a registered user's EOA for that user's Kernel are used.
    */
-  async loadPermissionConfigs(): Promise<void> {
-    console.log('[service] Fetching session key permissions from EAS...');
+  async loadPermissionConfigs(users: RegisteredUser[]): Promise<void> {
+    log.info('Fetching session key permissions from EAS...');
     
     const query = `
       query {
         attestations(
-          where: { schemaId: { equals: "${PERMISSION_SCHEMA_UID}" }, revoked: { equals: false } }
+          where: { schemaId: { equals: "${this.chain.permissionSchemaUid}" }, revoked: { equals: false } }
           orderBy: { timeCreated: desc }
         ) {
           id
+          attester
           recipient
+          refUID
           decodedDataJson
           timeCreated
+          expirationTime
         }
       }
     `;
 
-    const response = await fetch(EAS_GRAPHQL, {
+    const response = await fetch(this.chain.easGraphql, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ query })
     });
 
     const result = await response.json() as any;
-    const attestations = result.data?.attestations || [];
+    if (!result.data) {
+      log.warn(`Permission query failed; keeping ${this.permissionConfigs.size} loaded permission config(s)`);
+      return;
+    }
+    const attestations: PermissionAttestation[] = result.data.attestations || [];
 
-    for (const att of attestations) {
-      try {
-        const data = JSON.parse(att.decodedDataJson);
-        // Schema (legacy field name): address userKernel, address verifier, address target, bytes4 selector, bytes serializedPermission
-        const userKernel = data[0]?.value?.value?.toLowerCase() as Address;
-        const attester = data[1]?.value?.value?.toLowerCase();
-        const serializedHex = data[4]?.value?.value as string; // hex-encoded UTF-8
-        
-        if (userKernel && serializedHex) {
-          // Only load permissions for our attester
-          const { privateKeyToAccount } = await import('viem/accounts');
-          const ourAttester = privateKeyToAccount(getAttesterPrivKey() as `0x${string}`).address.toLowerCase();
-          
-          if (attester === ourAttester) {
-            if (this.permissionConfigs.has(userKernel)) {
-              continue;
-            }
-            // Decode hex to UTF-8 string (the original serialized permission)
-            const serialized = Buffer.from(serializedHex.slice(2), 'hex').toString('utf-8');
-            this.permissionConfigs.set(userKernel, serialized);
-            console.log(`[service] Loaded permission for ${userKernel} (from EAS)`);
-          }
+    // Rebuilt on every load so revoked, rotated and expired permissions stop being used
+    const { privateKeyToAccount } = await import('viem/accounts');
+    const ourAttester = privateKeyToAccount(getAttesterPrivKey() as `0x${string}`).address;
+    const owners = new Map(users.map((u) => [u.kernelAddress.toLowerCase(), u.walletAddress]));
+    this.permissionConfigs = selectPermissionConfigs(attestations, ourAttester, (kernel) => owners.get(kernel.toLowerCase()), {
+      onError: (att, e) => log.error(`Failed to parse permission attestation ${att.id}`, e)
+    });
+    for (const kernel of this.permissionConfigs.keys()) {
+      log.info(`Loaded permission for ${kernel} (from EAS)`);
+    }
+
+    log.info(`Loaded ${this.permissionConfigs.size} permission config(s) from EAS`);
+  }
+
+  /**
+   * Load ORG_POLICY attestations and keep, per org, the newest one attested by an org owner
+   * with a registered identity (see org-policy.ts). Needs the registered users.
+   */
+  async loadOrgPolicies(users: RegisteredUser[]): Promise<void> {
+    if (!this.chain.orgPolicySchemaUid) {
+      this.orgPolicies = new Map();
+      return;
+    }
+
+    const query = `
+      query {
+        attestations(
+          where: { schemaId: { equals: "${this.chain.orgPolicySchemaUid}" }, revoked: { equals: false } }
+          orderBy: { timeCreated: desc }
+        ) {
+          id
+          attester
+          refUID
+          decodedDataJson
+          timeCreated
         }
+      }
+    `;
+
+    const response = await fetch(this.chain.easGraphql, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query })
+    });
+    const result = await response.json() as any;
+    if (!result.data) {
+      log.warn(`Org policy query failed; keeping ${this.orgPolicies.size} loaded org policy(ies)`);
+      return;
+    }
+    const attestations: OrgPolicyAttestation[] = result.data.attestations || [];
+
+    const identities = new Map(users.map((u) => [u.identityAttestationUid.toLowerCase(), u]));
+    this.orgPolicies = await selectOrgPolicies(attestations, {
+      identityFor: (uid) => identities.get(uid),
+      isOrgAdmin: async (domain, org, username) => {
+        const adapter = this.platforms.get(normalizeDomain(domain));
+        return adapter?.isOrgAdmin ? adapter.isOrgAdmin(org, username) : false;
+      },
+      countsReviews: (domain) => !!this.platforms.get(normalizeDomain(domain))?.getCommitApprovals,
+      onRejected: (att, reason) => log.warn(`Ignoring org policy ${att.id}: ${reason}`)
+    });
+    for (const policy of this.orgPolicies.values()) {
+      log.info(`Org policy for ${policy.domain}:${policy.org} by ${policy.admin}: ${policy.globs.join(', ')}${policy.minReviews ? ` (min ${policy.minReviews} review(s))` : ''}`);
+    }
+  }
+
+  private orgPolicyFor(domain: string | undefined, owner: string): OrgPolicy | undefined {
+    return this.orgPolicies.get(orgPolicyKey(domain, owner));
+  }
+
+  /**
+   * Why the org policy over the repo forbids attesting a contribution, or null when it does not
+   * (or there is no policy). `approvals` counts approving reviews for policies with minReviews;
+   * reviews pass none, as minReviews does not gate review attestations.
+   */
+  private async orgPolicyRejection(domain: string | undefined, owner: string, name: string, approvals?: () => Promise<number>): Promise<string | null> {
+    const policy = this.orgPolicyFor(domain, owner);
+    if (!policy) return null;
+    const meta = orgPolicyNeedsMetadata(policy) ? await this.repoMetadata.get(normalizeDomain(domain), owner, name) : undefined;
+    if (!orgPolicyAllows(policy, owner, name, meta)) return `not allowed by the ${policy.org} org policy`;
+    if (policy.minReviews > 0 && approvals) {
+      let count: number;
+      try {
+        count = await approvals();
       } catch (e) {
-        console.error('[service] Failed to parse permission attestation:', e);
+        return `could not count reviews for the ${policy.org} org policy: ${(e as Error).message}`;
+      }
+      if (count < policy.minReviews) {
+        return `the ${policy.org} org policy requires ${policy.minReviews} approving review(s), found ${count}`;
       }
     }
+    return null;
+  }
 
-    console.log(`[service] Loaded ${this.permissionConfigs.size} permission config(s) from EAS`);
+  /**
+   * Approving reviews for a commit through its platform's adapter. Fails where the adapter
+   * cannot count them, so a minReviews policy never lets such a commit through.
+   */
+  private commitApprovals(commit: CommitInfo): () => Promise<number> {
+    const adapter = this.adapterFor(commit.domain);
+    return async () => {
+      if (!adapter.getCommitApprovals) throw new Error(`reviews cannot be counted on ${adapter.domain}`);
+      return adapter.getCommitApprovals(commit.repo.owner, commit.repo.name, commit.sha);
+    };
   }
 
   async getRegisteredUsers(): Promise<RegisteredUser[]> {
-    console.log('[service] Fetching registered users from EAS...');
+    log.info('Fetching registered users from EAS...');
     
     // Query identity attestations
     const identityQuery = `
       query {
-        attestations(where: { schemaId: { equals: "${IDENTITY_SCHEMA_UID}" }, revoked: { equals: false } }) {
+        attestations(where: { schemaId: { equals: "${this.chain.identitySchemaUid}" }, revoked: { equals: false } }) {
           id
           recipient
           decodedDataJson
@@ -158,26 +423,30 @@ export class AttestationService {
       }
     `;
     
-    // Query repo globs attestations
+    // Query repo globs attestations; newest first so re-registering replaces the old globs
     const repoGlobsQuery = `
       query {
-        attestations(where: { schemaId: { equals: "${REPO_GLOBS_SCHEMA_UID}" }, revoked: { equals: false } }) {
+        attestations(
+          where: { schemaId: { equals: "${this.chain.repoGlobsSchemaUid}" }, revoked: { equals: false } }
+          orderBy: { timeCreated: desc }
+        ) {
           id
           recipient
           refUID
           decodedDataJson
+          timeCreated
         }
       }
     `;
 
     try {
       const [identityRes, repoGlobsRes] = await Promise.all([
-        fetch(EAS_GRAPHQL, {
+        fetch(this.chain.easGraphql, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ query: identityQuery })
         }),
-        fetch(EAS_GRAPHQL, {
+        fetch(this.chain.easGraphql, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ query: repoGlobsQuery })
@@ -190,103 +459,401 @@ export class AttestationService {
       const identities = identityData?.data?.attestations ?? [];
       const repoGlobsAtts = repoGlobsData?.data?.attestations ?? [];
 
-      // Build map of identity UID -> repo globs
-      const globsByIdentity = new Map<string, string[]>();
-      for (const att of repoGlobsAtts) {
-        const globs = parseRepoGlobsDecodedJson(att.decodedDataJson || '');
-        if (globs.length > 0 && att.refUID) {
-          globsByIdentity.set(att.refUID.toLowerCase(), globs);
-        }
-      }
+      // Identity UID -> the newest repo globs attestation (see repo-glob-history.ts)
+      const globsByIdentity = selectRepoGlobs(repoGlobsAtts);
 
       // Build registered users
       const users: RegisteredUser[] = [];
       const seenUsernames = new Set<string>();
 
-      const publicClient = createPublicClient({
-        chain: ACTIVE.chain,
-        transport: http(ACTIVE.rpcUrl)
-      });
+      const publicClient = this.publicClient;
+
+      const proofCheck = getIdentityProofCheckMode();
 
       for (const att of identities) {
         try {
-          const decoded = JSON.parse(att.decodedDataJson);
-          const usernameField = decoded.find((d: any) => d.name === 'username');
-          const username = usernameField?.value?.value;
-          
-          if (!username || seenUsernames.has(username.toLowerCase())) continue;
-          seenUsernames.add(username.toLowerCase());
-
-          const repoGlobs = globsByIdentity.get(att.id.toLowerCase()) || [];
+          const identity = parseIdentityAttestation(att);
+          if (!identity) continue;
+          const { domain, username, proofUrl } = identity;
+
+          // Identities are unique per platform: github.com:alice and gitlab.com:alice are different users
+          const identityKey = `${domain}:${username.toLowerCase()}`;
+          if (seenUsernames.has(identityKey)) continue;
+          if (!this.platforms.has(domain)) {
+            seenUsernames.add(identityKey);
+            log.info(`Skipping ${domain}:${username} - no adapter for ${domain}`);
+            continue;
+          }
+
+          let proofVerified: boolean | undefined;
+          if (proofCheck !== 'off') {
+            const check = await this.checkIdentity(identity);
+            proofVerified = check?.ok;
+            if (check && !check.ok) {
+              log.info(`Identity proof check failed for ${domain}:${username}: ${check.reason}${proofCheck === 'skip' ? ' - skipping' : ''}`);
+              // A later attestation for the same identity may still carry a valid proof
+              if (proofCheck === 'skip') continue;
+            }
+          }
+          seenUsernames.add(identityKey);
+
+          const globsVersion = globsByIdentity.get(att.id.toLowerCase());
+          const repoGlobs = globsVersion?.globs ?? [];
           const effectiveGlobs = repoGlobs.length > 0 ? repoGlobs : [`${username}/*`];
           if (repoGlobs.length === 0) {
-            console.log(`[service] Defaulting ${username} repo globs to ${effectiveGlobs.join(', ')}`);
+            log.info(`Defaulting ${username} repo globs to ${effectiveGlobs.join(', ')}`);
           }
 
           const walletAddress = att.recipient as Address;
           const kernelAddress = await computeKernelAddress(publicClient, walletAddress);
 
           users.push({
-            githubUsername: username,
+            domain,
+            username,
             walletAddress,
             kernelAddress,
             identityAttestationUid: att.id as Hex,
-            repoGlobs: effectiveGlobs
+            repoGlobs: effectiveGlobs,
+            repoGlobsAttestationUid: globsVersion?.uid as Hex | undefined,
+            proofUrl,
+            proofVerified
           });
 
-          console.log(`[service] Found user: ${username} with globs: ${effectiveGlobs.join(', ')}`);
+          log.info(`Found user: ${domain}:${username} with globs: ${effectiveGlobs.join(', ')}`);
         } catch {}
       }
 
       return users;
     } catch (e) {
-      console.error('[service] Error fetching from EAS:', e);
+      log.error('Error fetching from EAS', e);
       return [];
     }
   }
 
+  /**
+   * Verify an identity against its published proof, cached per attestation for
+   * IDENTITY_PROOF_CACHE_MS. Returns null when the platform could not be reached;
+   * such identities are kept and re-checked on the next run.
+   */
+  private async checkIdentity(identity: IdentityRecord): Promise<IdentityVerification | null> {
+    const ttlMs = Number(process.env.IDENTITY_PROOF_CACHE_MS || String(60 * 60 * 1000));
+    const cached = this.identityChecks.get(identity.uid.toLowerCase());
+    if (cached && Date.now() - cached.checkedAt < ttlMs) return cached.result;
+
+    try {
+      const result = await verifyIdentity(identity, this.adapterFor(identity.domain));
+      this.identityChecks.set(identity.uid.toLowerCase(), { checkedAt: Date.now(), result });
+      return result;
+    } catch (e) {
+      log.error(`Could not check identity proof for ${identity.domain}:${identity.username}`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Build email -> login lookups for commits without a linked login, per platform:
+   * registered users' public profile emails (verified by the platform) and emails claimed
+   * in their identity proofs (only trusted when the proof belongs to the user, and only when
+   * no other identity claims the same email). Account IDs, for noreply addresses, are read
+   * even with email matching off.
+   */
+  async buildAuthorContexts(users: RegisteredUser[]): Promise<Map<string, CommitAuthorContext>> {
+    const contexts = new Map<string, CommitAuthorContext>();
+    const emailMatching = process.env.ATTEST_EMAIL_MATCHING !== '0';
+
+    let verifiedCount = 0;
+    const contested = new Set<string>();   // `domain:email` claimed by two identities
+    for (const user of users) {
+      const adapter = this.adapterFor(user.domain);
+      const ctx = contexts.get(user.domain) ?? { verifiedEmails: new Map(), proofEmails: new Map(), accountIds: new Map() };
+      contexts.set(user.domain, ctx);
+      const verifiedEmails = ctx.verifiedEmails!;
+      const proofEmails = ctx.proofEmails!;
+
+      try {
+        const id = adapter.getUserId ? await adapter.getUserId(user.username) : null;
+        if (id !== null) ctx.accountIds!.set(user.username.toLowerCase(), id);
+      } catch (e) {
+        log.error(`Failed to fetch account ID for ${user.username}`, e);
+      }
+      if (!emailMatching) continue;
+
+      try {
+        const email = adapter.getUserPublicEmail ? await adapter.getUserPublicEmail(user.username) : null;
+        if (email) {
+          verifiedEmails.set(email, user.username);
+          verifiedCount++;
+        }
+      } catch (e) {
+        log.error(`Failed to fetch profile email for ${user.username}`, e);
+      }
+
+      if (!user.proofUrl) continue;
+      try {
+        const proof = await adapter.fetchIdentityProof(user.proofUrl);
+        if (!proof || proof.owner.toLowerCase() !== user.username.toLowerCase()) continue;
+        const claimed = [proof.payload.email, ...(Array.isArray(proof.payload.emails) ? proof.payload.emails : [])];
+        for (const raw of claimed) {
+          if (typeof raw !== 'string' || !raw.includes('@')) continue;
+          const email = raw.trim().toLowerCase();
+          if (contested.has(`${user.domain}:${email}`)) continue;
+          const owner = proofEmails.get(email);
+          if (!owner) {
+            proofEmails.set(email, user.username);
+          } else if (owner.toLowerCase() !== user.username.toLowerCase()) {
+            // Proof claims are not checked against the mailbox, so neither identity gets the email
+            log.warn(`Email ${email} is claimed by both ${owner} and ${user.username}; matching neither by it`);
+            proofEmails.delete(email);
+            contested.add(`${user.domain}:${email}`);
+          }
+        }
+      } catch (e) {
+        log.error(`Failed to read identity proof for ${user.username}`, e);
+      }
+    }
+
+    if (emailMatching) {
+      const proofCount = [...contexts.values()].reduce((sum, ctx) => sum + ctx.proofEmails!.size, 0);
+      log.info(`Email matching: ${verifiedCount} verified, ${proofCount} proof-claimed`);
+    }
+    return contexts;
+  }
+
+  private adapterFor(domain: string | undefined): PlatformAdapter {
+    return getPlatformAdapter(this.platforms, domain);
+  }
+
+  private findUser(users: RegisteredUser[], domain: string | undefined, username: string): RegisteredUser | undefined {
+    const d = normalizeDomain(domain);
+    return users.find(u => u.domain === d && u.username.toLowerCase() === username.toLowerCase());
+  }
+
+  /**
+   * Check every user's Kernel against the gas threshold before attesting (balance-monitor.ts).
+   */
+  async checkBalances(users: RegisteredUser[]): Promise<void> {
+    if (!this.balances) return;
+    this.unfundedKernels = await this.balances.check(users);
+    if (this.unfundedKernels.size > 0) {
+      log.info(`${this.unfundedKernels.size} Kernel(s) below the gas threshold; their contributions will be queued as blocked`);
+    }
+  }
+
+  private isUnfunded(user: RegisteredUser): boolean {
+    return this.unfundedKernels.has(user.kernelAddress.toLowerCase());
+  }
+
+  /**
+   * Queue a contribution until the user's Kernel is funded. Blocked contributions are
+   * re-queued every run without using up retries.
+   */
+  private block(id: string, kind: ContributionKind, label: string, user: RegisteredUser, fields: LogFields) {
+    const alreadyBlocked = this.store.getContribution(id)?.status === 'blocked';
+    this.store.recordBlocked(id, unfundedReason(user.kernelAddress));
+    if (alreadyBlocked) return;
+    log.info(`Blocking ${label} - Kernel ${user.kernelAddress} is below the gas threshold`, { ...fields, outcome: 'blocked' });
+    contributionsBlocked.inc({ chain: this.chain.name, kind });
+  }
+
+  /**
+   * Who pays for the next UserOp: the org's paymaster while its policy allows, otherwise the
+   * user's Kernel. Null when neither can (unfunded Kernel and no sponsorship available).
+   */
+  private payerFor(user: RegisteredUser, req: Omit<SponsorshipRequest, 'username'>): GasPayer | null {
+    const decision = this.sponsorship?.decide({ ...req, username: user.username });
+    if (decision?.sponsored) return { sponsorOrg: decision.org };
+    if (decision?.org) {
+      log.info(`Sponsorship by ${decision.org} unavailable for ${user.username} (${decision.reason}) - user pays gas`, { user: user.username });
+      sponsorshipFallbacks.inc({ chain: this.chain.name, reason: decision.reason });
+    }
+    return this.isUnfunded(user) ? null : {};
+  }
+
+  /**
+   * Send a UserOp with the chosen payer. A paymaster rejection falls back to user-paid gas
+   * when the Kernel is funded; sponsored UserOps are recorded in the sponsorship ledger.
+   */
+  private async sendWithPayer<T extends AttestResult | BatchAttestResult>(
+    user: RegisteredUser,
+    payer: GasPayer,
+    audit: { kind: ContributionKind; contributions: number },
+    send: (paymasterRpc?: string) => Promise<T>
+  ): Promise<T> {
+    const sponsorship = this.sponsorship;
+    if (!payer.sponsorOrg || !sponsorship) return send();
+
+    const result = await send(sponsorship.paymasterRpc);
+    if (!result.success && classifyAttestError(result.error) === 'paymaster' && !this.isUnfunded(user)) {
+      log.warn(`Paymaster rejected the UserOp for ${user.username} - retrying with user-paid gas`, { user: user.username, org: payer.sponsorOrg });
+      sponsorshipFallbacks.inc({ chain: this.chain.name, reason: 'paymaster_error' });
+      return send();
+    }
+    if (result.success && result.sponsored) {
+      sponsorship.record({
+        org: payer.sponsorOrg,
+        domain: user.domain,
+        username: user.username,
+        kernelAddress: user.kernelAddress,
+        kind: audit.kind,
+        contributions: audit.contributions,
+        userOpHash: result.userOpHash,
+        txHash: result.txHash,
+        gasCostWei: result.gasCostWei,
+        chain: this.chain.name
+      });
+      sponsoredUserOps.inc({ chain: this.chain.name, org: payer.sponsorOrg });
+      sponsoredGas.inc({ chain: this.chain.name, org: payer.sponsorOrg }, Number(result.gasCostWei ?? 0n) / 1e18);
+    }
+    return result;
+  }
+
+  /**
+   * Failed contributions still eligible for retry, blocked ones, and ones skipped within the
+   * lookback window: scans resume from their cursor, so an author who registers or gets a
+   * session key later is only picked up here.
+   */
+  private requeued(prefix: 'pr:' | 'review:' | null, lookbackSince: Date): ContributionRecord[] {
+    return [
+      ...this.store.listRetryable(this.maxRetries),
+      ...this.store.listBlocked(),
+      ...this.store.listSkipped(lookbackSince)
+    ].filter((r) =>
+      prefix ? r.id.startsWith(prefix) : !r.id.startsWith('pr:') && !r.id.startsWith('review:')
+    );
+  }
+
+  /**
+   * Resolve every user's globs through their platform adapter.
+   * `skipWildcardOwners` holds `domain:owner` keys handled via push events instead.
+   */
   async getReposToWatch(users: RegisteredUser[], skipWildcardOwners: Set<string>): Promise<RepoToWatch[]> {
-    console.log('[service] Resolving repo globs...');
-
-    const globs = users.flatMap((u) => u.repoGlobs);
-    const repos = await resolveRepoGlobs({
-      globs,
-      skipWildcardOwners,
-      listOrgRepos,
-      listUserRepos
-    });
+    log.info('Resolving repo globs...');
+    const repos = await this.resolveRepos(users, skipWildcardOwners);
+    log.info(`Watching ${repos.length} repos`);
+    return repos;
+  }
+
+  private async resolveRepos(users: RegisteredUser[], skipWildcardOwners: Set<string>): Promise<RepoToWatch[]> {
+    const repos: RepoToWatch[] = [];
+    for (const domain of new Set(users.map((u) => u.domain))) {
+      const adapter = this.adapterFor(domain);
+      const skip = new Set(
+        [...skipWildcardOwners].filter((k) => k.startsWith(`${domain}:`)).map((k) => k.slice(domain.length + 1))
+      );
+      // Resolved per user so one user's `!` exclusions do not drop another user's repos
+      const ownerRepos = new Map<string, Promise<RepoRef[]>>();
+      const seen = new Set<string>();
+      for (const user of users.filter((u) => u.domain === domain)) {
+        const resolved = await resolveRepoGlobs({
+          globs: user.repoGlobs,
+          skipWildcardOwners: skip,
+          listOrgRepos: (org) => adapter.listOrgRepos(org).then((r) => this.rememberMetadata(domain, r)),
+          listUserRepos: (login) => adapter.listUserRepos(login).then((r) => this.rememberMetadata(domain, r)),
+          ownerRepos,
+          getRepoMetadata: (owner, name) => this.repoMetadata.get(domain, owner, name),
+          orgPolicy: (owner) => this.orgPolicyFor(domain, owner)
+        });
+        for (const r of resolved) {
+          const key = `${r.owner}/${r.name}`.toLowerCase() + (r.ref ? `@${r.ref}` : '');
+          if (seen.has(key)) continue;
+          seen.add(key);
+          repos.push({ domain, ...r });
+        }
+      }
+    }
+    return repos;
+  }
 
-    console.log(`[service] Watching ${repos.length} repos`);
+  private newRepoMetadataCache(): RepoMetadataCache {
+    return new RepoMetadataCache((domain, owner, name) => this.adapterFor(domain).getRepoMetadata(owner, name));
+  }
+
+  private rememberMetadata(domain: string, repos: RepoRef[]): RepoRef[] {
+    this.repoMetadata.remember(domain, repos);
     return repos;
   }
 
-  async processWildcardOwner(owner: string, users: RegisteredUser[], since: Date, recentAttested: Set<string>): Promise<number> {
-    console.log(`[service] Processing wildcard ${owner}/* via events...`);
+  /**
+   * Keep the commits on `domain` that some of `users`' globs cover and the repo's org policy
+   * allows, honouring `@ref` and, when a glob filters on repo metadata, the (cached) metadata
+   * of each pushed repo.
+   */
+  private async filterWatchedCommits(domain: string, commits: CommitInfo[], users: RegisteredUser[]): Promise<CommitInfo[]> {
+    const globs = users.map((u) => u.repoGlobs);
+    const globsNeedMeta = globs.some(globsNeedMetadata);
+    const meta = new Map<string, RepoMetadata | null>();
+    for (const c of commits) {
+      const key = `${c.repo.owner}/${c.repo.name}`.toLowerCase();
+      const policy = this.orgPolicyFor(domain, c.repo.owner);
+      if (meta.has(key) || !(globsNeedMeta || (policy && orgPolicyNeedsMetadata(policy)))) continue;
+      meta.set(key, await this.repoMetadata.get(domain, c.repo.owner, c.repo.name));
+    }
+    return commits.filter((c) => {
+      const repoMeta = meta.get(`${c.repo.owner}/${c.repo.name}`.toLowerCase());
+      const policy = this.orgPolicyFor(domain, c.repo.owner);
+      if (policy && !orgPolicyAllows(policy, c.repo.owner, c.repo.name, repoMeta)) return false;
+      return globs.some((g) => repoMatchesGlobs(c.repo.owner, c.repo.name, g, c.ref, repoMeta));
+    });
+  }
+
+  /**
+   * The repos users' globs cover on one owner, for scanning it without push events.
+   */
+  private async resolveOwnerRepos(domain: string, owner: string, users: RegisteredUser[]): Promise<RepoToWatch[]> {
+    const onOwner = (glob: string) => parseRepoGlobs([glob]).globs[0]?.owner.toLowerCase() === owner.toLowerCase();
+    const scoped = users
+      .filter((u) => u.domain === domain)
+      .map((u) => ({ ...u, repoGlobs: u.repoGlobs.filter(onOwner) }));
+    return this.resolveRepos(scoped, new Set());
+  }
+
+  /**
+   * Branches to read for a watched repo: the default branch (`undefined`), the branches an
+   * exact `@ref` names, or the repo's branches matching an `@ref` pattern.
+   */
+  private async branchesFor(repo: RepoToWatch): Promise<Array<string | undefined>> {
+    if (!repo.ref) return [undefined];
+    const ref = parseRefGlob(repo.ref);
+    if (ref.names.length > 0) return ref.names;
+    const branches = await this.adapterFor(repo.domain).listBranches(repo.owner, repo.name);
+    return branches.filter((b) => ref.regex.test(b));
+  }
+
+  private sinceFor(cursorKey: string, lookbackSince: Date): Date {
+    return scanSince(this.store.getCursor(cursorKey), lookbackSince);
+  }
+
+  async processWildcardOwner(domain: string, owner: string, users: RegisteredUser[], lookbackSince: Date, recentAttested: Set<string>, runStartedAt: Date): Promise<number> {
+    log.info(`Processing wildcard ${owner}/* on ${domain} via events...`);
+    const adapter = this.adapterFor(domain);
+    const cursorKey = ownerCursorKey(owner, domain);
+    const since = this.sinceFor(cursorKey, lookbackSince);
     try {
-      const commits = await getRecentOwnerPushCommits(owner, since);
-      console.log(`[service] Found ${commits.length} push commits for ${owner} since ${since.toISOString()}`);
-      if (commits.length > 0) {
-        return await this.processCommits(commits, users, recentAttested);
+      // Events cover all of the owner's repos and branches; keep what some user's globs allow
+      const pushed = await adapter.getRecentOwnerPushCommits(owner, since);
+      const commits = await this.filterWatchedCommits(domain, pushed, users.filter((u) => u.domain === domain));
+      log.info(`Found ${pushed.length} push commits for ${owner} since ${since.toISOString()}${commits.length < pushed.length ? ` (${pushed.length - commits.length} outside the globs' repos or refs)` : ''}`);
+      if (pushed.length > 0) {
+        const count = await this.processCommits(commits, users, recentAttested);
+        this.store.setCursor(cursorKey, runStartedAt);
+        return count;
       }
       if (process.env.ATTEST_FALLBACK_REPO_SCAN === '1') {
-        console.log(`[service] No push events for ${owner}; falling back to repo listing (ATTEST_FALLBACK_REPO_SCAN=1)`);
-        const orgRepos = await listOrgRepos(owner);
-        const userRepos = orgRepos.length === 0 ? await listUserRepos(owner) : orgRepos;
+        log.info(`No push events for ${owner}; falling back to repo listing (ATTEST_FALLBACK_REPO_SCAN=1)`);
         let total = 0;
-        for (const repo of userRepos) {
-          total += await this.processRepo(repo, users, since, recentAttested);
+        for (const repo of await this.resolveOwnerRepos(domain, owner, users)) {
+          total += await this.processRepo(repo, users, lookbackSince, recentAttested, runStartedAt);
         }
         return total;
       }
+      this.store.setCursor(cursorKey, runStartedAt);
       return 0;
     } catch (e: any) {
       if (e.status === 404) {
-        console.log(`[service] No public events for ${owner}; falling back to repo listing`);
-        const orgRepos = await listOrgRepos(owner);
-        const userRepos = orgRepos.length === 0 ? await listUserRepos(owner) : orgRepos;
+        log.info(`No public events for ${owner}; falling back to repo listing`);
         let total = 0;
-        for (const repo of userRepos) {
-          total += await this.processRepo(repo, users, since, recentAttested);
+        for (const repo of await this.resolveOwnerRepos(domain, owner, users)) {
+          total += await this.processRepo(repo, users, lookbackSince, recentAttested, runStartedAt);
         }
         return total;
       }
@@ -297,64 +864,179 @@ export class AttestationService {
   async processCommits(commits: CommitInfo[], users: RegisteredUser[], recentAttested: Set<string>): Promise<number> {
     if (commits.length === 0) return 0;
 
-    const newCommits = commits.filter(c => !recentAttested.has(c.sha) && !this.attestedCommits.has(c.sha));
-    console.log(`[service] ${newCommits.length} new commits to attest`);
+    const newCommits = commits.filter((c) => {
+      const record = this.store.recordSeen({
+        id: c.sha,
+        repoOwner: c.repo.owner,
+        repoName: c.repo.name,
+        payload: c,
+        runId: this.currentRunId
+      });
+      contributionsSeen.inc({ chain: this.chain.name, kind: 'commit' });
+      if (record.status === 'attested') return false;
+      if (recentAttested.has(c.sha)) {
+        // Attested in a previous process lifetime (or by another attester instance)
+        this.store.recordAttested(c.sha, {});
+        return false;
+      }
+      if (record.status === 'failed' && record.retryCount >= this.maxRetries) return false;
+      return true;
+    });
+    log.info(`${newCommits.length} new commits to attest`);
 
-    let attestedCount = 0;
+    // Group attestable commits per user so each user's commits go out in as few UserOps as possible
+    const pendingByKernel = new Map<string, PendingAttestation[]>();
     for (const commit of newCommits) {
-      const githubUsername = matchCommitToGitHubUser(commit);
-      if (!githubUsername) {
-        console.log(`[service] Skipping commit ${commit.sha.slice(0, 8)} - no GitHub username`);
+      const domain = normalizeDomain(commit.domain);
+      const match = resolveCommitAuthor(commit, this.authorContexts.get(domain));
+      if (match.username === null) {
+        log.info(`Skipping commit ${commit.sha.slice(0, 8)} - ${match.reason}`, commitFields(commit, { outcome: 'skipped' }));
+        this.store.recordSkipped(commit.sha, match.reason);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'commit', reason: 'unmatched_author' });
         continue;
       }
+      const username = match.username;
+      if (match.source !== 'login') {
+        log.info(`Matched commit ${commit.sha.slice(0, 8)} to ${username} via ${match.source}`, commitFields(commit, { user: username }));
+      }
 
-      const user = users.find(u => u.githubUsername.toLowerCase() === githubUsername.toLowerCase());
+      const user = this.findUser(users, domain, username);
       if (!user) {
-        console.log(`[service] Skipping commit ${commit.sha.slice(0, 8)} by ${githubUsername} - not registered`);
+        log.info(`Skipping commit ${commit.sha.slice(0, 8)} by ${username} - not registered`, commitFields(commit, { user: username, outcome: 'skipped' }));
+        this.store.recordSkipped(commit.sha, `${username} not registered`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'commit', reason: 'not_registered' });
         continue;
       }
 
-      console.log(`[service] Attesting commit ${commit.sha.slice(0, 8)} by ${githubUsername}...`);
+      const policyRejection = await this.orgPolicyRejection(domain, commit.repo.owner, commit.repo.name, this.commitApprovals(commit));
+      if (policyRejection) {
+        log.info(`Skipping commit ${commit.sha.slice(0, 8)} - ${policyRejection}`, commitFields(commit, { user: username, outcome: 'skipped' }));
+        this.store.recordSkipped(commit.sha, policyRejection);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'commit', reason: 'org_policy' });
+        continue;
+      }
 
-      const serializedPermission = this.permissionConfigs.get(user.kernelAddress.toLowerCase() as Address);
+      const kernelKey = user.kernelAddress.toLowerCase() as Address;
+      const serializedPermission = this.permissionConfigs.get(kernelKey);
       if (!serializedPermission) {
-        console.log(`[service] ⚠️  No session key for ${user.kernelAddress} - skipping`);
+        log.warn(`No session key for ${user.kernelAddress} - skipping`, commitFields(commit, { user: username, outcome: 'skipped' }));
+        this.store.recordSkipped(commit.sha, `no session key for ${user.kernelAddress}`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'commit', reason: 'no_session_key' });
         continue;
       }
 
-      const ATTESTER_PRIVKEY = getAttesterPrivKey() as Hex;
-      const BUNDLER_RPC = process.env.BUNDLER_RPC;
-      if (!BUNDLER_RPC) throw new Error('BUNDLER_RPC required for session attestation');
+      // Sponsored commits may still go out when the Kernel is unfunded; the payer is settled per batch
+      const sponsorOrg = this.sponsorship?.orgFor(domain, commit.repo.owner);
+      if (this.isUnfunded(user) && !sponsorOrg) {
+        this.block(commit.sha, 'commit', `commit ${commit.sha.slice(0, 8)}`, user, commitFields(commit, { user: username }));
+        continue;
+      }
 
-      const result = await attestCommitWithSession(
-        {
-          userWalletAddress: user.kernelAddress,
-          identityAttestationUid: user.identityAttestationUid,
-          commitHash: commit.sha,
-          repoOwner: commit.repo.owner,
-          repoName: commit.repo.name,
-          author: githubUsername,
-          message: commit.message
-        },
-        {
-          serializedAccount: serializedPermission,
-          attesterPrivKey: ATTESTER_PRIVKEY,
-          bundlerRpc: BUNDLER_RPC
+      const groupKey = `${kernelKey}|${sponsorOrg ?? ''}`;
+      const pending = pendingByKernel.get(groupKey) ?? [];
+      pending.push({ commit, user, username, serializedPermission, sponsorOrg });
+      pendingByKernel.set(groupKey, pending);
+    }
+
+    if (pendingByKernel.size === 0) return 0;
+
+    const batchSize = getBatchSize();
+    let attestedCount = 0;
+    let sentAny = false;
+    for (const pending of pendingByKernel.values()) {
+      for (let i = 0; i < pending.length; i += batchSize) {
+        if (sentAny) {
+          await new Promise(resolve => setTimeout(resolve, 2000));
         }
-      );
+        sentAny = true;
+        attestedCount += await this.attestBatch(pending.slice(i, i + batchSize));
+      }
+    }
+
+    return attestedCount;
+  }
+
+  /**
+   * Attest a batch of commits belonging to one user (and one sponsoring org, if any).
+   * Single commits use the plain attest path.
+   */
+  private async attestBatch(batch: PendingAttestation[]): Promise<number> {
+    const ATTESTER_PRIVKEY = getAttesterPrivKey() as Hex;
+    const BUNDLER_RPC = this.chain.bundlerRpc;
+    if (!BUNDLER_RPC) throw new Error('BUNDLER_RPC required for session attestation');
+
+    const { user, serializedPermission, sponsorOrg, commit: first } = batch[0];
+    const payer = sponsorOrg
+      ? this.payerFor(user, { domain: first.domain, owner: first.repo.owner, kind: 'commit', schemaUid: this.chain.contributionSchemaUid as Hex })
+      : {};
+    if (!payer) {
+      for (const { commit, username } of batch) {
+        this.block(commit.sha, 'commit', `commit ${commit.sha.slice(0, 8)}`, user, commitFields(commit, { user: username }));
+      }
+      return 0;
+    }
+    const audit = { kind: 'commit' as const, contributions: batch.length };
+    const sessionConfig: SessionConfig = {
+      serializedAccount: serializedPermission,
+      attesterPrivKey: ATTESTER_PRIVKEY,
+      bundlerRpc: BUNDLER_RPC,
+      chain: this.chain
+    };
+    const requests: AttestCommitRequest[] = batch.map(({ commit, username }) => ({
+      userWalletAddress: user.kernelAddress,
+      identityAttestationUid: user.identityAttestationUid,
+      commitHash: commit.sha,
+      repoOwner: commit.repo.owner,
+      repoName: commit.repo.name,
+      domain: commit.domain,
+      author: username,
+      message: commit.message
+    }));
 
+    if (requests.length === 1) {
+      const commit = batch[0].commit;
+      const fields = commitFields(commit, { user: batch[0].username });
+      log.info(`Attesting commit ${commit.sha.slice(0, 8)} by ${batch[0].username}...`, fields);
+      const result = await this.sendWithPayer(user, payer, audit, (paymasterRpc) =>
+        attestCommitWithSession(requests[0], { ...sessionConfig, paymasterRpc })
+      );
       if (result.success) {
-        console.log(`[service] ✓ Attested: ${result.attestationUid}`);
-        this.attestedCommits.add(commit.sha);
-        attestedCount++;
-      } else {
-        console.error(`[service] ✗ Failed: ${result.error}`);
+        log.info(`Attested: ${result.attestationUid}`, { ...fields, outcome: 'attested', attestationUid: result.attestationUid, txHash: result.txHash });
+        this.store.recordAttested(commit.sha, { attestationUid: result.attestationUid, txHash: result.txHash });
+        contributionsAttested.inc({ chain: this.chain.name, kind: 'commit' });
+        return 1;
       }
+      log.error('Attestation failed', result.error, { ...fields, outcome: 'failed' });
+      this.store.recordFailed(commit.sha, result.error || 'Unknown error');
+      contributionsFailed.inc({ chain: this.chain.name, kind: 'commit', error_class: classifyAttestError(result.error) });
+      return 0;
+    }
 
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    log.info(`Attesting ${requests.length} commits by ${user.username} in one UserOp...`, { user: user.username });
+    const result = await this.sendWithPayer(user, payer, audit, (paymasterRpc) =>
+      attestCommitsWithSession(requests, { ...sessionConfig, paymasterRpc })
+    );
+    if (!result.success) {
+      log.error('Batch attestation failed', result.error, { user: user.username, outcome: 'failed', commits: batch.length });
+      for (const { commit } of batch) {
+        this.store.recordFailed(commit.sha, result.error || 'Unknown error');
+      }
+      contributionsFailed.inc({ chain: this.chain.name, kind: 'commit', error_class: classifyAttestError(result.error) }, batch.length);
+      return 0;
     }
 
-    return attestedCount;
+    for (const item of result.results) {
+      const commit = batch.find((b) => b.commit.sha === item.commitHash)!.commit;
+      log.info(`Attested ${item.commitHash.slice(0, 8)}: ${item.attestationUid}`, commitFields(commit, {
+        user: user.username,
+        outcome: 'attested',
+        attestationUid: item.attestationUid,
+        txHash: result.txHash
+      }));
+      this.store.recordAttested(item.commitHash, { attestationUid: item.attestationUid, txHash: result.txHash });
+    }
+    contributionsAttested.inc({ chain: this.chain.name, kind: 'commit' }, result.results.length);
+    return result.results.length;
   }
 
   async getRecentAttestedCommitSet(since: Date): Promise<Set<string>> {
@@ -367,11 +1049,11 @@ export class AttestationService {
       return this.recentAttestedCache.commits;
     }
 
-    console.log('[service] Checking for existing attestations...');
+    log.info('Checking for existing attestations...');
     const commits = await fetchRecentAttestedCommits({
       fetchFn: fetch,
-      graphqlUrl: EAS_GRAPHQL,
-      schemaUid: CONTRIBUTION_SCHEMA_UID,
+      graphqlUrl: this.chain.easGraphql,
+      schemaUid: this.chain.contributionSchemaUid,
       since
     });
 
@@ -379,100 +1061,626 @@ export class AttestationService {
     return commits;
   }
 
-  async processRepo(repo: RepoToWatch, users: RegisteredUser[], since: Date, recentAttested: Set<string>): Promise<number> {
-    console.log(`[service] Processing ${repo.owner}/${repo.name}...`);
+  async processRepo(repo: RepoToWatch, users: RegisteredUser[], lookbackSince: Date, recentAttested: Set<string>, runStartedAt: Date): Promise<number> {
+    log.info(`Processing ${repo.owner}/${repo.name}${repo.ref ? `@${repo.ref}` : ''}${isDefaultDomain(repo.domain) ? '' : ` on ${repo.domain}`}...`);
+    const cursorKey = repoCursorKey(repo.owner, repo.name, repo.domain, repo.ref);
+    const since = this.sinceFor(cursorKey, lookbackSince);
     
     try {
-      // Get recent commits since last check
-      let commits;
+      // Get recent commits since last check, per branch for `@ref` globs
+      const commits: CommitInfo[] = [];
+      let complete = true;
       try {
-        commits = await getRecentCommits(repo.owner, repo.name, since);
+        const adapter = this.adapterFor(repo.domain);
+        const seen = new Set<string>();
+        for (const branch of await this.branchesFor(repo)) {
+          const scan = await adapter.getRecentCommits(repo.owner, repo.name, since, branch);
+          complete &&= scan.complete;
+          for (const commit of scan.commits) {
+            if (seen.has(commit.sha)) continue;
+            seen.add(commit.sha);
+            commits.push(commit);
+          }
+        }
       } catch (e: any) {
         if (e.status === 404) {
-          console.log(`[service] Skipped ${repo.owner}/${repo.name}: not found or private`);
+          log.info(`Skipped ${repo.owner}/${repo.name}: not found or private`);
           return 0;
         }
         if (e.status === 403) {
-          console.log(`[service] Skipped ${repo.owner}/${repo.name}: access denied`);
+          log.info(`Skipped ${repo.owner}/${repo.name}: access denied`);
           return 0;
         }
         throw e;
       }
       
-      console.log(`[service] Found ${commits.length} commits since ${since.toISOString()}`);
-      
-      if (commits.length === 0) {
-        return 0;
-      }
+      log.info(`Found ${commits.length} commits since ${since.toISOString()}`);
 
-      return await this.processCommits(commits, users, recentAttested);
+      const count = await this.processCommits(commits, users, recentAttested);
+      if (complete) {
+        this.store.setCursor(cursorKey, runStartedAt);
+      } else {
+        log.warn(`Commit scan of ${repo.owner}/${repo.name} stopped at its page limit; keeping its cursor`);
+      }
+      return count;
     } catch (e) {
-      console.error(`[service] Error processing ${repo.owner}/${repo.name}:`, e);
+      log.error(`Error processing ${repo.owner}/${repo.name}`, e);
       return 0;
     }
   }
 
+  /**
+   * Re-attempt commits that failed, were blocked or were skipped in earlier runs; repo scans
+   * resume from their cursor and do not pick them up again.
+   */
+  async retryFailedCommits(users: RegisteredUser[], lookbackSince: Date, recentAttested: Set<string>): Promise<number> {
+    const records = this.requeued(null, lookbackSince);
+    if (records.length === 0) return 0;
+    log.info(`Retrying ${records.length} previously failed, blocked or skipped commit(s)...`);
+
+    const commits: CommitInfo[] = [];
+    for (const record of records) {
+      if (!record.payload) continue;
+      try {
+        commits.push(JSON.parse(record.payload) as CommitInfo);
+      } catch {
+        log.error(`Unreadable stored commit ${record.id.slice(0, 8)} - skipping retry`);
+      }
+    }
+    return this.processCommits(commits, users, recentAttested);
+  }
+
+  /**
+   * Attest commits delivered by a push webhook. Uses the users and permissions from the last
+   * polling run (loading them if no run has happened yet); polling remains the reconciliation path.
+   */
+  async handlePushCommits(commits: CommitInfo[]): Promise<number> {
+    return this.exclusive(async () => {
+      if (!this.users) {
+        this.users = await this.getRegisteredUsers();
+        await this.loadPermissionConfigs(this.users);
+        await this.loadOrgPolicies(this.users);
+        this.authorContexts = await this.buildAuthorContexts(this.users);
+        await this.checkBalances(this.users);
+      }
+      const users = this.users;
+      // Push webhooks are GitHub's; only GitHub identities' globs apply
+      const watched = await this.filterWatchedCommits(DEFAULT_DOMAIN, commits, users.filter((u) => isDefaultDomain(u.domain)));
+      if (watched.length === 0) {
+        log.info(`Webhook: no watched repos among ${commits.length} commit(s)`);
+        return 0;
+      }
+
+      return this.trackRun('webhook', async () => {
+        const lookbackDays = Number(process.env.ATTEST_LOOKBACK_DAYS || '7');
+        const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+        since.setUTCHours(0, 0, 0, 0); // stable key for the EAS lookup cache
+        const recentAttested = await this.getRecentAttestedCommitSet(since);
+        const count = await this.processCommits(watched, users, recentAttested);
+        log.info(`Webhook: attested ${count} commit(s)`);
+        return { attested: count, usersFound: users.length };
+      });
+    });
+  }
+
+  /**
+   * Record a run in the state store; contributions seen while it is current are linked to it.
+   */
+  private async trackRun(
+    trigger: RunTrigger,
+    fn: () => Promise<{ attested: number; usersFound?: number; reposWatched?: number }>
+  ): Promise<number> {
+    const run = this.store.startRun(trigger);
+    this.currentRunId = run.id;
+    const endTimer = runDuration.startTimer({ chain: this.chain.name, trigger });
+    try {
+      const result = await withLogContext({ runId: run.id }, fn);
+      this.store.finishRun(run.id, { status: 'completed', ...result });
+      runsTotal.inc({ chain: this.chain.name, trigger, status: 'completed' });
+      lastRunCompleted.set({ chain: this.chain.name, trigger }, Date.now() / 1000);
+      return result.attested;
+    } catch (e: any) {
+      this.store.finishRun(run.id, { status: 'failed', attested: 0, error: e?.message ?? String(e) });
+      runsTotal.inc({ chain: this.chain.name, trigger, status: 'failed' });
+      throw e;
+    } finally {
+      endTimer();
+      this.currentRunId = undefined;
+    }
+  }
+
   async run(): Promise<void> {
-    console.log('[service] Starting attestation run...');
+    return this.exclusive(() => this.runOnce());
+  }
+
+  private async runOnce(): Promise<void> {
+    log.info('Starting attestation run...');
     
     try {
-      const lookbackDays = Number(process.env.ATTEST_LOOKBACK_DAYS || '7');
-      const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
-
-      // Load session key permissions
-      await this.loadPermissionConfigs();
-
-      // Get registered users
-      const users = await this.getRegisteredUsers();
-      console.log(`[service] Found ${users.length} registered users`);
-
-      const useEventsForWildcard = (process.env.GITHUB_USE_EVENTS_FOR_WILDCARD ?? '1') !== '0';
-      const wildcardOwners = new Set<string>();
-      if (useEventsForWildcard) {
-        for (const user of users) {
-          for (const glob of user.repoGlobs) {
-            const [owner, repoPattern] = glob.split('/');
-            if (repoPattern === '*') wildcardOwners.add(owner);
-          }
+      await this.trackRun('poll', async () => {
+        const runStartedAt = new Date();
+        const lookbackDays = Number(process.env.ATTEST_LOOKBACK_DAYS || '7');
+        const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+        // Get registered users
+        const users = await this.getRegisteredUsers();
+        this.users = users;
+        log.info(`Found ${users.length} registered users`);
+
+        // Load session key permissions (each must be attested by its Kernel's owner)
+        await this.loadPermissionConfigs(users);
+        await this.loadOrgPolicies(users);
+        this.authorContexts = await this.buildAuthorContexts(users);
+        await this.checkBalances(users);
+        this.repoMetadata = this.newRepoMetadataCache();
+        this.watchedRepos = new Map();
+        this.watchedOwners = new Map();
+
+        const kinds = getAttestKinds();
+        let totalAttested = 0;
+        if (kinds.has('commits')) {
+          totalAttested += await this.runCommits(users, since, runStartedAt);
         }
+        if (kinds.has('pulls')) {
+          totalAttested += await this.runPullRequests(users, since, runStartedAt);
+        }
+        if (kinds.has('reviews')) {
+          totalAttested += await this.runReviews(users, since, runStartedAt);
+        }
+
+        log.info(`Run complete. Attested ${totalAttested} contributions.`);
+
+        // Update last check time (for logs only; per-repo cursors live in the state store)
+        this.lastCheckTime = new Date();
+        return { attested: totalAttested, usersFound: users.length, reposWatched: this.watchedRepos.size + this.watchedOwners.size };
+      });
+    } catch (e) {
+      log.error('Error in run', e);
+    }
+  }
+
+  private async runCommits(users: RegisteredUser[], since: Date, runStartedAt: Date): Promise<number> {
+    const useEventsForWildcard = (process.env.GITHUB_USE_EVENTS_FOR_WILDCARD ?? '1') !== '0';
+    const wildcardOwners = new Set<string>(); // `domain:owner`
+    if (useEventsForWildcard) {
+      for (const user of users) {
+        for (const owner of wildcardGlobOwners(user.repoGlobs)) wildcardOwners.add(`${user.domain}:${owner}`);
       }
+    }
+
+    // Get repos to watch (skip wildcard owners when using events)
+    const repos = await this.getReposToWatch(users, wildcardOwners);
+    log.info(`Watching ${repos.length} repos`);
+    this.noteWatched(repos);
+    for (const key of wildcardOwners) {
+      const sep = key.indexOf(':');
+      this.watchedOwners.set(key, { domain: key.slice(0, sep), owner: key.slice(sep + 1) });
+    }
+
+    const recentAttested = await this.getRecentAttestedCommitSet(since);
+
+    let totalAttested = await this.retryFailedCommits(users, since, recentAttested);
 
-      // Get repos to watch (skip wildcard owners when using events)
-      const repos = await this.getReposToWatch(users, wildcardOwners);
-      console.log(`[service] Watching ${repos.length} repos`);
+    // Process wildcard owners via events
+    for (const key of wildcardOwners) {
+      const sep = key.indexOf(':');
+      totalAttested += await this.processWildcardOwner(key.slice(0, sep), key.slice(sep + 1), users, since, recentAttested, runStartedAt);
+    }
+
+    // Process each repo
+    for (const repo of repos) {
+      const count = await this.processRepo(repo, users, since, recentAttested, runStartedAt);
+      totalAttested += count;
+    }
+
+    return totalAttested;
+  }
+
+  private async runPullRequests(users: RegisteredUser[], since: Date, runStartedAt: Date): Promise<number> {
+    const schemaUid = this.chain.pullRequestSchemaUid;
+    if (!schemaUid) {
+      log.info(`Pull request mode enabled but ${this.chain.name.toUpperCase()}_PULL_REQUEST_SCHEMA_UID is not set - skipping`);
+      return 0;
+    }
 
-      const recentAttested = await this.getRecentAttestedCommitSet(since);
+    // PRs are not in the events feed, so wildcard owners are resolved to repo lists here.
+    // Pull requests are read from GitHub only.
+    const repos = await this.getReposToWatch(users.filter((u) => isDefaultDomain(u.domain)), new Set());
+    this.noteWatched(repos);
+    const recentAttested = await fetchRecentAttestedPullRequests({
+      fetchFn: fetch,
+      graphqlUrl: this.chain.easGraphql,
+      schemaUid,
+      since
+    });
 
-      // Process wildcard owners via events
-      for (const owner of wildcardOwners) {
-        await this.processWildcardOwner(owner, users, since, recentAttested);
+    let total = await this.retryFailedPullRequests(users, since, recentAttested);
+    for (const repo of distinctRepos(repos)) {
+      const cursorKey = pullsCursorKey(repo.owner, repo.name);
+      const repoSince = this.sinceFor(cursorKey, since);
+      try {
+        const { pulls, complete } = await getRecentMergedPullRequests(repo.owner, repo.name, repoSince);
+        if (pulls.length > 0) {
+          log.info(`Found ${pulls.length} merged PRs in ${repo.owner}/${repo.name} since ${repoSince.toISOString()}`);
+          total += await this.processPullRequests(pulls, users, recentAttested);
+        }
+        if (complete) {
+          this.store.setCursor(cursorKey, runStartedAt);
+        } else {
+          log.warn(`PR scan of ${repo.owner}/${repo.name} stopped at GITHUB_MAX_PAGES; keeping its cursor`);
+        }
+      } catch (e: any) {
+        if (e.status === 404 || e.status === 403) {
+          log.info(`Skipped PRs for ${repo.owner}/${repo.name}: ${e.status}`);
+          continue;
+        }
+        log.error(`Error processing PRs for ${repo.owner}/${repo.name}`, e);
       }
+    }
+    return total;
+  }
 
-      // Process each repo
-      let totalAttested = 0;
-      for (const repo of repos) {
-        const count = await this.processRepo(repo, users, since, recentAttested);
-        totalAttested += count;
+  async retryFailedPullRequests(users: RegisteredUser[], lookbackSince: Date, recentAttested: Set<string>): Promise<number> {
+    const records = this.requeued('pr:', lookbackSince);
+    if (records.length === 0) return 0;
+    log.info(`Retrying ${records.length} previously failed, blocked or skipped pull request(s)...`);
+
+    const pulls: PullRequestInfo[] = [];
+    for (const record of records) {
+      if (!record.payload) continue;
+      try {
+        pulls.push(JSON.parse(record.payload) as PullRequestInfo);
+      } catch {
+        log.error(`Unreadable stored pull request ${record.id} - skipping retry`);
       }
+    }
+    return this.processPullRequests(pulls, users, recentAttested);
+  }
 
-      console.log(`[service] Run complete. Attested ${totalAttested} commits.`);
+  /**
+   * Attest merged pull requests. The PR author is credited; merged-by is recorded in the attestation.
+   */
+  async processPullRequests(pulls: PullRequestInfo[], users: RegisteredUser[], recentAttested: Set<string>): Promise<number> {
+    let attestedCount = 0;
+    let sentAny = false;
 
-      // Update last check time (for logs only; stateless runs use lookback window)
-      this.lastCheckTime = new Date();
-    } catch (e) {
-      console.error('[service] Error in run:', e);
+    for (const pr of pulls) {
+      const id = pullRequestContributionId(pr);
+      const label = `${pr.repo.owner}/${pr.repo.name}#${pr.number}`;
+      const fields: LogFields = { repo: `${pr.repo.owner}/${pr.repo.name}`, pr: pr.number, user: pr.author };
+      const record = this.store.recordSeen({ id, repoOwner: pr.repo.owner, repoName: pr.repo.name, payload: pr, runId: this.currentRunId });
+      contributionsSeen.inc({ chain: this.chain.name, kind: 'pull' });
+      if (record.status === 'attested') continue;
+      if (recentAttested.has(pullRequestKey(`${pr.repo.owner}/${pr.repo.name}`, pr.number))) {
+        this.store.recordAttested(id, {});
+        continue;
+      }
+      if (record.status === 'failed' && record.retryCount >= this.maxRetries) continue;
+
+      const user = this.findUser(users, undefined, pr.author);
+      if (!user) {
+        log.info(`Skipping PR ${label} by ${pr.author || 'unknown'} - not registered`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, `${pr.author || 'unknown author'} not registered`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'pull', reason: 'not_registered' });
+        continue;
+      }
+
+      const policyRejection = await this.orgPolicyRejection(undefined, pr.repo.owner, pr.repo.name,
+        () => getPullRequestApprovals(pr.repo.owner, pr.repo.name, pr.number, pr.author));
+      if (policyRejection) {
+        log.info(`Skipping PR ${label} - ${policyRejection}`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, policyRejection);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'pull', reason: 'org_policy' });
+        continue;
+      }
+
+      const serializedPermission = this.permissionConfigs.get(user.kernelAddress.toLowerCase() as Address);
+      if (!serializedPermission) {
+        log.warn(`No session key for ${user.kernelAddress} - skipping`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, `no session key for ${user.kernelAddress}`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'pull', reason: 'no_session_key' });
+        continue;
+      }
+
+      const payer = this.payerFor(user, { owner: pr.repo.owner, kind: 'pull', schemaUid: this.chain.pullRequestSchemaUid });
+      if (!payer) {
+        this.block(id, 'pull', `PR ${label}`, user, fields);
+        continue;
+      }
+
+      const BUNDLER_RPC = this.chain.bundlerRpc;
+      if (!BUNDLER_RPC) throw new Error('BUNDLER_RPC required for session attestation');
+
+      if (sentAny) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+      sentAny = true;
+
+      log.info(`Attesting PR ${label} by ${user.username}...`, fields);
+      const result = await this.sendWithPayer(user, payer, { kind: 'pull', contributions: 1 }, (paymasterRpc) => attestPullRequestWithSession(
+        {
+          userWalletAddress: user.kernelAddress,
+          identityAttestationUid: user.identityAttestationUid,
+          repoOwner: pr.repo.owner,
+          repoName: pr.repo.name,
+          prNumber: pr.number,
+          mergeCommitSha: pr.mergeCommitSha,
+          baseBranch: pr.baseBranch,
+          title: pr.title,
+          additions: pr.additions,
+          deletions: pr.deletions,
+          mergedBy: pr.mergedBy
+        },
+        {
+          serializedAccount: serializedPermission,
+          attesterPrivKey: getAttesterPrivKey() as Hex,
+          bundlerRpc: BUNDLER_RPC,
+          paymasterRpc,
+          chain: this.chain
+        }
+      ));
+
+      if (result.success) {
+        log.info(`Attested: ${result.attestationUid}`, { ...fields, outcome: 'attested', attestationUid: result.attestationUid, txHash: result.txHash });
+        this.store.recordAttested(id, { attestationUid: result.attestationUid, txHash: result.txHash });
+        contributionsAttested.inc({ chain: this.chain.name, kind: 'pull' });
+        attestedCount++;
+      } else {
+        log.error('Attestation failed', result.error, { ...fields, outcome: 'failed' });
+        this.store.recordFailed(id, result.error || 'Unknown error');
+        contributionsFailed.inc({ chain: this.chain.name, kind: 'pull', error_class: classifyAttestError(result.error) });
+      }
+    }
+
+    return attestedCount;
+  }
+
+  private async runReviews(users: RegisteredUser[], since: Date, runStartedAt: Date): Promise<number> {
+    const schemaUid = this.chain.reviewSchemaUid;
+    if (!schemaUid) {
+      log.info(`Review mode enabled but ${this.chain.name.toUpperCase()}_REVIEW_SCHEMA_UID is not set - skipping`);
+      return 0;
+    }
+
+    const repos = await this.getReposToWatch(users.filter((u) => isDefaultDomain(u.domain)), new Set());
+    this.noteWatched(repos);
+    const recentAttested = await fetchRecentAttestedReviews({
+      fetchFn: fetch,
+      graphqlUrl: this.chain.easGraphql,
+      schemaUid,
+      since
+    });
+
+    let total = await this.retryFailedReviews(users, since, recentAttested);
+    for (const repo of distinctRepos(repos)) {
+      const cursorKey = reviewsCursorKey(repo.owner, repo.name);
+      const repoSince = this.sinceFor(cursorKey, since);
+      try {
+        const { reviews, complete } = await getRecentReviews(repo.owner, repo.name, repoSince);
+        if (reviews.length > 0) {
+          log.info(`Found ${reviews.length} reviews in ${repo.owner}/${repo.name} since ${repoSince.toISOString()}`);
+          total += await this.processReviews(reviews, users, recentAttested);
+        }
+        if (complete) {
+          this.store.setCursor(cursorKey, runStartedAt);
+        } else {
+          log.warn(`Review scan of ${repo.owner}/${repo.name} stopped at GITHUB_MAX_PAGES; keeping its cursor`);
+        }
+      } catch (e: any) {
+        if (e.status === 404 || e.status === 403) {
+          log.info(`Skipped reviews for ${repo.owner}/${repo.name}: ${e.status}`);
+          continue;
+        }
+        log.error(`Error processing reviews for ${repo.owner}/${repo.name}`, e);
+      }
+    }
+    return total;
+  }
+
+  async retryFailedReviews(users: RegisteredUser[], lookbackSince: Date, recentAttested: Set<string>): Promise<number> {
+    const records = this.requeued('review:', lookbackSince);
+    if (records.length === 0) return 0;
+    log.info(`Retrying ${records.length} previously failed, blocked or skipped review(s)...`);
+
+    const reviews: ReviewInfo[] = [];
+    for (const record of records) {
+      if (!record.payload) continue;
+      try {
+        reviews.push(JSON.parse(record.payload) as ReviewInfo);
+      } catch {
+        log.error(`Unreadable stored review ${record.id} - skipping retry`);
+      }
     }
+    return this.processReviews(reviews, users, recentAttested);
+  }
+
+  /**
+   * Attest approving / changes-requested reviews. The reviewer is credited.
+   */
+  async processReviews(reviews: ReviewInfo[], users: RegisteredUser[], recentAttested: Set<string>): Promise<number> {
+    let attestedCount = 0;
+    let sentAny = false;
+
+    for (const review of reviews) {
+      const id = reviewContributionId(review);
+      const label = `${review.repo.owner}/${review.repo.name}#${review.prNumber} review ${review.id}`;
+      const fields: LogFields = { repo: `${review.repo.owner}/${review.repo.name}`, pr: review.prNumber, reviewId: review.id, user: review.reviewer };
+      const record = this.store.recordSeen({ id, repoOwner: review.repo.owner, repoName: review.repo.name, payload: review, runId: this.currentRunId });
+      contributionsSeen.inc({ chain: this.chain.name, kind: 'review' });
+      if (record.status === 'attested') continue;
+      if (recentAttested.has(reviewKey(`${review.repo.owner}/${review.repo.name}`, review.prNumber, review.id))) {
+        this.store.recordAttested(id, {});
+        continue;
+      }
+      if (record.status === 'failed' && record.retryCount >= this.maxRetries) continue;
+
+      const user = this.findUser(users, undefined, review.reviewer);
+      if (!user) {
+        log.info(`Skipping ${label} by ${review.reviewer} - not registered`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, `${review.reviewer} not registered`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'review', reason: 'not_registered' });
+        continue;
+      }
+
+      const policyRejection = await this.orgPolicyRejection(undefined, review.repo.owner, review.repo.name);
+      if (policyRejection) {
+        log.info(`Skipping ${label} - ${policyRejection}`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, policyRejection);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'review', reason: 'org_policy' });
+        continue;
+      }
+
+      const serializedPermission = this.permissionConfigs.get(user.kernelAddress.toLowerCase() as Address);
+      if (!serializedPermission) {
+        log.warn(`No session key for ${user.kernelAddress} - skipping`, { ...fields, outcome: 'skipped' });
+        this.store.recordSkipped(id, `no session key for ${user.kernelAddress}`);
+        contributionsSkipped.inc({ chain: this.chain.name, kind: 'review', reason: 'no_session_key' });
+        continue;
+      }
+
+      const payer = this.payerFor(user, { owner: review.repo.owner, kind: 'review', schemaUid: this.chain.reviewSchemaUid });
+      if (!payer) {
+        this.block(id, 'review', label, user, fields);
+        continue;
+      }
+
+      const BUNDLER_RPC = this.chain.bundlerRpc;
+      if (!BUNDLER_RPC) throw new Error('BUNDLER_RPC required for session attestation');
+
+      if (sentAny) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+      sentAny = true;
+
+      log.info(`Attesting ${label} by ${user.username}...`, fields);
+      const result = await this.sendWithPayer(user, payer, { kind: 'review', contributions: 1 }, (paymasterRpc) => attestReviewWithSession(
+        {
+          userWalletAddress: user.kernelAddress,
+          identityAttestationUid: user.identityAttestationUid,
+          repoOwner: review.repo.owner,
+          repoName: review.repo.name,
+          prNumber: review.prNumber,
+          reviewId: review.id,
+          state: review.state,
+          reviewer: review.reviewer
+        },
+        {
+          serializedAccount: serializedPermission,
+          attesterPrivKey: getAttesterPrivKey() as Hex,
+          bundlerRpc: BUNDLER_RPC,
+          paymasterRpc,
+          chain: this.chain
+        }
+      ));
+
+      if (result.success) {
+        log.info(`Attested: ${result.attestationUid}`, { ...fields, outcome: 'attested', attestationUid: result.attestationUid, txHash: result.txHash });
+        this.store.recordAttested(id, { attestationUid: result.attestationUid, txHash: result.txHash });
+        contributionsAttested.inc({ chain: this.chain.name, kind: 'review' });
+        attestedCount++;
+      } else {
+        log.error('Attestation failed', result.error, { ...fields, outcome: 'failed' });
+        this.store.recordFailed(id, result.error || 'Unknown error');
+        contributionsFailed.inc({ chain: this.chain.name, kind: 'review', error_class: classifyAttestError(result.error) });
+      }
+    }
+
+    return attestedCount;
+  }
+
+  private noteWatched(repos: RepoToWatch[]) {
+    for (const repo of repos) {
+      this.watchedRepos.set(`${repo.domain}:${repo.owner}/${repo.name}`.toLowerCase() + (repo.ref ? `@${repo.ref}` : ''), repo);
+    }
+  }
+
+  // Read-only views for the HTTP API (server.ts). They reflect the last completed or running run.
+
+  getHealth(): ServiceHealth {
+    return {
+      ok: true,
+      startedAt: this.startedAt.toISOString(),
+      running: this.busy > 0,
+      lastRun: this.store.listRuns(1)[0] ?? null,
+      users: this.users?.length ?? 0,
+      retryQueue: this.store.listRetryable(this.maxRetries).length,
+      blocked: this.store.listBlocked().length
+    };
+  }
+
+  getWatchedUsers(): WatchedUser[] {
+    return (this.users ?? []).map((u) => {
+      const balance = this.balances?.getStatus(u.kernelAddress);
+      return {
+        domain: u.domain,
+        username: u.username,
+        walletAddress: u.walletAddress,
+        kernelAddress: u.kernelAddress,
+        identityAttestationUid: u.identityAttestationUid,
+        repoGlobs: u.repoGlobs,
+        repoGlobsAttestationUid: u.repoGlobsAttestationUid,
+        proofVerified: u.proofVerified,
+        hasSessionKey: this.permissionConfigs.has(u.kernelAddress.toLowerCase() as Address),
+        balanceEth: balance?.balanceEth,
+        funded: balance?.funded
+      };
+    });
+  }
+
+  /**
+   * Funding state of a registered user's Kernel, or null for unknown / unchecked Kernels.
+   */
+  getKernelFunding(kernelAddress: string): KernelFunding | null {
+    const key = kernelAddress.toLowerCase();
+    if (!(this.users ?? []).some((u) => u.kernelAddress.toLowerCase() === key)) return null;
+    const status = this.balances?.getStatus(key);
+    if (!status) return null;
+    const reason = unfundedReason(key);
+    return { ...status, blocked: this.store.listBlocked().filter((r) => r.skipReason === reason).length };
+  }
+
+  getWatchedRepos(): WatchedRepos {
+    const cursor = (key: string) => this.store.getCursor(key)?.toISOString() ?? null;
+    return {
+      repos: [...this.watchedRepos.values()].map((r) => ({ ...r, cursor: cursor(repoCursorKey(r.owner, r.name, r.domain, r.ref)) })),
+      wildcardOwners: [...this.watchedOwners.values()].map((o) => ({ ...o, cursor: cursor(ownerCursorKey(o.owner, o.domain)) }))
+    };
+  }
+
+  listRuns(limit: number): RunRecord[] {
+    return this.store.listRuns(limit);
+  }
+
+  getRunDetail(id: number): RunDetail | null {
+    const run = this.store.getRun(id);
+    if (!run) return null;
+    const contributions = this.store.listRunContributions(id);
+    const counts = { seen: 0, attested: 0, failed: 0, skipped: 0, blocked: 0 };
+    for (const c of contributions) counts[c.status]++;
+    return { ...run, counts, contributions: contributions.map((c) => toContributionDetail(c, false)) };
+  }
+
+  /**
+   * Per-org and per-user sponsored gas, or null when sponsorship is off.
+   */
+  getSponsorshipSummary(): OrgSponsorshipSummary[] | null {
+    return this.sponsorship?.getSummary() ?? null;
+  }
+
+  getContributionDetail(id: string): ContributionDetail | null {
+    const record = this.store.getContribution(id);
+    return record ? toContributionDetail(record, true) : null;
   }
 
   async start(intervalMinutes: number = 30): Promise<void> {
-    console.log(`[service] Starting service (interval: ${intervalMinutes}min)`);
+    log.info(`Starting service (interval: ${intervalMinutes}min)`);
     
     // Run immediately
     await this.run();
 
     // Then run on interval
     setInterval(() => {
-      this.run().catch(console.error);
+      this.run().catch((e) => log.error('Run failed', e));
     }, intervalMinutes * 60 * 1000);
   }
 }
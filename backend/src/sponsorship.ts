@@ -0,0 +1,230 @@
+/**
+ * Gas sponsorship: organisations paying for their contributors' attestations through an
+ * ERC-4337 paymaster (PAYMASTER_RPC) instead of the users' Kernels.
+ *
+ * SPONSORSHIP_POLICY points to a JSON file with one policy per org (the repo owner; off
+ * GitHub the owner is prefixed with its domain, as in `gitlab.com/acme`):
+ *
+ *   {
+ *     "orgs": {
+ *       "cyberstorm-dev": { "budgetEth": 0.5, "maxOpsPerUserPerDay": 20, "schemas": ["commit", "review"] },
+ *       "gitlab.com/acme": { "budgetEth": 0.1 }
+ *     }
+ *   }
+ *
+ * - `budgetEth` (required): total gas the org pays, summed over every sponsored UserOp
+ * - `maxOpsPerUserPerDay`: sponsored UserOps per user per UTC day (unlimited when absent)
+ * - `schemas`: contribution kinds (`commit`, `pull`, `review`) or schema UIDs to sponsor (all when absent)
+ *
+ * Every sponsored UserOp is recorded in the state store with its actual gas cost, so spend can be
+ * audited per org and per user. When the budget or a user's daily cap is used up, the user's
+ * Kernel pays as before.
+ *
+ * With several chains (ATTEST_CHAINS) every chain's manager shares one ledger, so `budgetEth` and
+ * `maxOpsPerUserPerDay` cover the org's spend on all chains together; each UserOp records its chain.
+ */
+import fs from 'fs';
+import type { Address } from 'viem';
+import { isDefaultDomain, normalizeDomain } from './platform';
+import type { ContributionKind } from './metrics';
+import type { StateStore } from './state-store';
+
+export interface OrgSponsorshipPolicy {
+  budgetEth: number;
+  maxOpsPerUserPerDay?: number;
+  schemas?: string[];
+}
+
+export interface SponsorshipPolicy {
+  orgs: Record<string, OrgSponsorshipPolicy>;
+}
+
+export interface SponsorshipRequest {
+  domain?: string;
+  owner: string;                // repo owner of the contribution
+  username: string;
+  kind: ContributionKind;
+  schemaUid?: string;
+}
+
+export type SponsorshipDecision =
+  | { sponsored: true; org: string }
+  | { sponsored: false; org?: string; reason: 'no_policy' | 'schema_not_allowed' | 'daily_cap' | 'budget_exhausted' };
+
+export interface SponsoredUserSpend {
+  domain: string;
+  username: string;
+  ops: number;
+  opsToday: number;
+  spentEth: number;
+}
+
+export interface OrgSponsorshipSummary {
+  org: string;
+  budgetEth: number;
+  spentEth: number;
+  ops: number;
+  maxOpsPerUserPerDay?: number;
+  schemas?: string[];
+  users: SponsoredUserSpend[];
+}
+
+type SponsorshipLedger = Pick<StateStore, 'recordSponsoredOp' | 'listSponsoredOps'>;
+
+/**
+ * Policy key for a repo owner: `owner` on GitHub, `domain/owner` elsewhere. Lowercased.
+ */
+export function sponsorOrgKey(domain: string | undefined, owner: string): string {
+  const prefix = isDefaultDomain(domain) ? '' : `${normalizeDomain(domain)}/`;
+  return `${prefix}${owner}`.toLowerCase();
+}
+
+export function parseSponsorshipPolicy(value: unknown): SponsorshipPolicy {
+  const orgs = (value as any)?.orgs;
+  if (!orgs || typeof orgs !== 'object' || Array.isArray(orgs)) {
+    throw new Error('Sponsorship policy must have an "orgs" object');
+  }
+
+  const parsed: Record<string, OrgSponsorshipPolicy> = {};
+  for (const [org, raw] of Object.entries(orgs as Record<string, any>)) {
+    const budgetEth = Number(raw?.budgetEth);
+    if (!Number.isFinite(budgetEth) || budgetEth < 0) {
+      throw new Error(`Sponsorship policy for ${org}: budgetEth must be a non-negative number`);
+    }
+    const policy: OrgSponsorshipPolicy = { budgetEth };
+    if (raw.maxOpsPerUserPerDay !== undefined) {
+      const cap = Number(raw.maxOpsPerUserPerDay);
+      if (!Number.isInteger(cap) || cap < 0) {
+        throw new Error(`Sponsorship policy for ${org}: maxOpsPerUserPerDay must be a non-negative integer`);
+      }
+      policy.maxOpsPerUserPerDay = cap;
+    }
+    if (raw.schemas !== undefined) {
+      if (!Array.isArray(raw.schemas) || raw.schemas.some((s: unknown) => typeof s !== 'string')) {
+        throw new Error(`Sponsorship policy for ${org}: schemas must be a list of strings`);
+      }
+      policy.schemas = raw.schemas.map((s: string) => s.trim().toLowerCase());
+    }
+    const slash = org.indexOf('/');
+    const key = slash > 0 ? sponsorOrgKey(org.slice(0, slash), org.slice(slash + 1)) : sponsorOrgKey(undefined, org);
+    parsed[key] = policy;
+  }
+  return { orgs: parsed };
+}
+
+function startOfUtcDay(at: Date): Date {
+  const day = new Date(at);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+function toEth(wei: bigint): number {
+  return Number(wei) / 1e18;
+}
+
+function userKey(domain: string, username: string) {
+  return `${normalizeDomain(domain)}:${username.toLowerCase()}`;
+}
+
+export class SponsorshipManager {
+  constructor(
+    private policy: SponsorshipPolicy,
+    private ledger: SponsorshipLedger,
+    readonly paymasterRpc: string,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /** The org whose policy covers a repo owner, whether or not it can sponsor right now. */
+  orgFor(domain: string | undefined, owner: string): string | undefined {
+    const key = sponsorOrgKey(domain, owner);
+    return this.policy.orgs[key] ? key : undefined;
+  }
+
+  decide(req: SponsorshipRequest): SponsorshipDecision {
+    const org = this.orgFor(req.domain, req.owner);
+    if (!org) return { sponsored: false, reason: 'no_policy' };
+    const policy = this.policy.orgs[org];
+
+    if (policy.schemas && !policy.schemas.includes(req.kind) && !(req.schemaUid && policy.schemas.includes(req.schemaUid.toLowerCase()))) {
+      return { sponsored: false, org, reason: 'schema_not_allowed' };
+    }
+
+    const ops = this.ledger.listSponsoredOps({ org });
+    const spentWei = ops.reduce((sum, op) => sum + BigInt(op.gasCostWei), 0n);
+    if (toEth(spentWei) >= policy.budgetEth) {
+      return { sponsored: false, org, reason: 'budget_exhausted' };
+    }
+
+    if (policy.maxOpsPerUserPerDay !== undefined) {
+      const since = startOfUtcDay(this.now()).toISOString();
+      const key = userKey(req.domain ?? '', req.username);
+      const today = ops.filter((op) => op.createdAt >= since && userKey(op.domain, op.username) === key).length;
+      if (today >= policy.maxOpsPerUserPerDay) {
+        return { sponsored: false, org, reason: 'daily_cap' };
+      }
+    }
+
+    return { sponsored: true, org };
+  }
+
+  record(input: {
+    org: string;
+    domain?: string;
+    username: string;
+    kernelAddress: Address;
+    kind: ContributionKind;
+    contributions: number;
+    userOpHash?: string;
+    txHash?: string;
+    gasCostWei?: bigint;
+    chain?: string;
+  }): void {
+    this.ledger.recordSponsoredOp({
+      ...input,
+      domain: normalizeDomain(input.domain),
+      gasCostWei: (input.gasCostWei ?? 0n).toString(),
+      createdAt: this.now().toISOString()
+    });
+  }
+
+  /**
+   * Spend per org and per user, for the status API.
+   */
+  getSummary(): OrgSponsorshipSummary[] {
+    const since = startOfUtcDay(this.now()).toISOString();
+    return Object.entries(this.policy.orgs).map(([org, policy]) => {
+      const ops = this.ledger.listSponsoredOps({ org });
+      const users = new Map<string, SponsoredUserSpend & { wei: bigint }>();
+      let totalWei = 0n;
+      for (const op of ops) {
+        const wei = BigInt(op.gasCostWei);
+        totalWei += wei;
+        const key = userKey(op.domain, op.username);
+        const user = users.get(key) ?? { domain: op.domain, username: op.username, ops: 0, opsToday: 0, spentEth: 0, wei: 0n };
+        user.ops++;
+        if (op.createdAt >= since) user.opsToday++;
+        user.wei += wei;
+        users.set(key, user);
+      }
+      return {
+        org,
+        budgetEth: policy.budgetEth,
+        spentEth: toEth(totalWei),
+        ops: ops.length,
+        maxOpsPerUserPerDay: policy.maxOpsPerUserPerDay,
+        schemas: policy.schemas,
+        users: [...users.values()].map(({ wei, ...user }) => ({ ...user, spentEth: toEth(wei) }))
+      };
+    });
+  }
+}
+
+/**
+ * Sponsorship configured by env (SPONSORSHIP_POLICY, PAYMASTER_RPC), or null when off.
+ */
+export function createSponsorshipManager(ledger: SponsorshipLedger, env: NodeJS.ProcessEnv = process.env): SponsorshipManager | null {
+  if (!env.SPONSORSHIP_POLICY) return null;
+  if (!env.PAYMASTER_RPC) throw new Error('SPONSORSHIP_POLICY requires PAYMASTER_RPC');
+  const policy = parseSponsorshipPolicy(JSON.parse(fs.readFileSync(env.SPONSORSHIP_POLICY, 'utf-8')));
+  return new SponsorshipManager(policy, ledger, env.PAYMASTER_RPC);
+}
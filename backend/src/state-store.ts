@@ -0,0 +1,635 @@
+/**
+ * Durable attestation state.
+ *
+ * Records every contribution the service has seen (attested, failed, skipped, blocked),
+ * the runs that processed them, per-owner / per-repo cursors so runs resume where the
+ * last one stopped instead of re-scanning a fixed lookback window, and the ledger of
+ * paymaster-sponsored UserOps.
+ *
+ * SQLite (file) is the default backend; the in-memory store is for tests.
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { isDefaultDomain, normalizeDomain, qualifiedRepoName } from './platform';
+
+export type ContributionStatus = 'seen' | 'attested' | 'failed' | 'skipped' | 'blocked';
+
+export interface ContributionRecord {
+  id: string;                     // commit sha, `pr:owner/repo#n` or `review:owner/repo#n/reviewId`
+  repoOwner: string;
+  repoName: string;
+  status: ContributionStatus;
+  attestationUid?: string;
+  txHash?: string;
+  failureReason?: string;
+  skipReason?: string;            // also why a contribution is blocked (e.g. `unfunded: <kernel>`)
+  retryCount: number;
+  payload?: string;               // JSON of the original CommitInfo / PullRequestInfo / ReviewInfo (used for retries)
+  lastRunId?: number;             // run that last processed this contribution
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+export interface RecordSeenInput {
+  id: string;
+  repoOwner: string;
+  repoName: string;
+  payload?: unknown;
+  runId?: number;
+}
+
+export type RunTrigger = 'poll' | 'webhook';
+export type RunStatus = 'running' | 'completed' | 'failed';
+
+export interface RunRecord {
+  id: number;
+  trigger: RunTrigger;
+  status: RunStatus;
+  usersFound?: number;
+  reposWatched?: number;
+  attested: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface FinishRunInput {
+  status: Exclude<RunStatus, 'running'>;
+  usersFound?: number;
+  reposWatched?: number;
+  attested: number;
+  error?: string;
+}
+
+export interface SponsoredOpInput {
+  org: string;                    // sponsorship policy key (sponsorship.ts)
+  domain: string;
+  username: string;
+  kernelAddress: string;
+  kind: string;                   // commit, pull or review
+  contributions: number;          // attestations in the UserOp
+  userOpHash?: string;
+  txHash?: string;
+  gasCostWei: string;             // decimal wei
+  chain?: string;                 // chain the UserOp ran on (one ledger serves every chain)
+  createdAt: string;
+}
+
+export interface SponsoredOpRecord extends SponsoredOpInput {
+  id: number;
+}
+
+export interface StateStore {
+  getContribution(id: string): ContributionRecord | null;
+  recordSeen(input: RecordSeenInput): ContributionRecord;
+  recordAttested(id: string, result: { attestationUid?: string; txHash?: string }): void;
+  recordFailed(id: string, reason: string): void;
+  recordSkipped(id: string, reason: string): void;
+  recordBlocked(id: string, reason: string): void;   // waiting on the user (e.g. Kernel gas); re-queued every run
+  listRetryable(maxRetries: number): ContributionRecord[];
+  listBlocked(): ContributionRecord[];
+  listSkipped(firstSeenSince: Date): ContributionRecord[];   // oldest first
+  startRun(trigger: RunTrigger): RunRecord;
+  finishRun(id: number, result: FinishRunInput): void;
+  getRun(id: number): RunRecord | null;
+  listRuns(limit: number): RunRecord[];          // newest first
+  listRunContributions(runId: number): ContributionRecord[];
+  recordSponsoredOp(input: SponsoredOpInput): void;
+  listSponsoredOps(filter?: { org?: string }): SponsoredOpRecord[];   // oldest first
+  getCursor(key: string): Date | null;
+  setCursor(key: string, at: Date): void;
+  close(): void;
+}
+
+/**
+ * Cursor keys. GitHub keys keep their original form; other platforms are prefixed with the domain.
+ */
+/** `ref` is the glob's ref pattern; each one keeps its own cursor next to the default branch's. */
+export function repoCursorKey(owner: string, name: string, domain?: string, ref?: string) {
+  return `repo:${qualifiedRepoName(domain, owner, name).toLowerCase()}${ref ? `@${ref}` : ''}`;
+}
+
+export function pullsCursorKey(owner: string, name: string) {
+  return `pulls:${owner.toLowerCase()}/${name.toLowerCase()}`;
+}
+
+export function reviewsCursorKey(owner: string, name: string) {
+  return `reviews:${owner.toLowerCase()}/${name.toLowerCase()}`;
+}
+
+export function ownerCursorKey(owner: string, domain?: string) {
+  const prefix = isDefaultDomain(domain) ? '' : `${normalizeDomain(domain)}/`;
+  return `owner:${prefix}${owner.toLowerCase()}`;
+}
+
+/** How far a scan reaches back before its cursor, for clock skew between us and the forge. */
+export const CURSOR_OVERLAP_MS = 10 * 60 * 1000;
+
+/**
+ * Where a scan starts: just before the cursor of the last complete scan (CURSOR_OVERLAP_MS;
+ * records keep the overlap from being attested twice), or the lookback window without one.
+ */
+export function scanSince(cursor: Date | null, lookbackSince: Date): Date {
+  return cursor ? new Date(cursor.getTime() - CURSOR_OVERLAP_MS) : lookbackSince;
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export class MemoryStateStore implements StateStore {
+  private contributions = new Map<string, ContributionRecord>();
+  private runs = new Map<number, RunRecord>();
+  private sponsoredOps: SponsoredOpRecord[] = [];
+  private cursors = new Map<string, string>();
+
+  getContribution(id: string): ContributionRecord | null {
+    const rec = this.contributions.get(id);
+    return rec ? { ...rec } : null;
+  }
+
+  recordSeen(input: RecordSeenInput): ContributionRecord {
+    const existing = this.contributions.get(input.id);
+    if (existing) {
+      if (input.runId !== undefined) existing.lastRunId = input.runId;
+      return { ...existing };
+    }
+    const now = nowIso();
+    const rec: ContributionRecord = {
+      id: input.id,
+      repoOwner: input.repoOwner,
+      repoName: input.repoName,
+      status: 'seen',
+      retryCount: 0,
+      payload: input.payload === undefined ? undefined : JSON.stringify(input.payload),
+      lastRunId: input.runId,
+      firstSeenAt: now,
+      updatedAt: now
+    };
+    this.contributions.set(input.id, rec);
+    return { ...rec };
+  }
+
+  recordAttested(id: string, result: { attestationUid?: string; txHash?: string }): void {
+    const rec = this.require(id);
+    rec.status = 'attested';
+    rec.attestationUid = result.attestationUid;
+    rec.txHash = result.txHash;
+    rec.failureReason = undefined;
+    rec.skipReason = undefined;
+    rec.updatedAt = nowIso();
+  }
+
+  recordFailed(id: string, reason: string): void {
+    const rec = this.require(id);
+    rec.status = 'failed';
+    rec.failureReason = reason;
+    rec.retryCount += 1;
+    rec.updatedAt = nowIso();
+  }
+
+  recordSkipped(id: string, reason: string): void {
+    const rec = this.require(id);
+    if (rec.status === 'attested') return;
+    rec.status = 'skipped';
+    rec.skipReason = reason;
+    rec.updatedAt = nowIso();
+  }
+
+  recordBlocked(id: string, reason: string): void {
+    const rec = this.require(id);
+    if (rec.status === 'attested') return;
+    rec.status = 'blocked';
+    rec.skipReason = reason;
+    rec.updatedAt = nowIso();
+  }
+
+  listRetryable(maxRetries: number): ContributionRecord[] {
+    return [...this.contributions.values()]
+      .filter((r) => r.status === 'failed' && r.retryCount < maxRetries)
+      .map((r) => ({ ...r }));
+  }
+
+  listBlocked(): ContributionRecord[] {
+    return [...this.contributions.values()]
+      .filter((r) => r.status === 'blocked')
+      .map((r) => ({ ...r }));
+  }
+
+  listSkipped(firstSeenSince: Date): ContributionRecord[] {
+    const since = firstSeenSince.toISOString();
+    return [...this.contributions.values()]
+      .filter((r) => r.status === 'skipped' && r.firstSeenAt >= since)
+      .map((r) => ({ ...r }));
+  }
+
+  startRun(trigger: RunTrigger): RunRecord {
+    const run: RunRecord = { id: this.runs.size + 1, trigger, status: 'running', attested: 0, startedAt: nowIso() };
+    this.runs.set(run.id, run);
+    return { ...run };
+  }
+
+  finishRun(id: number, result: FinishRunInput): void {
+    const run = this.runs.get(id);
+    if (!run) throw new Error(`Unknown run: ${id}`);
+    Object.assign(run, result, { finishedAt: nowIso() });
+  }
+
+  getRun(id: number): RunRecord | null {
+    const run = this.runs.get(id);
+    return run ? { ...run } : null;
+  }
+
+  listRuns(limit: number): RunRecord[] {
+    return [...this.runs.values()].reverse().slice(0, limit).map((r) => ({ ...r }));
+  }
+
+  listRunContributions(runId: number): ContributionRecord[] {
+    return [...this.contributions.values()]
+      .filter((r) => r.lastRunId === runId)
+      .map((r) => ({ ...r }));
+  }
+
+  recordSponsoredOp(input: SponsoredOpInput): void {
+    this.sponsoredOps.push({ ...input, id: this.sponsoredOps.length + 1 });
+  }
+
+  listSponsoredOps(filter: { org?: string } = {}): SponsoredOpRecord[] {
+    return this.sponsoredOps.filter((op) => !filter.org || op.org === filter.org).map((op) => ({ ...op }));
+  }
+
+  getCursor(key: string): Date | null {
+    const value = this.cursors.get(key);
+    return value ? new Date(value) : null;
+  }
+
+  setCursor(key: string, at: Date): void {
+    this.cursors.set(key, at.toISOString());
+  }
+
+  close(): void {}
+
+  private require(id: string): ContributionRecord {
+    const rec = this.contributions.get(id);
+    if (!rec) throw new Error(`Unknown contribution: ${id}`);
+    return rec;
+  }
+}
+
+type ContributionRow = {
+  id: string;
+  repo_owner: string;
+  repo_name: string;
+  status: ContributionStatus;
+  attestation_uid: string | null;
+  tx_hash: string | null;
+  failure_reason: string | null;
+  skip_reason: string | null;
+  retry_count: number;
+  payload: string | null;
+  last_run_id: number | null;
+  first_seen_at: string;
+  updated_at: string;
+};
+
+type RunRow = {
+  id: number;
+  trigger: RunTrigger;
+  status: RunStatus;
+  users_found: number | null;
+  repos_watched: number | null;
+  attested: number;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+type SponsoredOpRow = {
+  id: number;
+  org: string;
+  domain: string;
+  username: string;
+  kernel_address: string;
+  kind: string;
+  contributions: number;
+  user_op_hash: string | null;
+  tx_hash: string | null;
+  gas_cost_wei: string;
+  chain: string | null;
+  created_at: string;
+};
+
+function rowToRecord(row: ContributionRow): ContributionRecord {
+  return {
+    id: row.id,
+    repoOwner: row.repo_owner,
+    repoName: row.repo_name,
+    status: row.status,
+    attestationUid: row.attestation_uid ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    failureReason: row.failure_reason ?? undefined,
+    skipReason: row.skip_reason ?? undefined,
+    retryCount: row.retry_count,
+    payload: row.payload ?? undefined,
+    lastRunId: row.last_run_id ?? undefined,
+    firstSeenAt: row.first_seen_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function rowToSponsoredOp(row: SponsoredOpRow): SponsoredOpRecord {
+  return {
+    id: row.id,
+    org: row.org,
+    domain: row.domain,
+    username: row.username,
+    kernelAddress: row.kernel_address,
+    kind: row.kind,
+    contributions: row.contributions,
+    userOpHash: row.user_op_hash ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    gasCostWei: row.gas_cost_wei,
+    chain: row.chain ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+function rowToRun(row: RunRow): RunRecord {
+  return {
+    id: row.id,
+    trigger: row.trigger,
+    status: row.status,
+    usersFound: row.users_found ?? undefined,
+    reposWatched: row.repos_watched ?? undefined,
+    attested: row.attested,
+    error: row.error ?? undefined,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined
+  };
+}
+
+export class SqliteStateStore implements StateStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS contributions (
+        id TEXT PRIMARY KEY,
+        repo_owner TEXT NOT NULL,
+        repo_name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attestation_uid TEXT,
+        tx_hash TEXT,
+        failure_reason TEXT,
+        skip_reason TEXT,
+        retry_count INTEGER NOT NULL DEFAULT 0,
+        payload TEXT,
+        first_seen_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS contributions_status ON contributions (status);
+      CREATE TABLE IF NOT EXISTS cursors (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        users_found INTEGER,
+        repos_watched INTEGER,
+        attested INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS sponsored_ops (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org TEXT NOT NULL,
+        domain TEXT NOT NULL,
+        username TEXT NOT NULL,
+        kernel_address TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        contributions INTEGER NOT NULL,
+        user_op_hash TEXT,
+        tx_hash TEXT,
+        gas_cost_wei TEXT NOT NULL,
+        chain TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sponsored_ops_org ON sponsored_ops (org, created_at);
+    `);
+
+    // Databases created before runs were tracked lack the run column
+    const columns = this.db.prepare('PRAGMA table_info(contributions)').all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === 'last_run_id')) {
+      this.db.exec('ALTER TABLE contributions ADD COLUMN last_run_id INTEGER');
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS contributions_last_run ON contributions (last_run_id)');
+
+    // Ledgers created before several chains shared one lack the chain column
+    const opColumns = this.db.prepare('PRAGMA table_info(sponsored_ops)').all() as Array<{ name: string }>;
+    if (!opColumns.some((c) => c.name === 'chain')) {
+      this.db.exec('ALTER TABLE sponsored_ops ADD COLUMN chain TEXT');
+    }
+  }
+
+  getContribution(id: string): ContributionRecord | null {
+    const row = this.db.prepare('SELECT * FROM contributions WHERE id = ?').get(id) as ContributionRow | undefined;
+    return row ? rowToRecord(row) : null;
+  }
+
+  recordSeen(input: RecordSeenInput): ContributionRecord {
+    const now = nowIso();
+    this.db
+      .prepare(
+        `INSERT INTO contributions (id, repo_owner, repo_name, status, retry_count, payload, last_run_id, first_seen_at, updated_at)
+         VALUES (?, ?, ?, 'seen', 0, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET last_run_id = COALESCE(excluded.last_run_id, contributions.last_run_id)`
+      )
+      .run(
+        input.id,
+        input.repoOwner,
+        input.repoName,
+        input.payload === undefined ? null : JSON.stringify(input.payload),
+        input.runId ?? null,
+        now,
+        now
+      );
+    return this.getContribution(input.id)!;
+  }
+
+  recordAttested(id: string, result: { attestationUid?: string; txHash?: string }): void {
+    this.db
+      .prepare(
+        `UPDATE contributions
+         SET status = 'attested', attestation_uid = ?, tx_hash = ?, failure_reason = NULL, skip_reason = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(result.attestationUid ?? null, result.txHash ?? null, nowIso(), id);
+  }
+
+  recordFailed(id: string, reason: string): void {
+    this.db
+      .prepare(
+        `UPDATE contributions
+         SET status = 'failed', failure_reason = ?, retry_count = retry_count + 1, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(reason, nowIso(), id);
+  }
+
+  recordSkipped(id: string, reason: string): void {
+    this.db
+      .prepare(
+        `UPDATE contributions
+         SET status = 'skipped', skip_reason = ?, updated_at = ?
+         WHERE id = ? AND status != 'attested'`
+      )
+      .run(reason, nowIso(), id);
+  }
+
+  recordBlocked(id: string, reason: string): void {
+    this.db
+      .prepare(
+        `UPDATE contributions
+         SET status = 'blocked', skip_reason = ?, updated_at = ?
+         WHERE id = ? AND status != 'attested'`
+      )
+      .run(reason, nowIso(), id);
+  }
+
+  listRetryable(maxRetries: number): ContributionRecord[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM contributions WHERE status = 'failed' AND retry_count < ? ORDER BY first_seen_at`)
+      .all(maxRetries) as ContributionRow[];
+    return rows.map(rowToRecord);
+  }
+
+  listBlocked(): ContributionRecord[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM contributions WHERE status = 'blocked' ORDER BY first_seen_at`)
+      .all() as ContributionRow[];
+    return rows.map(rowToRecord);
+  }
+
+  listSkipped(firstSeenSince: Date): ContributionRecord[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM contributions WHERE status = 'skipped' AND first_seen_at >= ? ORDER BY first_seen_at`)
+      .all(firstSeenSince.toISOString()) as ContributionRow[];
+    return rows.map(rowToRecord);
+  }
+
+  startRun(trigger: RunTrigger): RunRecord {
+    const info = this.db
+      .prepare(`INSERT INTO runs (trigger, status, attested, started_at) VALUES (?, 'running', 0, ?)`)
+      .run(trigger, nowIso());
+    return this.getRun(Number(info.lastInsertRowid))!;
+  }
+
+  finishRun(id: number, result: FinishRunInput): void {
+    this.db
+      .prepare(
+        `UPDATE runs
+         SET status = ?, users_found = ?, repos_watched = ?, attested = ?, error = ?, finished_at = ?
+         WHERE id = ?`
+      )
+      .run(result.status, result.usersFound ?? null, result.reposWatched ?? null, result.attested, result.error ?? null, nowIso(), id);
+  }
+
+  getRun(id: number): RunRecord | null {
+    const row = this.db.prepare('SELECT * FROM runs WHERE id = ?').get(id) as RunRow | undefined;
+    return row ? rowToRun(row) : null;
+  }
+
+  listRuns(limit: number): RunRecord[] {
+    const rows = this.db.prepare('SELECT * FROM runs ORDER BY id DESC LIMIT ?').all(limit) as RunRow[];
+    return rows.map(rowToRun);
+  }
+
+  listRunContributions(runId: number): ContributionRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM contributions WHERE last_run_id = ? ORDER BY first_seen_at')
+      .all(runId) as ContributionRow[];
+    return rows.map(rowToRecord);
+  }
+
+  recordSponsoredOp(input: SponsoredOpInput): void {
+    this.db
+      .prepare(
+        `INSERT INTO sponsored_ops (org, domain, username, kernel_address, kind, contributions, user_op_hash, tx_hash, gas_cost_wei, chain, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        input.org,
+        input.domain,
+        input.username,
+        input.kernelAddress,
+        input.kind,
+        input.contributions,
+        input.userOpHash ?? null,
+        input.txHash ?? null,
+        input.gasCostWei,
+        input.chain ?? null,
+        input.createdAt
+      );
+  }
+
+  listSponsoredOps(filter: { org?: string } = {}): SponsoredOpRecord[] {
+    const rows = filter.org
+      ? this.db.prepare('SELECT * FROM sponsored_ops WHERE org = ? ORDER BY id').all(filter.org)
+      : this.db.prepare('SELECT * FROM sponsored_ops ORDER BY id').all();
+    return (rows as SponsoredOpRow[]).map(rowToSponsoredOp);
+  }
+
+  getCursor(key: string): Date | null {
+    const row = this.db.prepare('SELECT value FROM cursors WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? new Date(row.value) : null;
+  }
+
+  setCursor(key: string, at: Date): void {
+    this.db
+      .prepare(
+        `INSERT INTO cursors (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      )
+      .run(key, at.toISOString(), nowIso());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * `.attest-state.sqlite` -> `.attest-state.base.sqlite` for a per-chain store.
+ */
+export function namespacedDbPath(file: string, namespace: string): string {
+  const { dir, name, ext } = path.parse(file);
+  return path.join(dir, `${name}.${namespace}${ext}`);
+}
+
+/**
+ * Create the store configured by env:
+ * - ATTEST_STATE_STORE: `sqlite` (default) or `memory`
+ * - ATTEST_STATE_DB: SQLite file path (default `.attest-state.sqlite`); a `namespace` (one per
+ *   chain when several run) goes before the extension
+ */
+export function createStateStore(namespace?: string): StateStore {
+  const kind = (process.env.ATTEST_STATE_STORE || 'sqlite').toLowerCase();
+  if (kind === 'memory') {
+    return new MemoryStateStore();
+  }
+  if (kind === 'sqlite') {
+    const file = process.env.ATTEST_STATE_DB || '.attest-state.sqlite';
+    return new SqliteStateStore(namespace ? namespacedDbPath(file, namespace) : file);
+  }
+  throw new Error(`Unknown ATTEST_STATE_STORE: ${kind}`);
+}
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { branchFromRef, type CommitInfo } from './github';
+
+/**
+ * Verify GitHub's `X-Hub-Signature-256` header (`sha256=<hex hmac of raw body>`).
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer | string,
+  signatureHeader: string | null | undefined
+): boolean {
+  if (!secret || !signatureHeader || !signatureHeader.startsWith('sha256=')) return false;
+  const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+  const received = signatureHeader.slice('sha256='.length);
+  // Non-hex input would decode to a shorter buffer and make timingSafeEqual throw
+  if (!/^[0-9a-f]{64}$/i.test(received)) return false;
+  return timingSafeEqual(Buffer.from(received, 'hex'), Buffer.from(expected, 'hex'));
+}
+
+/**
+ * Map a `push` webhook payload to CommitInfo. Only branch pushes carry commits;
+ * tag pushes and branch deletions yield an empty list.
+ */
+export function parsePushWebhookToCommits(payload: any): CommitInfo[] {
+  const repository = payload?.repository;
+  const owner = repository?.owner?.login || repository?.owner?.name || '';
+  const name = repository?.name || '';
+  if (!owner || !name) return [];
+  if (payload?.deleted) return [];
+  const ref = branchFromRef(payload?.ref);
+  if (payload?.ref && !ref) return [];
+
+  const commits: CommitInfo[] = [];
+  for (const c of payload?.commits || []) {
+    if (!c?.id) continue;
+    commits.push({
+      sha: c.id,
+      author: {
+        email: c.author?.email || '',
+        name: c.author?.name || '',
+        username: c.author?.username
+      },
+      message: c.message || '',
+      timestamp: c.timestamp || new Date().toISOString(),
+      repo: { owner, name },
+      ...(ref ? { ref } : {})
+    });
+  }
+  return commits;
+}
@@ -0,0 +1,10 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeAbiParameters, parseAbiParameters } from 'viem';
+import { buildOrgPolicyData } from '../src/attest-org-policy';
+
+test('buildOrgPolicyData encodes org, comma-joined globs and minReviews', () => {
+  const data = buildOrgPolicyData('acme', ['acme/{api,web}', '!acme/secret-*'], 2);
+  const decoded = decodeAbiParameters(parseAbiParameters('string, string, uint16'), data);
+  assert.deepEqual(decoded, ['acme', 'acme/{api,web},!acme/secret-*', 2]);
+});
@@ -1,7 +1,7 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { getEventSelector } from 'viem';
-import { extractAttestationUid } from '../src/attest-permission';
+import { extractAttestationUid, extractAttestationUids } from '../src/attest-permission';
 
 test('extractAttestationUid prefers EAS Attested log uid by topic0 (indexed uid)', () => {
   const eas = '0x4200000000000000000000000000000000000021';
@@ -41,3 +41,30 @@ test('extractAttestationUid returns undefined when no matching log', () => {
   const uid = extractAttestationUid(logs as any, eas);
   assert.equal(uid, undefined);
 });
+
+test('extractAttestationUids returns every EAS Attested uid in log order', () => {
+  const eas = '0x4200000000000000000000000000000000000021';
+  const attestedTopic0 = getEventSelector('Attested(address,address,bytes32,bytes32)');
+  const uidA = '0x' + 'aa'.repeat(32);
+  const uidB = '0x' + 'bb'.repeat(32);
+  const logs = [
+    { address: eas, topics: [attestedTopic0, '0x01', '0x02', '0x03'], data: uidA },
+    { address: '0x1111111111111111111111111111111111111111', topics: [attestedTopic0, '0x01', '0x02', '0x03'], data: '0x' + 'cc'.repeat(32) },
+    { address: eas, topics: [attestedTopic0, '0x01', '0x02', '0x03'], data: uidB }
+  ];
+  assert.deepEqual(extractAttestationUids(logs as any, eas), [uidA, uidB]);
+});
+
+test('extractAttestationUids keeps only attestations by the given attester', () => {
+  const eas = '0x4200000000000000000000000000000000000021';
+  const attestedTopic0 = getEventSelector('Attested(address,address,bytes32,bytes32)');
+  const kernel = '0x3C9b6d91676E2a937f82c58B3038C666d0B94d98';
+  const other = '0x' + '00'.repeat(12) + '11'.repeat(20);
+  const asTopic = (address: string) => '0x' + '00'.repeat(12) + address.slice(2).toLowerCase();
+  const ours = '0x' + 'aa'.repeat(32);
+  const logs = [
+    { address: eas, topics: [attestedTopic0, asTopic(kernel), asTopic(kernel), '0x03'], data: ours },
+    { address: eas, topics: [attestedTopic0, asTopic(other), other, '0x03'], data: '0x' + 'bb'.repeat(32) }
+  ];
+  assert.deepEqual(extractAttestationUids(logs, eas, kernel), [ours]);
+});
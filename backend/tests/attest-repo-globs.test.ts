@@ -1,10 +1,18 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { decodeAbiParameters, parseAbiParameters } from 'viem';
-import { buildRepoGlobsData } from '../src/attest-repo-globs';
+import { buildRepoGlobsData, parseGlobs } from '../src/attest-repo-globs';
 
 test('buildRepoGlobsData encodes comma-joined globs', () => {
   const data = buildRepoGlobsData(['org/*', 'user/repo']);
   const [decoded] = decodeAbiParameters(parseAbiParameters('string'), data);
   assert.equal(decoded, 'org/*,user/repo');
 });
+
+test('parseGlobs validates the glob grammar and lists every error', () => {
+  assert.deepEqual(parseGlobs('org/{api,web}, !org/archived-*'), ['org/{api,web}', '!org/archived-*']);
+  assert.throws(() => parseGlobs('*/repo, org/[a-'), (e: Error) =>
+    /\*\/repo.*owner must be a name/.test(e.message) && /unterminated character class/.test(e.message)
+  );
+  assert.throws(() => parseGlobs('!org/old'), /only exclusions/);
+});
@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeAbiParameters, decodeFunctionData, parseAbi, parseAbiParameters } from 'viem';
+import { buildBatchCalls, buildPullRequestAttestationData, buildReviewAttestationData, getBatchSize } from '../src/attest-with-session';
+
+const easAbi = parseAbi([
+  'function attest((bytes32 schema,(address recipient,uint64 expirationTime,bool revocable,bytes32 refUID,bytes data,uint256 value) data)) returns (bytes32)'
+]);
+
+const identityUid = ('0x' + '99'.repeat(32)) as `0x${string}`;
+const kernel = '0x3C9b6d91676E2a937f82c58B3038C666d0B94d98' as const;
+
+function req(sha: string) {
+  return {
+    userWalletAddress: kernel,
+    identityAttestationUid: identityUid,
+    commitHash: sha,
+    repoOwner: 'org',
+    repoName: 'repo',
+    author: 'alice',
+    message: `commit ${sha}`
+  };
+}
+
+test('buildBatchCalls emits one EAS attest call per commit', () => {
+  const calls = buildBatchCalls([req('aaa'), req('bbb'), req('ccc')]);
+  assert.equal(calls.length, 3);
+  for (const call of calls) {
+    assert.equal(call.to, process.env.BASE_EAS_ADDRESS);
+    assert.equal(call.data.slice(0, 10), '0xf17325e7');
+    const decoded = decodeFunctionData({ abi: easAbi, data: call.data });
+    assert.equal(decoded.functionName, 'attest');
+  }
+});
+
+test('getBatchSize reads ATTEST_BATCH_SIZE and clamps to at least 1', () => {
+  const prev = process.env.ATTEST_BATCH_SIZE;
+  process.env.ATTEST_BATCH_SIZE = '5';
+  assert.equal(getBatchSize(), 5);
+  process.env.ATTEST_BATCH_SIZE = '0';
+  assert.equal(getBatchSize(), 1);
+  if (prev === undefined) {
+    delete process.env.ATTEST_BATCH_SIZE;
+  } else {
+    process.env.ATTEST_BATCH_SIZE = prev;
+  }
+});
+
+test('buildPullRequestAttestationData encodes the PR schema fields', () => {
+  const data = buildPullRequestAttestationData({
+    userWalletAddress: kernel,
+    identityAttestationUid: identityUid,
+    repoOwner: 'org',
+    repoName: 'repo',
+    prNumber: 12,
+    mergeCommitSha: 'abc123',
+    baseBranch: 'main',
+    title: 'Add feature',
+    additions: 10,
+    deletions: 2,
+    mergedBy: 'maintainer'
+  });
+  const decoded = decodeAbiParameters(
+    parseAbiParameters('string, uint64, string, string, string, uint64, uint64, string, bytes32'),
+    data.data
+  );
+  assert.deepEqual(decoded, ['org/repo', 12n, 'abc123', 'main', 'Add feature', 10n, 2n, 'maintainer', identityUid]);
+  assert.equal(data.refUID, identityUid);
+  assert.equal(data.recipient, kernel);
+});
+
+test('buildReviewAttestationData encodes the review schema fields', () => {
+  const data = buildReviewAttestationData({
+    userWalletAddress: kernel,
+    identityAttestationUid: identityUid,
+    repoOwner: 'org',
+    repoName: 'repo',
+    prNumber: 12,
+    reviewId: 3456,
+    state: 'changes_requested',
+    reviewer: 'bob'
+  });
+  const decoded = decodeAbiParameters(
+    parseAbiParameters('string, uint64, uint64, string, string, bytes32'),
+    data.data
+  );
+  assert.deepEqual(decoded, ['org/repo', 12n, 3456n, 'changes_requested', 'bob', identityUid]);
+  assert.equal(data.refUID, identityUid);
+});
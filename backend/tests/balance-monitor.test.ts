@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Address } from 'viem';
+import { BalanceMonitor, FileSink, WebhookSink, createNotificationSinks, formatBalanceAlert, unfundedReason, type BalanceAlert, type NotificationSink } from '../src/balance-monitor';
+
+const alice = { domain: 'github.com', username: 'alice', kernelAddress: '0x00000000000000000000000000000000000000Aa' as Address };
+const bob = { domain: 'gitlab.com', username: 'bob', kernelAddress: '0x00000000000000000000000000000000000000bB' as Address };
+
+function recordingSink(alerts: BalanceAlert[]): NotificationSink {
+  return { name: 'test', notify: async (alert) => { alerts.push(alert); } };
+}
+
+function balances(values: Record<string, bigint | Error>) {
+  return async (address: Address) => {
+    const value = values[address.toLowerCase()];
+    if (value instanceof Error) throw value;
+    return value ?? 0n;
+  };
+}
+
+test('check returns Kernels below the threshold', async () => {
+  const monitor = new BalanceMonitor({
+    chain: 'base',
+    thresholdEth: 0.01,
+    sinks: [],
+    getBalance: balances({ [alice.kernelAddress.toLowerCase()]: 10n ** 15n, [bob.kernelAddress.toLowerCase()]: 2n * 10n ** 16n })
+  });
+
+  assert.deepEqual([...await monitor.check([alice, bob])], [alice.kernelAddress.toLowerCase()]);
+  assert.equal(monitor.getStatus(alice.kernelAddress)?.funded, false);
+  assert.equal(monitor.getStatus(alice.kernelAddress)?.balanceEth, 0.001);
+  assert.equal(monitor.getStatus(bob.kernelAddress)?.funded, true);
+});
+
+test('notifies once when a Kernel becomes unfunded and again when it is topped up', async () => {
+  const alerts: BalanceAlert[] = [];
+  const values: Record<string, bigint | Error> = { [alice.kernelAddress.toLowerCase()]: 0n };
+  const monitor = new BalanceMonitor({ chain: 'base', thresholdEth: 0.01, sinks: [recordingSink(alerts)], getBalance: balances(values) });
+
+  await monitor.check([alice]);
+  await monitor.check([alice]);
+  assert.deepEqual(alerts.map((a) => a.kind), ['unfunded']);
+
+  values[alice.kernelAddress.toLowerCase()] = 10n ** 17n;
+  assert.equal((await monitor.check([alice])).size, 0);
+  assert.deepEqual(alerts.map((a) => a.kind), ['unfunded', 'funded']);
+  assert.equal(alerts[0].username, 'alice');
+  assert.equal(alerts[0].thresholdEth, 0.01);
+});
+
+test('balance read errors keep the previous status', async () => {
+  const values: Record<string, bigint | Error> = { [alice.kernelAddress.toLowerCase()]: new Error('rpc down') };
+  const monitor = new BalanceMonitor({ chain: 'base', thresholdEth: 0.01, sinks: [], getBalance: balances(values) });
+  assert.equal((await monitor.check([alice])).size, 0);
+
+  values[alice.kernelAddress.toLowerCase()] = 0n;
+  await monitor.check([alice]);
+  values[alice.kernelAddress.toLowerCase()] = new Error('rpc down');
+  assert.equal((await monitor.check([alice])).size, 1);
+});
+
+test('a failing sink does not stop the others', async () => {
+  const alerts: BalanceAlert[] = [];
+  const failing: NotificationSink = { name: 'broken', notify: async () => { throw new Error('boom'); } };
+  const monitor = new BalanceMonitor({ chain: 'base', thresholdEth: 0.01, sinks: [failing, recordingSink(alerts)], getBalance: async () => 0n });
+  await monitor.check([alice]);
+  assert.equal(alerts.length, 1);
+});
+
+test('WebhookSink posts the alert with a readable summary', async () => {
+  const bodies: any[] = [];
+  const sink = new WebhookSink('https://hooks.example.org/didgit', (async (_url: string, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return new Response(null, { status: 204 });
+  }) as typeof fetch);
+  const alert: BalanceAlert = { kind: 'unfunded', ...alice, balanceEth: 0.001, thresholdEth: 0.01, at: '2026-02-10T00:00:00.000Z' };
+
+  await sink.notify(alert);
+  assert.equal(bodies[0].kernelAddress, alice.kernelAddress);
+  assert.equal(bodies[0].subject, formatBalanceAlert(alert).subject);
+  assert.match(bodies[0].subject, /github\.com:alice needs gas/);
+});
+
+test('FileSink appends JSON lines', async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'didgit-')), 'alerts', 'balance.jsonl');
+  const sink = new FileSink(file);
+  await sink.notify({ kind: 'unfunded', ...alice, balanceEth: 0, thresholdEth: 0.01, at: '' });
+  await sink.notify({ kind: 'funded', ...alice, balanceEth: 0.1, thresholdEth: 0.01, at: '' });
+  assert.deepEqual(fs.readFileSync(file, 'utf-8').trim().split('\n').map((l) => JSON.parse(l).kind), ['unfunded', 'funded']);
+});
+
+test('createNotificationSinks enables each configured sink', () => {
+  assert.deepEqual(createNotificationSinks({}), []);
+  assert.deepEqual(
+    createNotificationSinks({ BALANCE_NOTIFY_WEBHOOK: 'https://x', BALANCE_NOTIFY_FILE: '/tmp/a', BALANCE_NOTIFY_EMAIL: 'ops@example.org' }).map((s) => s.name),
+    ['webhook', 'file', 'email']
+  );
+  assert.equal(unfundedReason(alice.kernelAddress), 'unfunded: 0x00000000000000000000000000000000000000aa');
+});
@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { getChainConfig } from '../src/config';
+import { CHAIN_PROFILES, getChainConfig, getChainKeys } from '../src/config';
 
 function setBaseEnv() {
   process.env.BASE_EAS_ADDRESS = '0x0000000000000000000000000000000000000001';
@@ -37,3 +37,95 @@ test('allows arbitrum via CHAIN', () => {
   assert.equal(cfg.name, 'arbitrum');
   assert.equal(cfg.chainId, 42161);
 });
+
+test('ATTEST_CHAINS lists the chains to run, defaulting to CHAIN', () => {
+  setBaseEnv();
+  setArbitrumEnv();
+  process.env.CHAIN = 'arbitrum';
+  assert.deepEqual(getChainKeys(''), ['arbitrum']);
+  assert.deepEqual(getChainKeys('base, Arbitrum,base'), ['base', 'arbitrum']);
+  assert.throws(() => getChainKeys('base,optimism'), /optimism/);
+});
+
+test('bundler and paymaster RPCs can be set per chain', () => {
+  setBaseEnv();
+  setArbitrumEnv();
+  process.env.BUNDLER_RPC = 'https://bundler.example/shared';
+  process.env.ARBITRUM_BUNDLER_RPC = 'https://bundler.example/arbitrum';
+  try {
+    assert.equal(getChainConfig('base').bundlerRpc, 'https://bundler.example/shared');
+    assert.equal(getChainConfig('arbitrum').bundlerRpc, 'https://bundler.example/arbitrum');
+  } finally {
+    delete process.env.BUNDLER_RPC;
+    delete process.env.ARBITRUM_BUNDLER_RPC;
+  }
+});
+
+test('with several ATTEST_CHAINS each chain needs its own bundler, and its own paymaster for sponsorship', () => {
+  setBaseEnv();
+  setArbitrumEnv();
+  process.env.ATTEST_CHAINS = 'base,arbitrum';
+  process.env.BUNDLER_RPC = 'https://bundler.example/shared';
+  process.env.PAYMASTER_RPC = 'https://paymaster.example/shared';
+  process.env.ARBITRUM_BUNDLER_RPC = 'https://bundler.example/arbitrum';
+  try {
+    assert.throws(() => getChainConfig('base'), /BASE_BUNDLER_RPC/);
+    const arbitrum = getChainConfig('arbitrum');
+    assert.equal(arbitrum.bundlerRpc, 'https://bundler.example/arbitrum');
+    assert.equal(arbitrum.paymasterRpc, undefined);
+
+    process.env.SPONSORSHIP_POLICY = 'sponsorship.json';
+    assert.throws(() => getChainConfig('arbitrum'), /ARBITRUM_PAYMASTER_RPC/);
+
+    process.env.ATTEST_CHAINS = 'base';
+    assert.equal(getChainConfig('base').bundlerRpc, 'https://bundler.example/shared');
+    assert.equal(getChainConfig('base').paymasterRpc, 'https://paymaster.example/shared');
+  } finally {
+    delete process.env.ATTEST_CHAINS;
+    delete process.env.BUNDLER_RPC;
+    delete process.env.PAYMASTER_RPC;
+    delete process.env.ARBITRUM_BUNDLER_RPC;
+    delete process.env.SPONSORSHIP_POLICY;
+  }
+});
+
+test('testnet and local profiles read their own env prefix and explorers', () => {
+  process.env.BASE_SEPOLIA_EAS_ADDRESS = '0x4200000000000000000000000000000000000021';
+  process.env.BASE_SEPOLIA_SCHEMA_REGISTRY_ADDRESS = '0x4200000000000000000000000000000000000020';
+  process.env.BASE_SEPOLIA_RESOLVER_ADDRESS = '0x0000000000000000000000000000000000000007';
+  process.env.BASE_SEPOLIA_IDENTITY_SCHEMA_UID = '0x' + '99'.repeat(32);
+  process.env.BASE_SEPOLIA_CONTRIBUTION_SCHEMA_UID = '0x' + 'aa'.repeat(32);
+  process.env.BASE_SEPOLIA_PERMISSION_SCHEMA_UID = '0x' + 'bb'.repeat(32);
+  process.env.BASE_SEPOLIA_REPO_GLOBS_SCHEMA_UID = '0x' + 'cc'.repeat(32);
+
+  const cfg = getChainConfig('base-sepolia');
+  assert.equal(cfg.chainId, 84532);
+  assert.equal(cfg.identitySchemaUid, '0x' + '99'.repeat(32));
+  assert.equal(cfg.easGraphql, 'https://base-sepolia.easscan.org/graphql');
+  assert.equal(cfg.explorers.tx, 'https://sepolia.basescan.org/tx');
+
+  assert.equal(CHAIN_PROFILES['arbitrum-sepolia'].chain.id, 421614);
+  assert.equal(CHAIN_PROFILES['arbitrum-sepolia'].envPrefix, 'ARBITRUM_SEPOLIA');
+  assert.throws(() => getChainConfig('arbitrum-sepolia'), /ARBITRUM_SEPOLIA_EAS_ADDRESS/);
+  assert.throws(() => getChainConfig('optimism'), /Unknown CHAIN/);
+});
+
+test('local profile targets anvil and allows explorer overrides', () => {
+  process.env.LOCAL_EAS_ADDRESS = '0x0000000000000000000000000000000000000008';
+  process.env.LOCAL_SCHEMA_REGISTRY_ADDRESS = '0x0000000000000000000000000000000000000009';
+  process.env.LOCAL_RESOLVER_ADDRESS = '0x0000000000000000000000000000000000000000';
+  process.env.LOCAL_IDENTITY_SCHEMA_UID = '0x' + 'dd'.repeat(32);
+  process.env.LOCAL_CONTRIBUTION_SCHEMA_UID = '0x' + 'ee'.repeat(32);
+  process.env.LOCAL_PERMISSION_SCHEMA_UID = '0x' + 'ff'.repeat(32);
+  process.env.LOCAL_REPO_GLOBS_SCHEMA_UID = '0x' + '12'.repeat(32);
+  process.env.LOCAL_EASSCAN_URL = 'http://localhost:3000';
+  try {
+    const cfg = getChainConfig('local');
+    assert.equal(cfg.chainId, 31337);
+    assert.equal(cfg.rpcUrl, 'http://127.0.0.1:8545');
+    assert.equal(cfg.explorers.easAttestation, 'http://localhost:3000/attestation/view');
+    assert.deepEqual(getChainKeys('local,base-sepolia'), ['local', 'base-sepolia']);
+  } finally {
+    delete process.env.LOCAL_EASSCAN_URL;
+  }
+});
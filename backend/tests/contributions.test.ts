@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { parseContributionDecodedJson, fetchRecentAttestedCommits } from '../src/contributions';
+import { parseContributionDecodedJson, parsePullRequestDecodedJson, parseReviewDecodedJson, pullRequestKey, reviewKey, fetchRecentAttestedCommits } from '../src/contributions';
 
 test('parseContributionDecodedJson extracts commitHash', () => {
   const decoded = JSON.stringify([
@@ -41,3 +41,27 @@ test('fetchRecentAttestedCommits returns set of commit hashes', async () => {
   assert.equal(set.has('bbb'), true);
   assert.equal(set.size, 2);
 });
+
+test('parsePullRequestDecodedJson builds repo#number key', () => {
+  const decoded = JSON.stringify([
+    { name: 'repo', value: { value: 'Cyberstorm-Dev/didgit' } },
+    { name: 'prNumber', value: { value: { type: 'BigNumber', hex: '0x2a' } } }
+  ]);
+  assert.equal(parsePullRequestDecodedJson(decoded), 'cyberstorm-dev/didgit#42');
+  assert.equal(pullRequestKey('org/Repo', 7), 'org/repo#7');
+});
+
+test('parsePullRequestDecodedJson returns null without a PR number', () => {
+  const decoded = JSON.stringify([{ name: 'repo', value: { value: 'org/repo' } }]);
+  assert.equal(parsePullRequestDecodedJson(decoded), null);
+});
+
+test('parseReviewDecodedJson builds repo#number/reviewId key', () => {
+  const decoded = JSON.stringify([
+    { name: 'repo', value: { value: 'Org/Repo' } },
+    { name: 'prNumber', value: { value: { type: 'BigNumber', hex: '0x07' } } },
+    { name: 'reviewId', value: { value: '981' } }
+  ]);
+  assert.equal(parseReviewDecodedJson(decoded), 'org/repo#7/981');
+  assert.equal(reviewKey('org/repo', 7, 981), 'org/repo#7/981');
+});
@@ -0,0 +1,124 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { GiteaAdapter, parseGiteaPushActivities, parseRepoFileUrl } from '../src/gitea';
+
+type Route = [RegExp, unknown];
+
+function fakeFetch(routes: Route[], calls: string[] = []) {
+  return async (url: string, init?: RequestInit) => {
+    calls.push(url);
+    for (const [pattern, body] of routes) {
+      if (pattern.test(url)) {
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        return new Response(text, { status: 200, headers: { 'content-type': 'application/json' } });
+      }
+    }
+    return new Response('{"message":"not found"}', { status: 404 });
+  };
+}
+
+test('parseRepoFileUrl accepts repo and file URLs on the adapter host only', () => {
+  assert.deepEqual(parseRepoFileUrl('https://codeberg.org/alice/didgit-proof', 'codeberg.org'), {
+    owner: 'alice', repo: 'didgit-proof', path: 'didgit-proof.json'
+  });
+  assert.deepEqual(parseRepoFileUrl('https://codeberg.org/alice/proofs/src/branch/main/keys/didgit-proof.json', 'codeberg.org'), {
+    owner: 'alice', repo: 'proofs', path: 'keys/didgit-proof.json', ref: 'main'
+  });
+  assert.deepEqual(parseRepoFileUrl('https://git.example.org/alice/proofs/raw/commit/abc123/didgit-proof.json', 'git.example.org'), {
+    owner: 'alice', repo: 'proofs', path: 'didgit-proof.json', ref: 'abc123'
+  });
+  assert.equal(parseRepoFileUrl('https://codeberg.org/alice/proofs', 'git.example.org'), null);
+  assert.equal(parseRepoFileUrl('https://codeberg.org/alice/proofs/issues/1', 'codeberg.org'), null);
+  assert.equal(parseRepoFileUrl('https://codeberg.org/alice', 'codeberg.org'), null);
+});
+
+test('getRecentCommits maps Gitea commits with the instance domain', async () => {
+  const calls: string[] = [];
+  const adapter = new GiteaAdapter('https://git.example.org', 'tok', fakeFetch([
+    [/\/repos\/alice\/tool\/commits\?.*since=/, [
+      { sha: 'abc', author: { login: 'alice' }, commit: { message: 'fix', author: { name: 'Alice', email: 'alice@example.org', date: '2026-02-10T00:00:00Z' } } }
+    ]]
+  ], calls));
+
+  const { commits, complete } = await adapter.getRecentCommits('alice', 'tool', new Date('2026-02-09T00:00:00Z'));
+  assert.equal(calls[0].startsWith('https://git.example.org/api/v1/'), true);
+  assert.equal(complete, true);
+  assert.deepEqual(commits, [{
+    sha: 'abc',
+    author: { email: 'alice@example.org', name: 'Alice', username: 'alice' },
+    message: 'fix',
+    timestamp: '2026-02-10T00:00:00Z',
+    repo: { owner: 'alice', name: 'tool' },
+    domain: 'git.example.org'
+  }]);
+});
+
+test('getRecentCommits reads a branch and listBranches lists branch names', async () => {
+  const calls: string[] = [];
+  const adapter = new GiteaAdapter('https://git.example.org', undefined, fakeFetch([
+    [/\/repos\/alice\/tool\/commits\?.*sha=release%2F1\.0/, [
+      { sha: 'abc', author: { login: 'alice' }, commit: { message: 'fix', author: { name: 'Alice', email: 'a@example.org', date: '2026-02-10T00:00:00Z' } } }
+    ]],
+    [/\/repos\/alice\/tool\/branches/, [{ name: 'main' }, { name: 'release/1.0' }]]
+  ], calls));
+
+  const { commits } = await adapter.getRecentCommits('alice', 'tool', undefined, 'release/1.0');
+  assert.equal(commits[0].ref, 'release/1.0');
+  assert.deepEqual(await adapter.listBranches('alice', 'tool'), ['main', 'release/1.0']);
+});
+
+test('listOrgRepos skips private repos and returns [] for unknown orgs', async () => {
+  const adapter = new GiteaAdapter('https://codeberg.org', undefined, fakeFetch([
+    [/\/orgs\/forge\/repos\?limit=50&page=1$/, [
+      { name: 'site', private: false, owner: { login: 'forge' }, topics: ['didgit'], fork: false, archived: false, language: 'Go' },
+      { name: 'secret', private: true, owner: { login: 'forge' } }
+    ]]
+  ]));
+  assert.deepEqual(await adapter.listOrgRepos('forge'), [
+    { owner: 'forge', name: 'site', meta: { topics: ['didgit'], fork: false, archived: false, language: 'Go' } }
+  ]);
+  assert.deepEqual(await adapter.listOrgRepos('missing'), []);
+});
+
+test('parseGiteaPushActivities credits the pusher for commit_repo activities', () => {
+  const commits = parseGiteaPushActivities([
+    {
+      op_type: 'commit_repo',
+      act_user: { login: 'alice' },
+      repo: { name: 'tool', owner: { login: 'forge' } },
+      created: '2026-02-10T00:00:00Z',
+      content: JSON.stringify({ Commits: [{ Sha1: 'bbb', Message: 'one', AuthorEmail: 'a@x.org', AuthorName: 'Alice' }] })
+    },
+    { op_type: 'create_issue', act_user: { login: 'alice' }, repo: { name: 'tool', owner: { login: 'forge' } } },
+    { op_type: 'commit_repo', repo: { name: 'tool', owner: { login: 'forge' } }, content: 'not json' }
+  ], 'codeberg.org');
+
+  assert.deepEqual(commits, [{
+    sha: 'bbb',
+    author: { email: 'a@x.org', name: 'Alice', username: 'alice' },
+    message: 'one',
+    timestamp: '2026-02-10T00:00:00Z',
+    repo: { owner: 'forge', name: 'tool' },
+    domain: 'codeberg.org'
+  }]);
+});
+
+test('fetchIdentityProof reads didgit-proof.json from a public repo', async () => {
+  const proof = { domain: 'codeberg.org', username: 'alice', wallet: '0xabc' };
+  const calls: string[] = [];
+  const adapter = new GiteaAdapter('https://codeberg.org', undefined, fakeFetch([
+    [/\/api\/v1\/repos\/alice\/didgit-proof$/, { private: false, owner: { login: 'alice' } }],
+    [/\/api\/v1\/repos\/alice\/didgit-proof\/raw\/didgit-proof\.json$/, JSON.stringify(proof)]
+  ], calls));
+
+  assert.deepEqual(await adapter.fetchIdentityProof('https://codeberg.org/alice/didgit-proof'), { owner: 'alice', payload: proof });
+  assert.equal(await adapter.fetchIdentityProof('https://codeberg.org/alice/other'), null);
+  assert.equal(await adapter.fetchIdentityProof('https://gitlab.com/-/snippets/12'), null);
+});
+
+test('fetchIdentityProof ignores private repos', async () => {
+  const adapter = new GiteaAdapter('https://codeberg.org', undefined, fakeFetch([
+    [/\/api\/v1\/repos\/alice\/proofs$/, { private: true, owner: { login: 'alice' } }]
+  ]));
+  assert.equal(await adapter.fetchIdentityProof('https://codeberg.org/alice/proofs/src/branch/main/didgit-proof.json'), null);
+});
@@ -0,0 +1,126 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getChainConfig } from '../src/config';
+import { matchCommitToGitHubUser, parseGistId, parseNoreplyAddress, parseNoreplyEmail, resolveCommitAuthor, type CommitInfo } from '../src/github';
+import { githubAdapter, type PlatformAdapter } from '../src/platform';
+import { AttestationService } from '../src/service';
+import { MemoryStateStore } from '../src/state-store';
+
+function commit(author: Partial<CommitInfo['author']>): CommitInfo {
+  return {
+    sha: 'aaa',
+    author: { email: '', name: 'Someone', ...author },
+    message: 'msg',
+    timestamp: '2026-02-09T00:00:00Z',
+    repo: { owner: 'org', name: 'repo' }
+  };
+}
+
+test('resolveCommitAuthor prefers the linked GitHub login', () => {
+  const match = resolveCommitAuthor(commit({ username: 'alice', email: 'bob@example.com' }), {
+    verifiedEmails: new Map([['bob@example.com', 'bob']])
+  });
+  assert.deepEqual(match, { username: 'alice', source: 'login' });
+});
+
+test('resolveCommitAuthor falls back to verified email mapping', () => {
+  const match = resolveCommitAuthor(commit({ email: 'Bob@Example.com' }), {
+    verifiedEmails: new Map([['bob@example.com', 'bob']])
+  });
+  assert.deepEqual(match, { username: 'bob', source: 'verified-email' });
+});
+
+test('resolveCommitAuthor reads GitHub noreply emails', () => {
+  const accountIds = new Map([['carol', 123]]);
+  assert.deepEqual(resolveCommitAuthor(commit({ email: '123+Carol@users.noreply.github.com' }), { accountIds }), {
+    username: 'carol',
+    source: 'noreply-email'
+  });
+  assert.deepEqual(resolveCommitAuthor(commit({ email: 'dave@users.noreply.github.com' })), {
+    username: 'dave',
+    source: 'noreply-email'
+  });
+  assert.deepEqual(parseNoreplyAddress('123+carol@users.noreply.github.com'), { login: 'carol', id: 123 });
+  assert.equal(parseNoreplyEmail('dave@users.noreply.github.com'), 'dave');
+  assert.equal(parseNoreplyEmail('dave@example.com'), null);
+});
+
+test('resolveCommitAuthor rejects noreply emails whose ID is not the login\'s account', () => {
+  // `carol` was renamed and the login taken by account 456; 123's commits are not theirs
+  const renamed = resolveCommitAuthor(commit({ email: '123+carol@users.noreply.github.com' }), { accountIds: new Map([['carol', 456]]) });
+  assert.equal(renamed.username, null);
+  assert.match((renamed as any).reason, /account ID 123 is not confirmed as carol's/);
+
+  assert.equal(resolveCommitAuthor(commit({ email: '123+carol@users.noreply.github.com' })).username, null);
+});
+
+test('resolveCommitAuthor uses identity proof email claims last', () => {
+  const match = resolveCommitAuthor(commit({ email: 'erin@corp.example' }), {
+    proofEmails: new Map([['erin@corp.example', 'erin']])
+  });
+  assert.deepEqual(match, { username: 'erin', source: 'proof-email' });
+});
+
+test('resolveCommitAuthor explains why a commit could not be matched', () => {
+  const noEmail = resolveCommitAuthor(commit({}));
+  assert.equal(noEmail.username, null);
+  assert.match((noEmail as any).reason, /no author email/);
+
+  const unknown = resolveCommitAuthor(commit({ email: 'x@y.com' }));
+  assert.equal(unknown.username, null);
+  assert.match((unknown as any).reason, /x@y\.com/);
+  assert.equal(matchCommitToGitHubUser(commit({ email: 'x@y.com' })), null);
+});
+
+test('parseGistId handles gist page and raw URLs', () => {
+  assert.equal(parseGistId('https://gist.github.com/alice/0123abcd'), '0123abcd');
+  assert.equal(parseGistId('https://gist.github.com/0123abcd'), '0123abcd');
+  assert.equal(parseGistId('https://gist.githubusercontent.com/alice/0123abcd/raw/didgit-proof.json'), '0123abcd');
+  assert.equal(parseGistId('https://example.com/alice/0123abcd'), null);
+});
+
+test('resolveCommitAuthor only trusts GitHub noreply addresses on GitHub commits', () => {
+  const gitlabCommit = { ...commit({ email: '123+alice@users.noreply.github.com' }), domain: 'gitlab.com' };
+  const match = resolveCommitAuthor(gitlabCommit);
+  assert.equal(match.username, null);
+});
+
+test('buildAuthorContexts reads account IDs and drops emails two identities claim', async () => {
+  const proofs: Record<string, Record<string, unknown>> = {
+    'https://gist.github.com/alice/1': { email: 'shared@example.com', emails: ['alice@example.com'] },
+    'https://gist.github.com/bob/2': { email: 'Shared@example.com' },
+    'https://gist.github.com/carol/3': { email: 'shared@example.com' }
+  };
+  const github: PlatformAdapter = {
+    ...githubAdapter,
+    getUserPublicEmail: async () => null,
+    getUserId: async (username) => ({ alice: 1, bob: 2, carol: 3 } as Record<string, number>)[username] ?? null,
+    fetchIdentityProof: async (url) => ({ owner: url.split('/')[3], payload: proofs[url] })
+  };
+  const service = new AttestationService({
+    chain: getChainConfig('base'),
+    store: new MemoryStateStore(),
+    sponsorship: null,
+    platforms: new Map([['github.com', github]])
+  });
+  const user = (username: string, proofUrl: string) => ({
+    domain: 'github.com',
+    username,
+    walletAddress: '0x0000000000000000000000000000000000000001' as const,
+    kernelAddress: '0x0000000000000000000000000000000000000002' as const,
+    identityAttestationUid: `0x${'1'.repeat(64)}` as const,
+    repoGlobs: ['acme/*'],
+    proofUrl
+  });
+
+  const ctx = (await service.buildAuthorContexts([
+    user('alice', 'https://gist.github.com/alice/1'),
+    user('bob', 'https://gist.github.com/bob/2'),
+    user('carol', 'https://gist.github.com/carol/3')
+  ])).get('github.com')!;
+
+  assert.deepEqual([...ctx.accountIds!], [['alice', 1], ['bob', 2], ['carol', 3]]);
+  // A third claim after the conflict does not win the email back either
+  assert.deepEqual([...ctx.proofEmails!], [['alice@example.com', 'alice']]);
+  assert.equal(resolveCommitAuthor(commit({ email: 'shared@example.com' }), ctx).username, null);
+});
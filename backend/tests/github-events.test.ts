@@ -25,3 +25,16 @@ test('parsePushEventsToCommits maps push events to commit infos', () => {
   assert.equal(commits[0].repo.owner, 'allenday');
   assert.equal(commits[0].repo.name, 'myrepo');
 });
+
+test('parsePushEventsToCommits records the pushed branch and skips tag pushes', () => {
+  const push = (ref: string, sha: string) => ({
+    type: 'PushEvent',
+    created_at: '2026-02-09T00:00:00Z',
+    actor: { login: 'allenday' },
+    repo: { name: 'allenday/myrepo' },
+    payload: { ref, commits: [{ sha, message: 'm', author: { name: 'Allen', email: 'a@b.com' } }] }
+  });
+
+  const commits = parsePushEventsToCommits([push('refs/heads/release/1.0', 'aaa'), push('refs/tags/v1.0', 'bbb')] as any);
+  assert.deepEqual(commits.map((c) => [c.sha, c.ref]), [['aaa', 'release/1.0']]);
+});
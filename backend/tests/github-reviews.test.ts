@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { countApprovals, normalizeReviewState, parseReviews } from '../src/github';
+
+test('normalizeReviewState keeps approvals and change requests only', () => {
+  assert.equal(normalizeReviewState('APPROVED'), 'approved');
+  assert.equal(normalizeReviewState('CHANGES_REQUESTED'), 'changes_requested');
+  assert.equal(normalizeReviewState('COMMENTED'), null);
+  assert.equal(normalizeReviewState('DISMISSED'), null);
+  assert.equal(normalizeReviewState(undefined), null);
+});
+
+test('parseReviews filters by state and submission time', () => {
+  const since = new Date('2026-02-09T00:00:00Z');
+  const reviews = parseReviews(
+    [
+      { id: 1, state: 'APPROVED', submitted_at: '2026-02-10T00:00:00Z', user: { login: 'alice' } },
+      { id: 2, state: 'COMMENTED', submitted_at: '2026-02-10T00:00:00Z', user: { login: 'alice' } },
+      { id: 3, state: 'CHANGES_REQUESTED', submitted_at: '2026-02-01T00:00:00Z', user: { login: 'bob' } },
+      { id: 4, state: 'CHANGES_REQUESTED', submitted_at: '2026-02-11T00:00:00Z', user: { login: 'bob' } },
+      { id: 5, state: 'PENDING', user: { login: 'carol' } }
+    ],
+    'org',
+    'repo',
+    42,
+    since
+  );
+
+  assert.deepEqual(reviews, [
+    { id: 1, prNumber: 42, state: 'approved', reviewer: 'alice', submittedAt: '2026-02-10T00:00:00Z', repo: { owner: 'org', name: 'repo' } },
+    { id: 4, prNumber: 42, state: 'changes_requested', reviewer: 'bob', submittedAt: '2026-02-11T00:00:00Z', repo: { owner: 'org', name: 'repo' } }
+  ]);
+});
+
+test('countApprovals counts reviewers whose latest decisive review approves', () => {
+  const review = (login: string, state: string) => ({ user: { login }, state });
+  assert.equal(countApprovals([
+    review('alice', 'APPROVED'),
+    review('bob', 'APPROVED'),
+    review('bob', 'CHANGES_REQUESTED'),
+    review('carol', 'CHANGES_REQUESTED'),
+    review('carol', 'COMMENTED'),
+    review('carol', 'APPROVED'),
+    review('dave', 'COMMENTED'),
+    review('Author', 'APPROVED')
+  ], 'author'), 2);
+  assert.equal(countApprovals([]), 0);
+});
@@ -0,0 +1,132 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { GitLabAdapter, parseGitLabProjectMetadata, parseSnippetId, splitProjectPath } from '../src/gitlab';
+
+type Route = [RegExp, unknown];
+
+function fakeFetch(routes: Route[], calls: string[] = []) {
+  return async (url: string, init?: RequestInit) => {
+    calls.push(url);
+    for (const [pattern, body] of routes) {
+      if (pattern.test(url)) {
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        return new Response(text, { status: 200, headers: { 'content-type': 'application/json' } });
+      }
+    }
+    return new Response('{"message":"404 Not Found"}', { status: 404 });
+  };
+}
+
+test('parseSnippetId accepts personal snippets on the adapter host only', () => {
+  assert.equal(parseSnippetId('https://gitlab.com/-/snippets/4123', 'gitlab.com'), '4123');
+  assert.equal(parseSnippetId('https://gitlab.com/snippets/4123', 'gitlab.com'), '4123');
+  assert.equal(parseSnippetId('https://gitlab.example.com/-/snippets/9/raw', 'gitlab.example.com'), '9');
+  assert.equal(parseSnippetId('https://gitlab.com/-/snippets/4123', 'gitlab.example.com'), null);
+  assert.equal(parseSnippetId('https://gitlab.com/group/proj/-/snippets/5', 'gitlab.com'), null);
+});
+
+test('splitProjectPath keeps nested groups in the owner', () => {
+  assert.deepEqual(splitProjectPath('group/sub/project'), { owner: 'group/sub', name: 'project' });
+  assert.equal(splitProjectPath('project'), null);
+});
+
+test('parseGitLabProjectMetadata reads topics, forks and archived projects', () => {
+  assert.deepEqual(
+    parseGitLabProjectMetadata({ topics: ['didgit'], forked_from_project: { id: 1 }, archived: true }),
+    { topics: ['didgit'], fork: true, archived: true, language: null }
+  );
+  assert.deepEqual(parseGitLabProjectMetadata({ tag_list: ['legacy'] }).topics, ['legacy']);
+});
+
+test('getRecentCommits maps GitLab commits with the instance domain', async () => {
+  const calls: string[] = [];
+  const adapter = new GitLabAdapter('https://gitlab.example.com', 'tok', fakeFetch([
+    [/\/projects\/group%2Frepo\/repository\/commits\?since=/, [
+      { id: 'abc', author_name: 'Alice', author_email: 'alice@example.com', message: 'fix', authored_date: '2026-02-10T00:00:00Z' }
+    ]]
+  ], calls));
+
+  const { commits, complete } = await adapter.getRecentCommits('group', 'repo', new Date('2026-02-09T00:00:00Z'));
+  assert.equal(calls[0].startsWith('https://gitlab.example.com/api/v4/'), true);
+  assert.equal(complete, true);
+  assert.deepEqual(commits, [{
+    sha: 'abc',
+    author: { email: 'alice@example.com', name: 'Alice', username: undefined },
+    message: 'fix',
+    timestamp: '2026-02-10T00:00:00Z',
+    repo: { owner: 'group', name: 'repo' },
+    domain: 'gitlab.example.com'
+  }]);
+});
+
+test('getRecentCommits pages through commits and reports a scan cut short by GITLAB_MAX_PAGES', async () => {
+  const commit = (i: number) => ({ id: `c${i}`, author_name: 'Alice', author_email: 'a@example.com', message: 'fix', authored_date: '2026-02-10T00:00:00Z' });
+  const adapter = new GitLabAdapter('https://gitlab.example.com', 'tok', fakeFetch([
+    [/\/repository\/commits\?.*&page=1$/, Array.from({ length: 100 }, (_, i) => commit(i))],
+    [/\/repository\/commits\?.*&page=2$/, [commit(100)]]
+  ]));
+
+  const full = await adapter.getRecentCommits('group', 'repo', new Date('2026-02-09T00:00:00Z'));
+  assert.equal(full.commits.length, 101);
+  assert.equal(full.complete, true);
+
+  process.env.GITLAB_MAX_PAGES = '1';
+  try {
+    const cut = await adapter.getRecentCommits('group', 'repo', new Date('2026-02-09T00:00:00Z'));
+    assert.equal(cut.commits.length, 100);
+    assert.equal(cut.complete, false);
+  } finally {
+    delete process.env.GITLAB_MAX_PAGES;
+  }
+});
+
+test('getRecentOwnerPushCommits expands pushed ranges and credits the pusher', async () => {
+  const adapter = new GitLabAdapter('https://gitlab.com', undefined, fakeFetch([
+    [/\/users\/alice\/events\?action=pushed/, [
+      { project_id: 7, created_at: '2026-02-10T00:00:00Z', author: { username: 'alice' }, push_data: { commit_from: 'aaa', commit_to: 'ccc', ref_type: 'branch', action: 'pushed' } },
+      { project_id: 7, created_at: '2026-02-10T00:00:00Z', author: { username: 'alice' }, push_data: { commit_to: 'tag1', ref_type: 'tag', action: 'created' } },
+      { project_id: 7, created_at: '2026-01-01T00:00:00Z', author: { username: 'alice' }, push_data: { commit_from: 'x', commit_to: 'y', ref_type: 'branch' } }
+    ]],
+    [/\/projects\/7$/, { path_with_namespace: 'alice/tool' }],
+    [/\/projects\/7\/repository\/compare\?from=aaa&to=ccc/, { commits: [{ id: 'bbb', message: 'one' }, { id: 'ccc', message: 'two' }] }]
+  ]));
+
+  const commits = await adapter.getRecentOwnerPushCommits('alice', new Date('2026-02-09T00:00:00Z'));
+  assert.deepEqual(commits.map((c) => [c.sha, c.author.username, `${c.repo.owner}/${c.repo.name}`]), [
+    ['bbb', 'alice', 'alice/tool'],
+    ['ccc', 'alice', 'alice/tool']
+  ]);
+});
+
+test('fetchIdentityProof reads didgit-proof.json from a public snippet', async () => {
+  const proof = { domain: 'gitlab.com', username: 'alice', wallet: '0xabc' };
+  const adapter = new GitLabAdapter('https://gitlab.com', undefined, fakeFetch([
+    [/\/api\/v4\/snippets\/12$/, {
+      visibility: 'public',
+      author: { username: 'alice' },
+      files: [{ path: 'didgit-proof.json', raw_url: 'https://gitlab.com/-/snippets/12/raw/main/didgit-proof.json' }]
+    }],
+    [/\/-\/snippets\/12\/raw\/main\/didgit-proof\.json$/, JSON.stringify(proof)]
+  ]));
+
+  assert.deepEqual(await adapter.fetchIdentityProof('https://gitlab.com/-/snippets/12'), { owner: 'alice', payload: proof });
+  assert.equal(await adapter.fetchIdentityProof('https://gitlab.com/-/snippets/99'), null);
+  assert.equal(await adapter.fetchIdentityProof('https://gist.github.com/alice/12'), null);
+});
+
+test('fetchIdentityProof ignores private snippets', async () => {
+  const adapter = new GitLabAdapter('https://gitlab.com', undefined, fakeFetch([
+    [/\/api\/v4\/snippets\/12$/, { visibility: 'private', author: { username: 'alice' }, files: [] }]
+  ]));
+  assert.equal(await adapter.fetchIdentityProof('https://gitlab.com/-/snippets/12'), null);
+});
+
+test('isOrgAdmin requires Owner access in the group', async () => {
+  const adapter = new GitLabAdapter('https://gitlab.com', undefined, fakeFetch([
+    [/\/groups\/acme\/members\/all\?query=alice&/, [{ username: 'alice', access_level: 50, state: 'active' }]],
+    [/\/groups\/acme\/members\/all\?query=bob&/, [{ username: 'bobby', access_level: 50 }, { username: 'bob', access_level: 40 }]]
+  ]));
+  assert.equal(await adapter.isOrgAdmin('acme', 'alice'), true);
+  assert.equal(await adapter.isOrgAdmin('acme', 'bob'), false);
+  assert.equal(await adapter.isOrgAdmin('missing', 'alice'), false);
+});
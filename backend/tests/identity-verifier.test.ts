@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { getIdentityProofCheckMode, parseIdentityAttestation, verifyIdentity, type IdentityRecord } from '../src/identity-verifier';
+import type { IdentityProof, PlatformAdapter } from '../src/platform';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044976f0945382db6b0c6f1f48d6b6f5d7d0b8c4b6b9c1');
+const other = privateKeyToAccount('0x8b3a350cf5c34c9194ca85829a2df0ec3153be0318b5e2d3348e872092edffba');
+
+function proofAdapter(proof: IdentityProof | null | Error): PlatformAdapter {
+  return {
+    domain: 'github.com',
+    listOrgRepos: async () => [],
+    listUserRepos: async () => [],
+    getRecentCommits: async () => ({ commits: [], complete: true }),
+    listBranches: async () => [],
+    getRepoMetadata: async () => null,
+    getRecentOwnerPushCommits: async () => [],
+    fetchIdentityProof: async () => {
+      if (proof instanceof Error) throw proof;
+      return proof;
+    }
+  };
+}
+
+async function signedProof(username: string, signer = account) {
+  const signature = await signer.signMessage({ message: `github.com:${username}` });
+  return {
+    owner: username,
+    payload: { domain: 'github.com', username, wallet: account.address, message: `github.com:${username}`, signature }
+  };
+}
+
+function identity(overrides: Partial<IdentityRecord> = {}): IdentityRecord {
+  return {
+    uid: `0x${'ab'.repeat(32)}`,
+    domain: 'github.com',
+    username: 'alice',
+    recipient: account.address,
+    proofUrl: 'https://gist.github.com/alice/abc123',
+    ...overrides
+  };
+}
+
+test('parseIdentityAttestation reads the decoded identity fields', () => {
+  const record = parseIdentityAttestation({
+    id: '0x01',
+    recipient: account.address,
+    decodedDataJson: JSON.stringify([
+      { name: 'domain', value: { value: 'GitLab.com' } },
+      { name: 'username', value: { value: 'alice' } },
+      { name: 'signature', value: { value: '0xdead' } },
+      { name: 'proof_url', value: { value: 'https://gitlab.com/-/snippets/1' } }
+    ])
+  });
+  assert.deepEqual(record, {
+    uid: '0x01',
+    domain: 'gitlab.com',
+    username: 'alice',
+    recipient: account.address,
+    proofUrl: 'https://gitlab.com/-/snippets/1',
+    signature: '0xdead'
+  });
+  assert.equal(parseIdentityAttestation({ id: '0x02', recipient: account.address, decodedDataJson: '[]' }), null);
+});
+
+test('verifyIdentity accepts a proof signed by the recipient', async () => {
+  const proof = await signedProof('alice');
+  assert.deepEqual(await verifyIdentity(identity({ signature: proof.payload.signature }), proofAdapter(proof)), { ok: true });
+});
+
+test('verifyIdentity rejects missing, foreign and mismatched proofs', async () => {
+  const proof = await signedProof('alice');
+
+  assert.equal((await verifyIdentity(identity({ proofUrl: undefined }), proofAdapter(proof))).reason, 'no proof_url');
+  assert.match((await verifyIdentity(identity(), proofAdapter(null))).reason!, /proof not found/);
+  assert.match((await verifyIdentity(identity(), proofAdapter({ ...proof, owner: 'mallory' }))).reason!, /published by mallory/);
+  assert.match(
+    (await verifyIdentity(identity(), proofAdapter({ ...proof, payload: { ...proof.payload, wallet: other.address } }))).reason!,
+    /does not match recipient/
+  );
+});
+
+test('verifyIdentity rejects signatures from another key', async () => {
+  const forged = await signedProof('alice', other);
+  assert.match((await verifyIdentity(identity(), proofAdapter(forged))).reason!, /proof signature does not recover/);
+
+  const proof = await signedProof('alice');
+  assert.match(
+    (await verifyIdentity(identity({ signature: forged.payload.signature }), proofAdapter(proof))).reason!,
+    /attestation signature does not recover/
+  );
+});
+
+test('verifyIdentity propagates platform errors', async () => {
+  await assert.rejects(verifyIdentity(identity(), proofAdapter(new Error('rate limited'))), /rate limited/);
+});
+
+test('getIdentityProofCheckMode defaults to skip', () => {
+  assert.equal(getIdentityProofCheckMode({}), 'skip');
+  assert.equal(getIdentityProofCheckMode({ IDENTITY_PROOF_CHECK: 'Flag' }), 'flag');
+  assert.throws(() => getIdentityProofCheckMode({ IDENTITY_PROOF_CHECK: 'maybe' }), /Invalid IDENTITY_PROOF_CHECK/);
+});
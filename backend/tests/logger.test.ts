@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createLogger, formatLogLine, withLogContext } from '../src/logger';
+
+function capture(fn: () => Promise<void> | void) {
+  const lines: string[] = [];
+  const origLog = console.log;
+  const origError = console.error;
+  console.log = (line: string) => lines.push(line);
+  console.error = (line: string) => lines.push(line);
+  return Promise.resolve(fn()).finally(() => {
+    console.log = origLog;
+    console.error = origError;
+  }).then(() => lines);
+}
+
+test('formatLogLine emits one JSON object with the given fields', () => {
+  const line = JSON.parse(formatLogLine('info', 'service', 'Attested', { runId: 3, sha: 'abc', outcome: 'attested', skipped: undefined }, 'json'));
+  assert.equal(line.level, 'info');
+  assert.equal(line.component, 'service');
+  assert.equal(line.msg, 'Attested');
+  assert.equal(line.runId, 3);
+  assert.equal(line.sha, 'abc');
+  assert.equal('skipped' in line, false);
+  assert.ok(line.time);
+});
+
+test('formatLogLine text format keeps the component prefix', () => {
+  assert.equal(formatLogLine('info', 'github', 'retrying', { status: 429, attempt: 1 }, 'text'), '[github] retrying status=429 attempt=1');
+});
+
+test('withLogContext adds run fields to nested async logs', async () => {
+  const log = createLogger('service');
+  const lines = await capture(() =>
+    withLogContext({ runId: 7 }, async () => {
+      await Promise.resolve();
+      log.info('inside', { user: 'alice' });
+      log.error('failed', new TypeError('boom'));
+    })
+  );
+  const [info, error] = lines.map((l) => JSON.parse(l));
+  assert.equal(info.runId, 7);
+  assert.equal(info.user, 'alice');
+  assert.equal(error.runId, 7);
+  assert.equal(error.error, 'boom');
+  assert.equal(error.errorClass, 'TypeError');
+});
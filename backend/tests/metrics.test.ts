@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { BalanceMonitor } from '../src/balance-monitor';
+import { classifyAttestError, contributionsSkipped, metricsRegistry } from '../src/metrics';
+
+test('classifyAttestError maps messages to a fixed set of classes', () => {
+  assert.equal(classifyAttestError('Insufficient Kernel balance for gas'), 'insufficient_balance');
+  assert.equal(classifyAttestError('BASE_REVIEW_SCHEMA_UID is not set'), 'config');
+  assert.equal(classifyAttestError('UserOperation reverted during simulation with reason: AA23 reverted'), 'userop_rejected');
+  assert.equal(classifyAttestError('fetch failed'), 'network');
+  assert.equal(classifyAttestError(undefined), 'other');
+});
+
+test('metrics registry exposes contribution counters in Prometheus format', async () => {
+  contributionsSkipped.inc({ chain: 'base', kind: 'commit', reason: 'not_registered' });
+  const text = await metricsRegistry.metrics();
+  assert.match(text, /didgit_contributions_skipped_total\{chain="base",kind="commit",reason="not_registered"\} 1/);
+  assert.match(text, /# TYPE didgit_userop_duration_seconds histogram/);
+});
+
+test('Kernel balances on different chains are separate series', async () => {
+  const kernel = { domain: 'github.com', username: 'alice', kernelAddress: '0x00000000000000000000000000000000000000aa' as const };
+  await new BalanceMonitor({ chain: 'base', sinks: [], getBalance: async () => 10n ** 16n }).check([kernel]);
+  await new BalanceMonitor({ chain: 'arbitrum', sinks: [], getBalance: async () => 2n * 10n ** 16n }).check([kernel]);
+  const text = await metricsRegistry.metrics();
+  assert.match(text, /didgit_kernel_balance_eth\{chain="base",kernel="0x00000000000000000000000000000000000000aa"\} 0\.01/);
+  assert.match(text, /didgit_kernel_balance_eth\{chain="arbitrum",kernel="0x00000000000000000000000000000000000000aa"\} 0\.02/);
+});
@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getChainConfig } from '../src/config';
+import { AttestationService } from '../src/service';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MultiChainAttestationService, createAttestationService } from '../src/multi-chain';
+import { MemoryStateStore, namespacedDbPath } from '../src/state-store';
+import { SponsorshipManager } from '../src/sponsorship';
+
+function pipeline(chain: 'base' | 'arbitrum', store = new MemoryStateStore()) {
+  return new AttestationService({ chain: getChainConfig(chain), store, sponsorship: null });
+}
+
+test('each pipeline uses its own chain config', () => {
+  const base = pipeline('base');
+  const arbitrum = pipeline('arbitrum');
+  assert.equal(base.chain.name, 'base');
+  assert.equal(arbitrum.chain.name, 'arbitrum');
+  assert.notEqual(base.chain.identitySchemaUid, arbitrum.chain.identitySchemaUid);
+});
+
+test('status views combine the chains and label per-chain records', () => {
+  const baseStore = new MemoryStateStore();
+  const arbitrumStore = new MemoryStateStore();
+  const baseRun = baseStore.startRun('poll');
+  baseStore.finishRun(baseRun.id, { status: 'completed', attested: 2 });
+  const arbitrumRun = arbitrumStore.startRun('poll');
+  arbitrumStore.recordSeen({ id: 'a'.repeat(40), repoOwner: 'acme', repoName: 'app', runId: arbitrumRun.id });
+  arbitrumStore.recordAttested('a'.repeat(40), { attestationUid: '0x01' });
+  arbitrumStore.finishRun(arbitrumRun.id, { status: 'completed', attested: 1 });
+
+  const service = new MultiChainAttestationService(new Map([
+    ['base', pipeline('base', baseStore)],
+    ['arbitrum', pipeline('arbitrum', arbitrumStore)]
+  ]));
+
+  const health = service.getHealth();
+  assert.deepEqual(Object.keys(health.chains), ['base', 'arbitrum']);
+  assert.equal(health.ok, true);
+  assert.ok(health.lastRun);
+
+  const runs = service.listRuns(10);
+  assert.deepEqual(runs.map((r) => r.chain).sort(), ['arbitrum', 'base']);
+  assert.equal(service.listRuns(1).length, 1);
+
+  // Both stores have a run 1; the chain picks which one
+  assert.equal(service.getRunDetail(1)?.attested, 2);
+  assert.equal(service.getRunDetail(1, 'arbitrum')?.attested, 1);
+  assert.equal(service.getRunDetail(1, 'arbitrum')?.chain, 'arbitrum');
+  assert.equal(service.getRunDetail(1, 'optimism'), null);
+
+  assert.equal(service.getContributionDetail('a'.repeat(40))?.chain, 'arbitrum');
+  assert.equal(service.getContributionDetail('b'.repeat(40)), null);
+  assert.equal(service.getSponsorshipSummary(), null);
+});
+
+test('per-chain state files sit next to the configured one', () => {
+  assert.equal(namespacedDbPath('.attest-state.sqlite', 'base'), '.attest-state.base.sqlite');
+  assert.equal(namespacedDbPath('/var/lib/didgit/state.db', 'arbitrum'), '/var/lib/didgit/state.arbitrum.db');
+});
+
+test('chains share one sponsorship ledger, so an org budget covers them together', () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'didgit-')), 'policy.json');
+  fs.writeFileSync(file, JSON.stringify({ orgs: { acme: { budgetEth: 0.001 } } }));
+  const saved = { ...process.env };
+  Object.assign(process.env, {
+    ATTEST_STATE_STORE: 'memory',
+    ATTEST_CHAINS: 'base,arbitrum',
+    SPONSORSHIP_POLICY: file,
+    BASE_BUNDLER_RPC: 'https://bundler.base.example.org',
+    ARBITRUM_BUNDLER_RPC: 'https://bundler.arbitrum.example.org',
+    BASE_PAYMASTER_RPC: 'https://paymaster.base.example.org',
+    ARBITRUM_PAYMASTER_RPC: 'https://paymaster.arbitrum.example.org'
+  });
+  try {
+    const service = createAttestationService() as MultiChainAttestationService;
+    const base = (service as any).services.get('base').sponsorship as SponsorshipManager;
+    const arbitrum = (service as any).services.get('arbitrum').sponsorship as SponsorshipManager;
+    assert.equal(base.paymasterRpc, 'https://paymaster.base.example.org');
+    assert.equal(arbitrum.paymasterRpc, 'https://paymaster.arbitrum.example.org');
+
+    const req = { owner: 'acme', username: 'alice', kind: 'commit' as const };
+    assert.deepEqual(arbitrum.decide(req), { sponsored: true, org: 'acme' });
+    base.record({ org: 'acme', username: 'alice', kernelAddress: '0x0000000000000000000000000000000000000001', kind: 'commit', contributions: 1, gasCostWei: 10n ** 15n, chain: 'base' });
+    assert.deepEqual(arbitrum.decide(req), { sponsored: false, org: 'acme', reason: 'budget_exhausted' });
+
+    const [summary] = service.getSponsorshipSummary()!;
+    assert.equal(summary.ops, 1);
+    assert.equal(summary.spentEth, 0.001);
+  } finally {
+    process.env = saved;
+  }
+});
@@ -0,0 +1,186 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getChainConfig } from '../src/config';
+import type { CommitInfo } from '../src/github';
+import { githubAdapter, type PlatformAdapter } from '../src/platform';
+import { AttestationService } from '../src/service';
+import { MemoryStateStore } from '../src/state-store';
+import {
+  orgPolicyAllows,
+  orgPolicyKey,
+  parseOrgPolicyAttestation,
+  parseOrgPolicyGlobs,
+  selectOrgPolicies,
+  type OrgPolicy,
+  type OrgPolicyAttestation
+} from '../src/org-policy';
+
+const admin = '0x00000000000000000000000000000000000000Ad';
+const stranger = '0x00000000000000000000000000000000000000bb';
+const adminIdentity = `0x${'a'.repeat(64)}`;
+const memberIdentity = `0x${'c'.repeat(64)}`;
+
+function uid(n: number) {
+  return `0x${n.toString(16).padStart(64, '0')}`;
+}
+
+function policyAtt(n: number, opts: { org?: string; globs?: string; minReviews?: unknown; attester?: string; refUID?: string } = {}): OrgPolicyAttestation {
+  const field = (name: string, value: unknown) => ({ name, value: { value } });
+  return {
+    id: uid(n),
+    attester: opts.attester ?? admin,
+    refUID: opts.refUID ?? adminIdentity,
+    timeCreated: 1_700_000_000 + n,
+    decodedDataJson: JSON.stringify([
+      field('org', opts.org ?? 'acme'),
+      field('repoGlobs', opts.globs ?? 'acme/*'),
+      field('minReviews', opts.minReviews ?? 0)
+    ])
+  };
+}
+
+function policy(globs: string[]): OrgPolicy {
+  return { uid: uid(1), identityUid: adminIdentity, attester: admin, domain: 'github.com', admin: 'boss', org: 'acme', globs, minReviews: 0 };
+}
+
+const identities = new Map([
+  [adminIdentity, { domain: 'github.com', username: 'boss', walletAddress: admin }],
+  [memberIdentity, { domain: 'github.com', username: 'member', walletAddress: stranger }]
+]);
+
+test('parseOrgPolicyGlobs keeps policies to the org and lists every problem', () => {
+  assert.deepEqual(parseOrgPolicyGlobs('acme', 'acme/{api,web}, !acme/secret-*'), ['acme/{api,web}', '!acme/secret-*']);
+  assert.throws(() => parseOrgPolicyGlobs('acme', 'other/*, acme/api@main, acme/[z-a]'), (e: Error) =>
+    /"other\/\*" is not a repo of acme/.test(e.message) &&
+    /cannot limit refs/.test(e.message) &&
+    /invalid range z-a/.test(e.message)
+  );
+  assert.throws(() => parseOrgPolicyGlobs('acme', ' , '), /none given/);
+});
+
+test('parseOrgPolicyAttestation reads fields and BigNumber-style minReviews', () => {
+  const entry = parseOrgPolicyAttestation(policyAtt(1, { minReviews: { type: 'BigNumber', hex: '0x02' } }));
+  assert.deepEqual(entry, {
+    uid: uid(1),
+    identityUid: adminIdentity,
+    attester: admin.toLowerCase(),
+    org: 'acme',
+    globs: ['acme/*'],
+    minReviews: 2
+  });
+  assert.throws(() => parseOrgPolicyAttestation(policyAtt(2, { minReviews: 99 })), /minReviews/);
+  assert.throws(() => parseOrgPolicyAttestation(policyAtt(3, { org: '' })), /missing org/);
+  assert.throws(() => parseOrgPolicyAttestation(policyAtt(4, { refUID: uid(0) })), /missing identity/);
+});
+
+test('selectOrgPolicies keeps the newest policy attested by an org owner', async () => {
+  const rejected: string[] = [];
+  const adminChecks: string[] = [];
+  const policies = await selectOrgPolicies([
+    policyAtt(1, { globs: 'acme/old' }),
+    policyAtt(2, { globs: 'acme/api' }),
+    policyAtt(3, { globs: 'acme/*', refUID: memberIdentity, attester: stranger }),
+    policyAtt(4, { globs: 'acme/*', attester: stranger }),
+    policyAtt(5, { org: 'beta', globs: 'beta/*' })
+  ], {
+    identityFor: (id) => identities.get(id),
+    isOrgAdmin: async (domain, org, username) => {
+      adminChecks.push(`${domain}:${org}:${username}`);
+      return username === 'boss' && org === 'acme';
+    },
+    countsReviews: () => true,
+    onRejected: (att, reason) => rejected.push(`${att.id.slice(-1)} ${reason}`)
+  });
+
+  assert.deepEqual([...policies.keys()], [orgPolicyKey('github.com', 'ACME')]);
+  assert.equal(policies.get('github.com:acme')?.uid, uid(2));
+  assert.equal(policies.get('github.com:acme')?.admin, 'boss');
+  assert.deepEqual(rejected, [
+    '5 boss is not an owner of github.com:beta',
+    `4 attester ${stranger} does not own github.com:boss`,
+    '3 member is not an owner of github.com:acme'
+  ]);
+  assert.deepEqual(adminChecks, ['github.com:beta:boss', 'github.com:acme:member', 'github.com:acme:boss']);
+});
+
+test('selectOrgPolicies rejects review minimums where reviews cannot be counted', async () => {
+  const rejected: string[] = [];
+  const policies = await selectOrgPolicies([policyAtt(1, { minReviews: 1 })], {
+    identityFor: () => ({ domain: 'gitlab.com', username: 'boss', walletAddress: admin }),
+    isOrgAdmin: async () => true,
+    countsReviews: (domain) => domain === 'github.com',
+    onRejected: (_att, reason) => rejected.push(reason)
+  });
+  assert.equal(policies.size, 0);
+  assert.deepEqual(rejected, ['minReviews is not supported on gitlab.com']);
+});
+
+test('orgPolicyAllows applies allow lists, deny-only policies and filters', () => {
+  const allowList = policy(['acme/{api,web}', '!acme/web']);
+  assert.equal(orgPolicyAllows(allowList, 'acme', 'API'), true);
+  assert.equal(orgPolicyAllows(allowList, 'acme', 'web'), false);
+  assert.equal(orgPolicyAllows(allowList, 'acme', 'other'), false);
+
+  const denyOnly = policy(['!acme/secret-*']);
+  assert.equal(orgPolicyAllows(denyOnly, 'acme', 'tool'), true);
+  assert.equal(orgPolicyAllows(denyOnly, 'acme', 'secret-keys'), false);
+
+  const filtered = policy(['acme/*?archived=false']);
+  const meta = { topics: [], fork: false, archived: false, language: null };
+  assert.equal(orgPolicyAllows(filtered, 'acme', 'tool', meta), true);
+  assert.equal(orgPolicyAllows(filtered, 'acme', 'tool', { ...meta, archived: true }), false);
+  assert.equal(orgPolicyAllows(filtered, 'acme', 'tool', null), false);
+});
+
+test('processCommits counts minReviews through the commit platform adapter', async () => {
+  const approvalCalls: string[] = [];
+  const github: PlatformAdapter = {
+    ...githubAdapter,
+    getCommitApprovals: async (owner, repo, sha) => {
+      approvalCalls.push(`${owner}/${repo}@${sha}`);
+      return 2;
+    }
+  };
+  const gitlab: PlatformAdapter = { ...githubAdapter, domain: 'gitlab.com', getCommitApprovals: undefined };
+  const store = new MemoryStateStore();
+  const service = new AttestationService({
+    chain: getChainConfig('base'),
+    store,
+    sponsorship: null,
+    platforms: new Map([['github.com', github], ['gitlab.com', gitlab]])
+  });
+  const withReviews = (domain: string): OrgPolicy => ({ ...policy(['acme/*']), domain, minReviews: 2 });
+  (service as any).orgPolicies = new Map([
+    [orgPolicyKey('github.com', 'acme'), withReviews('github.com')],
+    [orgPolicyKey('gitlab.com', 'acme'), withReviews('gitlab.com')]
+  ]);
+  const user = (domain: string) => ({
+    domain,
+    username: 'dev',
+    walletAddress: admin as `0x${string}`,
+    kernelAddress: stranger as `0x${string}`,
+    identityAttestationUid: adminIdentity as `0x${string}`,
+    repoGlobs: ['acme/*']
+  });
+  const commit = (sha: string, domain?: string): CommitInfo => ({
+    sha,
+    author: { name: 'Dev', email: 'dev@example.com', username: 'dev' },
+    message: 'change',
+    timestamp: '2026-02-09T00:00:00Z',
+    repo: { owner: 'acme', name: 'api' },
+    ...(domain ? { domain } : {})
+  });
+
+  await service.processCommits(
+    [commit('a'.repeat(40)), commit('b'.repeat(40), 'gitlab.com')],
+    [user('github.com'), user('gitlab.com')],
+    new Set()
+  );
+
+  // The GitHub commit passes the policy (and stops later, for lack of a session key)
+  assert.deepEqual(approvalCalls, [`acme/api@${'a'.repeat(40)}`]);
+  assert.match(store.getContribution('a'.repeat(40))?.skipReason ?? '', /no session key/);
+  // The GitLab commit is not looked up on GitHub, and the policy fails closed
+  assert.match(store.getContribution('b'.repeat(40))?.skipReason ?? '', /could not count reviews.*cannot be counted on gitlab\.com/);
+  store.close();
+});
@@ -0,0 +1,134 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePermissionAttestation, permissionValidUntil, selectPermissionConfigs, type PermissionAttestation } from '../src/permission-attestations';
+
+const ours = '0x0000000000000000000000000000000000000A11';
+const theirs = '0x0000000000000000000000000000000000000b22';
+const kernel = '0x00000000000000000000000000000000000000Aa';
+const otherKernel = '0x00000000000000000000000000000000000000bb';
+const owner = '0x0000000000000000000000000000000000000C33';
+const stranger = '0x0000000000000000000000000000000000000d44';
+
+// Both test Kernels belong to `owner`
+const kernelOwner = () => owner;
+
+function uid(n: number) {
+  return `0x${n.toString(16).padStart(64, '0')}`;
+}
+
+function serializedWithValidUntil(validUntil: number) {
+  const params = {
+    permissionParams: {
+      policies: [
+        { policyParams: { type: 'call', permissions: [] } },
+        { policyParams: { type: 'timestamp', validAfter: 0, validUntil } }
+      ]
+    }
+  };
+  return Buffer.from(JSON.stringify(params), 'utf-8').toString('base64');
+}
+
+function permission(n: number, opts: { kernel?: string; attester?: string; signer?: string; blob?: string; refUID?: string; expirationTime?: number }): PermissionAttestation {
+  const field = (value: string) => ({ value: { value } });
+  return {
+    id: uid(n),
+    attester: opts.signer ?? owner,
+    refUID: opts.refUID ?? uid(0),
+    timeCreated: 1_700_000_000 + n,
+    expirationTime: opts.expirationTime ?? 0,
+    decodedDataJson: JSON.stringify([
+      field(opts.kernel ?? kernel),
+      field(opts.attester ?? ours),
+      field('0x4200000000000000000000000000000000000021'),
+      field('0xf17325e7'),
+      field(`0x${Buffer.from(opts.blob ?? `blob-${n}`, 'utf-8').toString('hex')}`)
+    ])
+  };
+}
+
+test('parsePermissionAttestation decodes kernel, attester and the serialized blob', () => {
+  assert.deepEqual(parsePermissionAttestation(permission(1, { blob: 'serialized' })), {
+    uid: uid(1),
+    kernelAddress: kernel.toLowerCase(),
+    attester: ours.toLowerCase(),
+    serialized: 'serialized'
+  });
+});
+
+test('the newest permission per Kernel wins', () => {
+  const configs = selectPermissionConfigs(
+    [permission(1, {}), permission(3, {}), permission(2, { kernel: otherKernel })],
+    ours, kernelOwner
+  );
+  assert.deepEqual([...configs.entries()].sort(), [
+    [kernel.toLowerCase(), 'blob-3'],
+    [otherKernel.toLowerCase(), 'blob-2']
+  ]);
+});
+
+test('a Kernel rotated to another attester has no permission for us', () => {
+  const configs = selectPermissionConfigs([permission(1, {}), permission(2, { attester: theirs })], ours, kernelOwner);
+  assert.equal(configs.size, 0);
+  assert.equal(selectPermissionConfigs([permission(1, {}), permission(2, { attester: theirs })], theirs, kernelOwner).get(kernel.toLowerCase() as any), 'blob-2');
+});
+
+test('permissions replaced through refUID are ignored', () => {
+  const configs = selectPermissionConfigs([permission(1, {}), permission(2, { attester: theirs, refUID: uid(1) })], ours, kernelOwner);
+  assert.equal(configs.size, 0);
+
+  // A replacement that is itself older than the attestation it points to still retires it
+  const rotatedBack = selectPermissionConfigs([permission(5, { attester: theirs }), permission(4, { refUID: uid(5) })], ours, kernelOwner);
+  assert.equal(rotatedBack.get(kernel.toLowerCase() as any), 'blob-4');
+});
+
+test('undecodable attestations are reported and skipped', () => {
+  const errors: string[] = [];
+  const broken = { ...permission(9, {}), decodedDataJson: '{' };
+  const configs = selectPermissionConfigs([broken, permission(1, {})], ours, kernelOwner, { onError: (att) => errors.push(att.id) });
+  assert.deepEqual(errors, [uid(9)]);
+  assert.equal(configs.get(kernel.toLowerCase() as any), 'blob-1');
+});
+
+test('permissionValidUntil reads the timestamp policy of a serialized permission', () => {
+  assert.equal(permissionValidUntil(serializedWithValidUntil(1_800_000_000)), 1_800_000_000);
+  assert.equal(permissionValidUntil(serializedWithValidUntil(0)), undefined);
+  assert.equal(permissionValidUntil('blob-1'), undefined);
+});
+
+test('expired permissions are skipped without falling back to older ones', () => {
+  const now = new Date(1_750_000_000 * 1000);
+  const byExpiration = selectPermissionConfigs([permission(1, {}), permission(2, { expirationTime: 1_749_999_999 })], ours, kernelOwner, { now });
+  assert.equal(byExpiration.size, 0);
+
+  const byPolicy = selectPermissionConfigs([permission(3, { blob: serializedWithValidUntil(1_750_000_000) })], ours, kernelOwner, { now });
+  assert.equal(byPolicy.size, 0);
+
+  const live = selectPermissionConfigs([permission(4, { expirationTime: 1_760_000_000, blob: serializedWithValidUntil(1_755_000_000) })], ours, kernelOwner, { now });
+  assert.equal(live.size, 1);
+  assert.equal(parsePermissionAttestation(permission(4, { expirationTime: 1_760_000_000, blob: serializedWithValidUntil(1_755_000_000) }))?.validUntil, 1_755_000_000);
+});
+
+test('permissions not signed by the Kernel owner are ignored', () => {
+  // A stranger cannot rotate the Kernel away from us, nor retire its permission through refUID
+  const configs = selectPermissionConfigs([
+    permission(1, {}),
+    permission(2, { attester: theirs, signer: stranger }),
+    permission(3, { attester: theirs, signer: stranger, refUID: uid(1) })
+  ], ours, kernelOwner);
+  assert.equal(configs.get(kernel.toLowerCase() as any), 'blob-1');
+
+  // ...nor grant a permission for it
+  assert.equal(selectPermissionConfigs([permission(4, { signer: stranger })], ours, kernelOwner).size, 0);
+
+  // An owner's refUID only retires permissions of their own Kernel
+  const owners = (k: string) => (k === kernel.toLowerCase() ? owner : stranger);
+  const crossKernel = selectPermissionConfigs([
+    permission(5, {}),
+    permission(6, { kernel: otherKernel, signer: stranger, refUID: uid(5) })
+  ], ours, owners);
+  assert.equal(crossKernel.get(kernel.toLowerCase() as any), 'blob-5');
+  assert.equal(crossKernel.get(otherKernel.toLowerCase() as any), 'blob-6');
+
+  // Kernels without a known owner have no permission
+  assert.equal(selectPermissionConfigs([permission(7, {})], ours, () => undefined).size, 0);
+});
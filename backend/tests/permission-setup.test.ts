@@ -1,6 +1,8 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { privateKeyToAccount } from 'viem/accounts';
+import { verifyMessage } from 'viem';
+import { parseSiweMessage } from 'viem/siwe';
 import { runPermissionSetup } from '../src/permission-setup';
 
 test('runPermissionSetup signs typed data, fetches permission, and attests', async () => {
@@ -82,7 +84,7 @@ test('runPermissionSetup signs typed data, fetches permission, and attests', asy
   assert.equal(attestCalls[0].privateKey, privateKey);
 });
 
-test('runPermissionSetup uses default API key when none provided', async () => {
+test('runPermissionSetup signs requests with the user key when no API key is provided', async () => {
   const privateKey = '0x59c6995e998f97a5a0044976f0945382db6b0c6f1f48d6b6f5d7d0b8c4b6b9c1';
   const kernelAddress = '0x3C9b6d91676E2a937f82c58B3038C666d0B94d98';
 
@@ -93,10 +95,10 @@ test('runPermissionSetup uses default API key when none provided', async () => {
     message: { validationId: '0x02e4148e6200000000000000000000000000000000' }
   } as const;
 
-  const calls: Array<{ url: string; headers: Record<string, string> }> = [];
+  const calls: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
   const fetchFn = async (url: string, init?: RequestInit) => {
     const headers = (init?.headers || {}) as Record<string, string>;
-    calls.push({ url, headers });
+    calls.push({ url, headers, body: JSON.parse(String(init?.body)) });
     if (url.endsWith('/prepare')) {
       return { ok: true, json: async () => ({ typedData, kernelAddress }) } as Response;
     }
@@ -108,9 +110,61 @@ test('runPermissionSetup uses default API key when none provided', async () => {
 
   await runPermissionSetup({
     privateKey,
+    apiUrl: 'https://permissions.example.dev',
+    chainId: 84532,
     fetchFn,
     attestFn: async () => {}
   });
 
-  assert.equal(calls[0].headers['x-api-key'], 'ab95ab7e1850');
+  const account = privateKeyToAccount(privateKey);
+  const { siwe } = calls[0].body;
+  assert.equal(calls[0].headers['x-api-key'], undefined);
+  assert.deepEqual(calls[1].body.siwe, siwe);
+
+  const message = parseSiweMessage(siwe.message);
+  assert.equal(message.address, account.address);
+  assert.equal(message.domain, 'permissions.example.dev');
+  assert.equal(message.chainId, 84532);
+  assert.ok(message.nonce);
+  assert.ok(message.expirationTime && message.expirationTime.getTime() > Date.now());
+  assert.equal(await verifyMessage({ address: account.address, message: siwe.message, signature: siwe.signature }), true);
+});
+
+test('runPermissionSetup sends session key limits to both calls and attests the expiry', async () => {
+  const privateKey = '0x59c6995e998f97a5a0044976f0945382db6b0c6f1f48d6b6f5d7d0b8c4b6b9c1';
+  const kernelAddress = '0x3C9b6d91676E2a937f82c58B3038C666d0B94d98';
+  const validUntil = 1_900_000_000;
+
+  const typedData = {
+    domain: { name: 'Kernel', version: '0.3.1', chainId: 84532, verifyingContract: kernelAddress },
+    types: { Enable: [{ name: 'validationId', type: 'bytes21' }] },
+    primaryType: 'Enable',
+    message: { validationId: '0x02e4148e6200000000000000000000000000000000' }
+  } as const;
+
+  const bodies: any[] = [];
+  const fetchFn = async (url: string, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    if (url.endsWith('/prepare')) {
+      return { ok: true, json: async () => ({ typedData, kernelAddress }) } as Response;
+    }
+    return { ok: true, json: async () => ({ permissionData: '0xdeadbeef', kernelAddress, expirationTime: validUntil }) } as Response;
+  };
+  const attestCalls: any[] = [];
+
+  await runPermissionSetup({
+    privateKey,
+    validUntil,
+    maxAttestationsPerDay: 50,
+    gasLimitWei: '10000000000000000',
+    fetchFn,
+    attestFn: async (args) => { attestCalls.push(args); return { tx: '0xtx' }; }
+  });
+
+  for (const body of bodies) {
+    assert.equal(body.validUntil, validUntil);
+    assert.equal(body.maxAttestationsPerDay, 50);
+    assert.equal(body.gasLimitWei, '10000000000000000');
+  }
+  assert.equal(attestCalls[0].expirationTime, validUntil);
 });
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createPlatformRegistry, getPlatformAdapter, normalizeDomain, qualifiedRepoName } from '../src/platform';
+import { instanceToken, parseInstanceList } from '../src/forge-http';
+import { ownerCursorKey, repoCursorKey } from '../src/state-store';
+
+test('normalizeDomain defaults to github.com and strips scheme/path', () => {
+  assert.equal(normalizeDomain(undefined), 'github.com');
+  assert.equal(normalizeDomain(''), 'github.com');
+  assert.equal(normalizeDomain('GitLab.com'), 'gitlab.com');
+  assert.equal(normalizeDomain('https://git.example.org:8443/'), 'git.example.org:8443');
+});
+
+test('qualifiedRepoName keeps GitHub repos unprefixed', () => {
+  assert.equal(qualifiedRepoName(undefined, 'org', 'repo'), 'org/repo');
+  assert.equal(qualifiedRepoName('github.com', 'org', 'repo'), 'org/repo');
+  assert.equal(qualifiedRepoName('gitlab.com', 'group/sub', 'repo'), 'gitlab.com/group/sub/repo');
+});
+
+test('cursor keys are unchanged for GitHub and domain-scoped elsewhere', () => {
+  assert.equal(repoCursorKey('Org', 'Repo'), 'repo:org/repo');
+  assert.equal(repoCursorKey('Org', 'Repo', 'gitlab.com'), 'repo:gitlab.com/org/repo');
+  assert.equal(ownerCursorKey('Org'), 'owner:org');
+  assert.equal(ownerCursorKey('Org', 'gitlab.com'), 'owner:gitlab.com/org');
+});
+
+test('createPlatformRegistry registers GitHub and configured GitLab/Gitea instances', () => {
+  const registry = createPlatformRegistry({ GITLAB_INSTANCES: 'gitlab.com, https://gitlab.example.com/' });
+  assert.deepEqual([...registry.keys()], ['github.com', 'gitlab.com', 'gitlab.example.com', 'codeberg.org']);
+  assert.equal(getPlatformAdapter(registry, 'GITLAB.EXAMPLE.COM').domain, 'gitlab.example.com');
+  assert.throws(() => getPlatformAdapter(registry, 'bitbucket.org'), /Unsupported platform: bitbucket.org/);
+
+  const forgejo = createPlatformRegistry({ GITEA_INSTANCES: 'codeberg.org,git.example.org' });
+  assert.equal(getPlatformAdapter(forgejo, 'git.example.org').domain, 'git.example.org');
+  assert.notEqual(getPlatformAdapter(forgejo, 'git.example.org'), getPlatformAdapter(forgejo, 'codeberg.org'));
+});
+
+test('parseInstanceList accepts bare hosts and URLs', () => {
+  assert.deepEqual(parseInstanceList(undefined, 'https://gitlab.com'), ['https://gitlab.com']);
+  assert.deepEqual(parseInstanceList('gitlab.com,http://git.local:8080/gitlab/', ''), ['https://gitlab.com', 'http://git.local:8080/gitlab']);
+});
+
+test('instanceToken only uses the generic token for the public instance', () => {
+  const env = { GITLAB_TOKEN: 'public', GITLAB_TOKEN_GITLAB_EXAMPLE_COM: 'private' };
+  assert.equal(instanceToken('GITLAB', 'gitlab.com', 'gitlab.com', env), 'public');
+  assert.equal(instanceToken('GITLAB', 'gitlab.example.com', 'gitlab.com', env), 'private');
+  assert.equal(instanceToken('GITLAB', 'other.example.com', 'gitlab.com', env), undefined);
+});
@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildRepoGlobHistory,
+  fetchRepoGlobsAttestations,
+  formatRepoGlobHistory,
+  selectRepoGlobs,
+  type RepoGlobsAttestation
+} from '../src/repo-glob-history';
+
+const identity = `0x${'a'.repeat(64)}`;
+const otherIdentity = `0x${'b'.repeat(64)}`;
+
+function uid(n: number) {
+  return `0x${n.toString(16).padStart(64, '0')}`;
+}
+
+function globs(n: number, value: string, opts: { refUID?: string; time?: number; revocationTime?: number } = {}): RepoGlobsAttestation {
+  return {
+    id: uid(n),
+    refUID: opts.refUID ?? identity,
+    timeCreated: opts.time ?? 1_700_000_000 + n,
+    revoked: !!opts.revocationTime,
+    revocationTime: opts.revocationTime ?? 0,
+    decodedDataJson: JSON.stringify([{ name: 'repoGlobs', value: { value } }])
+  };
+}
+
+test('selectRepoGlobs picks the newest attestation whatever the result order', () => {
+  const atts = [globs(2, 'org/new'), globs(1, 'org/old'), globs(3, 'other/*', { refUID: otherIdentity })];
+  for (const order of [atts, [...atts].reverse()]) {
+    const selected = selectRepoGlobs(order);
+    assert.deepEqual(selected.get(identity), { uid: uid(2), globs: ['org/new'], timeCreated: 1_700_000_002 });
+    assert.deepEqual(selected.get(otherIdentity)?.globs, ['other/*']);
+  }
+});
+
+test('selectRepoGlobs breaks timeCreated ties by UID and skips revoked or empty attestations', () => {
+  const tie = [globs(5, 'org/a', { time: 100 }), globs(6, 'org/b', { time: 100 })];
+  assert.equal(selectRepoGlobs(tie).get(identity)?.uid, uid(6));
+  assert.equal(selectRepoGlobs([...tie].reverse()).get(identity)?.uid, uid(6));
+
+  const selected = selectRepoGlobs([
+    globs(1, 'org/kept'),
+    globs(2, 'org/revoked', { revocationTime: 1_700_000_100 }),
+    globs(3, '*/*')
+  ]);
+  assert.deepEqual(selected.get(identity)?.globs, ['org/kept']);
+});
+
+test('buildRepoGlobHistory records added and removed globs per attestation and revocation', () => {
+  const history = buildRepoGlobHistory(identity.toUpperCase().replace('0X', '0x'), [
+    globs(3, 'org/api, org/docs', { revocationTime: 1_700_000_050 }),
+    globs(1, 'org/api'),
+    globs(2, 'org/*, !org/old'),
+    globs(9, 'elsewhere/*', { refUID: otherIdentity })
+  ]);
+
+  assert.deepEqual(history.changes.map((c) => [c.kind, c.uid, c.added, c.removed]), [
+    ['attested', uid(1), ['org/api'], []],
+    ['attested', uid(2), ['org/*', '!org/old'], ['org/api']],
+    ['attested', uid(3), ['org/api', 'org/docs'], ['org/*', '!org/old']],
+    ['revoked', uid(3), ['org/*', '!org/old'], ['org/api', 'org/docs']]
+  ]);
+  assert.deepEqual(history.current, { uid: uid(2), globs: ['org/*', '!org/old'], timeCreated: 1_700_000_002 });
+});
+
+test('buildRepoGlobHistory keeps revocations of superseded attestations as no-op changes', () => {
+  const history = buildRepoGlobHistory(identity, [
+    globs(1, 'org/old', { revocationTime: 1_700_000_010 }),
+    globs(2, 'org/new')
+  ]);
+  const revoke = history.changes.at(-1)!;
+  assert.equal(revoke.kind, 'revoked');
+  assert.deepEqual([revoke.added, revoke.removed, revoke.globs], [[], [], ['org/new']]);
+
+  const lines = formatRepoGlobHistory(history);
+  assert.match(lines[1], new RegExp(`attested  ${uid(2)}  \\+org/new -org/old  \\[current\\]$`));
+  assert.match(lines[2], /\(no change\)$/);
+  assert.equal(lines[3], `In effect: org/new (${uid(2)})`);
+});
+
+test('fetchRepoGlobsAttestations queries by identity, revoked ones included', async () => {
+  let body: any;
+  const fetchFn = (async (_url: string, init: any) => {
+    body = JSON.parse(init.body);
+    return new Response(JSON.stringify({ data: { attestations: [globs(1, 'org/*')] } }));
+  }) as typeof fetch;
+
+  const atts = await fetchRepoGlobsAttestations('https://example.com/graphql', '0xschema', identity.replace('0xa', '0xA'), fetchFn);
+  assert.equal(atts.length, 1);
+  assert.deepEqual(body.variables, { schemaId: '0xschema', refUID: identity });
+  assert.doesNotMatch(body.query, /revoked: \{ equals/);
+
+  const failing = (async () => new Response(JSON.stringify({ errors: [{ message: 'bad query' }] }))) as typeof fetch;
+  await assert.rejects(fetchRepoGlobsAttestations('https://example.com/graphql', '0xschema', identity, failing), /bad query/);
+});
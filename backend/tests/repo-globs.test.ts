@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { parseRepoGlobsDecodedJson } from '../src/repo-globs';
+import { RepoGlobError, matchesRepoFilters, matchesRepoGlob, parseRepoGlob, parseRepoGlobsDecodedJson, splitRepoGlobs } from '../src/repo-globs';
 
 test('parseRepoGlobsDecodedJson reads repoGlobs field', () => {
   const decoded = JSON.stringify([
@@ -22,3 +22,100 @@ test('parseRepoGlobsDecodedJson returns empty array for invalid json', () => {
   const globs = parseRepoGlobsDecodedJson('not-json');
   assert.deepEqual(globs, []);
 });
+
+test('parseRepoGlobsDecodedJson keeps brace commas and drops invalid globs', () => {
+  const decoded = JSON.stringify([
+    { name: 'repoGlobs', value: { value: 'org/{api,web}, */*, !org/archived-*' } }
+  ]);
+  assert.deepEqual(parseRepoGlobsDecodedJson(decoded), ['org/{api,web}', '!org/archived-*']);
+});
+
+test('splitRepoGlobs splits on commas outside braces', () => {
+  assert.deepEqual(splitRepoGlobs('a/*, b/{x,y}-*,, c/d'), ['a/*', 'b/{x,y}-*', 'c/d']);
+});
+
+test('parseRepoGlob classifies owner wildcards, exact names and patterns', () => {
+  assert.equal(parseRepoGlob('org/*').kind, 'owner');
+  assert.deepEqual(parseRepoGlob('org/{api,web}-{a,b}').names, ['api-a', 'api-b', 'web-a', 'web-b']);
+  assert.equal(parseRepoGlob('org/repo').kind, 'exact');
+
+  const prefix = parseRepoGlob('org/didgit-*');
+  assert.equal(prefix.kind, 'pattern');
+  assert.equal(prefix.regex.test('Didgit-Backend'), true);
+  assert.equal(prefix.regex.test('didgit'), false);
+
+  const range = parseRepoGlob('!org/[a-c]?x');
+  assert.equal(range.exclude, true);
+  assert.equal(range.regex.test('b1x'), true);
+  assert.equal(range.regex.test('d1x'), false);
+  assert.equal(parseRepoGlob('org/[!a-c]*').regex.test('alpha'), false);
+  assert.equal(parseRepoGlob('org/v1.0').regex.test('v1x0'), false);
+});
+
+test('parseRepoGlob reports the reason and column of parse errors', () => {
+  const error = (glob: string) => {
+    try {
+      parseRepoGlob(glob);
+    } catch (e) {
+      assert.ok(e instanceof RepoGlobError);
+      return e.message;
+    }
+    assert.fail(`${glob} parsed`);
+  };
+  assert.match(error('*/repo'), /owner must be a name.*column 1/);
+  assert.match(error('org'), /expected owner\/repo/);
+  assert.match(error('org/'), /missing repo pattern/);
+  assert.match(error('org/a/b'), /cannot contain "\/".*column 6/);
+  assert.match(error('org/[a-c'), /unterminated character class.*column 5/);
+  assert.match(error('org/[c-a]'), /invalid range c-a/);
+  assert.match(error('org/{a,{b}}'), /nested braces.*column 8/);
+  assert.match(error('org/{a,b'), /unterminated brace/);
+  assert.match(error('org/a b'), /unexpected " ".*column 6/);
+});
+
+test('parseRepoGlob reads an @ref qualifier matched case-sensitively', () => {
+  const main = parseRepoGlob('org/repo@main');
+  assert.equal(main.kind, 'exact');
+  assert.deepEqual(main.ref?.names, ['main']);
+
+  const release = parseRepoGlob('org/*@release/*');
+  assert.equal(release.kind, 'owner');
+  assert.deepEqual(release.ref?.names, []);
+  assert.equal(matchesRepoGlob(release, 'Org', 'api', 'release/1.2'), true);
+  assert.equal(matchesRepoGlob(release, 'org', 'api', 'feature/x'), false);
+  assert.equal(matchesRepoGlob(release, 'org', 'api', 'Release/1.2'), false);
+  assert.equal(matchesRepoGlob(release, 'org', 'api'), true);
+  assert.equal(matchesRepoGlob(parseRepoGlob('org/api'), 'org', 'api', 'feature/x'), true);
+});
+
+test('parseRepoGlob rejects malformed refs', () => {
+  assert.throws(() => parseRepoGlob('org/repo@'), /missing ref after "@".*column 10/);
+  assert.throws(() => parseRepoGlob('org/@main'), /missing repo pattern/);
+  assert.throws(() => parseRepoGlob('!org/repo@main'), /exclusions .* cannot have an @ref/);
+  assert.throws(() => parseRepoGlob('org/repo@release//x'), /invalid ref "release\/\/x"/);
+  assert.throws(() => parseRepoGlob('org/repo@a@b'), /unexpected "@" in ref.*column 11/);
+  assert.throws(() => parseRepoGlob('org/repo@[z-a]'), /invalid range z-a/);
+});
+
+test('parseRepoGlob reads ? filters on topics, fork, archived and language', () => {
+  const glob = parseRepoGlob('org/*@main?topic=didgit&topic=Web3&fork=false&archived=false&language=TypeScript');
+  assert.equal(glob.kind, 'owner');
+  assert.equal(glob.ref?.source, 'main');
+  assert.deepEqual(glob.filters, { topics: ['didgit', 'web3'], fork: false, archived: false, language: 'TypeScript' });
+
+  const meta = { topics: ['web3', 'DIDGIT'], fork: false, archived: false, language: 'typescript' };
+  assert.equal(matchesRepoGlob(glob, 'org', 'api', 'main', meta), true);
+  assert.equal(matchesRepoGlob(glob, 'org', 'api', 'main', { ...meta, topics: ['didgit'] }), false);
+  assert.equal(matchesRepoGlob(glob, 'org', 'api', 'main', { ...meta, fork: true }), false);
+  assert.equal(matchesRepoGlob(glob, 'org', 'api', 'main', null), false);
+  assert.equal(matchesRepoFilters({ topics: [], language: 'Go' }, { ...meta, language: null }), false);
+  assert.equal(parseRepoGlob('org/api').filters, undefined);
+});
+
+test('parseRepoGlob rejects malformed filters', () => {
+  assert.throws(() => parseRepoGlob('org/*?stars=10'), /unknown filter "stars".*column 7/);
+  assert.throws(() => parseRepoGlob('org/*?topic='), /filter "topic" needs a value/);
+  assert.throws(() => parseRepoGlob('org/*?fork=maybe'), /fork must be true or false/);
+  assert.throws(() => parseRepoGlob('org/*?archived=false&archived=true'), /archived is given twice/);
+  assert.throws(() => parseRepoGlob('org/*?fork=false@main'), /put @ref before the \? filters/);
+});
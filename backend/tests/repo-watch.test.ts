@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { resolveRepoGlobs } from '../src/repo-watch';
+import { RepoMetadataCache, repoMatchesGlobs, resolveRepoGlobs } from '../src/repo-watch';
 
 test('resolveRepoGlobs skips wildcard owners when configured', async () => {
   const listOrgRepos = async (_org: string) => [{ owner: 'skipme', name: 'a' }];
@@ -39,3 +39,125 @@ test('resolveRepoGlobs de-dupes wildcard owner fetches', async () => {
   assert.equal(orgCalls, 1);
   assert.equal(userCalls, 0);
 });
+
+test('repoMatchesGlobs matches owner wildcards and exact repos case-insensitively', () => {
+  assert.equal(repoMatchesGlobs('Org', 'anything', ['org/*']), true);
+  assert.equal(repoMatchesGlobs('user', 'Repo', ['user/repo']), true);
+  assert.equal(repoMatchesGlobs('user', 'other', ['user/repo']), false);
+  assert.equal(repoMatchesGlobs('else', 'repo', ['org/*', 'user/repo']), false);
+});
+
+test('resolveRepoGlobs filters owner listings by pattern and applies exclusions', async () => {
+  let listings = 0;
+  const listOrgRepos = async (org: string) => {
+    listings++;
+    return ['didgit-api', 'didgit-web', 'archived-didgit-old', 'other', 'beta'].map((name) => ({ owner: org, name }));
+  };
+
+  const repos = await resolveRepoGlobs({
+    globs: ['org/didgit-*', 'org/[a-c]*', 'org/{docs,site}', '!org/archived-*', '!org/didgit-web'],
+    skipWildcardOwners: new Set(),
+    listOrgRepos,
+    listUserRepos: async () => []
+  });
+
+  assert.deepEqual(repos.map((r) => r.name), ['didgit-api', 'beta', 'docs', 'site']);
+  assert.equal(listings, 1);
+});
+
+test('repoMatchesGlobs supports patterns and exclusions', () => {
+  const globs = ['org/*', '!org/archived-*', 'user/{api,web}'];
+  assert.equal(repoMatchesGlobs('org', 'live', globs), true);
+  assert.equal(repoMatchesGlobs('org', 'Archived-2019', globs), false);
+  assert.equal(repoMatchesGlobs('user', 'web', globs), true);
+  assert.equal(repoMatchesGlobs('user', 'webapp', globs), false);
+  assert.equal(repoMatchesGlobs('org', 'live', ['!org/old']), false);
+});
+
+test('resolveRepoGlobs keeps one entry per repo and @ref', async () => {
+  const repos = await resolveRepoGlobs({
+    globs: ['org/api', 'org/api@release/*', 'org/*@main', 'org/api@release/*', '!org/old'],
+    skipWildcardOwners: new Set(),
+    listOrgRepos: async (org) => [{ owner: org, name: 'api' }, { owner: org, name: 'old' }],
+    listUserRepos: async () => []
+  });
+
+  assert.deepEqual(repos, [
+    { owner: 'org', name: 'api' },
+    { owner: 'org', name: 'api', ref: 'release/*' },
+    { owner: 'org', name: 'api', ref: 'main' }
+  ]);
+});
+
+test('repoMatchesGlobs honours @ref for pushed branches', () => {
+  const globs = ['org/*@main', 'org/tool@release/*'];
+  assert.equal(repoMatchesGlobs('org', 'api', globs, 'main'), true);
+  assert.equal(repoMatchesGlobs('org', 'api', globs, 'feature/wip'), false);
+  assert.equal(repoMatchesGlobs('org', 'tool', globs, 'release/2.0'), true);
+  assert.equal(repoMatchesGlobs('org', 'api', ['org/*'], 'feature/wip'), true);
+});
+
+test('resolveRepoGlobs applies ? filters from listing metadata and fetches it for exact names', async () => {
+  const meta = (topics: string[], extra: { fork?: boolean; archived?: boolean } = {}) =>
+    ({ topics, fork: !!extra.fork, archived: !!extra.archived, language: 'TypeScript' });
+  const fetched: string[] = [];
+  const repos = await resolveRepoGlobs({
+    globs: ['org/*?topic=didgit&fork=false', '!org/*?archived=true', 'org/tool?language=typescript', 'org/docs?topic=didgit'],
+    skipWildcardOwners: new Set(),
+    listOrgRepos: async (org) => [
+      { owner: org, name: 'api', meta: meta(['didgit']) },
+      { owner: org, name: 'fork', meta: meta(['didgit'], { fork: true }) },
+      { owner: org, name: 'old', meta: meta(['didgit'], { archived: true }) },
+      { owner: org, name: 'misc', meta: meta([]) }
+    ],
+    listUserRepos: async () => [],
+    getRepoMetadata: async (owner, name) => {
+      fetched.push(`${owner}/${name}`);
+      return name === 'tool' ? meta([]) : null;
+    }
+  });
+
+  assert.deepEqual(repos.map((r) => r.name), ['api', 'tool']);
+  assert.deepEqual(fetched, ['org/tool', 'org/docs']);
+});
+
+test('RepoMetadataCache fetches each repo once and reuses listing metadata', async () => {
+  const calls: string[] = [];
+  const cache = new RepoMetadataCache(async (domain, owner, name) => {
+    calls.push(`${domain}:${owner}/${name}`);
+    if (name === 'flaky' && calls.length === 1) throw new Error('boom');
+    return { topics: [], fork: false, archived: false, language: null };
+  });
+  cache.remember('github.com', [{ owner: 'org', name: 'listed', meta: { topics: ['x'], fork: false, archived: false, language: 'Go' } }]);
+
+  assert.deepEqual((await cache.get('github.com', 'Org', 'Listed'))?.topics, ['x']);
+  await assert.rejects(cache.get('github.com', 'org', 'flaky'), /boom/);
+  await cache.get('github.com', 'org', 'flaky');
+  await cache.get('github.com', 'ORG', 'flaky');
+  await cache.get('gitlab.com', 'org', 'flaky');
+  assert.deepEqual(calls, ['github.com:org/flaky', 'github.com:org/flaky', 'gitlab.com:org/flaky']);
+});
+
+test('repoMatchesGlobs checks ? filters against the pushed repo metadata', () => {
+  const globs = ['org/*?topic=didgit', '!org/*?archived=true'];
+  const meta = { topics: ['didgit'], fork: false, archived: false, language: null };
+  assert.equal(repoMatchesGlobs('org', 'api', globs, 'main', meta), true);
+  assert.equal(repoMatchesGlobs('org', 'api', globs, 'main', { ...meta, archived: true }), false);
+  assert.equal(repoMatchesGlobs('org', 'api', globs, 'main', null), false);
+});
+
+test('resolveRepoGlobs intersects user globs with the org policy', async () => {
+  const policy = {
+    uid: '0x01', identityUid: '0x02', attester: '0x03', domain: 'github.com', admin: 'boss',
+    org: 'acme', globs: ['acme/{api,web}', '!acme/web'], minReviews: 0
+  };
+  const repos = await resolveRepoGlobs({
+    globs: ['acme/*', 'acme/secret', 'alice/tool'],
+    skipWildcardOwners: new Set(),
+    listOrgRepos: async (org) => org === 'acme' ? ['api', 'web', 'secret'].map((name) => ({ owner: org, name })) : [],
+    listUserRepos: async () => [],
+    orgPolicy: (owner) => owner.toLowerCase() === 'acme' ? policy : undefined
+  });
+
+  assert.deepEqual(repos.map((r) => `${r.owner}/${r.name}`), ['acme/api', 'alice/tool']);
+});
@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { createServer } from '../src/server';
+
+const sha = 'a'.repeat(40);
+const kernel = '0x0000000000000000000000000000000000000002';
+
+const status = {
+  getHealth: () => ({ ok: true, startedAt: '2026-02-10T00:00:00.000Z', running: false, lastRun: null, users: 1, retryQueue: 0, blocked: 2 }),
+  getWatchedUsers: () => [{
+    domain: 'github.com',
+    username: 'alice',
+    walletAddress: '0x0000000000000000000000000000000000000001' as const,
+    kernelAddress: '0x0000000000000000000000000000000000000002' as const,
+    identityAttestationUid: '0x01' as const,
+    repoGlobs: ['alice/*'],
+    hasSessionKey: true
+  }],
+  getWatchedRepos: () => ({ repos: [{ domain: 'github.com', owner: 'alice', name: 'tool', cursor: null }], wildcardOwners: [] }),
+  listRuns: (limit: number) => [{ id: 1, trigger: 'poll' as const, status: 'completed' as const, attested: 0, startedAt: `limit=${limit}` }],
+  getRunDetail: (id: number) => id === 1
+    ? { id: 1, trigger: 'poll' as const, status: 'completed' as const, attested: 0, startedAt: '', counts: { seen: 0, attested: 0, failed: 0, skipped: 1, blocked: 0 }, contributions: [] }
+    : null,
+  getContributionDetail: (id: string) => id === sha
+    ? { id, repoOwner: 'alice', repoName: 'tool', status: 'skipped' as const, skipReason: 'bob not registered', retryCount: 0, firstSeenAt: '', updatedAt: '' }
+    : null,
+  getKernelFunding: (address: string) => address.toLowerCase() === kernel
+    ? { kernelAddress: kernel as `0x${string}`, balanceEth: 0.002, thresholdEth: 0.01, funded: false, checkedAt: '', blocked: 2 }
+    : null,
+  getSponsorshipSummary: () => [{ org: 'cyberstorm-dev', budgetEth: 0.5, spentEth: 0.01, ops: 3, users: [] }]
+};
+
+async function withServer(options: { apiToken?: string }, fn: (base: string) => Promise<void>) {
+  const server = createServer({ handlePushCommits: async () => 0, status, ...options }).listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  try {
+    await fn(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+test('status API serves health, users, repos, runs and commits', async () => {
+  await withServer({}, async (base) => {
+    assert.equal((await (await fetch(`${base}/health`)).json()).users, 1);
+    assert.equal((await (await fetch(`${base}/users`)).json())[0].username, 'alice');
+    assert.equal((await (await fetch(`${base}/repos`)).json()).repos[0].name, 'tool');
+    assert.equal((await (await fetch(`${base}/runs?limit=500`)).json())[0].startedAt, 'limit=200');
+    assert.equal((await (await fetch(`${base}/runs/1`)).json()).counts.skipped, 1);
+    assert.equal((await fetch(`${base}/runs/2`)).status, 404);
+    assert.equal((await (await fetch(`${base}/commits/${sha.toUpperCase()}`)).json()).skipReason, 'bob not registered');
+    assert.equal((await fetch(`${base}/commits/abc`)).status, 404);
+    assert.equal((await (await fetch(`${base}/sponsorship`)).json())[0].spentEth, 0.01);
+  });
+});
+
+test('status API requires the bearer token except for /health', async () => {
+  await withServer({ apiToken: 'secret' }, async (base) => {
+    assert.equal((await fetch(`${base}/health`)).status, 200);
+    assert.equal((await fetch(`${base}/users`)).status, 401);
+    assert.equal((await fetch(`${base}/users`, { headers: { Authorization: 'Bearer secret' } })).status, 200);
+  });
+});
+
+test('kernel funding is open to the web app and 404s for unknown Kernels', async () => {
+  await withServer({ apiToken: 'secret' }, async (base) => {
+    const res = await fetch(`${base}/kernels/${kernel}`);
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('access-control-allow-origin'), '*');
+    assert.deepEqual(await res.json(), { kernelAddress: kernel, balanceEth: 0.002, thresholdEth: 0.01, funded: false, checkedAt: '', blocked: 2 });
+    assert.equal((await fetch(`${base}/kernels/0x${'9'.repeat(40)}`)).status, 404);
+    assert.equal((await fetch(`${base}/kernels/nope`)).status, 404);
+  });
+});
+
+test('metrics endpoint serves Prometheus text', async () => {
+  await withServer({}, async (base) => {
+    const res = await fetch(`${base}/metrics`);
+    assert.match(res.headers.get('content-type') || '', /text\/plain/);
+    assert.match(await res.text(), /didgit_contributions_attested_total/);
+  });
+});
+
+test('webhook route still rejects deliveries when no secret is configured', async () => {
+  await withServer({}, async (base) => {
+    assert.equal((await fetch(`${base}/webhooks/github`, { method: 'POST', body: '{}' })).status, 404);
+  });
+});
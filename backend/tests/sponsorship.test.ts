@@ -0,0 +1,87 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SponsorshipManager, createSponsorshipManager, parseSponsorshipPolicy, sponsorOrgKey } from '../src/sponsorship';
+import { MemoryStateStore } from '../src/state-store';
+
+const kernel = '0x00000000000000000000000000000000000000aa' as const;
+const policy = parseSponsorshipPolicy({
+  orgs: {
+    'Cyberstorm-Dev': { budgetEth: 0.01, maxOpsPerUserPerDay: 2, schemas: ['commit', 'review'] },
+    'gitlab.com/acme': { budgetEth: 1 }
+  }
+});
+
+function manager(store = new MemoryStateStore(), now = () => new Date('2026-02-10T12:00:00Z')) {
+  return new SponsorshipManager(policy, store, 'https://paymaster.example.org', now);
+}
+
+function op(m: SponsorshipManager, username: string, gasCostWei: bigint) {
+  m.record({ org: 'cyberstorm-dev', username, kernelAddress: kernel, kind: 'commit', contributions: 1, gasCostWei });
+}
+
+test('policy keys follow the repo owner, domain-prefixed off GitHub', () => {
+  assert.deepEqual(Object.keys(policy.orgs), ['cyberstorm-dev', 'gitlab.com/acme']);
+  assert.equal(sponsorOrgKey('github.com', 'Cyberstorm-Dev'), 'cyberstorm-dev');
+  assert.equal(sponsorOrgKey('gitlab.com', 'Acme'), 'gitlab.com/acme');
+  assert.throws(() => parseSponsorshipPolicy({ orgs: { acme: {} } }), /budgetEth/);
+  assert.throws(() => parseSponsorshipPolicy({ orgs: { acme: { budgetEth: 1, maxOpsPerUserPerDay: 1.5 } } }), /maxOpsPerUserPerDay/);
+  assert.throws(() => parseSponsorshipPolicy({}), /"orgs"/);
+});
+
+test('decide sponsors allowed schemas in covered orgs only', () => {
+  const m = manager();
+  assert.deepEqual(m.decide({ owner: 'cyberstorm-dev', username: 'alice', kind: 'commit' }), { sponsored: true, org: 'cyberstorm-dev' });
+  assert.deepEqual(m.decide({ domain: 'gitlab.com', owner: 'acme', username: 'bob', kind: 'pull' }), { sponsored: true, org: 'gitlab.com/acme' });
+  assert.deepEqual(m.decide({ owner: 'cyberstorm-dev', username: 'alice', kind: 'pull' }), { sponsored: false, org: 'cyberstorm-dev', reason: 'schema_not_allowed' });
+  assert.deepEqual(m.decide({ owner: 'acme', username: 'alice', kind: 'commit' }), { sponsored: false, reason: 'no_policy' });
+});
+
+test('daily cap is per user and resets at UTC midnight', () => {
+  const store = new MemoryStateStore();
+  let now = new Date('2026-02-10T12:00:00Z');
+  const m = manager(store, () => now);
+  op(m, 'alice', 1n);
+  op(m, 'alice', 1n);
+
+  assert.equal(m.decide({ owner: 'cyberstorm-dev', username: 'Alice', kind: 'commit' }).sponsored, false);
+  assert.equal(m.decide({ owner: 'cyberstorm-dev', username: 'bob', kind: 'commit' }).sponsored, true);
+  now = new Date('2026-02-11T00:00:01Z');
+  assert.equal(m.decide({ owner: 'cyberstorm-dev', username: 'alice', kind: 'commit' }).sponsored, true);
+});
+
+test('budget is exhausted once recorded spend reaches it', () => {
+  const m = manager();
+  op(m, 'alice', 6n * 10n ** 15n);
+  assert.equal(m.decide({ owner: 'cyberstorm-dev', username: 'bob', kind: 'commit' }).sponsored, true);
+  op(m, 'bob', 4n * 10n ** 15n);
+  assert.deepEqual(m.decide({ owner: 'cyberstorm-dev', username: 'carol', kind: 'commit' }), { sponsored: false, org: 'cyberstorm-dev', reason: 'budget_exhausted' });
+});
+
+test('getSummary reports spend per org and per user', () => {
+  const m = manager();
+  op(m, 'alice', 10n ** 15n);
+  op(m, 'alice', 10n ** 15n);
+  op(m, 'bob', 2n * 10n ** 15n);
+
+  const [org, other] = m.getSummary();
+  assert.equal(org.org, 'cyberstorm-dev');
+  assert.equal(org.ops, 3);
+  assert.equal(org.spentEth, 0.004);
+  assert.deepEqual(org.users.map((u) => [u.username, u.ops, u.opsToday, u.spentEth]), [['alice', 2, 2, 0.002], ['bob', 1, 1, 0.002]]);
+  assert.equal(other.ops, 0);
+});
+
+test('createSponsorshipManager reads the policy file and requires a paymaster', () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'didgit-')), 'policy.json');
+  fs.writeFileSync(file, JSON.stringify({ orgs: { acme: { budgetEth: 0.1 } } }));
+  const store = new MemoryStateStore();
+
+  assert.equal(createSponsorshipManager(store, {}), null);
+  assert.throws(() => createSponsorshipManager(store, { SPONSORSHIP_POLICY: file }), /PAYMASTER_RPC/);
+  const m = createSponsorshipManager(store, { SPONSORSHIP_POLICY: file, PAYMASTER_RPC: 'https://paymaster.example.org' });
+  assert.equal(m?.orgFor(undefined, 'ACME'), 'acme');
+  assert.equal(m?.paymasterRpc, 'https://paymaster.example.org');
+});
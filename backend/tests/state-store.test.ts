@@ -0,0 +1,141 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStateStore, SqliteStateStore, repoCursorKey, ownerCursorKey, scanSince, type StateStore } from '../src/state-store';
+
+const stores: Array<[string, () => StateStore]> = [
+  ['memory', () => new MemoryStateStore()],
+  ['sqlite', () => new SqliteStateStore(':memory:')]
+];
+
+for (const [name, create] of stores) {
+  test(`${name}: recordSeen is idempotent and keeps the first payload`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo', payload: { sha: 'aaa', n: 1 } });
+    const rec = store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo', payload: { sha: 'aaa', n: 2 } });
+    assert.equal(rec.status, 'seen');
+    assert.equal(rec.retryCount, 0);
+    assert.deepEqual(JSON.parse(rec.payload!), { sha: 'aaa', n: 1 });
+    store.close();
+  });
+
+  test(`${name}: records attestation uid and tx hash`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo' });
+    store.recordAttested('aaa', { attestationUid: '0xuid', txHash: '0xtx' });
+    const rec = store.getContribution('aaa');
+    assert.equal(rec?.status, 'attested');
+    assert.equal(rec?.attestationUid, '0xuid');
+    assert.equal(rec?.txHash, '0xtx');
+    store.close();
+  });
+
+  test(`${name}: failures increment retry count until exhausted`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo' });
+    store.recordFailed('aaa', 'Insufficient Kernel balance for gas');
+    assert.equal(store.listRetryable(2).length, 1);
+    store.recordFailed('aaa', 'Insufficient Kernel balance for gas');
+    const rec = store.getContribution('aaa');
+    assert.equal(rec?.retryCount, 2);
+    assert.equal(rec?.failureReason, 'Insufficient Kernel balance for gas');
+    assert.equal(store.listRetryable(2).length, 0);
+    store.close();
+  });
+
+  test(`${name}: skip does not downgrade an attested commit`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo' });
+    store.recordAttested('aaa', {});
+    store.recordSkipped('aaa', 'not registered');
+    assert.equal(store.getContribution('aaa')?.status, 'attested');
+    store.close();
+  });
+
+  test(`${name}: blocked contributions stay queued without using retries`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo' });
+    store.recordSeen({ id: 'bbb', repoOwner: 'org', repoName: 'repo' });
+    store.recordBlocked('aaa', 'unfunded: 0xkernel');
+    store.recordBlocked('aaa', 'unfunded: 0xkernel');
+    store.recordAttested('bbb', {});
+    store.recordBlocked('bbb', 'unfunded: 0xkernel');
+
+    assert.deepEqual(store.listBlocked().map((r) => [r.id, r.skipReason, r.retryCount]), [['aaa', 'unfunded: 0xkernel', 0]]);
+    assert.equal(store.listRetryable(5).length, 0);
+    store.recordAttested('aaa', {});
+    assert.equal(store.listBlocked().length, 0);
+    assert.equal(store.getContribution('aaa')?.skipReason, undefined);
+    store.close();
+  });
+
+  test(`${name}: skipped contributions are listed while first seen within the window`, () => {
+    const store = create();
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo' });
+    store.recordSeen({ id: 'bbb', repoOwner: 'org', repoName: 'repo' });
+    store.recordSkipped('aaa', 'alice not registered');
+    store.recordFailed('bbb', 'boom');
+
+    assert.deepEqual(store.listSkipped(new Date(Date.now() - 60_000)).map((r) => [r.id, r.skipReason]), [['aaa', 'alice not registered']]);
+    assert.equal(store.listSkipped(new Date(Date.now() + 60_000)).length, 0);
+    store.close();
+  });
+
+  test(`${name}: sponsored UserOps are kept as an audit ledger`, () => {
+    const store = create();
+    const base = { domain: 'github.com', kernelAddress: '0xkernel', kind: 'commit', contributions: 2, gasCostWei: '123456789012345678', createdAt: '2026-02-10T00:00:00.000Z' };
+    store.recordSponsoredOp({ ...base, org: 'acme', username: 'alice', userOpHash: '0xop', txHash: '0xtx', chain: 'arbitrum' });
+    store.recordSponsoredOp({ ...base, org: 'other', username: 'bob' });
+
+    assert.equal(store.listSponsoredOps().length, 2);
+    const [op] = store.listSponsoredOps({ org: 'acme' });
+    assert.equal(op.username, 'alice');
+    assert.equal(op.gasCostWei, '123456789012345678');
+    assert.equal(op.userOpHash, '0xop');
+    assert.equal(op.chain, 'arbitrum');
+    assert.equal(store.listSponsoredOps({ org: 'other' })[0].txHash, undefined);
+    store.close();
+  });
+
+  test(`${name}: cursors round-trip per repo and per owner`, () => {
+    const store = create();
+    const at = new Date('2026-02-09T00:00:00Z');
+    assert.equal(store.getCursor(repoCursorKey('Org', 'Repo')), null);
+    store.setCursor(repoCursorKey('Org', 'Repo'), at);
+    store.setCursor(ownerCursorKey('Org'), new Date('2026-02-10T00:00:00Z'));
+    assert.equal(store.getCursor(repoCursorKey('org', 'repo'))?.toISOString(), at.toISOString());
+    assert.equal(store.getCursor(ownerCursorKey('org'))?.toISOString(), '2026-02-10T00:00:00.000Z');
+    store.close();
+  });
+
+  test(`${name}: runs record their outcome and the contributions they touched`, () => {
+    const store = create();
+    const first = store.startRun('poll');
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo', runId: first.id });
+    store.recordSkipped('aaa', 'bob not registered');
+    store.finishRun(first.id, { status: 'completed', usersFound: 2, reposWatched: 3, attested: 0 });
+
+    const second = store.startRun('webhook');
+    store.recordSeen({ id: 'bbb', repoOwner: 'org', repoName: 'repo', runId: second.id });
+    store.recordSeen({ id: 'aaa', repoOwner: 'org', repoName: 'repo', runId: second.id });
+    assert.equal(store.getRun(second.id)?.status, 'running');
+
+    assert.deepEqual(store.listRuns(10).map((r) => r.id), [second.id, first.id]);
+    const run = store.getRun(first.id);
+    assert.equal(run?.status, 'completed');
+    assert.equal(run?.usersFound, 2);
+    assert.ok(run?.finishedAt);
+    assert.deepEqual(store.listRunContributions(first.id), []);
+    assert.deepEqual(store.listRunContributions(second.id).map((c) => [c.id, c.status, c.skipReason]).sort(), [
+      ['aaa', 'skipped', 'bob not registered'],
+      ['bbb', 'seen', undefined]
+    ]);
+    store.close();
+  });
+}
+
+test('scanSince resumes just before the cursor and uses the lookback window without one', () => {
+  const lookback = new Date('2026-02-02T00:00:00Z');
+  assert.equal(scanSince(null, lookback), lookback);
+  assert.equal(scanSince(new Date('2026-02-08T00:00:00Z'), lookback).toISOString(), '2026-02-07T23:50:00.000Z');
+  assert.equal(scanSince(new Date('2026-01-20T00:00:00Z'), lookback).toISOString(), '2026-01-19T23:50:00.000Z');
+});
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { parsePushWebhookToCommits, verifyWebhookSignature } from '../src/webhook';
+
+function sign(secret: string, body: string) {
+  return 'sha256=' + createHmac('sha256', secret).update(body).digest('hex');
+}
+
+test('verifyWebhookSignature accepts a valid sha256 signature', () => {
+  const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+  assert.equal(verifyWebhookSignature('s3cret', body, sign('s3cret', body)), true);
+});
+
+test('verifyWebhookSignature rejects wrong secret, tampered body and missing header', () => {
+  const body = JSON.stringify({ a: 1 });
+  assert.equal(verifyWebhookSignature('s3cret', body, sign('other', body)), false);
+  assert.equal(verifyWebhookSignature('s3cret', body + ' ', sign('s3cret', body)), false);
+  assert.equal(verifyWebhookSignature('s3cret', body, undefined), false);
+  assert.equal(verifyWebhookSignature('s3cret', body, 'sha1=abc'), false);
+});
+
+test('verifyWebhookSignature rejects malformed signatures without throwing', () => {
+  const body = JSON.stringify({ a: 1 });
+  assert.equal(verifyWebhookSignature('s3cret', body, 'sha256=' + 'z'.repeat(64)), false);
+  assert.equal(verifyWebhookSignature('s3cret', body, 'sha256=' + 'ab'.repeat(31) + 'zz'), false);
+  assert.equal(verifyWebhookSignature('s3cret', body, 'sha256='), false);
+});
+
+test('parsePushWebhookToCommits maps payload commits to commit infos', () => {
+  const payload = {
+    ref: 'refs/heads/main',
+    repository: { name: 'didgit', full_name: 'cyberstorm-dev/didgit', owner: { login: 'cyberstorm-dev', name: 'cyberstorm-dev' } },
+    commits: [
+      {
+        id: 'aaa',
+        message: 'first',
+        timestamp: '2026-02-09T00:00:00Z',
+        author: { name: 'Allen', email: 'a@b.com', username: 'allenday' }
+      },
+      { id: 'bbb', message: 'second', timestamp: '2026-02-09T00:01:00Z', author: { name: 'Anon', email: 'x@y.com' } }
+    ]
+  };
+
+  const commits = parsePushWebhookToCommits(payload);
+  assert.equal(commits.length, 2);
+  assert.equal(commits[0].sha, 'aaa');
+  assert.equal(commits[0].author.username, 'allenday');
+  assert.equal(commits[0].repo.owner, 'cyberstorm-dev');
+  assert.equal(commits[0].repo.name, 'didgit');
+  assert.equal(commits[0].ref, 'main');
+  assert.equal(commits[1].author.username, undefined);
+});
+
+test('parsePushWebhookToCommits ignores tag pushes', () => {
+  const payload = {
+    ref: 'refs/tags/v1.0.0',
+    repository: { name: 'didgit', owner: { login: 'cyberstorm-dev' } },
+    commits: [{ id: 'aaa', message: 'release', author: { name: 'Allen', email: 'a@b.com' } }]
+  };
+  assert.deepEqual(parsePushWebhookToCommits(payload), []);
+});
+
+test('parsePushWebhookToCommits ignores branch deletions', () => {
+  const payload = {
+    deleted: true,
+    repository: { name: 'didgit', owner: { login: 'cyberstorm-dev' } },
+    commits: []
+  };
+  assert.deepEqual(parsePushWebhookToCommits(payload), []);
+});
@@ -104,5 +104,27 @@ describe('fetchStats', () => {
     expect(stats.totalRepos).toBe(3);
     expect(stats.identityChart.length).toBeGreaterThan(0);
     expect(stats.commitsChart.length).toBeGreaterThan(0);
+    expect(stats.totalReviews).toBe(0);
+  });
+
+  it('counts reviews separately from commits when a review schema is given', async () => {
+    const fetchFn = vi.fn(async (_url: any, init: any) => {
+      const body = JSON.parse(init.body as string);
+      const { schemaId } = body.variables as { schemaId: string };
+      const attestations =
+        schemaId === 'contrib-schema' ? makeAttestations(5, 10) :
+        schemaId === 'review-schema' ? makeAttestations(3, 20) :
+        [];
+      return {
+        ok: true,
+        json: async () => ({ data: { attestations } })
+      } as Response;
+    });
+
+    const stats = await fetchStats(8453, 'identity-schema', 'contrib-schema', fetchFn, 'review-schema');
+
+    expect(stats.totalCommits).toBe(5);
+    expect(stats.totalReviews).toBe(3);
+    expect(stats.reviewsChart.length).toBeGreaterThan(0);
   });
 });
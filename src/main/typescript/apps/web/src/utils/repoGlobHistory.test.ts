@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildRepoGlobHistory, fetchRepoGlobHistory, splitRepoGlobs } from '../../utils/repoGlobHistory';
+
+function globs(id: string, value: string, timeCreated: number, revocationTime = 0) {
+  return {
+    id,
+    timeCreated,
+    revoked: revocationTime > 0,
+    revocationTime,
+    decodedDataJson: JSON.stringify([{ name: 'repoGlobs', value: { value } }])
+  };
+}
+
+describe('splitRepoGlobs', () => {
+  it('keeps commas inside braces', () => {
+    expect(splitRepoGlobs('org/{api,web}, !org/old')).toEqual(['org/{api,web}', '!org/old']);
+  });
+});
+
+describe('buildRepoGlobHistory', () => {
+  it('lets the newest non-revoked attestation win and records each change', () => {
+    const history = buildRepoGlobHistory([
+      globs('0x03', 'org/api, org/docs', 300, 400),
+      globs('0x01', 'org/api', 100),
+      globs('0x02', 'org/*', 200)
+    ]);
+
+    expect(history.changes.map((c) => [c.kind, c.uid, c.added, c.removed])).toEqual([
+      ['attested', '0x01', ['org/api'], []],
+      ['attested', '0x02', ['org/*'], ['org/api']],
+      ['attested', '0x03', ['org/api', 'org/docs'], ['org/*']],
+      ['revoked', '0x03', ['org/*'], ['org/api', 'org/docs']]
+    ]);
+    expect(history.current).toEqual({ uid: '0x02', globs: ['org/*'] });
+  });
+});
+
+describe('fetchRepoGlobHistory', () => {
+  it('queries the identity attestations, revoked ones included', async () => {
+    const fetchFn = vi.fn(async (_url: any, init: any) => {
+      const body = JSON.parse(init.body as string);
+      expect(body.variables).toEqual({ schemaId: 'schema-1', refUID: '0xabc' });
+      return { ok: true, json: async () => ({ data: { attestations: [globs('0x01', 'org/*', 100)] } }) } as Response;
+    });
+
+    const history = await fetchRepoGlobHistory('https://example.com/graphql', 'schema-1', '0xABC', fetchFn as any);
+    expect(history.current?.globs).toEqual(['org/*']);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
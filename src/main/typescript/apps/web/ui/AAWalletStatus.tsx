@@ -22,6 +22,21 @@ import { useWallet } from '../wallet/WalletContext';
 import { formatEther } from 'viem';
 import { appConfig } from '../utils/config';
 
+/** Kernel funding as reported by the attester's status API (`GET /kernels/:address`). */
+type KernelFunding = {
+  balanceEth: number;
+  thresholdEth: number;
+  funded: boolean;
+  checkedAt: string;
+  blocked: number;
+};
+
+async function fetchKernelFunding(apiUrl: string, kernel: string): Promise<KernelFunding | null> {
+  const res = await fetch(`${apiUrl.replace(/\/$/, '')}/kernels/${kernel}`);
+  if (!res.ok) return null; // not registered with the attester yet
+  return (await res.json()) as KernelFunding;
+}
+
 export const AAWalletStatus: React.FC = () => {
   // Force fresh hook call every render
   const {
@@ -39,18 +54,34 @@ export const AAWalletStatus: React.FC = () => {
   const [fundingFaucet, setFundingFaucet] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [forceRender, setForceRender] = useState(0);
+  const [funding, setFunding] = useState<KernelFunding | null>(null);
 
   const cfg = appConfig();
   const balance = balanceWei ? parseFloat(formatEther(balanceWei)) : 0;
   const hasBalance = balance > 0;
-  const isReady = connected && smartAddress && hasBalance;
+  const isBlocked = !!funding && !funding.funded;
+  const isReady = connected && smartAddress && hasBalance && !isBlocked;
   const isMainnet = cfg.CHAIN_ID === 8453;
 
+  const refreshFunding = async () => {
+    if (!cfg.ATTESTER_API_URL || !smartAddress) {
+      setFunding(null);
+      return;
+    }
+    try {
+      setFunding(await fetchKernelFunding(cfg.ATTESTER_API_URL, smartAddress));
+    } catch (e) {
+      // Attester unreachable: fall back to the on-chain balance alone
+      setFunding(null);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
       await ensureAa();
       await refreshOnchain();
+      await refreshFunding();
     } catch (e) {
       // Error handled by wallet hook
     } finally {
@@ -68,6 +99,7 @@ export const AAWalletStatus: React.FC = () => {
       // Reset state on disconnect - force component to re-render
       setFundingFaucet(false);
       setRefreshing(false);
+      setFunding(null);
     }
   }, [connected]);
 
@@ -172,9 +204,9 @@ export const AAWalletStatus: React.FC = () => {
                 </Typography>
               </Box>
               <Chip
-                icon={hasBalance ? <CheckCircle /> : <Warning />}
-                label={hasBalance ? 'Funded' : 'Needs Gas'}
-                color={hasBalance ? 'success' : 'warning'}
+                icon={hasBalance && !isBlocked ? <CheckCircle /> : <Warning />}
+                label={isBlocked ? 'Blocked: unfunded' : hasBalance ? 'Funded' : 'Needs Gas'}
+                color={isBlocked ? 'error' : hasBalance ? 'success' : 'warning'}
                 size="small"
               />
             </Box>
@@ -186,7 +218,7 @@ export const AAWalletStatus: React.FC = () => {
                   Status
                 </Typography>
                 <Typography variant="body1">
-                  {isReady ? 'Ready for attestations' : 'Setup required'}
+                  {isReady ? 'Ready for attestations' : isBlocked ? 'Attestations paused' : 'Setup required'}
                 </Typography>
               </Box>
               <Chip
@@ -201,7 +233,7 @@ export const AAWalletStatus: React.FC = () => {
       )}
 
       {/* Funding Options */}
-      {!hasBalance && smartAddress && (
+      {(!hasBalance || isBlocked) && smartAddress && (
         <Alert severity="warning" sx={{ mb: 2 }}>
           <Typography variant="subtitle2" gutterBottom>
             Wallet Needs Funding
@@ -223,6 +255,21 @@ export const AAWalletStatus: React.FC = () => {
         </Alert>
       )}
 
+      {/* Attester blocked on gas */}
+      {isBlocked && funding && smartAddress && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            Attestations Blocked: Wallet Unfunded
+          </Typography>
+          <Typography variant="body2">
+            The attester found {funding.balanceEth.toFixed(6)} ETH in your smart wallet, below the {funding.thresholdEth} ETH it needs to pay for attestations.
+            {funding.blocked > 0
+              ? ` ${funding.blocked} contribution${funding.blocked === 1 ? ' is' : 's are'} queued and will be attested on the next run after you top up.`
+              : ' New contributions will be queued until you top up.'}
+          </Typography>
+        </Alert>
+      )}
+
       {/* Error Display */}
       {lastError && (
         <Alert severity="error" sx={{ mt: 2 }}>
@@ -4,7 +4,7 @@ import {
   Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
   Tabs, Tab, Avatar
 } from '@mui/material';
-import { EmojiEvents, Code, FolderSpecial, Person } from '@mui/icons-material';
+import { EmojiEvents, Code, FolderSpecial, Person, RateReview } from '@mui/icons-material';
 import { appConfig } from '../utils/config';
 
 type LeaderboardEntry = {
@@ -16,6 +16,7 @@ type LeaderboardEntry = {
 type LeaderboardData = {
   topRepos: LeaderboardEntry[];
   topAccounts: LeaderboardEntry[];
+  topReviewers: LeaderboardEntry[];
   loading: boolean;
   error: string | null;
 };
@@ -36,7 +37,18 @@ function getEasGraphqlEndpoint(chainId: number): string {
 const CONTRIBUTION_SCHEMA_UID = '0x7425c71616d2959f30296d8e013a8fd23320145b1dfda0718ab0a692087f8782';
 const IDENTITY_SCHEMA_UID = '0x6ba0509abc1a1ed41df2cce6cbc7350ea21922dae7fcbc408b54150a40be66af';
 
-async function fetchLeaderboards(chainId: number, _timeRange: TimeRange): Promise<Omit<LeaderboardData, 'loading' | 'error'>> {
+function topEntries(counts: Map<string, number>): LeaderboardEntry[] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([name, count], i) => ({ rank: i + 1, name, count }));
+}
+
+async function fetchLeaderboards(
+  chainId: number,
+  _timeRange: TimeRange,
+  reviewSchemaUid?: string
+): Promise<Omit<LeaderboardData, 'loading' | 'error'>> {
   const endpoint = getEasGraphqlEndpoint(chainId);
   
   // Fetch contributions and identities to properly aggregate by user
@@ -64,7 +76,7 @@ async function fetchLeaderboards(chainId: number, _timeRange: TimeRange): Promis
     }
   `;
 
-  const [contribRes, identityRes] = await Promise.all([
+  const [contribRes, identityRes, reviewRes] = await Promise.all([
     fetch(endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -74,16 +86,29 @@ async function fetchLeaderboards(chainId: number, _timeRange: TimeRange): Promis
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ query: identityQuery, variables: { schemaId: IDENTITY_SCHEMA_UID } })
-    })
+    }),
+    // Review attestations share the contribution query shape but are ranked separately
+    reviewSchemaUid
+      ? fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: contributionQuery, variables: { schemaId: reviewSchemaUid } })
+        })
+      : Promise.resolve(null)
   ]);
 
-  if (!contribRes.ok || !identityRes.ok) {
+  if (!contribRes.ok || !identityRes.ok || (reviewRes && !reviewRes.ok)) {
     throw new Error(`EAS API error`);
   }
 
-  const [contribData, identityData] = await Promise.all([contribRes.json(), identityRes.json()]);
+  const [contribData, identityData, reviewData] = await Promise.all([
+    contribRes.json(),
+    identityRes.json(),
+    reviewRes ? reviewRes.json() : Promise.resolve(null)
+  ]);
   const attestations = contribData?.data?.attestations ?? [];
   const identities = identityData?.data?.attestations ?? [];
+  const reviews = reviewData?.data?.attestations ?? [];
 
   // Build address -> username mapping from identities
   const addressToUsername = new Map<string, string>();
@@ -121,18 +146,25 @@ async function fetchLeaderboards(chainId: number, _timeRange: TimeRange): Promis
     } catch {}
   }
 
-  // Sort and take top 10
-  const topRepos = Array.from(repoCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 10)
-    .map(([name, count], i) => ({ rank: i + 1, name, count }));
-
-  const topAccounts = Array.from(accountCounts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 10)
-    .map(([name, count], i) => ({ rank: i + 1, name, count }));
+  // Count reviews by reviewer (normalized to username)
+  const reviewerCounts = new Map<string, number>();
+  for (const att of reviews) {
+    try {
+      const decoded = JSON.parse(att.decodedDataJson);
+      const recipient = att.recipient?.toLowerCase();
+      const username = addressToUsername.get(recipient) ||
+        decoded.find((d: any) => d.name === 'reviewer')?.value?.value ||
+        'unknown';
+      reviewerCounts.set(username, (reviewerCounts.get(username) || 0) + 1);
+    } catch {}
+  }
 
-  return { topRepos, topAccounts };
+  // Sort and take top 10
+  return {
+    topRepos: topEntries(repoCounts),
+    topAccounts: topEntries(accountCounts),
+    topReviewers: topEntries(reviewerCounts)
+  };
 }
 
 const RankBadge: React.FC<{ rank: number }> = ({ rank }) => {
@@ -169,7 +201,8 @@ const LeaderboardTable: React.FC<{
   loading: boolean;
   icon: React.ReactNode;
   nameLabel: string;
-}> = ({ data, loading, icon, nameLabel }) => {
+  countLabel?: string;
+}> = ({ data, loading, icon, nameLabel, countLabel = 'Commits' }) => {
   if (loading) {
     return (
       <Box sx={{ p: 2 }}>
@@ -205,7 +238,7 @@ const LeaderboardTable: React.FC<{
               </Box>
             </TableCell>
             <TableCell align="right" sx={{ color: 'rgba(255,255,255,0.5)', borderColor: 'rgba(255,255,255,0.1)', width: 80 }}>
-              Commits
+              {countLabel}
             </TableCell>
           </TableRow>
         </TableHead>
@@ -256,6 +289,7 @@ export const Leaderboards: React.FC = () => {
   const [data, setData] = useState<LeaderboardData>({
     topRepos: [],
     topAccounts: [],
+    topReviewers: [],
     loading: true,
     error: null
   });
@@ -263,10 +297,11 @@ export const Leaderboards: React.FC = () => {
   const [tab, setTab] = useState(0);
 
   const config = appConfig();
+  const showReviews = !!config.REVIEW_SCHEMA_UID;
 
   useEffect(() => {
     setData(prev => ({ ...prev, loading: true }));
-    fetchLeaderboards(config.CHAIN_ID, timeRange)
+    fetchLeaderboards(config.CHAIN_ID, timeRange, config.REVIEW_SCHEMA_UID)
       .then((result) => {
         setData({
           ...result,
@@ -282,7 +317,7 @@ export const Leaderboards: React.FC = () => {
           error: err.message
         }));
       });
-  }, [config.CHAIN_ID, timeRange]);
+  }, [config.CHAIN_ID, config.REVIEW_SCHEMA_UID, timeRange]);
 
   return (
     <Paper 
@@ -366,6 +401,14 @@ export const Leaderboards: React.FC = () => {
           label="Top Contributors" 
           sx={{ minHeight: 48 }}
         />
+        {showReviews && (
+          <Tab 
+            icon={<RateReview sx={{ fontSize: 18 }} />} 
+            iconPosition="start" 
+            label="Top Reviewers" 
+            sx={{ minHeight: 48 }}
+          />
+        )}
       </Tabs>
 
       {/* Content */}
@@ -386,6 +429,15 @@ export const Leaderboards: React.FC = () => {
             nameLabel="Contributor"
           />
         )}
+        {tab === 2 && showReviews && (
+          <LeaderboardTable
+            data={data.topReviewers}
+            loading={data.loading}
+            icon={<RateReview sx={{ fontSize: 16, color: 'rgba(255,255,255,0.5)' }} />}
+            nameLabel="Reviewer"
+            countLabel="Reviews"
+          />
+        )}
       </Box>
 
       {data.error && (
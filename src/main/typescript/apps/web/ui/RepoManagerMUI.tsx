@@ -24,11 +24,13 @@ import {
   Tooltip,
   LinearProgress,
 } from '@mui/material';
-import { Settings, Add, Info, Visibility, List, Refresh, HelpOutline, Code } from '@mui/icons-material';
+import { Settings, Add, Info, Visibility, List, Refresh, HelpOutline, Code, History } from '@mui/icons-material';
 import { z } from 'zod';
 import { useWallet } from '../wallet/WalletContext';
 import { useGithubAuth } from '../auth/useGithub';
 import { appConfig } from '../utils/config';
+import { getChainConfig } from '../utils/chain-config';
+import { fetchRepoGlobHistory, type RepoGlobHistory } from '../utils/repoGlobHistory';
 // For now, let's inline the types and ABI until the package system is properly set up
 interface RepositoryPattern {
   namespace: string;
@@ -105,11 +107,13 @@ interface RepoPatternForm {
 interface RepoManagerMUIProps {
   domain?: string;
   username?: string;
+  identityUid?: string;   // identity attestation the REPO_GLOBS attestations reference
 }
 
 export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
   domain = 'github.com',
-  username
+  username,
+  identityUid
 }) => {
   const { address, smartAddress, connected, getWalletClient } = useWallet();
   const { user } = useGithubAuth();
@@ -123,7 +127,7 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
   });
 
   // View state
-  const [viewMode, setViewMode] = useState<'set' | 'list'>('set');
+  const [viewMode, setViewMode] = useState<'set' | 'list' | 'history'>('set');
   const [existingPatterns, setExistingPatterns] = useState<RepositoryPattern[]>([]);
   const [errors, setErrors] = useState<Partial<RepoPatternForm>>({});
 
@@ -134,6 +138,9 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
   const [txHash, setTxHash] = useState<Hex | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [autoLoadTriggered, setAutoLoadTriggered] = useState(false);
+  const [globHistory, setGlobHistory] = useState<RepoGlobHistory | null>(null);
+  const [busyHistory, setBusyHistory] = useState(false);
+  const chainCfg = useMemo(() => getChainConfig(), []);
 
   const resolverAddress = cfg.RESOLVER_ADDRESS as `0x${string}` | undefined;
   const resolverReady = !!resolverAddress;
@@ -151,6 +158,9 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
     if (viewMode === 'set') {
       setAutoLoadTriggered(false);
     }
+    if (viewMode === 'history' && !globHistory && !busyHistory) {
+      loadGlobHistory();
+    }
   }, [viewMode, connected, resolverAddress, effectiveDomain, effectiveUsername]);
 
   const publicClient = useMemo(() => {
@@ -222,6 +232,20 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
     }
   };
 
+  const loadGlobHistory = async () => {
+    if (!identityUid || !chainCfg.schemaUids.repoGlobs) return;
+
+    try {
+      setBusyHistory(true);
+      setError(null);
+      setGlobHistory(await fetchRepoGlobHistory(chainCfg.easGraphql, chainCfg.schemaUids.repoGlobs, identityUid));
+    } catch (e) {
+      setError((e as Error).message ?? 'Failed to load repo glob history');
+    } finally {
+      setBusyHistory(false);
+    }
+  };
+
   const setRepoPattern = async () => {
     setError(null);
     setSuccess(null);
@@ -281,7 +305,7 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
     setTxHash(null);
   };
 
-  const isLoading = busySet || busyLoad;
+  const isLoading = busySet || busyLoad || busyHistory;
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -332,6 +356,14 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
               iconPosition="start"
               sx={{ textTransform: 'none', fontWeight: 500 }}
             />
+            <Tab
+              value="history"
+              label="Glob History"
+              icon={<History />}
+              iconPosition="start"
+              disabled={!identityUid}
+              sx={{ textTransform: 'none', fontWeight: 500 }}
+            />
           </Tabs>
         </Box>
 
@@ -580,6 +612,93 @@ export const RepoManagerMUI: React.FC<RepoManagerMUIProps> = ({
           </Box>
         )}
 
+        {/* Glob History Tab */}
+        {viewMode === 'history' && (
+          <Box sx={{ p: 3 }}>
+            <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+              <Typography variant="h6">
+                Repo Glob History
+                {globHistory?.current && (
+                  <Chip label={`${globHistory.current.globs.length} in effect`} size="small" sx={{ ml: 2 }} />
+                )}
+              </Typography>
+              <Button
+                variant="outlined"
+                startIcon={busyHistory ? <CircularProgress size={20} /> : <Refresh />}
+                onClick={loadGlobHistory}
+                disabled={busyHistory || !chainCfg.schemaUids.repoGlobs}
+                size="small"
+              >
+                {busyHistory ? 'Loading...' : 'Refresh'}
+              </Button>
+            </Stack>
+
+            {!chainCfg.schemaUids.repoGlobs && (
+              <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+                REPO_GLOBS schema UID is not configured. Add VITE_{chainCfg.name.toUpperCase()}_REPO_GLOBS_SCHEMA_UID to environment variables.
+              </Alert>
+            )}
+
+            {globHistory && globHistory.changes.length > 0 && (
+              <Stack spacing={2}>
+                {[...globHistory.changes].reverse().map((change) => {
+                  const isCurrent = change.kind === 'attested' && globHistory.current?.uid === change.uid;
+                  return (
+                    <Paper
+                      key={`${change.kind}-${change.uid}`}
+                      variant="outlined"
+                      sx={{ p: 2, borderColor: isCurrent ? 'success.main' : 'divider', borderWidth: isCurrent ? 2 : 1 }}
+                    >
+                      <Box display="flex" justifyContent="space-between" alignItems="center" gap={2} mb={1}>
+                        <Box display="flex" alignItems="center" gap={1}>
+                          <Chip
+                            label={change.kind === 'attested' ? 'Attested' : 'Revoked'}
+                            color={change.kind === 'attested' ? 'primary' : 'warning'}
+                            size="small"
+                          />
+                          {isCurrent && <Chip label="In effect" color="success" size="small" />}
+                          <Typography variant="body2" color="text.secondary">
+                            {new Date(change.time * 1000).toLocaleString()}
+                          </Typography>
+                        </Box>
+                        <Button
+                          variant="text"
+                          size="small"
+                          href={`${chainCfg.explorers.easAttestation}/${change.uid}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          sx={{ p: 0, textTransform: 'none', fontFamily: 'monospace' }}
+                        >
+                          {change.uid.slice(0, 10)}…{change.uid.slice(-6)}
+                        </Button>
+                      </Box>
+                      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+                        {change.added.map((glob) => (
+                          <Chip key={`+${glob}`} label={`+ ${glob}`} color="success" variant="outlined" size="small" sx={{ fontFamily: 'monospace' }} />
+                        ))}
+                        {change.removed.map((glob) => (
+                          <Chip key={`-${glob}`} label={`− ${glob}`} color="error" variant="outlined" size="small" sx={{ fontFamily: 'monospace' }} />
+                        ))}
+                        {change.added.length === 0 && change.removed.length === 0 && (
+                          <Typography variant="body2" color="text.secondary">
+                            No change to the globs in effect (already superseded)
+                          </Typography>
+                        )}
+                      </Stack>
+                    </Paper>
+                  );
+                })}
+              </Stack>
+            )}
+
+            {globHistory && globHistory.changes.length === 0 && !busyHistory && (
+              <Alert severity="info" sx={{ borderRadius: 2 }}>
+                No repo globs registered for this identity yet; the attester watches {effectiveUsername}/* by default.
+              </Alert>
+            )}
+          </Box>
+        )}
+
         {/* Status Messages */}
         <Box sx={{ p: 3, pt: 0 }}>
           {!resolverReady && (
@@ -210,6 +210,7 @@ export const SettingsPage: React.FC = () => {
                   <RepoManagerMUI
                     domain={identity.domain}
                     username={identity.username}
+                    identityUid={identity.attestationUid}
                   />
                 </Box>
               </AccordionDetails>
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Paper, Typography, Box, Skeleton, Chip, Grid } from '@mui/material';
-import { VerifiedUser, TrendingUp, GitHub, Code, FolderSpecial } from '@mui/icons-material';
+import { VerifiedUser, TrendingUp, GitHub, Code, FolderSpecial, RateReview } from '@mui/icons-material';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { appConfig } from '../utils/config';
 import { ChartDataPoint, fetchStats } from '../utils/easStats';
@@ -8,9 +8,11 @@ import { ChartDataPoint, fetchStats } from '../utils/easStats';
 type Stats = {
   totalIdentities: number;
   totalCommits: number;
+  totalReviews: number;
   totalRepos: number;
   identityChart: ChartDataPoint[];
   commitsChart: ChartDataPoint[];
+  reviewsChart: ChartDataPoint[];
   loading: boolean;
   error: string | null;
 };
@@ -80,9 +82,11 @@ export const StatsCard: React.FC = () => {
   const [stats, setStats] = useState<Stats>({
     totalIdentities: 0,
     totalCommits: 0,
+    totalReviews: 0,
     totalRepos: 0,
     identityChart: [],
     commitsChart: [],
+    reviewsChart: [],
     loading: true,
     error: null
   });
@@ -90,7 +94,7 @@ export const StatsCard: React.FC = () => {
   const config = appConfig();
 
   useEffect(() => {
-    fetchStats(config.CHAIN_ID, IDENTITY_SCHEMA_UID, CONTRIBUTION_SCHEMA_UID)
+    fetchStats(config.CHAIN_ID, IDENTITY_SCHEMA_UID, CONTRIBUTION_SCHEMA_UID, fetch, config.REVIEW_SCHEMA_UID)
       .then((data) => {
         setStats({
           ...data,
@@ -106,9 +110,11 @@ export const StatsCard: React.FC = () => {
           error: err.message
         }));
       });
-  }, [config.CHAIN_ID]);
+  }, [config.CHAIN_ID, config.REVIEW_SCHEMA_UID]);
 
   const isTestnet = config.CHAIN_ID === 84532;
+  const showReviews = !!config.REVIEW_SCHEMA_UID;
+  const columns = showReviews ? 3 : 4;
 
   return (
     <Paper 
@@ -140,7 +146,7 @@ export const StatsCard: React.FC = () => {
 
       <Grid container spacing={3}>
         {/* Verified Identities */}
-        <Grid item xs={12} sm={4}>
+        <Grid item xs={12} sm={columns}>
           <StatBox
             icon={<VerifiedUser sx={{ color: '#00d4aa', fontSize: 32 }} />}
             value={stats.totalIdentities}
@@ -153,7 +159,7 @@ export const StatsCard: React.FC = () => {
         </Grid>
 
         {/* Commits Attested */}
-        <Grid item xs={12} sm={4}>
+        <Grid item xs={12} sm={columns}>
           <StatBox
             icon={<Code sx={{ color: '#6c5ce7', fontSize: 32 }} />}
             value={stats.totalCommits}
@@ -165,8 +171,23 @@ export const StatsCard: React.FC = () => {
           />
         </Grid>
 
+        {/* Reviews Attested */}
+        {showReviews && (
+          <Grid item xs={12} sm={columns}>
+            <StatBox
+              icon={<RateReview sx={{ color: '#e17055', fontSize: 32 }} />}
+              value={stats.totalReviews}
+              label="Reviews Attested"
+              loading={stats.loading}
+              error={!!stats.error}
+              chartData={stats.reviewsChart}
+              chartColor="#e17055"
+            />
+          </Grid>
+        )}
+
         {/* Unique Repos */}
-        <Grid item xs={12} sm={4}>
+        <Grid item xs={12} sm={columns}>
           <StatBox
             icon={<FolderSpecial sx={{ color: '#fdcb6e', fontSize: 32 }} />}
             value={stats.totalRepos}
@@ -4,6 +4,7 @@ type ChainConfig = {
   name: ChainKey;
   chainId: number;
   easAddress: string;
+  easGraphql: string;
   schemaUids: {
     identity: string;
     contribution: string;
@@ -22,6 +23,7 @@ const CHAINS: Record<ChainKey, ChainConfig> = {
     name: 'base',
     chainId: 8453,
     easAddress: import.meta.env.VITE_BASE_EAS_ADDRESS ?? '',
+    easGraphql: 'https://base.easscan.org/graphql',
     schemaUids: {
       identity: import.meta.env.VITE_BASE_IDENTITY_SCHEMA_UID ?? '',
       contribution: import.meta.env.VITE_BASE_CONTRIBUTION_SCHEMA_UID ?? '',
@@ -38,6 +40,7 @@ const CHAINS: Record<ChainKey, ChainConfig> = {
     name: 'arbitrum',
     chainId: 42161,
     easAddress: import.meta.env.VITE_ARBITRUM_EAS_ADDRESS ?? '',
+    easGraphql: 'https://arbitrum.easscan.org/graphql',
     schemaUids: {
       identity: import.meta.env.VITE_ARBITRUM_IDENTITY_SCHEMA_UID ?? '',
       contribution: import.meta.env.VITE_ARBITRUM_CONTRIBUTION_SCHEMA_UID ?? '',
@@ -13,6 +13,10 @@ const envSchema = z.object({
   VITE_ZERODEV_BUNDLER_RPC: z.string().url().optional(),
   VITE_RESOLVER_ADDRESS: z.string().optional(),
   VITE_STANDALONE_ATTESTOR_ADDRESS: z.string().optional(),
+  // Optional REVIEW schema (PR review attestations)
+  VITE_REVIEW_SCHEMA_UID: z.string().startsWith('0x').length(66).optional(),
+  // Optional attester status API (Kernel funding / blocked contributions)
+  VITE_ATTESTER_API_URL: z.string().url().optional(),
 });
 
 export function appConfig() {
@@ -23,6 +27,8 @@ export function appConfig() {
       EAS_SCHEMA_UID: '0x7e4a502d6e04b8ff7a80ac8b852c8b53199fe297ddf092a63fffb2a5a062b1b7',
       EAS_ADDRESS: (import.meta as any).env.VITE_EAS_ADDRESS ?? (import.meta as any).env.VITE_EAS_BASE_SEPOLIA_ADDRESS ?? undefined,
       ZERODEV_PROJECT_ID: (import.meta as any).env.VITE_ZERODEV_PROJECT_ID ?? undefined,
+      REVIEW_SCHEMA_UID: (import.meta as any).env.VITE_REVIEW_SCHEMA_UID ?? undefined,
+      ATTESTER_API_URL: (import.meta as any).env.VITE_ATTESTER_API_URL ?? undefined,
     } as const;
   }
 
@@ -40,5 +46,7 @@ export function appConfig() {
     ZERODEV_BUNDLER_RPC: parsed.data.VITE_ZERODEV_BUNDLER_RPC,
     RESOLVER_ADDRESS: parsed.data.VITE_RESOLVER_ADDRESS,
     STANDALONE_ATTESTOR_ADDRESS: parsed.data.VITE_STANDALONE_ATTESTOR_ADDRESS,
+    REVIEW_SCHEMA_UID: parsed.data.VITE_REVIEW_SCHEMA_UID,
+    ATTESTER_API_URL: parsed.data.VITE_ATTESTER_API_URL,
   } as const;
 }
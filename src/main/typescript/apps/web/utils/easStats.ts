@@ -12,9 +12,11 @@ type Attestation = {
 type Stats = {
   totalIdentities: number;
   totalCommits: number;
+  totalReviews: number;
   totalRepos: number;
   identityChart: ChartDataPoint[];
   commitsChart: ChartDataPoint[];
+  reviewsChart: ChartDataPoint[];
 };
 
 const DEFAULT_TAKE = 100;
@@ -95,13 +97,16 @@ export async function fetchStats(
   chainId: number,
   identitySchemaUid: string,
   contributionSchemaUid: string,
-  fetchFn: typeof fetch = fetch
+  fetchFn: typeof fetch = fetch,
+  reviewSchemaUid?: string
 ): Promise<Stats> {
   const endpoint = getEasGraphqlEndpoint(chainId);
 
-  const [identities, contributions] = await Promise.all([
+  // Reviews are counted separately from commits; skipped when no review schema is configured
+  const [identities, contributions, reviews] = await Promise.all([
     fetchAllAttestations(endpoint, identitySchemaUid, fetchFn),
-    fetchAllAttestations(endpoint, contributionSchemaUid, fetchFn)
+    fetchAllAttestations(endpoint, contributionSchemaUid, fetchFn),
+    reviewSchemaUid ? fetchAllAttestations(endpoint, reviewSchemaUid, fetchFn) : Promise.resolve([])
   ]);
 
   const seenUsernames = new Map<string, { time: number }>();
@@ -140,13 +145,16 @@ export async function fetchStats(
   );
 
   const commitsChart = buildCumulativeChart(commitTimes);
+  const reviewsChart = buildCumulativeChart(reviews.map((att) => att.time));
 
   return {
     totalIdentities: seenUsernames.size,
     totalCommits: contributions.length,
+    totalReviews: reviews.length,
     totalRepos: uniqueRepos.size,
     identityChart,
-    commitsChart
+    commitsChart,
+    reviewsChart
   };
 }
 
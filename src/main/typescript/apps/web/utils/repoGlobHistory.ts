@@ -0,0 +1,139 @@
+/**
+ * Timeline of a user's REPO_GLOBS attestations (same rules as backend/src/repo-glob-history.ts):
+ * the newest non-revoked attestation is in effect, and revoking it brings back the one before.
+ */
+export type RepoGlobsAttestation = {
+  id: string;
+  refUID?: string;
+  decodedDataJson: string;
+  timeCreated?: number;
+  revoked?: boolean;
+  revocationTime?: number;
+};
+
+export type RepoGlobChange = {
+  kind: 'attested' | 'revoked';
+  uid: string;
+  time: number;
+  globs: string[];
+  added: string[];
+  removed: string[];
+};
+
+export type RepoGlobHistory = {
+  current: { uid: string; globs: string[] } | null;
+  changes: RepoGlobChange[];
+};
+
+type Version = { uid: string; globs: string[]; timeCreated: number; revokedAt?: number };
+
+/**
+ * Split the comma-joined schema value, keeping commas inside `{a,b}`.
+ */
+export function splitRepoGlobs(value: string): string[] {
+  const globs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of value) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      globs.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  globs.push(current);
+  return globs.map((g) => g.trim()).filter(Boolean);
+}
+
+function decodeGlobs(decodedDataJson: string): string[] {
+  try {
+    const decoded = JSON.parse(decodedDataJson);
+    if (!Array.isArray(decoded)) return [];
+    const field = decoded.find((d: any) => d?.name === 'repoGlobs') || decoded.find((d: any) => d?.name === 'pattern');
+    const value = field?.value?.value;
+    return typeof value === 'string' ? splitRepoGlobs(value) : [];
+  } catch {
+    return [];
+  }
+}
+
+function newerFirst(a: Version, b: Version): number {
+  return b.timeCreated - a.timeCreated || (b.uid > a.uid ? 1 : b.uid < a.uid ? -1 : 0);
+}
+
+export function buildRepoGlobHistory(attestations: RepoGlobsAttestation[]): RepoGlobHistory {
+  const versions: Version[] = [];
+  for (const att of attestations) {
+    const globs = decodeGlobs(att.decodedDataJson);
+    if (globs.length === 0) continue;
+    const timeCreated = Number(att.timeCreated ?? 0);
+    const revokedAt = Number(att.revocationTime ?? 0) > 0 ? Number(att.revocationTime) : att.revoked ? timeCreated : undefined;
+    versions.push({ uid: att.id.toLowerCase(), globs, timeCreated, revokedAt });
+  }
+
+  const events = versions.flatMap((v) => [
+    { kind: 'attested' as const, time: v.timeCreated, version: v },
+    ...(v.revokedAt !== undefined ? [{ kind: 'revoked' as const, time: v.revokedAt, version: v }] : [])
+  ]);
+  events.sort((a, b) => a.time - b.time || (a.kind === b.kind ? -newerFirst(a.version, b.version) : a.kind === 'attested' ? -1 : 1));
+
+  const live = new Set<Version>();
+  const effective = () => [...live].sort(newerFirst)[0] ?? null;
+  const changes: RepoGlobChange[] = [];
+  for (const event of events) {
+    const before = effective()?.globs ?? [];
+    if (event.kind === 'attested') live.add(event.version);
+    else live.delete(event.version);
+    const globs = effective()?.globs ?? [];
+    changes.push({
+      kind: event.kind,
+      uid: event.version.uid,
+      time: event.time,
+      globs,
+      added: globs.filter((g) => !before.includes(g)),
+      removed: before.filter((g) => !globs.includes(g))
+    });
+  }
+
+  const current = effective();
+  return { current: current && { uid: current.uid, globs: current.globs }, changes };
+}
+
+export async function fetchRepoGlobHistory(
+  endpoint: string,
+  schemaId: string,
+  identityUid: string,
+  fetchFn: typeof fetch = fetch
+): Promise<RepoGlobHistory> {
+  const query = `
+    query RepoGlobHistory($schemaId: String!, $refUID: String!) {
+      attestations(
+        where: { schemaId: { equals: $schemaId }, refUID: { equals: $refUID } }
+        orderBy: { timeCreated: asc }
+      ) {
+        id
+        refUID
+        decodedDataJson
+        timeCreated
+        revoked
+        revocationTime
+      }
+    }
+  `;
+
+  const response = await fetchFn(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables: { schemaId, refUID: identityUid.toLowerCase() } })
+  });
+
+  if (!response.ok) {
+    throw new Error(`EAS API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return buildRepoGlobHistory(data?.data?.attestations ?? []);
+}
@@ -0,0 +1,122 @@
+import { isAddressEqual, verifyMessage, type Address, type Hex } from 'viem';
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { MIN_KV_TTL_SECONDS, type KeyValueStore } from './kv';
+
+/**
+ * Request authentication for the permission worker.
+ *
+ * Browsers and CLIs sign an EIP-4361 (SIWE) message with `userEOA` and send it as
+ * `siwe: { message, signature }` in the JSON body. The message must name this worker's
+ * domain (or one listed in SIWE_DOMAINS) and chain, carry a nonce, and expire within
+ * MAX_AUTH_TTL_SECONDS. Each nonce is accepted once per route, so one signature can cover
+ * `/prepare` and `/complete` of the same flow but cannot be replayed. Used nonces are kept
+ * in a KeyValueStore until the message expires.
+ *
+ * Server-to-server callers can still send `x-api-key` (the API_KEY secret) instead.
+ */
+
+export const MAX_AUTH_TTL_SECONDS = 10 * 60;
+
+export type AuthRequest = {
+  apiKey: string | null;
+  expectedApiKey?: string;
+  siwe?: unknown;
+  userEOA: string;
+  route: string;
+  domains: string[];
+  chainId: number;
+  nonces: KeyValueStore;
+  now?: Date;
+};
+
+export type AuthResult =
+  | { ok: true; method: 'api-key' }
+  | { ok: true; method: 'siwe'; address: Address; nonce: string; commit: () => Promise<void> }
+  | { ok: false; error: string };
+
+function nonceKey(address: string, nonce: string, route: string) {
+  return `siwe:${address.toLowerCase()}:${nonce}:${route}`;
+}
+
+/**
+ * Domains a SIWE message may name: the worker's own host, the ALLOWED_ORIGIN host (the web
+ * app signs with its origin) and any extra comma-separated SIWE_DOMAINS.
+ */
+export function allowedSiweDomains(requestHost: string, allowedOrigin?: string, extra?: string): string[] {
+  const domains = new Set([requestHost]);
+  if (allowedOrigin && allowedOrigin !== '*') {
+    try {
+      domains.add(new URL(allowedOrigin).host);
+    } catch {
+      // not a URL; ignore
+    }
+  }
+  for (const domain of (extra || '').split(',')) {
+    if (domain.trim()) domains.add(domain.trim());
+  }
+  return [...domains];
+}
+
+/**
+ * Check a request's credentials. A successful SIWE check returns `commit`, which records the
+ * nonce as used; call it once the request has succeeded so failed requests can be retried.
+ */
+export async function authenticate(req: AuthRequest): Promise<AuthResult> {
+  if (req.apiKey !== null) {
+    if (req.expectedApiKey && req.apiKey === req.expectedApiKey) return { ok: true, method: 'api-key' };
+    return { ok: false, error: 'Invalid API key' };
+  }
+
+  const siwe = req.siwe as { message?: unknown; signature?: unknown } | undefined;
+  if (!siwe || typeof siwe.message !== 'string' || typeof siwe.signature !== 'string') {
+    return { ok: false, error: 'Unauthorized: send siwe { message, signature } signed by userEOA, or x-api-key' };
+  }
+  if (!req.userEOA.startsWith('0x') || req.userEOA.length !== 42) {
+    return { ok: false, error: 'userEOA required (0x-prefixed address)' };
+  }
+
+  const now = req.now ?? new Date();
+  const message = parseSiweMessage(siwe.message);
+  if (!message.address || !isAddressEqual(message.address, req.userEOA as Address)) {
+    return { ok: false, error: 'SIWE message is not signed for userEOA' };
+  }
+  if (!message.domain || !req.domains.includes(message.domain)) {
+    return { ok: false, error: `SIWE domain must be one of ${req.domains.join(', ')}` };
+  }
+  if (message.chainId !== req.chainId) {
+    return { ok: false, error: `SIWE chain ID must be ${req.chainId}` };
+  }
+  if (!message.nonce) {
+    return { ok: false, error: 'SIWE nonce required' };
+  }
+  if (!message.expirationTime) {
+    return { ok: false, error: 'SIWE expirationTime required' };
+  }
+  const ttlSeconds = Math.ceil((message.expirationTime.getTime() - now.getTime()) / 1000);
+  if (ttlSeconds > MAX_AUTH_TTL_SECONDS) {
+    return { ok: false, error: `SIWE expirationTime must be within ${MAX_AUTH_TTL_SECONDS} seconds` };
+  }
+  if (!validateSiweMessage({ message, address: req.userEOA as Address, time: now })) {
+    return { ok: false, error: 'SIWE message expired or not yet valid' };
+  }
+
+  const valid = await verifyMessage({
+    address: req.userEOA as Address,
+    message: siwe.message,
+    signature: siwe.signature as Hex
+  }).catch(() => false);
+  if (!valid) return { ok: false, error: 'Invalid SIWE signature' };
+
+  const key = nonceKey(message.address, message.nonce, req.route);
+  if (await req.nonces.get(key)) {
+    return { ok: false, error: 'SIWE nonce already used' };
+  }
+
+  return {
+    ok: true,
+    method: 'siwe',
+    address: message.address,
+    nonce: message.nonce,
+    commit: () => req.nonces.put(key, '1', { expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL_SECONDS) })
+  };
+}
@@ -0,0 +1,69 @@
+import { pad, type Address, type Hex } from 'viem';
+import { toCallPolicy, CallPolicyVersion, ParamCondition } from '@zerodev/permissions/policies';
+
+export const ATTEST_SELECTOR = '0xf17325e7';
+
+// attest((bytes32 schema, (...) data)): the request tuple is dynamic (it holds `bytes data`),
+// so the arguments start with the offset of the tuple and the schema is the tuple's first word.
+const REQUEST_OFFSET = 0;
+const SCHEMA_OFFSET = 32;
+const TUPLE_HEAD = pad('0x20', { size: 32 });
+
+// Same shape as the call policy's ParamRule: the 32-byte argument word at `offset` (after the selector)
+export type ArgumentRule = {
+  condition: ParamCondition;
+  offset: number;
+  params: Hex[];
+};
+
+export type SchemaChainConfig = {
+  contributionSchemaUid: string;
+  pullRequestSchemaUid?: string;
+  reviewSchemaUid?: string;
+};
+
+/**
+ * Schemas the attester may attest to from a user's Kernel: contributions always, PRs and
+ * reviews when configured for the chain.
+ */
+export function allowedSchemaUids(config: SchemaChainConfig): Hex[] {
+  const uids = [config.contributionSchemaUid, config.pullRequestSchemaUid, config.reviewSchemaUid]
+    .filter((uid): uid is string => !!uid)
+    .map((uid) => uid.toLowerCase() as Hex);
+  for (const uid of uids) {
+    if (!/^0x[0-9a-f]{64}$/.test(uid)) throw new Error(`Server misconfigured: schema UID ${uid} must be 32-byte hex`);
+  }
+  return [...new Set(uids)];
+}
+
+/**
+ * Argument rules pinning `attest` to the allowed schemas. The tuple offset is pinned too:
+ * otherwise a call could point the decoder at a second tuple with another schema while the
+ * word the rule checks still holds an allowed one.
+ */
+export function attestSchemaRules(schemaUids: Hex[]): ArgumentRule[] {
+  if (schemaUids.length === 0) throw new Error('At least one schema UID is required');
+  return [
+    { condition: ParamCondition.EQUAL, offset: REQUEST_OFFSET, params: [TUPLE_HEAD] },
+    schemaUids.length === 1
+      ? { condition: ParamCondition.EQUAL, offset: SCHEMA_OFFSET, params: [schemaUids[0]] }
+      : { condition: ParamCondition.ONE_OF, offset: SCHEMA_OFFSET, params: schemaUids }
+  ];
+}
+
+/**
+ * Call policy for the attester session key: EAS `attest`, no value, allowed schemas only.
+ */
+export function toAttestCallPolicy(easAddress: Address, schemaUids: Hex[]) {
+  return toCallPolicy({
+    policyVersion: CallPolicyVersion.V0_0_4,
+    permissions: [
+      {
+        target: easAddress,
+        selector: ATTEST_SELECTOR,
+        valueLimit: BigInt(0),
+        rules: attestSchemaRules(schemaUids)
+      }
+    ]
+  });
+}
@@ -1,18 +1,41 @@
-import { createPublicClient, http, encodeAbiParameters, parseAbiParameters } from 'viem';
-import { privateKeyToAccount, toAccount, type Address, type Hex } from 'viem/accounts';
+import {
+  createPublicClient,
+  http,
+  concatHex,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  encodeFunctionData,
+  hexToString,
+  pad,
+  parseAbi,
+  parseAbiParameters,
+  parseSignature,
+  type Chain,
+  type Hex
+} from 'viem';
+import { privateKeyToAccount, toAccount, type Address, type LocalAccount } from 'viem/accounts';
 import { base, arbitrum } from 'viem/chains';
-import { createKernelAccount } from '@zerodev/sdk';
+import { createKernelAccount, KernelV3AccountAbi } from '@zerodev/sdk';
 import { signerToEcdsaValidator } from '@zerodev/ecdsa-validator';
-import { toPermissionValidator, serializePermissionAccount } from '@zerodev/permissions';
-import { toCallPolicy, CallPolicyVersion } from '@zerodev/permissions/policies';
+import { toPermissionValidator, serializePermissionAccount, deserializePermissionAccount } from '@zerodev/permissions';
+import { toGasPolicy, toRateLimitPolicy, toTimestampPolicy } from '@zerodev/permissions/policies';
 import { toECDSASigner } from '@zerodev/permissions/signers';
-import { KERNEL_V3_1, getEntryPoint } from '@zerodev/sdk/constants';
+import { KERNEL_V3_1, VALIDATOR_TYPE, getEntryPoint } from '@zerodev/sdk/constants';
+import { ATTEST_SELECTOR, allowedSchemaUids, toAttestCallPolicy } from './call-policy';
+import { allowedSiweDomains, authenticate } from './auth';
+import { MemoryKeyValueStore, type KeyValueStore } from './kv';
+import { TokenBucketLimiter, readPerMinute, type RateLimitResult } from './rate-limit';
 
 type Env = {
   ATTESTER_PRIVKEY?: string;
   VERIFIER_PRIVKEY?: string; // legacy
-  API_KEY: string;
+  API_KEY?: string; // server-to-server callers; others sign in with SIWE
   ALLOWED_ORIGIN?: string;
+  SIWE_DOMAINS?: string;
+  AUTH_NONCES?: KeyValueStore;
+  RATE_LIMITS?: KeyValueStore;
+  RATE_LIMIT_IP_PER_MINUTE?: string;
+  RATE_LIMIT_USER_PER_MINUTE?: string;
   CHAIN?: string;
   BASE_RPC_URL?: string;
   ARBITRUM_RPC_URL?: string;
@@ -20,13 +43,28 @@ type Env = {
   ARBITRUM_EAS_ADDRESS?: string;
   BASE_PERMISSION_SCHEMA_UID?: string;
   ARBITRUM_PERMISSION_SCHEMA_UID?: string;
+  BASE_CONTRIBUTION_SCHEMA_UID?: string;
+  ARBITRUM_CONTRIBUTION_SCHEMA_UID?: string;
+  BASE_PULL_REQUEST_SCHEMA_UID?: string;
+  ARBITRUM_PULL_REQUEST_SCHEMA_UID?: string;
+  BASE_REVIEW_SCHEMA_UID?: string;
+  ARBITRUM_REVIEW_SCHEMA_UID?: string;
 };
 
-const ATTEST_SELECTOR = '0xf17325e7';
+const PERMISSION_DATA_PARAMS = parseAbiParameters('address, address, address, bytes4, bytes');
+const REVOKE_TTL_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const easAbi = parseAbi([
+  'function getAttestation(bytes32 uid) view returns ((bytes32 uid, bytes32 schema, uint64 time, uint64 expirationTime, uint64 revocationTime, bytes32 refUID, address recipient, address attester, bool revocable, bytes data))',
+  'function getNonce(address account) view returns (uint256)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function revokeByDelegation((bytes32 schema, (bytes32 uid, uint256 value) data, (uint8 v, bytes32 r, bytes32 s) signature, address revoker, uint64 deadline) delegatedRequest) payable'
+]);
 
 type ChainKey = 'base' | 'arbitrum';
 
-function envOrThrow(env: Env, key: keyof Env): string {
+function envOrThrow(env: Env, key: Exclude<keyof Env, 'AUTH_NONCES' | 'RATE_LIMITS'>): string {
   const value = env[key];
   if (!value) {
     throw new Error(`Server misconfigured: ${String(key)} missing`);
@@ -42,7 +80,12 @@ function getChainConfig(env: Env) {
       chain: base,
       rpcUrl: env.BASE_RPC_URL || 'https://base.api.pocket.network',
       easAddress: envOrThrow(env, 'BASE_EAS_ADDRESS'),
-      permissionSchemaUid: envOrThrow(env, 'BASE_PERMISSION_SCHEMA_UID')
+      permissionSchemaUid: envOrThrow(env, 'BASE_PERMISSION_SCHEMA_UID'),
+      schemaUids: allowedSchemaUids({
+        contributionSchemaUid: envOrThrow(env, 'BASE_CONTRIBUTION_SCHEMA_UID'),
+        pullRequestSchemaUid: env.BASE_PULL_REQUEST_SCHEMA_UID,
+        reviewSchemaUid: env.BASE_REVIEW_SCHEMA_UID
+      })
     };
   }
   if (key === 'arbitrum') {
@@ -51,24 +94,37 @@ function getChainConfig(env: Env) {
       chain: arbitrum,
       rpcUrl: env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
       easAddress: envOrThrow(env, 'ARBITRUM_EAS_ADDRESS'),
-      permissionSchemaUid: envOrThrow(env, 'ARBITRUM_PERMISSION_SCHEMA_UID')
+      permissionSchemaUid: envOrThrow(env, 'ARBITRUM_PERMISSION_SCHEMA_UID'),
+      schemaUids: allowedSchemaUids({
+        contributionSchemaUid: envOrThrow(env, 'ARBITRUM_CONTRIBUTION_SCHEMA_UID'),
+        pullRequestSchemaUid: env.ARBITRUM_PULL_REQUEST_SCHEMA_UID,
+        reviewSchemaUid: env.ARBITRUM_REVIEW_SCHEMA_UID
+      })
     };
   }
   throw new Error(`Server misconfigured: Unknown CHAIN ${key}`);
 }
 
-function json(body: unknown, status = 200, origin = '*') {
+function json(body: unknown, status = 200, origin = '*', extraHeaders: Record<string, string> = {}) {
   return new Response(JSON.stringify(body, null, 2), {
     status,
     headers: {
       'content-type': 'application/json',
       'access-control-allow-origin': origin,
       'access-control-allow-headers': 'content-type, x-api-key',
-      'access-control-allow-methods': 'POST, OPTIONS'
+      'access-control-allow-methods': 'POST, OPTIONS',
+      ...extraHeaders
     }
   });
 }
 
+function tooManyRequests(limit: RateLimitResult, origin: string) {
+  return json({ error: 'Too many requests', retryAfter: limit.retryAfterSeconds }, 429, origin, {
+    'retry-after': String(limit.retryAfterSeconds),
+    'access-control-expose-headers': 'retry-after'
+  });
+}
+
 function toHexUtf8(str: string): Hex {
   const bytes = new TextEncoder().encode(str);
   let hex = '0x';
@@ -80,18 +136,23 @@ function assert(cond: boolean, msg: string) {
   if (!cond) throw new Error(msg);
 }
 
-async function getKernelForUser(publicClient: ReturnType<typeof createPublicClient>, userEOA: Address) {
-  const entryPoint = getEntryPoint('0.7');
+type PublicClient = ReturnType<typeof createPublicClient>;
+type ChainConfig = ReturnType<typeof getChainConfig>;
 
-  const dummySigner = toAccount({
-    address: userEOA,
+function addressOnlyAccount(address: Address) {
+  return toAccount({
+    address,
     async signMessage() { throw new Error('signMessage not supported in worker'); },
     async signTypedData() { throw new Error('signTypedData not supported in worker'); },
     async signTransaction() { throw new Error('signTransaction not supported in worker'); }
   });
+}
+
+async function getKernelForUser(publicClient: PublicClient, userEOA: Address) {
+  const entryPoint = getEntryPoint('0.7');
 
   const ecdsaValidator = await signerToEcdsaValidator(publicClient, {
-    signer: dummySigner,
+    signer: addressOnlyAccount(userEOA),
     entryPoint,
     kernelVersion: KERNEL_V3_1
   });
@@ -105,157 +166,485 @@ async function getKernelForUser(publicClient: ReturnType<typeof createPublicClie
   return { kernelAccount, ecdsaValidator, entryPoint };
 }
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const origin = env.ALLOWED_ORIGIN || '*';
+/**
+ * Optional caps on what the attester may do with the permission. They become ZeroDev
+ * policies enforced on-chain, so /complete (and /rotate/complete) must receive the same
+ * values as the matching /prepare call.
+ */
+type PermissionLimits = {
+  validUntil?: number;            // unix seconds; timestamp policy
+  maxAttestationsPerDay?: number; // UserOps per 24h window; rate-limit policy
+  gasLimitWei?: string;           // total gas the permission may spend; gas policy
+};
 
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 204,
-        headers: {
-          'access-control-allow-origin': origin,
-          'access-control-allow-headers': 'content-type, x-api-key',
-          'access-control-allow-methods': 'POST, OPTIONS'
-        }
-      });
-    }
+function readPermissionLimits(body: any): PermissionLimits {
+  const limits: PermissionLimits = {};
+  if (body.validUntil !== undefined && body.validUntil !== null) {
+    const validUntil = Number(body.validUntil);
+    assert(Number.isInteger(validUntil) && validUntil > 0, 'validUntil must be a unix timestamp in seconds');
+    assert(validUntil > Math.floor(Date.now() / 1000), 'validUntil must be in the future');
+    limits.validUntil = validUntil;
+  }
+  if (body.maxAttestationsPerDay !== undefined && body.maxAttestationsPerDay !== null) {
+    const count = Number(body.maxAttestationsPerDay);
+    assert(Number.isInteger(count) && count > 0, 'maxAttestationsPerDay must be a positive integer');
+    limits.maxAttestationsPerDay = count;
+  }
+  if (body.gasLimitWei !== undefined && body.gasLimitWei !== null) {
+    const gasLimitWei = String(body.gasLimitWei).trim();
+    assert(/^[1-9][0-9]*$/.test(gasLimitWei), 'gasLimitWei must be a positive integer (wei)');
+    limits.gasLimitWei = gasLimitWei;
+  }
+  return limits;
+}
 
-    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405, origin);
+async function buildPermissionValidator(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  attesterAccount: LocalAccount,
+  limits: PermissionLimits = {}
+) {
+  const policies = [toAttestCallPolicy(chainConfig.easAddress as Address, chainConfig.schemaUids)];
+  if (limits.validUntil !== undefined) {
+    policies.push(toTimestampPolicy({ validUntil: limits.validUntil }));
+  }
+  if (limits.maxAttestationsPerDay !== undefined) {
+    policies.push(toRateLimitPolicy({ count: limits.maxAttestationsPerDay, interval: DAY_SECONDS }));
+  }
+  if (limits.gasLimitWei !== undefined) {
+    policies.push(toGasPolicy({ allowed: BigInt(limits.gasLimitWei) }));
+  }
 
-    const apiKey = request.headers.get('x-api-key');
-    if (!apiKey || apiKey !== env.API_KEY) {
-      return json({ error: 'Unauthorized' }, 401, origin);
+  const attesterSigner = await toECDSASigner({ signer: attesterAccount });
+
+  return toPermissionValidator(publicClient, {
+    signer: attesterSigner,
+    policies,
+    entryPoint: getEntryPoint('0.7'),
+    kernelVersion: KERNEL_V3_1
+  });
+}
+
+/**
+ * Read a PERMISSION attestation and check it belongs to this user's Kernel. The user's EOA
+ * must be its EAS attester: only the attester can sign the delegated revocation.
+ */
+async function getPermissionAttestation(publicClient: PublicClient, chainConfig: ChainConfig, uid: Hex, userEOA: Address, kernelAddress: Address) {
+  const attestation = await publicClient.readContract({
+    address: chainConfig.easAddress as Address,
+    abi: easAbi,
+    functionName: 'getAttestation',
+    args: [uid]
+  });
+  assert(attestation.uid.toLowerCase() === uid.toLowerCase(), 'permissionUid not found');
+  assert(attestation.schema.toLowerCase() === chainConfig.permissionSchemaUid.toLowerCase(), 'permissionUid is not a PERMISSION attestation');
+  assert(attestation.revocationTime === BigInt(0), 'permission already revoked');
+  assert(attestation.attester.toLowerCase() === userEOA.toLowerCase(), 'permission was not attested by userEOA');
+  assert(attestation.recipient.toLowerCase() === kernelAddress.toLowerCase(), 'permission is for another Kernel');
+
+  const [, sessionAttester, , , serializedHex] = decodeAbiParameters(PERMISSION_DATA_PARAMS, attestation.data);
+  return { attestation, sessionAttester, serialized: hexToString(serializedHex) };
+}
+
+/**
+ * Kernel call that uninstalls the permission validator recorded in a serialized permission
+ * (same encoding as `uninstallPlugin` in @zerodev/sdk, without sending the UserOp).
+ */
+async function getUninstallCall(publicClient: PublicClient, kernelAddress: Address, serialized: string) {
+  const account = await deserializePermissionAccount(publicClient, getEntryPoint('0.7'), KERNEL_V3_1, serialized);
+  const validator = account.kernelPluginManager.regularValidator;
+  assert(!!validator, 'serialized permission has no permission validator');
+  const permissionId = validator!.getIdentifier();
+  const validationId = concatHex([VALIDATOR_TYPE.PERMISSION, pad(permissionId, { size: 20, dir: 'right' })]);
+
+  return {
+    permissionId,
+    call: {
+      to: kernelAddress,
+      value: '0',
+      data: encodeFunctionData({
+        abi: KernelV3AccountAbi,
+        functionName: 'uninstallValidation',
+        args: [validationId, await validator!.getEnableData(kernelAddress), '0x']
+      })
     }
+  };
+}
 
-    let body: any;
-    try {
-      body = await request.json();
-    } catch {
-      return json({ error: 'Invalid JSON' }, 400, origin);
+/**
+ * EIP-712 typed data for an EAS delegated revocation, signed by the attestation's attester.
+ */
+async function getRevokeTypedData(publicClient: PublicClient, chainConfig: ChainConfig, revoker: Address, uid: Hex, deadline: number) {
+  const easAddress = chainConfig.easAddress as Address;
+  const [[, name, version, chainId, verifyingContract], nonce] = await Promise.all([
+    publicClient.readContract({ address: easAddress, abi: easAbi, functionName: 'eip712Domain' }),
+    publicClient.readContract({ address: easAddress, abi: easAbi, functionName: 'getNonce', args: [revoker] })
+  ]);
+
+  return {
+    domain: { name, version, chainId: Number(chainId), verifyingContract },
+    types: {
+      Revoke: [
+        { name: 'revoker', type: 'address' },
+        { name: 'schema', type: 'bytes32' },
+        { name: 'uid', type: 'bytes32' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint64' }
+      ]
+    },
+    primaryType: 'Revoke' as const,
+    message: {
+      revoker,
+      schema: chainConfig.permissionSchemaUid,
+      uid,
+      value: 0,
+      nonce: Number(nonce),
+      deadline
     }
+  };
+}
 
-    const url = new URL(request.url);
-    const path = url.pathname;
+function getRevokeCall(chainConfig: ChainConfig, revoker: Address, uid: Hex, deadline: number, revokeSignature: Hex) {
+  const { r, s, v, yParity } = parseSignature(revokeSignature);
+  return {
+    to: chainConfig.easAddress,
+    value: '0',
+    data: encodeFunctionData({
+      abi: easAbi,
+      functionName: 'revokeByDelegation',
+      args: [{
+        schema: chainConfig.permissionSchemaUid as Hex,
+        data: { uid, value: BigInt(0) },
+        signature: { v: Number(v ?? BigInt(yParity + 27)), r, s },
+        revoker,
+        deadline: BigInt(deadline)
+      }]
+    })
+  };
+}
 
-    try {
-      const attesterPrivKey = (env.ATTESTER_PRIVKEY || env.VERIFIER_PRIVKEY || '').trim();
-      assert(attesterPrivKey.startsWith('0x'), 'Server misconfigured: ATTESTER_PRIVKEY missing');
-      const chainConfig = getChainConfig(env);
+function readRevokeInput(body: any) {
+  const permissionUid = (body.permissionUid || '').trim() as Hex;
+  assert(/^0x[0-9a-fA-F]{64}$/.test(permissionUid), 'permissionUid required (32-byte hex)');
+  const deadline = body.deadline === undefined
+    ? Math.floor(Date.now() / 1000) + REVOKE_TTL_SECONDS
+    : Number(body.deadline);
+  assert(Number.isInteger(deadline) && deadline >= 0, 'deadline must be a unix timestamp in seconds');
+  return { permissionUid, deadline };
+}
 
-      const publicClient = createPublicClient({
-        chain: chainConfig.chain,
-        transport: http(chainConfig.rpcUrl)
-      });
+const ROUTES = ['/revoke/prepare', '/revoke/complete', '/rotate/prepare', '/rotate/complete', '/prepare', '/complete'];
 
-      const userEOA = (body.userEOA || '').trim() as Address;
-      const kernelAddressInput = (body.kernelAddress || '').trim().toLowerCase();
+// Without AUTH_NONCES / RATE_LIMITS bindings, nonces and buckets are only kept by this isolate
+const memoryNonces = new MemoryKeyValueStore();
+const memoryRateLimits = new MemoryKeyValueStore();
 
-      assert(userEOA?.startsWith('0x'), 'userEOA required (0x-prefixed address)');
+const DEFAULT_IP_PER_MINUTE = 30;
+const DEFAULT_USER_PER_MINUTE = 10;
 
-      const { kernelAccount, ecdsaValidator, entryPoint } = await getKernelForUser(publicClient, userEOA);
-      const computedKernel = kernelAccount.address.toLowerCase();
+function getRateLimiters(env: Env) {
+  const store = env.RATE_LIMITS || memoryRateLimits;
+  const ip = readPerMinute(env.RATE_LIMIT_IP_PER_MINUTE, DEFAULT_IP_PER_MINUTE);
+  const user = readPerMinute(env.RATE_LIMIT_USER_PER_MINUTE, DEFAULT_USER_PER_MINUTE);
+  return {
+    ip: ip && new TokenBucketLimiter(store, ip, 'rl:ip'),
+    user: user && new TokenBucketLimiter(store, user, 'rl:user')
+  };
+}
 
-      if (kernelAddressInput && kernelAddressInput !== computedKernel) {
-        return json(
-          { error: 'kernelAddress mismatch', computedKernel: kernelAccount.address },
-          400,
-          origin
-        );
-      }
+async function handlePost(request: Request, env: Env, body: any, origin: string): Promise<Response> {
+  const path = new URL(request.url).pathname;
 
-      const attesterAccount = privateKeyToAccount(attesterPrivKey as Hex);
+  try {
+    const attesterPrivKey = (env.ATTESTER_PRIVKEY || env.VERIFIER_PRIVKEY || '').trim();
+    assert(attesterPrivKey.startsWith('0x'), 'Server misconfigured: ATTESTER_PRIVKEY missing');
+    const chainConfig = getChainConfig(env);
 
-      const callPolicy = toCallPolicy({
-        policyVersion: CallPolicyVersion.V0_0_4,
-        permissions: [
-          {
-            target: chainConfig.easAddress as Address,
-            selector: ATTEST_SELECTOR,
-            valueLimit: BigInt(0)
-          }
-        ]
-      });
+    const publicClient: PublicClient = createPublicClient({
+      chain: chainConfig.chain as Chain,
+      transport: http(chainConfig.rpcUrl)
+    });
 
-      const attesterSigner = await toECDSASigner({ signer: attesterAccount });
+    const userEOA = (body.userEOA || '').trim() as Address;
+    const kernelAddressInput = (body.kernelAddress || '').trim().toLowerCase();
 
-      const permissionValidator = await toPermissionValidator(publicClient, {
-        signer: attesterSigner,
-        policies: [callPolicy],
-        entryPoint,
-        kernelVersion: KERNEL_V3_1
-      });
+    assert(userEOA?.startsWith('0x'), 'userEOA required (0x-prefixed address)');
 
-      if (path.endsWith('/prepare')) {
-        const typedData = await kernelAccount.kernelPluginManager.getPluginsEnableTypedData(
-          kernelAccount.address,
-          permissionValidator
-        );
+    const { kernelAccount, ecdsaValidator, entryPoint } = await getKernelForUser(publicClient, userEOA);
+    const computedKernel = kernelAccount.address.toLowerCase();
+
+    if (kernelAddressInput && kernelAddressInput !== computedKernel) {
+      return json(
+        { error: 'kernelAddress mismatch', computedKernel: kernelAccount.address },
+        400,
+        origin
+      );
+    }
 
+    const attesterAccount = privateKeyToAccount(attesterPrivKey as Hex);
+
+    // Revocation: uninstall the permission validator and revoke its PERMISSION attestation
+    if (path.endsWith('/revoke/prepare') || path.endsWith('/revoke/complete')) {
+      const { permissionUid, deadline } = readRevokeInput(body);
+      const { sessionAttester, serialized } = await getPermissionAttestation(
+        publicClient, chainConfig, permissionUid, userEOA, kernelAccount.address
+      );
+      const uninstall = await getUninstallCall(publicClient, kernelAccount.address, serialized);
+
+      if (path.endsWith('/revoke/prepare')) {
+        const typedData = await getRevokeTypedData(publicClient, chainConfig, userEOA, permissionUid, deadline);
         return json(
           {
             typedData,
+            deadline,
             kernelAddress: kernelAccount.address,
-            attester: attesterAccount.address,
-            verifier: attesterAccount.address,
-            target: chainConfig.easAddress,
-            selector: ATTEST_SELECTOR,
-            permissionSchemaUid: chainConfig.permissionSchemaUid
+            permissionUid,
+            permissionId: uninstall.permissionId,
+            attester: sessionAttester,
+            uninstallCall: uninstall.call
           },
           200,
           origin
         );
       }
 
-      if (path.endsWith('/complete')) {
-        const enableSignature = (body.enableSignature || '').trim() as Hex;
-        assert(enableSignature?.startsWith('0x'), 'enableSignature required (0x-prefixed)');
+      const revokeSignature = (body.revokeSignature || '').trim() as Hex;
+      assert(revokeSignature.startsWith('0x'), 'revokeSignature required (0x-prefixed)');
+      return json(
+        {
+          // One UserOp from the Kernel (sudo validator) executing both calls
+          calls: [uninstall.call, getRevokeCall(chainConfig, userEOA, permissionUid, deadline, revokeSignature)],
+          kernelAddress: kernelAccount.address,
+          permissionUid,
+          permissionId: uninstall.permissionId,
+          attester: sessionAttester
+        },
+        200,
+        origin
+      );
+    }
 
-        const kernelWithPermission = await createKernelAccount(publicClient, {
-          plugins: {
-            sudo: ecdsaValidator,
-            regular: permissionValidator
-          },
-          entryPoint,
-          kernelVersion: KERNEL_V3_1
-        });
-
-        const serialized = await serializePermissionAccount(
-          kernelWithPermission,
-          attesterPrivKey as Hex,
-          enableSignature
-        );
+    const limits = readPermissionLimits(body);
+    const permissionValidator = await buildPermissionValidator(publicClient, chainConfig, attesterAccount, limits);
+    // Attest permissionData with this EAS expirationTime (0 = never) so the service skips it once expired
+    const expirationTime = limits.validUntil ?? 0;
+
+    const completePermission = async (enableSignature: Hex) => {
+      const kernelWithPermission = await createKernelAccount(publicClient, {
+        plugins: {
+          sudo: ecdsaValidator,
+          regular: permissionValidator
+        },
+        entryPoint,
+        kernelVersion: KERNEL_V3_1
+      });
 
-        const serializedHex = toHexUtf8(serialized);
-
-        const permissionData = encodeAbiParameters(
-          parseAbiParameters('address, address, address, bytes4, bytes'),
-          [
-            kernelWithPermission.address,
-            attesterAccount.address,
-            chainConfig.easAddress,
-            ATTEST_SELECTOR,
-            serializedHex
-          ]
-        );
+      const serialized = await serializePermissionAccount(
+        kernelWithPermission,
+        attesterPrivKey as Hex,
+        enableSignature
+      );
+
+      const serializedHex = toHexUtf8(serialized);
+
+      const permissionData = encodeAbiParameters(PERMISSION_DATA_PARAMS, [
+        kernelWithPermission.address,
+        attesterAccount.address,
+        chainConfig.easAddress as Address,
+        ATTEST_SELECTOR,
+        serializedHex
+      ]);
 
+      return { permissionData, kernelAddress: kernelWithPermission.address };
+    };
+
+    // Rotation: re-issue the permission to the current attester and retire the previous one
+    if (path.endsWith('/rotate/prepare') || path.endsWith('/rotate/complete')) {
+      const { permissionUid, deadline } = readRevokeInput(body);
+      const { sessionAttester, serialized } = await getPermissionAttestation(
+        publicClient, chainConfig, permissionUid, userEOA, kernelAccount.address
+      );
+      assert(
+        sessionAttester.toLowerCase() !== attesterAccount.address.toLowerCase(),
+        'permission already uses the current attester'
+      );
+      const uninstall = await getUninstallCall(publicClient, kernelAccount.address, serialized);
+
+      if (path.endsWith('/rotate/prepare')) {
+        const [typedData, revokeTypedData] = await Promise.all([
+          kernelAccount.kernelPluginManager.getPluginsEnableTypedData(kernelAccount.address, permissionValidator),
+          getRevokeTypedData(publicClient, chainConfig, userEOA, permissionUid, deadline)
+        ]);
         return json(
           {
-            permissionData,
-            kernelAddress: kernelWithPermission.address,
+            typedData,
+            revokeTypedData,
+            deadline,
+            kernelAddress: kernelAccount.address,
             attester: attesterAccount.address,
-            verifier: attesterAccount.address,
-            target: chainConfig.easAddress,
-            selector: ATTEST_SELECTOR,
-            permissionSchemaUid: chainConfig.permissionSchemaUid
+            previousAttester: sessionAttester,
+            permissionUid,
+            uninstallCall: uninstall.call,
+            permissionSchemaUid: chainConfig.permissionSchemaUid,
+            limits,
+            expirationTime
           },
           200,
           origin
         );
       }
 
-      return json({ error: 'Unknown route' }, 404, origin);
+      const enableSignature = (body.enableSignature || '').trim() as Hex;
+      const revokeSignature = (body.revokeSignature || '').trim() as Hex;
+      assert(enableSignature.startsWith('0x'), 'enableSignature required (0x-prefixed)');
+      assert(revokeSignature.startsWith('0x'), 'revokeSignature required (0x-prefixed)');
+      const { permissionData, kernelAddress } = await completePermission(enableSignature);
+
+      return json(
+        {
+          permissionData,
+          // Attest permissionData with this refUID so the service drops the permission it replaces
+          refUID: permissionUid,
+          calls: [uninstall.call, getRevokeCall(chainConfig, userEOA, permissionUid, deadline, revokeSignature)],
+          kernelAddress,
+          attester: attesterAccount.address,
+          previousAttester: sessionAttester,
+          target: chainConfig.easAddress,
+          selector: ATTEST_SELECTOR,
+          schemas: chainConfig.schemaUids,
+          permissionSchemaUid: chainConfig.permissionSchemaUid,
+          limits,
+          expirationTime
+        },
+        200,
+        origin
+      );
+    }
+
+    if (path.endsWith('/prepare')) {
+      const typedData = await kernelAccount.kernelPluginManager.getPluginsEnableTypedData(
+        kernelAccount.address,
+        permissionValidator
+      );
+
+      return json(
+        {
+          typedData,
+          kernelAddress: kernelAccount.address,
+          attester: attesterAccount.address,
+          verifier: attesterAccount.address,
+          target: chainConfig.easAddress,
+          selector: ATTEST_SELECTOR,
+          schemas: chainConfig.schemaUids,
+          permissionSchemaUid: chainConfig.permissionSchemaUid,
+          limits,
+          expirationTime
+        },
+        200,
+        origin
+      );
+    }
+
+    if (path.endsWith('/complete')) {
+      const enableSignature = (body.enableSignature || '').trim() as Hex;
+      assert(enableSignature?.startsWith('0x'), 'enableSignature required (0x-prefixed)');
+
+      const { permissionData, kernelAddress } = await completePermission(enableSignature);
+
+      return json(
+        {
+          permissionData,
+          kernelAddress,
+          attester: attesterAccount.address,
+          verifier: attesterAccount.address,
+          target: chainConfig.easAddress,
+          selector: ATTEST_SELECTOR,
+          schemas: chainConfig.schemaUids,
+          permissionSchemaUid: chainConfig.permissionSchemaUid,
+          limits,
+          expirationTime
+        },
+        200,
+        origin
+      );
+    }
+
+    return json({ error: 'Unknown route' }, 404, origin);
+  } catch (err: any) {
+    return json({ error: err.message || String(err) }, 400, origin);
+  }
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const origin = env.ALLOWED_ORIGIN || '*';
+
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: {
+          'access-control-allow-origin': origin,
+          'access-control-allow-headers': 'content-type, x-api-key',
+          'access-control-allow-methods': 'POST, OPTIONS'
+        }
+      });
+    }
+
+    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405, origin);
+
+    let limiters: ReturnType<typeof getRateLimiters>;
+    try {
+      limiters = getRateLimiters(env);
     } catch (err: any) {
       return json({ error: err.message || String(err) }, 400, origin);
     }
+
+    // Per-IP limit first: it is checked before any parsing or signature work
+    if (limiters.ip) {
+      const ip = request.headers.get('cf-connecting-ip') || 'unknown';
+      const limit = await limiters.ip.take(ip);
+      if (!limit.allowed) return tooManyRequests(limit, origin);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Invalid JSON' }, 400, origin);
+    }
+
+    const url = new URL(request.url);
+    const route = ROUTES.find((r) => url.pathname.endsWith(r));
+    if (!route) return json({ error: 'Unknown route' }, 404, origin);
+
+    let chainId: number;
+    try {
+      chainId = getChainConfig(env).chain.id;
+    } catch (err: any) {
+      return json({ error: err.message || String(err) }, 400, origin);
+    }
+
+    const auth = await authenticate({
+      apiKey: request.headers.get('x-api-key'),
+      expectedApiKey: env.API_KEY,
+      siwe: body?.siwe,
+      userEOA: String(body?.userEOA || '').trim(),
+      route,
+      domains: allowedSiweDomains(url.host, env.ALLOWED_ORIGIN, env.SIWE_DOMAINS),
+      chainId,
+      nonces: env.AUTH_NONCES || memoryNonces
+    });
+    if (!auth.ok) return json({ error: auth.error }, 401, origin);
+
+    // Per-user limit after authentication, so nobody can use up another user's bucket
+    if (limiters.user) {
+      const limit = await limiters.user.take(String(body?.userEOA || '').trim().toLowerCase());
+      if (!limit.allowed) return tooManyRequests(limit, origin);
+    }
+
+    const response = await handlePost(request, env, body, origin);
+    if (response.ok && auth.method === 'siwe') await auth.commit();
+    return response;
   }
 };
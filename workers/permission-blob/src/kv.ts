@@ -0,0 +1,35 @@
+/**
+ * Minimal key-value store: the subset of Cloudflare's KVNamespace the worker uses, so a KV
+ * binding can be passed as-is and tests (or `wrangler dev` without a binding) use memory.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// Cloudflare KV rejects TTLs under 60 seconds
+export const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * In-memory store with TTLs. State lives per isolate, so it is best effort in production.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  constructor(private now: () => number = () => Date.now()) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    const expiresAt = options.expirationTtl === undefined ? undefined : this.now() + options.expirationTtl * 1000;
+    this.entries.set(key, { value, expiresAt });
+  }
+}
@@ -0,0 +1,80 @@
+import { MIN_KV_TTL_SECONDS, type KeyValueStore } from './kv';
+
+/**
+ * Token bucket: `capacity` requests at once, refilled at `refillPerSecond`.
+ */
+export type TokenBucketConfig = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+type BucketState = { tokens: number; updatedAt: number };
+
+/**
+ * Bucket for `perMinute` requests per minute with a burst of the same size; 0 disables it.
+ */
+export function perMinute(perMinute: number): TokenBucketConfig | undefined {
+  if (!Number.isFinite(perMinute) || perMinute <= 0) return undefined;
+  return { capacity: perMinute, refillPerSecond: perMinute / 60 };
+}
+
+/**
+ * Read a `*_PER_MINUTE` setting, falling back to `fallback` when unset.
+ */
+export function readPerMinute(value: string | undefined, fallback: number): TokenBucketConfig | undefined {
+  if (value === undefined || value.trim() === '') return perMinute(fallback);
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`Server misconfigured: rate limit ${value} must be a non-negative number`);
+  return perMinute(parsed);
+}
+
+/**
+ * Token buckets kept in a KeyValueStore, one per key. Reads and writes are not atomic, so
+ * with a KV binding concurrent requests may occasionally slip through; the limit is there to
+ * stop sustained hammering, not to count exactly.
+ */
+export class TokenBucketLimiter {
+  constructor(
+    private store: KeyValueStore,
+    private config: TokenBucketConfig,
+    private prefix: string,
+    private now: () => number = () => Date.now()
+  ) {}
+
+  async take(key: string): Promise<RateLimitResult> {
+    const storeKey = `${this.prefix}:${key}`;
+    const now = this.now();
+    const { capacity, refillPerSecond } = this.config;
+
+    const stored = await this.store.get(storeKey);
+    let state: BucketState = { tokens: capacity, updatedAt: now };
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored) as BucketState;
+        const elapsedSeconds = Math.max(0, now - parsed.updatedAt) / 1000;
+        state = { tokens: Math.min(capacity, parsed.tokens + elapsedSeconds * refillPerSecond), updatedAt: now };
+      } catch {
+        // corrupt entry; start with a full bucket
+      }
+    }
+
+    const allowed = state.tokens >= 1;
+    if (allowed) state.tokens -= 1;
+
+    // Keep the entry until the bucket would be full again; after that a missing entry is equivalent
+    const secondsToFull = Math.ceil((capacity - state.tokens) / refillPerSecond);
+    await this.store.put(storeKey, JSON.stringify(state), { expirationTtl: Math.max(secondsToFull, MIN_KV_TTL_SECONDS) });
+
+    return {
+      allowed,
+      remaining: Math.floor(state.tokens),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - state.tokens) / refillPerSecond)
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import { allowedSiweDomains, authenticate, type AuthRequest } from '../src/auth';
+import { MemoryKeyValueStore } from '../src/kv';
+
+const user = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const other = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const now = new Date('2026-01-01T00:00:00Z');
+
+async function signedRequest(overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}, signer = user) {
+  const message = createSiweMessage({
+    address: user.address,
+    chainId: 8453,
+    domain: 'permissions.didgit.dev',
+    nonce: 'abcdef12345678',
+    uri: 'https://permissions.didgit.dev/prepare',
+    version: '1',
+    issuedAt: now,
+    expirationTime: new Date(now.getTime() + 5 * 60 * 1000),
+    ...overrides
+  });
+  return { message, signature: await signer.signMessage({ message }) };
+}
+
+function request(siwe: unknown, overrides: Partial<AuthRequest> = {}): AuthRequest {
+  return {
+    apiKey: null,
+    expectedApiKey: 'server-key',
+    siwe,
+    userEOA: user.address,
+    route: '/prepare',
+    domains: ['permissions.didgit.dev'],
+    chainId: 8453,
+    nonces: new MemoryKeyValueStore(() => now.getTime()),
+    now,
+    ...overrides
+  };
+}
+
+describe('authenticate', () => {
+  it('accepts a SIWE message signed by userEOA', async () => {
+    const result = await authenticate(request(await signedRequest()));
+    expect(result).toMatchObject({ ok: true, method: 'siwe', address: user.address, nonce: 'abcdef12345678' });
+  });
+
+  it('still accepts the API key and rejects a wrong one', async () => {
+    expect(await authenticate(request(undefined, { apiKey: 'server-key' }))).toEqual({ ok: true, method: 'api-key' });
+    expect(await authenticate(request(await signedRequest(), { apiKey: 'nope' }))).toMatchObject({ ok: false });
+    expect(await authenticate(request(undefined, { apiKey: 'server-key', expectedApiKey: undefined }))).toMatchObject({ ok: false });
+  });
+
+  it('requires credentials', async () => {
+    expect(await authenticate(request(undefined))).toMatchObject({ ok: false, error: expect.stringMatching(/Unauthorized/) });
+  });
+
+  it('rejects signatures from another key or for another user', async () => {
+    expect(await authenticate(request(await signedRequest({}, other)))).toMatchObject({ ok: false, error: 'Invalid SIWE signature' });
+    expect(await authenticate(request(await signedRequest(), { userEOA: other.address }))).toMatchObject({ ok: false });
+  });
+
+  it('rejects another domain, chain, expired or long-lived messages', async () => {
+    expect(await authenticate(request(await signedRequest({ domain: 'evil.example' })))).toMatchObject({ ok: false });
+    expect(await authenticate(request(await signedRequest({ chainId: 1 })))).toMatchObject({ ok: false });
+    expect(await authenticate(request(await signedRequest({ expirationTime: undefined })))).toMatchObject({ ok: false });
+    expect(await authenticate(request(await signedRequest({ expirationTime: new Date(now.getTime() - 1000) })))).toMatchObject({ ok: false });
+    expect(await authenticate(request(await signedRequest({ expirationTime: new Date(now.getTime() + 60 * 60 * 1000) })))).toMatchObject({ ok: false });
+  });
+
+  it('rejects a replayed nonce once committed, per route', async () => {
+    const siwe = await signedRequest();
+    const nonces = new MemoryKeyValueStore(() => now.getTime());
+
+    const first = await authenticate(request(siwe, { nonces }));
+    // Not committed (request failed): a retry is allowed
+    expect((await authenticate(request(siwe, { nonces }))).ok).toBe(true);
+    if (first.ok && first.method === 'siwe') await first.commit();
+
+    expect(await authenticate(request(siwe, { nonces }))).toMatchObject({ ok: false, error: 'SIWE nonce already used' });
+    expect((await authenticate(request(siwe, { nonces, route: '/complete' }))).ok).toBe(true);
+  });
+});
+
+describe('allowedSiweDomains', () => {
+  it('combines the worker host, ALLOWED_ORIGIN and SIWE_DOMAINS', () => {
+    expect(allowedSiweDomains('permissions.didgit.dev', 'https://didgit.dev', 'localhost:5173, ')).toEqual([
+      'permissions.didgit.dev',
+      'didgit.dev',
+      'localhost:5173'
+    ]);
+    expect(allowedSiweDomains('localhost:8787', '*')).toEqual(['localhost:8787']);
+  });
+});
+
+describe('MemoryKeyValueStore', () => {
+  it('expires entries after their TTL', async () => {
+    let clock = 0;
+    const store = new MemoryKeyValueStore(() => clock);
+    await store.put('a', '1', { expirationTtl: 60 });
+    await store.put('b', '2');
+    expect(await store.get('a')).toBe('1');
+    clock = 60_000;
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBe('2');
+  });
+});
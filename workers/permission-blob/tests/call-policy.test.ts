@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, parseAbi, pad, slice, concatHex, type Address, type Hex } from 'viem';
+import { ParamCondition } from '@zerodev/permissions/policies';
+import { ATTEST_SELECTOR, allowedSchemaUids, attestSchemaRules, toAttestCallPolicy } from '../src/call-policy';
+
+const EAS = '0x4200000000000000000000000000000000000021' as Address;
+const CONTRIBUTION = '0x7425c71616d2959f30296d8e013a8fd23320145b1dfda0718ab0a692087f8782' as Hex;
+const PULL_REQUEST = `0x${'11'.repeat(32)}` as Hex;
+const REVIEW = `0x${'22'.repeat(32)}` as Hex;
+const OTHER = `0x${'33'.repeat(32)}` as Hex;
+
+const easAbi = parseAbi([
+  'function attest((bytes32 schema, (address recipient, uint64 expirationTime, bool revocable, bytes32 refUID, bytes data, uint256 value) data) request) payable returns (bytes32)',
+  'function multiAttest((bytes32 schema, (address recipient, uint64 expirationTime, bool revocable, bytes32 refUID, bytes data, uint256 value)[] data)[] multiRequests) payable returns (bytes32[])'
+]);
+
+function attestCall(schema: Hex): Hex {
+  return encodeFunctionData({
+    abi: easAbi,
+    functionName: 'attest',
+    args: [{
+      schema,
+      data: {
+        recipient: '0x00000000000000000000000000000000000000aa',
+        expirationTime: 0n,
+        revocable: true,
+        refUID: pad('0x', { size: 32 }),
+        data: '0x1234',
+        value: 0n
+      }
+    }]
+  });
+}
+
+/**
+ * Mirror of the CallPolicy (0.0.4) checks for a single call: target, selector, value and
+ * each argument rule on the 32-byte word at `4 + offset` of the call data.
+ */
+function allows(schemaUids: Hex[], call: { to: Address; data: Hex; value?: bigint }) {
+  const [permission] = (toAttestCallPolicy(EAS, schemaUids).policyParams as any).permissions;
+  if (call.to.toLowerCase() !== permission.target.toLowerCase()) return false;
+  if (slice(call.data, 0, 4) !== permission.selector) return false;
+  if ((call.value ?? 0n) > permission.valueLimit) return false;
+  return (permission.rules as Array<{ condition: ParamCondition; offset: number; params: Hex[] }>).every((rule) => {
+    const word = slice(call.data, 4 + rule.offset, 4 + rule.offset + 32);
+    if (rule.condition === ParamCondition.EQUAL) return word === rule.params[0];
+    if (rule.condition === ParamCondition.ONE_OF) return rule.params.includes(word);
+    return false;
+  });
+}
+
+describe('allowedSchemaUids', () => {
+  it('always includes the contribution schema and adds configured PR/review schemas', () => {
+    expect(allowedSchemaUids({ contributionSchemaUid: CONTRIBUTION })).toEqual([CONTRIBUTION]);
+    expect(allowedSchemaUids({ contributionSchemaUid: CONTRIBUTION, pullRequestSchemaUid: PULL_REQUEST, reviewSchemaUid: REVIEW }))
+      .toEqual([CONTRIBUTION, PULL_REQUEST, REVIEW]);
+    expect(allowedSchemaUids({ contributionSchemaUid: CONTRIBUTION.toUpperCase().replace('0X', '0x'), reviewSchemaUid: CONTRIBUTION }))
+      .toEqual([CONTRIBUTION]);
+  });
+
+  it('rejects malformed UIDs', () => {
+    expect(() => allowedSchemaUids({ contributionSchemaUid: '0x1234' })).toThrow(/32-byte hex/);
+  });
+});
+
+describe('attest call policy', () => {
+  it('uses EQUAL for a single schema and ONE_OF for several', () => {
+    expect(attestSchemaRules([CONTRIBUTION]).map((r) => r.condition)).toEqual([ParamCondition.EQUAL, ParamCondition.EQUAL]);
+    expect(attestSchemaRules([CONTRIBUTION, REVIEW])[1]).toEqual({ condition: ParamCondition.ONE_OF, offset: 32, params: [CONTRIBUTION, REVIEW] });
+    expect(() => attestSchemaRules([])).toThrow();
+  });
+
+  it('allows attest to the contribution schema', () => {
+    expect(allows([CONTRIBUTION], { to: EAS, data: attestCall(CONTRIBUTION) })).toBe(true);
+  });
+
+  it('rejects attest to any other schema', () => {
+    expect(allows([CONTRIBUTION], { to: EAS, data: attestCall(OTHER) })).toBe(false);
+    expect(allows([CONTRIBUTION], { to: EAS, data: attestCall(PULL_REQUEST) })).toBe(false);
+    expect(allows([CONTRIBUTION, PULL_REQUEST, REVIEW], { to: EAS, data: attestCall(OTHER) })).toBe(false);
+  });
+
+  it('allows PR and review schemas only when configured', () => {
+    const schemas = [CONTRIBUTION, PULL_REQUEST, REVIEW];
+    expect(allows(schemas, { to: EAS, data: attestCall(PULL_REQUEST) })).toBe(true);
+    expect(allows(schemas, { to: EAS, data: attestCall(REVIEW) })).toBe(true);
+  });
+
+  it('rejects a call that moves the request tuple past an allowed schema word', () => {
+    // Head points at 0x40; the word at 0x20 holds the allowed schema, the decoded tuple another one
+    const genuine = attestCall(OTHER);
+    const tuple = slice(genuine, 4 + 32);
+    const forged = concatHex([ATTEST_SELECTOR, pad('0x40', { size: 32 }), CONTRIBUTION, tuple]);
+    expect(allows([CONTRIBUTION], { to: EAS, data: forged })).toBe(false);
+  });
+
+  it('rejects other EAS functions, other targets and value', () => {
+    const multi = encodeFunctionData({ abi: easAbi, functionName: 'multiAttest', args: [[{ schema: CONTRIBUTION, data: [] }]] });
+    expect(allows([CONTRIBUTION], { to: EAS, data: multi })).toBe(false);
+    expect(allows([CONTRIBUTION], { to: '0x0000000000000000000000000000000000000001', data: attestCall(CONTRIBUTION) })).toBe(false);
+    expect(allows([CONTRIBUTION], { to: EAS, data: attestCall(CONTRIBUTION), value: 1n })).toBe(false);
+  });
+
+  it('encodes the schema into the on-chain policy data', () => {
+    const data = toAttestCallPolicy(EAS, [CONTRIBUTION]).getPolicyData();
+    expect(data.toLowerCase()).toContain(CONTRIBUTION.slice(2));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { MemoryKeyValueStore } from '../src/kv';
+import { TokenBucketLimiter, perMinute, readPerMinute } from '../src/rate-limit';
+
+function limiter(config = { capacity: 2, refillPerSecond: 1 }) {
+  let clock = 1_000_000;
+  const store = new MemoryKeyValueStore(() => clock);
+  const bucket = new TokenBucketLimiter(store, config, 'test', () => clock);
+  return { bucket, advance: (ms: number) => { clock += ms; } };
+}
+
+describe('TokenBucketLimiter', () => {
+  it('allows a burst up to capacity, then asks to retry once a token refills', async () => {
+    const { bucket } = limiter();
+    expect(await bucket.take('a')).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+    expect(await bucket.take('a')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+    expect(await bucket.take('a')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 1 });
+  });
+
+  it('refills over time without exceeding capacity', async () => {
+    const { bucket, advance } = limiter({ capacity: 2, refillPerSecond: 0.5 });
+    await bucket.take('a');
+    await bucket.take('a');
+    expect((await bucket.take('a')).retryAfterSeconds).toBe(2);
+    advance(2000);
+    expect((await bucket.take('a')).allowed).toBe(true);
+    advance(60 * 60 * 1000);
+    expect(await bucket.take('a')).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('keeps a separate bucket per key', async () => {
+    const { bucket } = limiter({ capacity: 1, refillPerSecond: 1 });
+    expect((await bucket.take('a')).allowed).toBe(true);
+    expect((await bucket.take('a')).allowed).toBe(false);
+    expect((await bucket.take('b')).allowed).toBe(true);
+  });
+});
+
+describe('rate limit settings', () => {
+  it('reads per-minute limits with defaults and 0 to disable', () => {
+    expect(readPerMinute(undefined, 30)).toEqual({ capacity: 30, refillPerSecond: 0.5 });
+    expect(readPerMinute('6', 30)).toEqual({ capacity: 6, refillPerSecond: 0.1 });
+    expect(readPerMinute('0', 30)).toBeUndefined();
+    expect(perMinute(0)).toBeUndefined();
+    expect(() => readPerMinute('lots', 30)).toThrow(/rate limit/);
+  });
+});
+
+describe('worker rate limiting', () => {
+  const env = { API_KEY: 'server-key', RATE_LIMITS: new MemoryKeyValueStore(), RATE_LIMIT_IP_PER_MINUTE: '2' };
+
+  function post(ip: string) {
+    return new Request('https://permissions.didgit.dev/prepare', {
+      method: 'POST',
+      headers: { 'cf-connecting-ip': ip },
+      body: 'not json'
+    });
+  }
+
+  it('answers 429 with Retry-After once an IP runs out of tokens', async () => {
+    expect((await worker.fetch(post('192.0.2.1'), env)).status).toBe(400);
+    expect((await worker.fetch(post('192.0.2.1'), env)).status).toBe(400);
+
+    const limited = await worker.fetch(post('192.0.2.1'), env);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('30');
+    expect(await limited.json()).toMatchObject({ error: 'Too many requests', retryAfter: 30 });
+
+    expect((await worker.fetch(post('192.0.2.2'), env)).status).toBe(400);
+  });
+});